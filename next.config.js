@@ -5,7 +5,7 @@ const nextConfig = {
   swcMinify: true,
   // Keep server-only packages in the server bundle
   experimental: {
-    serverComponentsExternalPackages: ['puppeteer', 'puppeteer-core', 'undici']
+    serverComponentsExternalPackages: ['puppeteer', 'puppeteer-core', 'undici', 'pdfmake']
   },
   // Environment variables that will be exposed to the client
   env: {
@@ -1,6 +1,6 @@
 import { logger } from '@/utils/logger';
-import { ComplianceRequirement } from '@/mcp/compliance-mcp/compliance-mcp.interface';
-import { MarketInsight } from '@/mcp/market-intelligence-mcp/market-intelligence-mcp.interface';
+import { ComplianceRequirement, RequirementEvidence } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { MarketInsight } from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.interface';
 import { BusinessProfile, Product } from '@/contexts/assessment-context';
 import axios from 'axios';
 import { ApiKeyManager } from '@/utils/api-key-manager';
@@ -21,6 +21,8 @@ interface VerificationResponse {
   confidence: number;
   correctedData?: any;
   explanation?: string;
+  // Set when no API answer was available and the result was simulated
+  simulated?: boolean;
 }
 
 /**
@@ -74,15 +76,17 @@ export class PerplexityVerificationService {
           // Add confidence score to the requirement
           const verifiedRequirement = {
             ...requirement,
-            confidenceScore: verificationResult.confidence
+            confidenceScore: verificationResult.confidence,
+            applicability: this.withVerificationEvidence(requirement, verificationResult)
           };
           
           verifiedRequirements.push(verifiedRequirement);
         } else if (verificationResult.correctedData) {
-          // Use corrected data with confidence score
+          // Use corrected data with confidence score, keeping why the requirement applies
           verifiedRequirements.push({
             ...verificationResult.correctedData,
-            confidenceScore: verificationResult.confidence
+            confidenceScore: verificationResult.confidence,
+            applicability: this.withVerificationEvidence(requirement, verificationResult)
           });
         } else {
           // Use original data but with low confidence score
@@ -324,7 +328,31 @@ export class PerplexityVerificationService {
       confidence: confidenceScore,
       explanation: isVerified 
         ? 'Data verified with high confidence.' 
-        : 'Some inconsistencies found in the data.'
+        : 'Some inconsistencies found in the data.',
+      simulated: true
+    };
+  }
+
+  /**
+   * Add Perplexity to a requirement's evidence, unless the verification was only simulated
+   */
+  private withVerificationEvidence(
+    requirement: ComplianceRequirement,
+    verificationResult: VerificationResponse
+  ): ComplianceRequirement['applicability'] {
+    if (verificationResult.simulated) {
+      return requirement.applicability;
+    }
+
+    const evidence: RequirementEvidence = {
+      source: 'perplexity-verification',
+      reference: this.model,
+      title: verificationResult.explanation,
+      verifiedAt: new Date().toISOString().split('T')[0]
+    };
+    return {
+      matches: requirement.applicability?.matches ?? [],
+      evidence: [...(requirement.applicability?.evidence ?? []), evidence]
     };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { llmClassificationFixtures } from '@/data/classification-evaluation';
+import { ClassificationEvaluationService } from '@/services/classification-evaluation/classification-evaluation.service';
+import {
+  createCombinedStrategy,
+  createKeywordStrategy,
+  createLlmStrategy,
+  createVectorStrategy,
+  recordedCompletion
+} from '@/services/classification-evaluation/classifier-strategies';
+import { ClassifierStrategy, ClassifierStrategyName } from '@/types/classification-evaluation.types';
+import { logger } from '@/utils/logger';
+
+const strategyFactories: Record<ClassifierStrategyName, () => ClassifierStrategy> = {
+  keyword: () => createKeywordStrategy(),
+  vector: () => createVectorStrategy(),
+  // Replays recorded completions, so no OpenAI API key is needed
+  llm: () => createLlmStrategy(recordedCompletion(llmClassificationFixtures)),
+  combined: () => createCombinedStrategy()
+};
+
+const classificationEvaluationService = new ClassificationEvaluationService();
+
+export async function GET(req: NextRequest) {
+  try {
+    const requested = req.nextUrl.searchParams.get('strategies');
+    const names = requested
+      ? requested.split(',').map(name => name.trim())
+      : Object.keys(strategyFactories);
+
+    const unknown = names.filter(name => !Object.prototype.hasOwnProperty.call(strategyFactories, name));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown classifier strategies: ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const strategies = (names as ClassifierStrategyName[]).map(name => strategyFactories[name]());
+    const report = await classificationEvaluationService.evaluate(strategies);
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in classification evaluation API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error evaluating HS classifiers',
+      details: errorMessage
+    }, {
+      status: 500
+    });
+  }
+}
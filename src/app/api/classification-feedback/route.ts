@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HsCodeMCPService } from '@/mcp/global/hs-code-mcp/hs-code-mcp.service';
+import {
+  CLASSIFICATION_CORRECTIONS_FILE,
+  ClassificationFeedbackStore
+} from '@/services/classification/classificationFeedbackStore';
+import { ClassificationCorrection } from '@/types/classification.types';
+import { FileKeyValueStorage } from '@/utils/file-key-value-storage';
+import { logger } from '@/utils/logger';
+
+const feedbackStore = new ClassificationFeedbackStore(new FileKeyValueStorage(CLASSIFICATION_CORRECTIONS_FILE));
+const hsCodeMCP = new HsCodeMCPService(feedbackStore);
+
+type CorrectionRequest = Omit<ClassificationCorrection, 'correctedAt'>;
+
+// HS codes may be sent with dots or spaces ('0207.14'), but must hold 6 to 10 digits
+const normalizeHsCode = (code: unknown): string | null => {
+  if (typeof code !== 'string' || !/^[\d.\s]+$/.test(code)) return null;
+  const digits = code.replace(/\D/g, '');
+  return /^\d{6,10}$/.test(digits) ? digits : null;
+};
+
+export async function POST(req: NextRequest) {
+  try {
+    const { productDescription, originalClassification, finalClassification, finalDescription } =
+      await req.json() as CorrectionRequest;
+
+    if (!productDescription || !finalClassification) {
+      return NextResponse.json(
+        { error: 'Product description and corrected HS code are required' },
+        { status: 400 }
+      );
+    }
+
+    const finalCode = normalizeHsCode(finalClassification);
+    const originalCode = originalClassification == null ? undefined : normalizeHsCode(originalClassification);
+
+    if (!finalCode || originalCode === null) {
+      return NextResponse.json(
+        { error: 'HS codes must have 6 to 10 digits' },
+        { status: 400 }
+      );
+    }
+
+    const correction: ClassificationCorrection = {
+      productDescription,
+      originalClassification: originalCode,
+      finalClassification: finalCode,
+      finalDescription,
+      correctedAt: new Date().toISOString()
+    };
+    hsCodeMCP.recordCorrection(correction);
+
+    return NextResponse.json({ success: true, data: correction });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in classification feedback API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error recording classification correction',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const minCorrections = Number(req.nextUrl.searchParams.get('minCorrections') || 2);
+
+    if (!Number.isInteger(minCorrections) || minCorrections < 1) {
+      return NextResponse.json(
+        { error: 'minCorrections must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: feedbackStore.getFrequentlyCorrectedCodes(minCorrections)
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in classification feedback API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error reading classification corrections',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
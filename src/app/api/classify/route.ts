@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/utils/logger';
+import {
+  buildClassificationRequest,
+  LlmClassificationResponse,
+  parseClassificationResponse
+} from '@/services/classification/llmClassification';
+import {
+  CLASSIFICATION_CORRECTIONS_FILE,
+  ClassificationFeedbackStore
+} from '@/services/classification/classificationFeedbackStore';
+import { FileKeyValueStorage } from '@/utils/file-key-value-storage';
 import axios from 'axios';
 
 interface OpenAIResponse {
@@ -10,6 +20,32 @@ interface OpenAIResponse {
   }>;
 }
 
+const feedbackStore = new ClassificationFeedbackStore(new FileKeyValueStorage(CLASSIFICATION_CORRECTIONS_FILE));
+
+/**
+ * Past corrections of similar products boost the code they were corrected to
+ */
+function withCorrections(description: string, result: LlmClassificationResponse): LlmClassificationResponse {
+  const [best] = feedbackStore.applyCorrections(
+    description,
+    [{ hsCode: result.hsCode.code, description: result.hsCode.description, confidence: result.confidence }],
+    boost => ({ hsCode: boost.hsCode, description: boost.description || '', confidence: 0 })
+  );
+  if (!best) {
+    return result;
+  }
+
+  const hsCode = best.hsCode === result.hsCode.code
+    ? result.hsCode
+    : {
+      code: best.hsCode,
+      description: best.description,
+      chapter: best.hsCode.substring(0, 2),
+      heading: best.hsCode.substring(0, 4)
+    };
+  return { ...result, hsCode, confidence: best.confidence };
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
@@ -50,54 +86,20 @@ export async function POST(req: NextRequest) {
     }
 
     // Prepare the prompt for classification
-    const prompt = `
-      Classify the following product with:
-      1. A product category
-      2. A subcategory if applicable
-      3. The most appropriate HS (Harmonized System) code for export
-
-      Product to classify:
-      ${description}
-
-      Return a JSON object in this format:
-      {
-        "hsCode": {
-          "code": "6-digit HS code",
-          "description": "HS code description",
-          "chapter": "2-digit chapter number",
-          "heading": "4-digit heading number"
-        },
-        "confidence": 0.95,
-        "category": "main_category",
-        "subcategory": "sub_category"
-      }
-    `;
+    const classificationRequest = buildClassificationRequest(description);
 
     try {
       // First attempt with Project API key format
       const response = await axios.post<OpenAIResponse>(
         'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a trade classification expert specializing in HS code assignment.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.1
-        },
+        classificationRequest,
         { headers }
       );
 
       const content = response.data.choices[0].message.content;
-      const result = JSON.parse(content);
+      const result = parseClassificationResponse(content);
 
-      return NextResponse.json(result);
+      return NextResponse.json(withCorrections(description, result));
     } catch (apiError: any) {
       // If first attempt fails with 401 and we're using a Project key, try standard format
       if (isProjectKey && apiError.response?.status === 401) {
@@ -111,27 +113,14 @@ export async function POST(req: NextRequest) {
 
         const retryResponse = await axios.post<OpenAIResponse>(
           'https://api.openai.com/v1/chat/completions',
-          {
-            model: 'gpt-4',
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a trade classification expert specializing in HS code assignment.'
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            temperature: 0.1
-          },
+          classificationRequest,
           { headers: altHeaders }
         );
 
         const retryContent = retryResponse.data.choices[0].message.content;
-        const retryResult = JSON.parse(retryContent);
+        const retryResult = parseClassificationResponse(retryContent);
 
-        return NextResponse.json(retryResult);
+        return NextResponse.json(withCorrections(description, retryResult));
       }
 
       // If retry also failed or wasn't attempted, throw the original error
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ComplianceMCPResponse } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { CurrencyConversionError } from '@/services/currency/currency.service';
+import { DocumentPdfRendererService } from '@/services/export-documents/document-pdf-renderer.service';
+import { ExportDocumentService } from '@/services/export-documents/export-document.service';
+import { BusinessProfile } from '@/types/business-profile.types';
+import { ExportDocumentType, ExportShipment } from '@/types/export-document.types';
+import { logger } from '@/utils/logger';
+
+const exportDocumentService = new ExportDocumentService();
+const pdfRenderer = new DocumentPdfRendererService();
+
+interface ExportDocumentsRequest {
+  compliance: ComplianceMCPResponse;
+  businessProfile: BusinessProfile;
+  shipment: ExportShipment;
+  format?: 'json' | 'pdf';
+  // Render only this draft when the format is pdf
+  documentType?: ExportDocumentType;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { compliance, businessProfile, shipment, format = 'json', documentType } =
+      await req.json() as ExportDocumentsRequest;
+
+    const missingFields = exportDocumentService.findMissingInputs(compliance, businessProfile, shipment);
+    if (missingFields.length > 0) {
+      return NextResponse.json(
+        { error: `Missing required fields: ${missingFields.join(', ')}`, missingFields },
+        { status: 400 }
+      );
+    }
+
+    const pack = exportDocumentService.createPack(compliance, businessProfile, shipment);
+
+    if (format === 'pdf') {
+      const pdf = await pdfRenderer.render(pack, documentType);
+      const fileName = `${shipment.reference.replace(/[^\w-]+/g, '_')}_${documentType || 'export_documents'}.pdf`;
+
+      return new NextResponse(pdf, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${fileName}"`
+        }
+      });
+    }
+
+    return new NextResponse(exportDocumentService.toJson(pack), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    // Raised for shipment currencies without an exchange rate
+    if (error instanceof CurrencyConversionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in export documents API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error generating export documents',
+      details: errorMessage
+    }, {
+      status: 500
+    });
+  }
+}
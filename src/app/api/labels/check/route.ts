@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ComplianceMCPResponse,
+  LabelingRequirements
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { parseIngredientList } from '@/services/label-compliance/ingredient-matcher';
+import { LabelComplianceService } from '@/services/label-compliance/label-compliance.service';
+import { ProductLabel } from '@/types/label-compliance.types';
+import { logger } from '@/utils/logger';
+
+const labelComplianceService = new LabelComplianceService();
+
+interface LabelCheckRequest {
+  // Ingredients may be sent as the printed list
+  label: Omit<ProductLabel, 'ingredients'> & { ingredients: string[] | string };
+  marketCode: string;
+  // Requirements to check against; taken from the compliance result when omitted
+  labeling?: LabelingRequirements;
+  compliance?: ComplianceMCPResponse;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { label, marketCode, labeling, compliance } = await req.json() as LabelCheckRequest;
+
+    if (!label || !label.productName || !label.ingredients || !label.languages || !marketCode) {
+      return NextResponse.json(
+        { error: 'Label with product name, ingredients and languages, and a market code are required' },
+        { status: 400 }
+      );
+    }
+
+    const requirements = labeling
+      || (compliance && labelComplianceService.getLabelingRequirements(compliance, marketCode));
+    if (!requirements) {
+      return NextResponse.json(
+        { error: `No labelling requirements available for ${marketCode}` },
+        { status: 404 }
+      );
+    }
+
+    const ingredients = typeof label.ingredients === 'string'
+      ? parseIngredientList(label.ingredients)
+      : label.ingredients;
+    const result = labelComplianceService.checkLabel({ ...label, ingredients }, requirements, marketCode);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in label check API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error checking label compliance',
+      details: errorMessage
+    }, {
+      status: 500
+    });
+  }
+}
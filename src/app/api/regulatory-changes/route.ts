@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ComplianceRequest } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { ComplianceMCPService } from '@/mcp/compliance-mcp/compliance-mcp.service';
+import { ComplianceRuleBase } from '@/mcp/compliance-mcp/rules/compliance-rule-base.service';
+import { ComplianceSnapshotStore } from '@/services/regulatory-changes/compliance-snapshot.store';
+import { RegulatoryChangeAlertStore } from '@/services/regulatory-changes/regulatory-change-alert.store';
+import { RegulatoryChangeNotifier, WebhookNotifier } from '@/services/regulatory-changes/regulatory-change-notifier';
+import { RegulatoryChangeTracker } from '@/services/regulatory-changes/regulatory-change-tracker.service';
+import { FileKeyValueStorage } from '@/utils/file-key-value-storage';
+import { logger } from '@/utils/logger';
+
+const ruleBase = new ComplianceRuleBase();
+const notifiers: RegulatoryChangeNotifier[] = process.env.REGULATORY_CHANGE_WEBHOOK_URL
+  ? [new WebhookNotifier(process.env.REGULATORY_CHANGE_WEBHOOK_URL)]
+  : [];
+const tracker = new RegulatoryChangeTracker(
+  new ComplianceMCPService(undefined, ruleBase),
+  notifiers,
+  new ComplianceSnapshotStore(new FileKeyValueStorage('compliance-snapshots.json')),
+  // Alerts are always stored, so users see them through GET even without a webhook
+  new RegulatoryChangeAlertStore(new FileKeyValueStorage('regulatory-change-alerts.json'))
+);
+
+// Snapshots outlive the process, so re-check them whenever the rule base loaded here is newer
+tracker.checkForRuleBaseChanges(ruleBase.getVersions()).catch(error => {
+  logger.error(`Error checking tracked assessments for regulatory changes: ${error}`);
+});
+
+interface TrackAssessmentRequest {
+  assessmentId: string;
+  request: ComplianceRequest;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { assessmentId, request } = await req.json() as TrackAssessmentRequest;
+
+    if (!assessmentId || !request || !Array.isArray(request.targetMarkets) || !Array.isArray(request.productCategories)) {
+      return NextResponse.json(
+        { error: 'Assessment ID and compliance request with target markets and product categories are required' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await tracker.trackAssessment(assessmentId, request);
+
+    return NextResponse.json({
+      success: true,
+      data: snapshot
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in regulatory changes API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error tracking assessment for regulatory changes',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const assessmentId = req.nextUrl.searchParams.get('assessmentId') || undefined;
+
+    return NextResponse.json({
+      success: true,
+      data: tracker.getAlerts(assessmentId)
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in regulatory changes API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error reading regulatory change alerts',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
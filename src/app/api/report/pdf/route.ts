@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PdfRendererService } from '@/services/report-generator/pdf-renderer.service';
+import { ReportTemplateError } from '@/services/report-generator/templates/report-template.service';
+import { ReportData } from '@/types/report.types';
+import { logger } from '@/utils/logger';
+
+const pdfRenderer = new PdfRendererService();
+
+export async function POST(req: NextRequest) {
+  try {
+    const report = await req.json() as ReportData;
+
+    if (!report || !report.businessProfile || !report.certificationRoadmap || !report.actionPlan) {
+      return NextResponse.json(
+        { error: 'Complete report data is required' },
+        { status: 400 }
+      );
+    }
+
+    const pdf = await pdfRenderer.render(report);
+    const fileName = `${report.businessProfile.name.replace(/[^\w-]+/g, '_')}_export_readiness_report.pdf`;
+    // Header values must be Latin-1, so the name as entered is sent RFC 5987 encoded alongside the ASCII fallback
+    const encodedFileName = encodeURIComponent(
+      `${report.businessProfile.name.replace(/\s+/g, '_')}_export_readiness_report.pdf`
+    ).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"; filename*=UTF-8''${encodedFileName}`
+      }
+    });
+  } catch (error) {
+    if (error instanceof ReportTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in report PDF API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error rendering PDF report',
+      details: errorMessage
+    }, {
+      status: 500
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  RulesOfOriginError,
+  RulesOfOriginService
+} from '@/mcp/compliance-mcp/rules-of-origin/rules-of-origin.service';
+import { OriginEvaluationRequest } from '@/mcp/compliance-mcp/rules-of-origin/rules-of-origin.interface';
+import { logger } from '@/utils/logger';
+
+const rulesOfOriginService = new RulesOfOriginService();
+
+export async function POST(req: NextRequest) {
+  try {
+    const request = await req.json() as OriginEvaluationRequest;
+
+    if (!request || !request.hsCode || !request.destinationCountry || !Array.isArray(request.billOfMaterials)) {
+      return NextResponse.json(
+        { error: 'HS code, destination country and bill of materials are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = rulesOfOriginService.evaluate(request);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        tariffRate: rulesOfOriginService.toTariffRate(result)
+      }
+    });
+  } catch (error) {
+    if (error instanceof RulesOfOriginError) {
+      return NextResponse.json(
+        { error: error.message, details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in rules of origin API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error evaluating rules of origin',
+      details: errorMessage
+    }, {
+      status: 500
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SanctionsScreeningService } from '@/services/sanctions-screening/sanctions-screening.service';
+import { ScreeningRequest } from '@/types/sanctions-screening.types';
+import { logger } from '@/utils/logger';
+
+const sanctionsScreeningService = new SanctionsScreeningService();
+
+export async function POST(req: NextRequest) {
+  try {
+    const { exporterCountry, targetMarkets, products } = await req.json() as ScreeningRequest;
+
+    if (!Array.isArray(targetMarkets) || targetMarkets.length === 0 || !Array.isArray(products)) {
+      return NextResponse.json(
+        { error: 'Target markets and a list of products are required' },
+        { status: 400 }
+      );
+    }
+
+    if (products.some(product => !product || !product.name)) {
+      return NextResponse.json(
+        { error: 'Every product needs a name' },
+        { status: 400 }
+      );
+    }
+
+    const result = sanctionsScreeningService.screen({ exporterCountry, targetMarkets, products });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error in sanctions screening API: ${errorMessage}`);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Error screening target markets',
+      details: errorMessage
+    }, {
+      status: 500
+    });
+  }
+}
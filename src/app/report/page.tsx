@@ -6,10 +6,15 @@ import { Box, Button, Container, CircularProgress, Typography, Paper } from '@mu
 import { ReportProvider, useReport } from '@/contexts/report-context';
 import { useAssessment, AssessmentProvider } from '@/contexts/assessment-context';
 import { ReportFormat } from '@/types/report.types';
+import { ReportChangesView } from '@/components/report/ReportChangesView';
+import { RegulatoryAlertsView } from '@/components/report/RegulatoryAlertsView';
+import { ReadinessScoreBreakdownView } from '@/components/report/ReadinessScoreBreakdownView';
+import { ScenarioComparisonView } from '@/components/report/ScenarioComparisonView';
+import { RequirementApplicabilityView } from '@/components/report/RequirementApplicabilityView';
 
 // Component for displaying the report content
 function ReportContent() {
-  const { state, generateReport, exportReport } = useReport();
+  const { state, generateReport, exportReport, compareWithVersion, compareScenarios } = useReport();
   const { state: assessmentState, dispatch } = useAssessment();
   const router = useRouter();
   
@@ -74,6 +79,14 @@ function ReportContent() {
     exportReport(ReportFormat.HTML);
   };
 
+  const handleExportXlsx = () => {
+    exportReport(ReportFormat.XLSX);
+  };
+
+  const handleExportCsv = () => {
+    exportReport(ReportFormat.CSV);
+  };
+
   const handleBack = () => {
     router.push('/assessment');
   };
@@ -157,12 +170,30 @@ function ReportContent() {
               <Button variant="outlined" onClick={handleExportHtml}>
                 Export as HTML
               </Button>
+              <Button variant="outlined" onClick={handleExportXlsx}>
+                Export as Excel
+              </Button>
+              <Button variant="outlined" onClick={handleExportCsv}>
+                Export as CSV
+              </Button>
               <Button variant="text" onClick={handleBack}>
                 Return to Assessment
               </Button>
             </Box>
           </Paper>
           
+          {/* What Changed Section */}
+          <ReportChangesView
+            diff={state.reportDiff}
+            history={state.reportHistory}
+            currentVersion={state.currentVersion}
+            comparedVersion={state.comparedVersion}
+            onCompareVersionChange={compareWithVersion}
+          />
+          
+          {/* Regulatory Changes Section */}
+          <RegulatoryAlertsView alerts={state.regulatoryAlerts} />
+          
           {/* Summary Section */}
           <Paper sx={{ p: 4, mb: 4, borderRadius: 2 }}>
             <Typography variant="h5" gutterBottom>
@@ -186,10 +217,44 @@ function ReportContent() {
                 <li>Products: {state.reportData.selectedProducts.map(p => p.name).join(', ')}</li>
                 <li>Required Certifications: {state.reportData.certificationRoadmap.requirements.length}</li>
                 <li>Estimated Timeline: {Math.ceil(state.reportData.certificationRoadmap.totalEstimatedTimelineInDays / 30)} months</li>
+                <li>
+                  Estimated Certification Cost: {state.reportData.certificationRoadmap.totalEstimatedCost.min.toLocaleString()} - {state.reportData.certificationRoadmap.totalEstimatedCost.max.toLocaleString()} {state.reportData.certificationRoadmap.totalEstimatedCost.currency}
+                  {state.reportData.currencyConversion?.reportCurrency === state.reportData.certificationRoadmap.totalEstimatedCost.currency &&
+                    Object.keys(state.reportData.currencyConversion.rates).length > 0 && (
+                    <Typography component="span" variant="body2" color="text.secondary">
+                      {' '}(up to {Object.entries(state.reportData.currencyConversion.rates)
+                        .filter(([code]) => code !== state.reportData!.certificationRoadmap.totalEstimatedCost.currency)
+                        .map(([code, rate]) => `${code} ${Math.round(state.reportData!.certificationRoadmap.totalEstimatedCost.max * rate).toLocaleString()}`)
+                        .join(', ')} at rates as of {state.reportData.currencyConversion.rateDate})
+                    </Typography>
+                  )}
+                </li>
+                {state.reportData.currencyConversion?.warnings?.map(warning => (
+                  <li key={warning}>
+                    <Typography component="span" variant="body2" color="warning.main">
+                      Currency note: {warning}
+                    </Typography>
+                  </li>
+                ))}
               </ul>
             </Box>
           </Paper>
           
+          {/* Score Breakdown Section */}
+          <ReadinessScoreBreakdownView breakdown={state.reportData.exportReadinessBreakdown} />
+          
+          {/* Requirement Applicability Section */}
+          <RequirementApplicabilityView requirements={state.reportData.certificationRoadmap.requirements} />
+          
+          {/* Scenario Comparison Section */}
+          <ScenarioComparisonView
+            comparison={state.scenarioComparison}
+            isComparing={state.isComparingScenarios}
+            targetMarkets={state.reportData.marketInfo.targetMarkets}
+            budget={state.reportData.budget}
+            onCompare={compareScenarios}
+          />
+          
           {/* Quick Teaser Sections */}
           <Box display="flex" gap={3} flexWrap="wrap">
             <Paper sx={{ p: 3, borderRadius: 2, flex: '1 1 45%', minWidth: 300 }}>
@@ -209,6 +274,13 @@ function ReportContent() {
               <Typography variant="body2">
                 {state.reportData.certificationRoadmap.requirements.length} certifications required
               </Typography>
+              {state.reportData.certificationRoadmap.budgetPlan && (
+                <Typography variant="body2" color="text.secondary">
+                  Reachable within budget: {state.reportData.certificationRoadmap.budgetPlan.reachableMarkets.join(', ') || 'none'}
+                  {state.reportData.certificationRoadmap.budgetPlan.deferredMarkets.length > 0 &&
+                    ` (deferred: ${state.reportData.certificationRoadmap.budgetPlan.deferredMarkets.join(', ')})`}
+                </Typography>
+              )}
               <Button size="small" sx={{ mt: 2 }}>View Details</Button>
             </Paper>
             
@@ -229,6 +301,9 @@ function ReportContent() {
               <Typography variant="body2">
                 {state.reportData.actionPlan.actionItems.length} critical actions to take
               </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Critical path: {state.reportData.actionPlan.criticalPath.length} actions over {state.reportData.actionPlan.totalDurationDays} days
+              </Typography>
               <Button size="small" sx={{ mt: 2 }}>View Details</Button>
             </Paper>
           </Box>
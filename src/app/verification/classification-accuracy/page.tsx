@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { FrequentlyCorrectedCode } from '@/types/classification.types';
+import { EvaluationCategory, EvaluationReport, StrategyEvaluation } from '@/types/classification-evaluation.types';
+
+interface EvaluationResponse {
+  success: boolean;
+  data?: EvaluationReport;
+  error?: string;
+  details?: string;
+}
+
+interface CorrectedCodesResponse {
+  success: boolean;
+  data?: FrequentlyCorrectedCode[];
+  error?: string;
+  details?: string;
+}
+
+const CATEGORIES: EvaluationCategory[] = ['food', 'textiles', 'wine', 'minerals'];
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function CalibrationTable({ evaluation }: { evaluation: StrategyEvaluation }) {
+  const bins = evaluation.calibration.bins.filter(bin => bin.count > 0);
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-semibold mb-2">
+        {evaluation.strategy} — expected calibration error {percent(evaluation.calibration.expectedCalibrationError)}
+      </h3>
+      {bins.length === 0 ? (
+        <p className="text-gray-500">No predictions to calibrate</p>
+      ) : (
+        <table className="min-w-full text-sm border">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-3 py-2 text-left">Confidence</th>
+              <th className="px-3 py-2 text-right">Samples</th>
+              <th className="px-3 py-2 text-right">Mean confidence</th>
+              <th className="px-3 py-2 text-right">Accuracy</th>
+            </tr>
+          </thead>
+          <tbody>
+            {bins.map(bin => (
+              <tr key={bin.from} className="border-t">
+                <td className="px-3 py-2">{bin.from.toFixed(1)}–{bin.to.toFixed(1)}</td>
+                <td className="px-3 py-2 text-right">{bin.count}</td>
+                <td className="px-3 py-2 text-right">{percent(bin.meanConfidence)}</td>
+                <td className="px-3 py-2 text-right">{percent(bin.accuracy)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function ClassificationAccuracyPage() {
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [correctedCodes, setCorrectedCodes] = useState<FrequentlyCorrectedCode[]>([]);
+
+  const runEvaluation = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await axios.get<EvaluationResponse>('/api/classification-evaluation');
+      setReport(response.data.data || null);
+    } catch (err: any) {
+      console.error('Classification evaluation failed:', err);
+      setError(err.response?.data?.details || err.message || 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    runEvaluation();
+    axios.get<CorrectedCodesResponse>('/api/classification-feedback')
+      .then(response => setCorrectedCodes(response.data.data || []))
+      .catch(err => console.error('Loading classification corrections failed:', err));
+  }, []);
+
+  const ks = report ? Object.keys(report.strategies[0]?.topK || {}) : [];
+
+  return (
+    <div className="container mx-auto p-8">
+      <h1 className="text-2xl font-bold mb-4">HS Classification Accuracy</h1>
+
+      <button
+        onClick={runEvaluation}
+        disabled={loading}
+        className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+      >
+        {loading ? 'Evaluating...' : 'Run Evaluation'}
+      </button>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-100 border border-red-500 rounded">
+          <h2 className="font-bold text-red-700">Error</h2>
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {report && !error && (
+        <>
+          <p className="mt-4 text-sm text-gray-600">
+            Dataset {report.datasetVersion}, {report.strategies[0]?.samples ?? 0} labelled products, generated {new Date(report.generatedAt).toLocaleString()}
+          </p>
+
+          <h2 className="text-xl font-bold mt-6 mb-2">Accuracy by strategy</h2>
+          <table className="min-w-full text-sm border">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left">Strategy</th>
+                {ks.map(k => <th key={k} className="px-3 py-2 text-right">Top-{k}</th>)}
+                <th className="px-3 py-2 text-right">Chapter</th>
+                {CATEGORIES.map(category => (
+                  <th key={category} className="px-3 py-2 text-right capitalize">{category} top-1</th>
+                ))}
+                <th className="px-3 py-2 text-right">Answered</th>
+                <th className="px-3 py-2 text-right">Errors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.strategies.map(evaluation => (
+                <tr key={evaluation.strategy} className="border-t">
+                  <td className="px-3 py-2 font-medium">{evaluation.strategy}</td>
+                  {ks.map(k => <td key={k} className="px-3 py-2 text-right">{percent(evaluation.topK[Number(k)])}</td>)}
+                  <td className="px-3 py-2 text-right">{percent(evaluation.chapterAccuracy)}</td>
+                  {CATEGORIES.map(category => (
+                    <td key={category} className="px-3 py-2 text-right">{percent(evaluation.byCategory[category].top1Accuracy)}</td>
+                  ))}
+                  <td className="px-3 py-2 text-right">{evaluation.answered}/{evaluation.samples}</td>
+                  <td className="px-3 py-2 text-right">{evaluation.errors.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h2 className="text-xl font-bold mt-8 mb-2">Confidence calibration</h2>
+          {report.strategies.map(evaluation => (
+            <CalibrationTable key={evaluation.strategy} evaluation={evaluation} />
+          ))}
+
+          <h2 className="text-xl font-bold mt-8 mb-2">Chapter confusion</h2>
+          <table className="min-w-full text-sm border">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left">Strategy</th>
+                <th className="px-3 py-2 text-left">Expected chapter</th>
+                <th className="px-3 py-2 text-left">Predicted chapter</th>
+                <th className="px-3 py-2 text-right">Samples</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.strategies.flatMap(evaluation => evaluation.chapterConfusion.map(confusion => (
+                <tr key={`${evaluation.strategy}-${confusion.expected}-${confusion.predicted}`} className="border-t">
+                  <td className="px-3 py-2">{evaluation.strategy}</td>
+                  <td className="px-3 py-2">{confusion.expected}</td>
+                  <td className="px-3 py-2">{confusion.predicted === 'none' ? 'No prediction' : confusion.predicted}</td>
+                  <td className="px-3 py-2 text-right">{confusion.count}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <h2 className="text-xl font-bold mt-8 mb-2">Frequently corrected codes</h2>
+      {correctedCodes.length === 0 ? (
+        <p className="text-gray-500">No code has been corrected more than once</p>
+      ) : (
+        <table className="min-w-full text-sm border">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-3 py-2 text-left">HS code</th>
+              <th className="px-3 py-2 text-right">Corrections</th>
+              <th className="px-3 py-2 text-left">Corrected to</th>
+              <th className="px-3 py-2 text-left">Chapter keywords</th>
+              <th className="px-3 py-2 text-left">Products</th>
+            </tr>
+          </thead>
+          <tbody>
+            {correctedCodes.map(code => (
+              <tr key={code.hsCode} className="border-t align-top">
+                <td className="px-3 py-2 font-medium">{code.hsCode}</td>
+                <td className="px-3 py-2 text-right">{code.corrections}</td>
+                <td className="px-3 py-2">{code.correctedTo.map(target => `${target.hsCode} (${target.count})`).join(', ')}</td>
+                <td className="px-3 py-2">{code.chapterKeywords.length > 0 ? code.chapterKeywords.join(', ') : `No keyword map for chapter ${code.chapter}`}</td>
+                <td className="px-3 py-2">{code.productDescriptions.join('; ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="mt-8 p-4 bg-gray-100 rounded">
+        <h2 className="font-bold mb-2">Information</h2>
+        <p>Scores the keyword, vector, LLM and combined classifiers against labelled South African export products.</p>
+        <p className="mt-2">The LLM strategy replays completions recorded with <code>npm run record:llm-fixtures</code>, so this page works without an OpenAI API key. Products without a recording count as errors.</p>
+        <p className="mt-2">Frequently corrected codes point at chapter keyword maps in the HS chapter mapping service that may need review.</p>
+      </div>
+    </div>
+  );
+}
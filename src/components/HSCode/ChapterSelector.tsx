@@ -10,6 +10,20 @@ import {
 } from '@mui/material';
 import { Grid } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
+import { HSCodeSelectionService } from '../../services/hs-code/hsCodeSelection.service';
+
+const hsCodeService = new HSCodeSelectionService();
+
+// Chapters important for South African exports, by product category
+const CHAPTER_CATEGORIES: Record<string, string> = {
+  '01': 'food', '02': 'food', '03': 'food', '04': 'food', '07': 'food', '08': 'food',
+  '09': 'food', '16': 'food', '19': 'food', '20': 'food', '21': 'food',
+  '22': 'beverages',
+  '42': 'readyToWear', '61': 'readyToWear', '62': 'readyToWear', '64': 'readyToWear',
+  '65': 'readyToWear', '71': 'readyToWear',
+  '44': 'homeGoods', '69': 'homeGoods', '70': 'homeGoods', '94': 'homeGoods', '95': 'homeGoods',
+  '30': 'health', '33': 'health', '34': 'health'
+};
 
 interface ChapterSelectorProps {
   selectedChapter: string | null;
@@ -66,68 +80,17 @@ const ChapterSelector: React.FC<ChapterSelectorProps> = ({
     const loadChapters = async () => {
       setLoading(true);
       try {
-        // Here we would normally fetch from an API
-        // For now, we're creating a static list of important chapters for South African exports
-        
-        // Define the main categories relevant to South Africa
-        const categories = {
-          food: 'Food Products',
-          beverages: 'Beverages',
-          readyToWear: 'Ready-to-Wear',
-          homeGoods: 'Home Goods',
-          health: 'Non-Prescription Health'
-        };
-        
-        // Define chapters important for South Africa
-        const southAfricanChapters: Chapter[] = [
-          // Food Products (HS Chapters 1-24)
-          { code: '01', description: 'Live Animals', category: 'food' },
-          { code: '02', description: 'Meat and Edible Meat Offal', category: 'food' },
-          { code: '03', description: 'Fish and Crustaceans', category: 'food' },
-          { code: '04', description: 'Dairy Products', category: 'food' },
-          { code: '07', description: 'Edible Vegetables', category: 'food' },
-          { code: '08', description: 'Edible Fruits and Nuts', category: 'food' },
-          { code: '09', description: 'Coffee, Tea, Mate and Spices', category: 'food' },
-          { code: '16', description: 'Preparations of Meat or Fish', category: 'food' },
-          { code: '19', description: 'Preparations of Cereals', category: 'food' },
-          { code: '20', description: 'Preparations of Vegetables, Fruit, Nuts', category: 'food' },
-          { code: '21', description: 'Miscellaneous Edible Preparations', category: 'food' },
-          
-          // Beverages (HS Chapter 22)
-          { code: '22', description: 'Beverages, Spirits and Vinegar', category: 'beverages' },
-          
-          // Ready-to-Wear (HS Chapters 42-71)
-          { code: '42', description: 'Articles of Leather', category: 'readyToWear' },
-          { code: '61', description: 'Apparel, Knitted or Crocheted', category: 'readyToWear' },
-          { code: '62', description: 'Apparel, Not Knitted or Crocheted', category: 'readyToWear' },
-          { code: '64', description: 'Footwear', category: 'readyToWear' },
-          { code: '65', description: 'Headgear', category: 'readyToWear' },
-          { code: '71', description: 'Precious Stones, Metals, Jewelry', category: 'readyToWear' },
-          
-          // Home Goods (HS Chapters 42-97)
-          { code: '44', description: 'Wood and Articles of Wood', category: 'homeGoods' },
-          { code: '69', description: 'Ceramic Products', category: 'homeGoods' },
-          { code: '70', description: 'Glass and Glassware', category: 'homeGoods' },
-          { code: '94', description: 'Furniture, Bedding, Lamps', category: 'homeGoods' },
-          { code: '95', description: 'Toys, Games and Sports Equipment', category: 'homeGoods' },
-          
-          // Non-Prescription Health (HS Chapters 30-34)
-          { code: '30', description: 'Pharmaceutical Products', category: 'health' },
-          { code: '33', description: 'Essential Oils and Cosmetics', category: 'health' },
-          { code: '34', description: 'Soap, Washing Preparations', category: 'health' },
-          
-          // Other important South African export categories
-          { code: '25', description: 'Salt, Sulphur, Earth, Stone', category: 'other' },
-          { code: '26', description: 'Ores, Slag and Ash', category: 'other' },
-          { code: '27', description: 'Mineral Fuels, Oils', category: 'other' },
-          { code: '72', description: 'Iron and Steel', category: 'other' },
-          { code: '84', description: 'Machinery and Mechanical Appliances', category: 'other' },
-          { code: '85', description: 'Electrical Machinery and Equipment', category: 'other' },
-          { code: '87', description: 'Vehicles', category: 'other' }
-        ];
+        // Chapters come from the bundled HS 2022 nomenclature, tagged with the
+        // South African export category they are most relevant to
+        const nomenclatureChapters: Chapter[] = hsCodeService.getChapters()
+          .map(chapter => ({
+            code: chapter.code,
+            description: chapter.name,
+            category: CHAPTER_CATEGORIES[chapter.code] || 'other'
+          }));
         
         // Add suggested chapters to the list with their confidence scores
-        const allChapters = [...southAfricanChapters];
+        const allChapters = [...nomenclatureChapters];
         
         // Update chapters that have suggestions with confidence scores
         suggestedChapters.forEach(suggestion => {
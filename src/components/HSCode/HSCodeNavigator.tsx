@@ -3,12 +3,21 @@ import { Box, Typography, Paper, Button, Alert } from '@mui/material';
 import ChapterSelector from './ChapterSelector';
 import HeadingSelector from './HeadingSelector';
 import SubheadingSelector from './SubheadingSelector';
+import TariffLineSelector from './TariffLineSelector';
+import { HSCodeSelectionService } from '../../services/hs-code/hsCodeSelection.service';
+import { NationalTariffSelection } from '../../data/hs-codes/types';
+
+const hsCodeService = new HSCodeSelectionService();
 
 interface HSCodeNavigatorProps {
   initialHsCode?: string;
   productName?: string;
   productCategory?: string;
   onHsCodeSelected: (hsCode: string, description: string) => void;
+  // Markets to drill down to national tariff lines for, and the codes already confirmed
+  targetMarkets?: string[];
+  initialTariffLines?: Record<string, NationalTariffSelection>;
+  onTariffLineSelected?: (selection: NationalTariffSelection) => void;
   suggestedCodes?: {
     code: string;
     description: string;
@@ -29,6 +38,7 @@ export interface HSCodeSelection {
     code: string | null;
     description: string;
   };
+  tariffLines: Record<string, NationalTariffSelection>;
 }
 
 const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
@@ -36,16 +46,20 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
   productName = '',
   productCategory = '',
   onHsCodeSelected,
+  targetMarkets = [],
+  initialTariffLines = {},
+  onTariffLineSelected,
   suggestedCodes = []
 }) => {
   // Current view state (which selector is visible)
-  const [view, setView] = useState<'chapter' | 'heading' | 'subheading'>('chapter');
+  const [view, setView] = useState<'chapter' | 'heading' | 'subheading' | 'tariffLine'>('chapter');
   
   // Selected codes at each level
   const [selection, setSelection] = useState<HSCodeSelection>({
     chapter: { code: null, description: '' },
     heading: { code: null, description: '' },
-    subheading: { code: null, description: '' }
+    subheading: { code: null, description: '' },
+    tariffLines: initialTariffLines
   });
   
   // Filtered suggestions for each level
@@ -60,7 +74,7 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
       
       if (code.length >= 2) {
         const chapterCode = code.substring(0, 2);
-        // Find chapter description from suggested codes or set default
+        // Find chapter description from suggested codes or the nomenclature
         const chapterSuggestion = suggestedCodes.find(
           suggestion => suggestion.code.startsWith(chapterCode)
         );
@@ -69,7 +83,9 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
           ...prev,
           chapter: {
             code: chapterCode,
-            description: chapterSuggestion?.description.split(' - ')[0] || 'Chapter ' + chapterCode
+            description: chapterSuggestion?.description.split(' - ')[0]
+              || hsCodeService.getChapter(chapterCode)?.name
+              || 'Chapter ' + chapterCode
           }
         }));
         
@@ -84,7 +100,9 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
             ...prev,
             heading: {
               code: headingCode,
-              description: headingSuggestion?.description || 'Heading ' + headingCode
+              description: headingSuggestion?.description
+                || hsCodeService.getHeading(headingCode)?.name
+                || 'Heading ' + headingCode
             }
           }));
           
@@ -99,7 +117,9 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
               ...prev,
               subheading: {
                 code: subheadingCode,
-                description: subheadingSuggestion?.description || 'Subheading ' + subheadingCode
+                description: subheadingSuggestion?.description
+                  || hsCodeService.getSubheading(subheadingCode)?.name
+                  || 'Subheading ' + subheadingCode
               }
             }));
             
@@ -182,7 +202,8 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
     setSelection(prev => ({
       chapter: { code: chapterCode, description: chapterDescription },
       heading: { code: null, description: '' },
-      subheading: { code: null, description: '' }
+      subheading: { code: null, description: '' },
+      tariffLines: {}
     }));
     
     setView('heading');
@@ -193,7 +214,8 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
     setSelection(prev => ({
       ...prev,
       heading: { code: headingCode, description: headingDescription },
-      subheading: { code: null, description: '' }
+      subheading: { code: null, description: '' },
+      tariffLines: {}
     }));
     
     setView('subheading');
@@ -203,10 +225,29 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
   const handleSubheadingSelected = (subheadingCode: string, subheadingDescription: string) => {
     setSelection(prev => ({
       ...prev,
-      subheading: { code: subheadingCode, description: subheadingDescription }
+      subheading: { code: subheadingCode, description: subheadingDescription },
+      // National codes confirmed under another subheading no longer apply
+      tariffLines: Object.fromEntries(Object.entries(prev.tariffLines)
+        .filter(([, tariffLine]) => tariffLine.subheading === subheadingCode))
     }));
     
     onHsCodeSelected(subheadingCode, subheadingDescription);
+    
+    // Drill down to national tariff lines when a target market has a bundled tariff, so that subheadings
+    // without bundled lines still show where to look up the national code
+    if (targetMarkets.some(market => hsCodeService.getNationalTariffSchedule(market))) {
+      setView('tariffLine');
+    }
+  };
+
+  // Handle national tariff line selection for one target market
+  const handleTariffLineSelected = (tariffLine: NationalTariffSelection) => {
+    setSelection(prev => ({
+      ...prev,
+      tariffLines: { ...prev.tariffLines, [tariffLine.market]: tariffLine }
+    }));
+    
+    onTariffLineSelected?.(tariffLine);
   };
 
   // Navigate back to chapter selection
@@ -219,6 +260,11 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
     setView('heading');
   };
 
+  // Navigate back to subheading selection
+  const handleBackToSubheadings = () => {
+    setView('subheading');
+  };
+
   // Render information about the product
   const renderProductInfo = () => {
     if (!productName && !productCategory) return null;
@@ -285,6 +331,16 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
           onBackToChapters={handleBackToChapters}
           suggestedSubheadings={suggestedSubheadings}
         />
+      ) : view === 'tariffLine' && selection.subheading.code ? (
+        <TariffLineSelector
+          selectedSubheading={selection.subheading.code}
+          subheadingDescription={selection.subheading.description}
+          targetMarkets={targetMarkets}
+          selectedTariffLines={selection.tariffLines}
+          onTariffLineSelected={handleTariffLineSelected}
+          onBackToSubheadings={handleBackToSubheadings}
+          onBackToChapters={handleBackToChapters}
+        />
       ) : null}
       
       {selection.chapter.code && (
@@ -294,6 +350,7 @@ const HSCodeNavigator: React.FC<HSCodeNavigatorProps> = ({
             {selection.chapter.code && ` Chapter ${selection.chapter.code}`}
             {selection.heading.code && ` > Heading ${selection.heading.code}`}
             {selection.subheading.code && ` > Subheading ${selection.subheading.code}`}
+            {Object.values(selection.tariffLines).map(tariffLine => ` > ${tariffLine.market} ${tariffLine.code}`)}
           </Typography>
           
           {selection.subheading.code && (
@@ -15,6 +15,9 @@ import {
 import SearchIcon from '@mui/icons-material/Search';
 import NavigateNextIcon from '@mui/icons-material/NavigateNext';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { HSCodeSelectionService } from '../../services/hs-code/hsCodeSelection.service';
+
+const hsCodeService = new HSCodeSelectionService();
 
 // Create wrapper components for proper Grid usage
 const Grid = MuiGrid;
@@ -51,6 +54,7 @@ const HeadingSelector: React.FC<HeadingSelectorProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [recentlyUsed, setRecentlyUsed] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
+  const [allHeadingsBundled, setAllHeadingsBundled] = useState(true);
 
   // Helper function to get confidence color
   const getConfidenceColor = (confidence?: number) => {
@@ -77,90 +81,10 @@ const HeadingSelector: React.FC<HeadingSelectorProps> = ({
     const loadHeadings = async () => {
       setLoading(true);
       try {
-        // Here we would normally fetch from an API
-        // For now, we're creating some static headings based on the chapter
-        
-        // Define dummy headings for each chapter
-        const dummyHeadings: Record<string, Heading[]> = {
-          // Food Products
-          '01': [
-            { code: '0101', description: 'Live horses, asses, mules and hinnies' },
-            { code: '0102', description: 'Live bovine animals' },
-            { code: '0103', description: 'Live swine' },
-            { code: '0104', description: 'Live sheep and goats' },
-            { code: '0105', description: 'Live poultry' },
-            { code: '0106', description: 'Other live animals' }
-          ],
-          '02': [
-            { code: '0201', description: 'Meat of bovine animals, fresh or chilled' },
-            { code: '0202', description: 'Meat of bovine animals, frozen' },
-            { code: '0203', description: 'Meat of swine, fresh, chilled or frozen' },
-            { code: '0204', description: 'Meat of sheep or goats, fresh, chilled or frozen' },
-            { code: '0205', description: 'Meat of horses, asses, mules or hinnies' },
-            { code: '0206', description: 'Edible offal of bovine animals, swine, sheep, goats, horses' },
-            { code: '0207', description: 'Meat and edible offal of poultry' },
-            { code: '0208', description: 'Other meat and edible meat offal, fresh, chilled or frozen' },
-            { code: '0209', description: 'Pig fat and poultry fat' },
-            { code: '0210', description: 'Meat and edible meat offal, salted, in brine, dried or smoked' }
-          ],
-          '03': [
-            { code: '0301', description: 'Live fish' },
-            { code: '0302', description: 'Fish, fresh or chilled' },
-            { code: '0303', description: 'Fish, frozen' },
-            { code: '0304', description: 'Fish fillets and other fish meat' },
-            { code: '0305', description: 'Fish, dried, salted or in brine; smoked fish' },
-            { code: '0306', description: 'Crustaceans' },
-            { code: '0307', description: 'Molluscs' },
-            { code: '0308', description: 'Aquatic invertebrates other than crustaceans and molluscs' }
-          ],
-          // Beverages
-          '22': [
-            { code: '2201', description: 'Waters, natural or artificial mineral waters' },
-            { code: '2202', description: 'Waters, including mineral waters and aerated waters, containing added sugar' },
-            { code: '2203', description: 'Beer made from malt' },
-            { code: '2204', description: 'Wine of fresh grapes, including fortified wines' },
-            { code: '2205', description: 'Vermouth and other wine of fresh grapes flavored with plants or aromatic substances' },
-            { code: '2206', description: 'Other fermented beverages' },
-            { code: '2207', description: 'Undenatured ethyl alcohol of an alcoholic strength by volume of 80% vol or higher' },
-            { code: '2208', description: 'Undenatured ethyl alcohol of an alcoholic strength by volume of less than 80% vol' },
-            { code: '2209', description: 'Vinegar and substitutes for vinegar obtained from acetic acid' }
-          ],
-          // Ready-to-Wear
-          '61': [
-            { code: '6101', description: 'Men\'s or boys\' overcoats, car-coats, capes, cloaks, anoraks, wind-cheaters' },
-            { code: '6102', description: 'Women\'s or girls\' overcoats, car-coats, capes, cloaks, anoraks, wind-cheaters' },
-            { code: '6103', description: 'Men\'s or boys\' suits, ensembles, jackets, blazers, trousers, bib and brace overalls' },
-            { code: '6104', description: 'Women\'s or girls\' suits, ensembles, jackets, blazers, dresses, skirts' },
-            { code: '6105', description: 'Men\'s or boys\' shirts, knitted or crocheted' },
-            { code: '6106', description: 'Women\'s or girls\' blouses, shirts and shirt-blouses, knitted or crocheted' },
-            { code: '6107', description: 'Men\'s or boys\' underpants, briefs, nightshirts, pajamas, bathrobes, dressing gowns' },
-            { code: '6108', description: 'Women\'s or girls\' slips, petticoats, briefs, panties, nightdresses, pajamas' },
-            { code: '6109', description: 'T-shirts, singlets and other vests, knitted or crocheted' },
-            { code: '6110', description: 'Sweaters, pullovers, sweatshirts, waistcoats and similar articles' },
-            { code: '6111', description: 'Babies\' garments and clothing accessories, knitted or crocheted' },
-            { code: '6112', description: 'Track suits, ski suits and swimwear, knitted or crocheted' },
-            { code: '6113', description: 'Garments, made up of knitted or crocheted fabrics of heading 5903, 5906 or 5907' },
-            { code: '6114', description: 'Other garments, knitted or crocheted' },
-            { code: '6115', description: 'Panty hose, tights, stockings, socks and other hosiery' },
-            { code: '6116', description: 'Gloves, mittens and mitts, knitted or crocheted' },
-            { code: '6117', description: 'Other made up clothing accessories, knitted or crocheted' }
-          ],
-          // Default
-          'default': [
-            { code: `${selectedChapter}01`, description: 'Dummy Heading 1' },
-            { code: `${selectedChapter}02`, description: 'Dummy Heading 2' },
-            { code: `${selectedChapter}03`, description: 'Dummy Heading 3' },
-            { code: `${selectedChapter}04`, description: 'Dummy Heading 4' },
-            { code: `${selectedChapter}05`, description: 'Dummy Heading 5' },
-            { code: `${selectedChapter}06`, description: 'Dummy Heading 6' },
-            { code: `${selectedChapter}07`, description: 'Dummy Heading 7' },
-            { code: `${selectedChapter}08`, description: 'Dummy Heading 8' },
-            { code: `${selectedChapter}09`, description: 'Dummy Heading 9' }
-          ]
-        };
-        
-        // Get headings for the selected chapter or use default ones
-        const chapterHeadings = dummyHeadings[selectedChapter] || dummyHeadings.default;
+        // Headings of the selected chapter from the bundled HS 2022 nomenclature
+        const chapterHeadings: Heading[] = hsCodeService.getHeadingsForChapter(selectedChapter)
+          .map(heading => ({ code: heading.code, description: heading.name }));
+        setAllHeadingsBundled(hsCodeService.hasAllHeadings(selectedChapter));
         
         // Update headings that have suggestions with confidence scores
         const allHeadings = [...chapterHeadings];
@@ -297,6 +221,18 @@ const HeadingSelector: React.FC<HeadingSelectorProps> = ({
         </Box>
       ) : (
         <>
+          {/* The bundled dataset doesn't list every heading of every chapter yet */}
+          {headings.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              The headings of chapter {selectedChapter} are not in the bundled HS 2022 dataset yet.
+              Go back and search by product description instead.
+            </Typography>
+          ) : !allHeadingsBundled && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              Only some headings of chapter {selectedChapter} are in the bundled HS 2022 dataset.
+            </Typography>
+          )}
+          
           {/* Headings grid */}
           <Box sx={{ flexGrow: 1, mt: 2 }}>
             <Grid container spacing={2}>
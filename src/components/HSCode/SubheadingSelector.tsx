@@ -15,6 +15,9 @@ import Grid from '@mui/material/Grid';
 import SearchIcon from '@mui/icons-material/Search';
 import NavigateNextIcon from '@mui/icons-material/NavigateNext';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { HSCodeSelectionService } from '../../services/hs-code/hsCodeSelection.service';
+
+const hsCodeService = new HSCodeSelectionService();
 
 interface SubheadingSelectorProps {
   selectedSubheading: string | null;
@@ -55,6 +58,7 @@ const SubheadingSelector: React.FC<SubheadingSelectorProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [recentlyUsed, setRecentlyUsed] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
+  const [allSubheadingsBundled, setAllSubheadingsBundled] = useState(true);
   const [selectedSubheadingDetails, setSelectedSubheadingDetails] = useState<Subheading | null>(null);
 
   // Helper function to get confidence color
@@ -82,42 +86,20 @@ const SubheadingSelector: React.FC<SubheadingSelectorProps> = ({
     const loadSubheadings = async () => {
       setLoading(true);
       try {
-        // Here we would normally fetch from an API
-        // For now, we're creating some static subheadings based on the heading
-        
-        // Define dummy subheadings for each heading
-        const dummySubheadings: Record<string, Subheading[]> = {
-          // Meat of bovine animals, fresh or chilled
-          '0201': [
-            { code: '020110', description: 'Carcasses and half-carcasses', notes: 'Includes whole animals, skinned and eviscerated after slaughter, and halves obtained by splitting the whole carcass through the spinal column.' },
-            { code: '020120', description: 'Other cuts with bone in', notes: 'Includes T-bone steaks, osso buco, and other meat portions where bone is present.' },
-            { code: '020130', description: 'Boneless', notes: 'Includes filet, sirloin, ribeye, and other premium cuts where all bones have been removed.' }
-          ],
-          // Wine of fresh grapes
-          '2204': [
-            { code: '220410', description: 'Sparkling wine', notes: 'Includes champagne and other wines with carbon dioxide formed during fermentation.' },
-            { code: '220421', description: 'Other wine; grape must in containers of 2 l or less', notes: 'Includes bottled wines for retail in sizes up to 2 liters.' },
-            { code: '220422', description: 'Other wine; grape must in containers of 2-10 l', notes: 'Includes wine sold in larger containers such as bag-in-box.' },
-            { code: '220429', description: 'Other wine; grape must in containers > 10 l', notes: 'Includes bulk wine shipments.' },
-            { code: '220430', description: 'Other grape must', notes: 'Includes partially fermented grape must.' }
-          ],
-          // T-shirts, singlets and other vests, knitted or crocheted
-          '6109': [
-            { code: '610910', description: 'Of cotton', notes: 'Includes cotton t-shirts and tank tops.' },
-            { code: '610990', description: 'Of other textile materials', notes: 'Includes t-shirts made of synthetic fibers, wool, silk or other textile materials.' }
-          ],
-          // Default - if no specific heading data is available
-          'default': [
-            { code: `${selectedHeading}10`, description: 'Default Subheading 1' },
-            { code: `${selectedHeading}20`, description: 'Default Subheading 2' },
-            { code: `${selectedHeading}30`, description: 'Default Subheading 3' },
-            { code: `${selectedHeading}40`, description: 'Default Subheading 4' },
-            { code: `${selectedHeading}90`, description: 'Other' }
-          ]
-        };
-        
-        // Get subheadings for the selected heading or use default ones
-        const headingSubheadings = dummySubheadings[selectedHeading] || dummySubheadings.default;
+        // Subheadings of the selected heading from the bundled HS 2022 nomenclature,
+        // with the legal notes and exclusions of the chapter and heading
+        const { notes, exclusions } = hsCodeService.getNotes(selectedHeading);
+        const headingNotes = [
+          ...notes,
+          ...exclusions.map(exclusion => `Excludes ${exclusion.description.toLowerCase()} (see ${exclusion.see.join(', ')}).`)
+        ].join(' ');
+        const headingSubheadings: Subheading[] = hsCodeService.getSubheadingsForHeading(selectedHeading)
+          .map(subheading => ({
+            code: subheading.code,
+            description: subheading.name,
+            notes: headingNotes || undefined
+          }));
+        setAllSubheadingsBundled(hsCodeService.hasAllSubheadings(selectedHeading));
         
         // Update subheadings that have suggestions with confidence scores
         const allSubheadings = [...headingSubheadings];
@@ -272,6 +254,18 @@ const SubheadingSelector: React.FC<SubheadingSelectorProps> = ({
         </Box>
       ) : (
         <>
+          {/* The bundled dataset doesn't list every subheading of every heading yet */}
+          {subheadings.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              The subheadings of heading {selectedHeading} are not in the bundled HS 2022 dataset yet.
+              Go back and search by product description instead.
+            </Typography>
+          ) : !allSubheadingsBundled && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              Only some subheadings of heading {selectedHeading} are in the bundled HS 2022 dataset.
+            </Typography>
+          )}
+          
           {/* Subheadings grid */}
           <Box sx={{ flexGrow: 1, mt: 2 }}>
             <Grid container spacing={2}>
@@ -0,0 +1,164 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Alert,
+  Breadcrumbs,
+  Link,
+  Button
+} from '@mui/material';
+import Grid from '@mui/material/Grid';
+import NavigateNextIcon from '@mui/icons-material/NavigateNext';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { HSCodeSelectionService } from '../../services/hs-code/hsCodeSelection.service';
+import { NationalTariffSelection } from '../../data/hs-codes/types';
+
+const hsCodeService = new HSCodeSelectionService();
+
+interface TariffLineSelectorProps {
+  selectedSubheading: string;
+  subheadingDescription: string;
+  targetMarkets: string[];
+  selectedTariffLines: Record<string, NationalTariffSelection>;
+  onTariffLineSelected: (selection: NationalTariffSelection) => void;
+  // Without these the selector is shown on its own, without breadcrumbs
+  onBackToSubheadings?: () => void;
+  onBackToChapters?: () => void;
+}
+
+const TariffLineSelector: React.FC<TariffLineSelectorProps> = ({
+  selectedSubheading,
+  subheadingDescription,
+  targetMarkets,
+  selectedTariffLines,
+  onTariffLineSelected,
+  onBackToSubheadings,
+  onBackToChapters
+}) => {
+  // Handle national tariff line selection
+  const handleTariffLineClick = (code: string, market: string) => {
+    const selection = hsCodeService.confirmTariffLine(code, market);
+    if (selection) {
+      onTariffLineSelected(selection);
+    }
+  };
+
+  return (
+    <Box>
+      {/* Breadcrumb navigation */}
+      {onBackToSubheadings && onBackToChapters && (
+        <Box sx={{ mb: 2, display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <Breadcrumbs separator={<NavigateNextIcon fontSize="small" />}>
+            <Link
+              component="button"
+              onClick={onBackToChapters}
+              underline="hover"
+              color="inherit"
+              sx={{ display: 'flex', alignItems: 'center' }}
+            >
+              <Typography variant="body2">
+                Chapters
+              </Typography>
+            </Link>
+            <Link
+              component="button"
+              onClick={onBackToSubheadings}
+              underline="hover"
+              color="inherit"
+              sx={{ display: 'flex', alignItems: 'center' }}
+            >
+              <Typography variant="body2">
+                {selectedSubheading} - {subheadingDescription}
+              </Typography>
+            </Link>
+            <Typography color="text.primary" variant="body2">
+              National tariff lines
+            </Typography>
+          </Breadcrumbs>
+
+          <Button
+            size="small"
+            startIcon={<ArrowBackIcon />}
+            onClick={onBackToSubheadings}
+          >
+            Back to Subheadings
+          </Button>
+        </Box>
+      )}
+
+      <Typography variant="h6" gutterBottom>
+        Select National Tariff Line (8/10-digit)
+      </Typography>
+
+      {targetMarkets.map(market => {
+        const tariffLines = hsCodeService.getTariffLinesForSubheading(selectedSubheading, market);
+        const schedule = hsCodeService.getNationalTariffSchedule(market);
+        const selected = selectedTariffLines[market];
+
+        return (
+          <Box key={market} sx={{ mt: 3 }}>
+            <Typography variant="subtitle1" gutterBottom>
+              {market}
+            </Typography>
+
+            {tariffLines.length === 0 && schedule ? (
+              <Alert severity="warning">
+                The {schedule.name} is only partly bundled and has no lines under {selectedSubheading}.
+                Look up the {schedule.digits}-digit code{schedule.source ? ` at ${schedule.source}` : ''} before
+                declaring; subheading {selectedSubheading} alone is not a complete {market} code.
+              </Alert>
+            ) : tariffLines.length === 0 ? (
+              <Alert severity="info">
+                No national tariff is bundled for {market}; subheading {selectedSubheading} will be used.
+              </Alert>
+            ) : (
+              <Grid container spacing={2}>
+                {tariffLines.map(line => (
+                  <Grid
+                    key={line.code}
+                    sx={{
+                      gridColumn: {
+                        xs: 'span 12',
+                        sm: 'span 6',
+                        md: 'span 4'
+                      }
+                    }}
+                  >
+                    <Paper
+                      sx={{
+                        p: 2,
+                        textAlign: 'center',
+                        cursor: 'pointer',
+                        transition: 'all 0.2s',
+                        bgcolor: selected?.code === line.code ? 'primary.50' : 'background.paper',
+                        border: '1px solid',
+                        borderColor: selected?.code === line.code ? 'primary.main' : 'divider',
+                        '&:hover': {
+                          bgcolor: 'primary.50',
+                          transform: 'translateY(-2px)',
+                          boxShadow: 1
+                        },
+                      }}
+                      onClick={() => handleTariffLineClick(line.code, market)}
+                      elevation={0}
+                    >
+                      <Typography variant="h6" component="div" fontWeight="medium">
+                        {line.code}
+                      </Typography>
+                      <Typography variant="body2" sx={{ mt: 1 }}>
+                        {line.description}
+                      </Typography>
+                    </Paper>
+                  </Grid>
+                ))}
+              </Grid>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default TariffLineSelector;
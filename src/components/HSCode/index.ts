@@ -2,4 +2,5 @@ export { HSCodeSelector } from './HSCodeSelector';
 export { default as HSCodeNavigator } from './HSCodeNavigator';
 export { default as ChapterSelector } from './ChapterSelector';
 export { default as HeadingSelector } from './HeadingSelector';
-export { default as SubheadingSelector } from './SubheadingSelector'; 
\ No newline at end of file
+export { default as SubheadingSelector } from './SubheadingSelector';
+export { default as TariffLineSelector } from './TariffLineSelector';
\ No newline at end of file
@@ -26,6 +26,7 @@ import CloseIcon from '@mui/icons-material/Close';
 import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined';
 import { ProductGroup } from '../../services/product/productConsolidation.service';
 import { HSCodeNavigator } from '../HSCode';
+import { NationalTariffSelection } from '../../data/hs-codes/types';
 import { useSelector } from 'react-redux';
 import type { RootState } from '../../store/types';
 
@@ -36,6 +37,7 @@ interface ProductAttributes {
   packagingType?: string;
   hsCode?: string;
   hsCodeDescription?: string;
+  nationalTariffCodes?: Record<string, NationalTariffSelection>; // Confirmed national code per target market
   [key: string]: any; // Allow for other attributes
 }
 
@@ -50,6 +52,7 @@ export interface ProductEditDialogProps {
   product: ProductGroup | null;
   onClose: () => void;
   onSave: (formData: any) => void;
+  targetMarkets?: string[];
 }
 
 /**
@@ -60,6 +63,7 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
   product,
   onClose,
   onSave,
+  targetMarkets = [],
 }) => {
   const hsClassifications = useSelector(
     (state: RootState) => state.productAssessment.hsClassifications
@@ -75,6 +79,7 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
 
   // Store calculated classification for the current form data
   const [classification, setClassification] = useState<any | null>(null);
+  const [nationalTariffCodes, setNationalTariffCodes] = useState<Record<string, NationalTariffSelection>>({});
 
   // Preparation types
   const preparationTypes = [
@@ -126,6 +131,7 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
       
       // Set initial classification from the store
       setClassification(hsClassifications[product.baseType] || null);
+      setNationalTariffCodes(product.attributes.nationalTariffCodes || {});
     } else {
       // Reset form for new product
       setFormData({
@@ -136,6 +142,7 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
         packagingType: '',
       });
       setClassification(null);
+      setNationalTariffCodes({});
     }
   }, [product, hsClassifications]);
 
@@ -170,7 +177,8 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
         packagingType: formData.packagingType,
         ...(classification && { 
           hsCode: classification.code, 
-          hsCodeDescription: classification.description 
+          hsCodeDescription: classification.description,
+          nationalTariffCodes
         }),
       },
       variants: product?.variants || [],
@@ -186,6 +194,14 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
       description: description,
       confidence: 0.9,
     });
+    // National codes only hold for the subheading they were confirmed under
+    setNationalTariffCodes(prev => Object.fromEntries(Object.entries(prev)
+      .filter(([, tariffLine]) => tariffLine.subheading === hsCode)));
+  };
+
+  // Handle national tariff line confirmation for one target market
+  const handleTariffLineSelected = (tariffLine: NationalTariffSelection) => {
+    setNationalTariffCodes(prev => ({ ...prev, [tariffLine.market]: tariffLine }));
   };
 
   // Convert hsClassifications to the format expected by HSCodeNavigator
@@ -326,6 +342,9 @@ export const ProductEditDialog: React.FC<ProductEditDialogProps> = ({
               productCategory={formData.mainIngredient || ''}
               initialHsCode={product?.attributes?.hsCode || ''}
               onHsCodeSelected={handleHsCodeSelected}
+              targetMarkets={targetMarkets}
+              initialTariffLines={product?.attributes?.nationalTariffCodes}
+              onTariffLineSelected={handleTariffLineSelected}
               suggestedCodes={getSuggestedCodes()}
             />
 
@@ -31,7 +31,8 @@ import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
 import { InfoBox } from '@/components/ui/InfoBox';
 import { GridContainer, GridItem } from '@/components/ui/GridWrapper';
-import { HSCodeNavigator } from '@/components/HSCode';
+import { HSCodeNavigator, TariffLineSelector } from '@/components/HSCode';
+import { NationalTariffSelection } from '@/data/hs-codes/types';
 import { HSCodeSelection, ClassificationStep } from '@/components/classification/types/classification.interface';
 import EditProductHSCodeIntegration from '../../classification/EditProductHSCodeIntegration';
 import { HSCodeHierarchyService } from '@/services/product/hsCodeHierarchy.service';
@@ -110,6 +111,7 @@ export function ProductSelectionStep() {
     categoryId: '',
     subcategoryId: '',
   });
+  const targetMarketCodes = state.marketInfo.targetMarkets.map(market => market.code);
   const [editingProduct, setEditingProduct] = React.useState<string | null>(null);
   const [editFormData, setEditFormData] = React.useState<EditFormData>({});
 
@@ -383,6 +385,17 @@ export function ProductSelectionStep() {
     }));
   };
 
+  // Record the national code confirmed for a group's subheading in one target market
+  const handleTariffLineSelected = (groupBaseType: string, selection: NationalTariffSelection) => {
+    setProductGroups(productGroups.map(group => group.baseType === groupBaseType ? {
+      ...group,
+      attributes: {
+        ...group.attributes,
+        nationalTariffCodes: { ...(group.attributes?.nationalTariffCodes || {}), [selection.market]: selection }
+      }
+    } : group));
+  };
+
   const handleNext = () => {
     // When using consolidated products, we need to convert them back to the flat format
     // that the assessment context expects
@@ -401,6 +414,7 @@ export function ProductSelectionStep() {
             // Use the original product but update with group attributes
             selectedProducts.push({
               ...originalProduct,
+              nationalTariffCodes: group.attributes.nationalTariffCodes || originalProduct.nationalTariffCodes,
               specifications: {
                 ...originalProduct.specifications,
                 hsCode: group.attributes.hsCode || originalProduct.specifications?.hsCode,
@@ -878,6 +892,12 @@ export function ProductSelectionStep() {
                             
                             updatedGroups[groupIndex].attributes.hsCode = selection.subheading.code;
                             updatedGroups[groupIndex].attributes.hsCodeDescription = selection.subheading.description;
+                            // National codes confirmed under another subheading no longer apply
+                            updatedGroups[groupIndex].attributes.nationalTariffCodes = Object.fromEntries(
+                              Object.entries(updatedGroups[groupIndex].attributes.nationalTariffCodes || {})
+                                .filter(([, tariffLine]) =>
+                                  (tariffLine as NationalTariffSelection).subheading === selection.subheading?.code.replace(/\D/g, '').substring(0, 6))
+                            );
                             
                             setProductGroups(updatedGroups);
                             
@@ -896,6 +916,24 @@ export function ProductSelectionStep() {
                       }}
                     />
                   </Box>
+
+                  {group.attributes?.hsCode && (
+                    targetMarketCodes.length > 0 ? (
+                      <Box sx={{ mt: 3 }}>
+                        <TariffLineSelector
+                          selectedSubheading={group.attributes.hsCode}
+                          subheadingDescription={group.attributes.hsCodeDescription || ''}
+                          targetMarkets={targetMarketCodes}
+                          selectedTariffLines={group.attributes.nationalTariffCodes || {}}
+                          onTariffLineSelected={selection => handleTariffLineSelected(group.baseType, selection)}
+                        />
+                      </Box>
+                    ) : (
+                      <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                        National tariff lines can be confirmed here once target markets have been selected.
+                      </Typography>
+                    )
+                  )}
                 </Box>
               </Box>
             </Paper>
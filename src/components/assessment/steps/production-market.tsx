@@ -35,6 +35,7 @@ import { InfoBox } from '@/components/ui/InfoBox';
 import { CountryFlag } from '@/components/ui/CountryFlag';
 import { GridContainer, GridItem } from '@/components/ui/GridWrapper';
 import { MarketCard as MarketCardComponent } from '@/components/ui/MarketCard';
+import type { ScreeningResult, ScreeningStatus } from '@/types/sanctions-screening.types';
 
 const StyledPaper = styled(Paper)({
   padding: 32, // theme.spacing(4)
@@ -78,6 +79,11 @@ interface Market {
   saExports: string;
   tariff: string;
   selected: boolean;
+  // Sanctions and restricted-goods screening of the market for the selected products
+  screening?: {
+    status: ScreeningStatus;
+    reasons: string[];
+  };
 }
 
 // Production Capacity Step
@@ -504,7 +510,7 @@ export function MarketAssessmentStep() {
           }
         }
 
-        setMarkets(marketData);
+        setMarkets(await applyScreening(marketData));
       } catch (error) {
         console.error('Error fetching market data:', error);
         setError('Failed to load market data. Please try again.');
@@ -516,6 +522,44 @@ export function MarketAssessmentStep() {
     fetchMarketData();
   }, [state.selectedProducts, state.businessProfile]);
 
+  // Block or flag markets that sanctions, embargoes or restricted-goods lists affect
+  const applyScreening = async (marketData: Market[]): Promise<Market[]> => {
+    try {
+      const response = await fetch('/api/sanctions/screen', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetMarkets: marketData.map(m => m.flag),
+          products: state.selectedProducts.map(p => ({
+            name: p.name,
+            description: p.description,
+            hsCode: p.hsCode
+          }))
+        })
+      });
+
+      if (!response.ok) throw new Error('Failed to screen markets');
+
+      const { data } = await response.json() as { data: ScreeningResult };
+      return marketData.map(market => {
+        const result = data.markets.find(m => m.marketCode === market.flag);
+        if (!result || result.status === 'clear') return market;
+
+        return {
+          ...market,
+          selected: result.status === 'blocked' ? false : market.selected,
+          screening: {
+            status: result.status,
+            reasons: result.hits.map(hit => hit.reason)
+          }
+        };
+      });
+    } catch (error) {
+      console.error('Error screening markets:', error);
+      return marketData;
+    }
+  };
+
   // Helper functions
   const getMarketName = (code: string) => {
     const names: Record<string, string> = {
@@ -607,7 +651,9 @@ export function MarketAssessmentStep() {
   // Toggle market selection
   const handleToggleMarket = (id: string) => {
     setMarkets(markets.map(market => 
-      market.id === id ? { ...market, selected: !market.selected } : market
+      market.id === id && market.screening?.status !== 'blocked'
+        ? { ...market, selected: !market.selected }
+        : market
     ));
   };
 
@@ -30,7 +30,7 @@ export const ClassificationWizard: React.FC<ClassificationWizardProps> = ({
   // Classification hooks
   const { useClassification, useManualClassification } = classificationService;
   const { data, isLoading, error } = useClassification(description);
-  const { mutate: selectManually } = useManualClassification();
+  const { mutate: selectManually } = useManualClassification(description);
 
   // Effect to handle successful classification
   useEffect(() => {
@@ -0,0 +1,75 @@
+import React from 'react';
+import {
+  Box,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { ExportReadinessScoreBreakdown } from '@/types/report.types';
+
+interface ReadinessScoreBreakdownViewProps {
+  breakdown?: ExportReadinessScoreBreakdown;
+}
+
+/**
+ * Per-dimension explanation of the export readiness score
+ */
+export function ReadinessScoreBreakdownView({ breakdown }: ReadinessScoreBreakdownViewProps) {
+  if (!breakdown) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 4, mb: 4, borderRadius: 2 }}>
+      <Typography variant="h5" gutterBottom>
+        Score Breakdown
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        Scoring model version {breakdown.configVersion}
+      </Typography>
+
+      <Table size="small" sx={{ mt: 2 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Dimension</TableCell>
+            <TableCell align="right">Weight</TableCell>
+            <TableCell sx={{ minWidth: 160 }}>Sub-score</TableCell>
+            <TableCell align="right">Points</TableCell>
+            <TableCell>Why</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {breakdown.dimensions.map(dimension => (
+            <TableRow key={dimension.id}>
+              <TableCell>{dimension.name}</TableCell>
+              <TableCell align="right">{dimension.weight}%</TableCell>
+              <TableCell>
+                <Box display="flex" alignItems="center" gap={1}>
+                  <LinearProgress
+                    variant="determinate"
+                    value={dimension.subScore}
+                    sx={{ flexGrow: 1, height: 8, borderRadius: 4 }}
+                  />
+                  <Typography variant="body2">{dimension.subScore}</Typography>
+                </Box>
+              </TableCell>
+              <TableCell align="right">{dimension.weightedScore.toFixed(1)}</TableCell>
+              <TableCell>
+                {dimension.rationale.map((reason, index) => (
+                  <Typography key={index} variant="body2">
+                    {reason}
+                  </Typography>
+                ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
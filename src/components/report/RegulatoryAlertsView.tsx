@@ -0,0 +1,42 @@
+import React from 'react';
+import { Box, Paper, Typography } from '@mui/material';
+import { RegulatoryChangeAlert } from '@/types/regulatory-change.types';
+
+interface RegulatoryAlertsViewProps {
+  alerts: RegulatoryChangeAlert[];
+}
+
+/**
+ * Compliance rule changes detected since this assessment was last tracked
+ */
+export function RegulatoryAlertsView({ alerts }: RegulatoryAlertsViewProps) {
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 4, mb: 4, borderRadius: 2 }}>
+      <Typography variant="h5" gutterBottom>
+        Regulatory Changes
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Compliance rules changed after earlier versions of this report were generated.
+      </Typography>
+
+      {alerts.map(alert => (
+        <Box key={alert.id} mt={2}>
+          <Typography variant="subtitle1" fontWeight="bold">
+            Detected {alert.detectedAt.toLocaleDateString()}
+          </Typography>
+          <ul>
+            {alert.changes.map((change, index) => (
+              <li key={index}>
+                <Typography variant="body2">[{change.marketCode}] {change.summary}</Typography>
+              </li>
+            ))}
+          </ul>
+        </Box>
+      ))}
+    </Paper>
+  );
+}
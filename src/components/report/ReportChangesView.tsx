@@ -0,0 +1,212 @@
+import React from 'react';
+import {
+  Box,
+  Chip,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { ReportDiff, ReportVersion, ValueDelta } from '@/types/report.types';
+
+interface ReportChangesViewProps {
+  diff: ReportDiff | null;
+  history: ReportVersion[];
+  currentVersion: number | null;
+  comparedVersion: number | null;
+  onCompareVersionChange: (version: number) => void;
+}
+
+function formatDelta(value: ValueDelta, unit: string = ''): string {
+  const sign = value.delta > 0 ? '+' : '';
+  return `${value.previous.toLocaleString()}${unit} → ${value.current.toLocaleString()}${unit} (${sign}${value.delta.toLocaleString()}${unit})`;
+}
+
+function DeltaRow({ label, value, unit }: { label: string; value: ValueDelta; unit?: string }) {
+  if (value.delta === 0) {
+    return null;
+  }
+
+  return (
+    <TableRow>
+      <TableCell>{label}</TableCell>
+      <TableCell>
+        <Typography variant="body2" color={value.delta > 0 ? 'success.main' : 'error.main'}>
+          {formatDelta(value, unit)}
+        </Typography>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function ChangeList({ title, added, removed }: { title: string; added: string[]; removed: string[] }) {
+  if (added.length === 0 && removed.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box mt={3}>
+      <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+        {title}
+      </Typography>
+      <Box display="flex" flexWrap="wrap" gap={1}>
+        {added.map(item => (
+          <Chip key={`added-${item}`} label={`+ ${item}`} color="success" variant="outlined" size="small" />
+        ))}
+        {removed.map(item => (
+          <Chip key={`removed-${item}`} label={`− ${item}`} color="error" variant="outlined" size="small" />
+        ))}
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * "What changed" view comparing the current report with an earlier version
+ */
+export function ReportChangesView({
+  diff,
+  history,
+  currentVersion,
+  comparedVersion,
+  onCompareVersionChange
+}: ReportChangesViewProps) {
+  const earlierVersions = history.filter(entry => currentVersion === null || entry.version < currentVersion);
+
+  if (earlierVersions.length === 0) {
+    return null;
+  }
+
+  const cost = diff?.totalEstimatedCost;
+
+  return (
+    <Paper sx={{ p: 4, mb: 4, borderRadius: 2 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2}>
+        <Typography variant="h5">
+          What Changed
+        </Typography>
+        <Box display="flex" alignItems="center" gap={1}>
+          <Typography variant="body2" color="text.secondary">
+            Compared with
+          </Typography>
+          <Select
+            size="small"
+            value={comparedVersion ?? ''}
+            onChange={(event) => onCompareVersionChange(Number(event.target.value))}
+          >
+            {earlierVersions.map(entry => (
+              <MenuItem key={entry.version} value={entry.version}>
+                Version {entry.version} ({entry.savedAt.toLocaleDateString()})
+              </MenuItem>
+            ))}
+          </Select>
+        </Box>
+      </Box>
+
+      {!diff || !diff.hasChanges ? (
+        <Typography variant="body1" mt={2}>
+          No changes since the selected version.
+        </Typography>
+      ) : (
+        <>
+          <Table size="small" sx={{ mt: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Metric</TableCell>
+                <TableCell>Change</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              <DeltaRow label="Export Readiness Score" value={diff.exportReadinessScore} />
+              <DeltaRow label={`Budget (${diff.budgetAmount.currency})`} value={diff.budgetAmount} />
+              {!diff.budgetAmount.comparable && (
+                <TableRow>
+                  <TableCell>Budget</TableCell>
+                  <TableCell>
+                    <Typography variant="body2" color="text.secondary">
+                      Not comparable: {diff.budgetAmount.previousCurrency} cannot be converted to {diff.budgetAmount.currency}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+              {cost && <DeltaRow label={`Certification Cost (min, ${cost.currency})`} value={cost.min} />}
+              {cost && <DeltaRow label={`Certification Cost (max, ${cost.currency})`} value={cost.max} />}
+              {cost && !cost.comparable && (
+                <TableRow>
+                  <TableCell>Certification Cost</TableCell>
+                  <TableCell>
+                    <Typography variant="body2" color="text.secondary">
+                      Not comparable: {cost.previousCurrency} cannot be converted to {cost.currency}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+              <DeltaRow label="Certification Timeline" value={diff.totalEstimatedTimelineInDays} unit=" days" />
+            </TableBody>
+          </Table>
+
+          <ChangeList
+            title="Target Markets"
+            added={diff.markets.added.map(market => market.name)}
+            removed={diff.markets.removed.map(market => market.name)}
+          />
+
+          <ChangeList
+            title="Certification Requirements"
+            added={diff.certificationRequirements.added.map(req => `${req.name} (${req.marketCode})`)}
+            removed={diff.certificationRequirements.removed.map(req => `${req.name} (${req.marketCode})`)}
+          />
+
+          {diff.certificationRequirements.changed.length > 0 && (
+            <Box mt={3}>
+              <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+                Certification Cost and Timeline Changes
+              </Typography>
+              <ul>
+                {diff.certificationRequirements.changed.map(change => (
+                  <li key={`${change.marketCode}-${change.id}`}>
+                    {change.name} ({change.marketCode}): cost {change.costComparable ? (
+                      <>
+                        {change.costMinDelta >= 0 ? '+' : ''}{change.costMinDelta.toLocaleString()} to{' '}
+                        {change.costMaxDelta >= 0 ? '+' : ''}{change.costMaxDelta.toLocaleString()} {change.currency}
+                      </>
+                    ) : (
+                      `not comparable (${change.previousCurrency} to ${change.currency})`
+                    )}, timeline {change.timelineDeltaInDays >= 0 ? '+' : ''}
+                    {change.timelineDeltaInDays} days
+                  </li>
+                ))}
+              </ul>
+            </Box>
+          )}
+
+          <ChangeList
+            title="Action Items"
+            added={diff.actionItems.added.map(item => item.name)}
+            removed={diff.actionItems.removed.map(item => item.name)}
+          />
+
+          {diff.actionItems.reprioritised.length > 0 && (
+            <Box mt={3}>
+              <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+                Reprioritised Actions
+              </Typography>
+              <ul>
+                {diff.actionItems.reprioritised.map(item => (
+                  <li key={item.id}>
+                    {item.name}: {item.previousPriority} → {item.currentPriority}
+                  </li>
+                ))}
+              </ul>
+            </Box>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,102 @@
+import React from 'react';
+import {
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { ApplicabilityMatch, RequirementEvidence } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { CertificationRequirement } from '@/types/report.types';
+
+interface RequirementApplicabilityViewProps {
+  requirements: CertificationRequirement[];
+}
+
+const ATTRIBUTE_LABELS: Record<ApplicabilityMatch['attribute'], string> = {
+  allProducts: 'All products',
+  productCategory: 'Category',
+  productName: 'Product name',
+  hsCode: 'HS code',
+  hsChapter: 'HS chapter',
+  hsHeading: 'HS heading',
+  storageType: 'Storage',
+  organic: 'Organic',
+  halal: 'Halal'
+};
+
+const SOURCE_LABELS: Record<RequirementEvidence['source'], string> = {
+  'rule-base': 'Rule base',
+  'country-api': 'Country API',
+  simulated: 'Simulated country data (not verified)',
+  'perplexity-verification': 'Perplexity verification'
+};
+
+const describeMatch = (match: ApplicabilityMatch) => {
+  const product = match.product.name || match.product.hsCode || match.product.category;
+  const criterion = match.matchedValue
+    ? `${ATTRIBUTE_LABELS[match.attribute]} ${match.matchedValue}`
+    : ATTRIBUTE_LABELS[match.attribute];
+  return `${product} (${match.marketCode}): ${criterion}, rule ${match.ruleId}`;
+};
+
+/**
+ * Why each roadmap requirement applies and which sources back it, so the
+ * roadmap can be defended line by line
+ */
+export function RequirementApplicabilityView({ requirements }: RequirementApplicabilityViewProps) {
+  const traced = requirements.filter(requirement => requirement.applicability);
+  if (traced.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 4, mb: 4, borderRadius: 2 }}>
+      <Typography variant="h5" gutterBottom>
+        Why These Requirements Apply
+      </Typography>
+
+      <Table size="small" sx={{ mt: 2 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Requirement</TableCell>
+            <TableCell>Market</TableCell>
+            <TableCell>Matched on</TableCell>
+            <TableCell>Sources</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {traced.map(requirement => (
+            <TableRow key={`${requirement.marketCode}-${requirement.id}`}>
+              <TableCell>{requirement.name}</TableCell>
+              <TableCell>{requirement.marketName}</TableCell>
+              <TableCell>
+                {requirement.applicability!.matches.map((match, index) => (
+                  <Typography key={index} variant="body2">{describeMatch(match)}</Typography>
+                ))}
+              </TableCell>
+              <TableCell>
+                {requirement.applicability!.evidence.map((evidence, index) => (
+                  <Typography key={index} variant="body2">
+                    {SOURCE_LABELS[evidence.source]}:{' '}
+                    {evidence.url ? (
+                      <Link href={evidence.url} target="_blank" rel="noopener noreferrer">
+                        {evidence.title || evidence.reference}
+                      </Link>
+                    ) : (
+                      evidence.title || evidence.reference
+                    )}
+                    {evidence.verifiedAt && ` (verified ${evidence.verifiedAt})`}
+                  </Typography>
+                ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
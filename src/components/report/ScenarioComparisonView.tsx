@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { AssessmentScenario, ScenarioComparison, ScenarioComparisonRow } from '@/types/report.types';
+import { Budget, TargetMarket } from '@/contexts/assessment-context';
+
+interface ScenarioComparisonViewProps {
+  comparison: ScenarioComparison | null;
+  isComparing: boolean;
+  targetMarkets: TargetMarket[];
+  budget: Budget;
+  onCompare: (scenarios: AssessmentScenario[]) => void;
+}
+
+// Markets offered when building "what if" scenarios
+const SCENARIO_MARKETS: TargetMarket[] = [
+  { id: 'gb', code: 'GB', name: 'United Kingdom' },
+  { id: 'ae', code: 'AE', name: 'United Arab Emirates' },
+  { id: 'us', code: 'US', name: 'United States' },
+  { id: 'de', code: 'DE', name: 'Germany' },
+  { id: 'nl', code: 'NL', name: 'Netherlands' },
+  { id: 'sa', code: 'SA', name: 'Saudi Arabia' },
+  { id: 'cn', code: 'CN', name: 'China' },
+  { id: 'ke', code: 'KE', name: 'Kenya' },
+  { id: 'ng', code: 'NG', name: 'Nigeria' },
+  { id: 'bw', code: 'BW', name: 'Botswana' }
+];
+
+function formatCost(row: ScenarioComparisonRow): string {
+  const cost = row.totalCertificationCost;
+  return cost ? `${cost.min.toLocaleString()} - ${cost.max.toLocaleString()} ${cost.currency}` : '-';
+}
+
+function ScoreCell({ row, baseRow }: { row: ScenarioComparisonRow; baseRow?: ScenarioComparisonRow }) {
+  if (row.exportReadinessScore === null) {
+    return <>-</>;
+  }
+
+  const delta = baseRow && baseRow !== row && baseRow.exportReadinessScore !== null
+    ? row.exportReadinessScore - baseRow.exportReadinessScore
+    : 0;
+
+  return (
+    <>
+      {row.exportReadinessScore}/100
+      {delta !== 0 && (
+        <Typography component="span" variant="body2" color={delta > 0 ? 'success.main' : 'error.main'}>
+          {' '}({delta > 0 ? '+' : ''}{delta})
+        </Typography>
+      )}
+    </>
+  );
+}
+
+/**
+ * Build "what if" scenarios and compare their reports side by side
+ */
+export function ScenarioComparisonView({
+  comparison,
+  isComparing,
+  targetMarkets,
+  budget,
+  onCompare
+}: ScenarioComparisonViewProps) {
+  const [scenarios, setScenarios] = useState<AssessmentScenario[]>([]);
+  const [name, setName] = useState('');
+  const [marketCodes, setMarketCodes] = useState<string[]>(targetMarkets.map(market => market.code));
+  const [budgetAmount, setBudgetAmount] = useState<number>(budget.amount);
+
+  const marketOptions = [
+    ...targetMarkets,
+    ...SCENARIO_MARKETS.filter(option => !targetMarkets.some(market => market.code === option.code))
+  ];
+
+  const addScenario = (scenario: Omit<AssessmentScenario, 'id'>) => {
+    setScenarios(current => [...current, { ...scenario, id: `scenario-${Date.now()}-${current.length}` }]);
+  };
+
+  const handleAddCustom = () => {
+    const markets = marketOptions.filter(option => marketCodes.includes(option.code));
+    addScenario({
+      name: name || `${markets.map(market => market.code).join(', ')} at ${budgetAmount.toLocaleString()} ${budget.currency}`,
+      overrides: {
+        targetMarkets: markets,
+        budget: { amount: budgetAmount }
+      }
+    });
+    setName('');
+  };
+
+  const baseRow = comparison?.rows.find(row => row.scenarioId === comparison.baseScenarioId);
+
+  return (
+    <Paper sx={{ p: 4, mb: 4, borderRadius: 2 }}>
+      <Typography variant="h5" gutterBottom>
+        Scenario Comparison
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        See how alternative markets or budgets change your readiness, costs and timeline.
+      </Typography>
+
+      <Box display="flex" gap={1} flexWrap="wrap" mt={2}>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => addScenario({ name: 'Double the budget', overrides: { budget: { amount: budget.amount * 2 } } })}
+        >
+          Double the budget
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => addScenario({ name: 'Halve the budget', overrides: { budget: { amount: budget.amount / 2 } } })}
+        >
+          Halve the budget
+        </Button>
+      </Box>
+
+      <Box display="flex" gap={2} flexWrap="wrap" alignItems="center" mt={2}>
+        <TextField
+          size="small"
+          label="Scenario name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <Select
+          size="small"
+          multiple
+          value={marketCodes}
+          onChange={(event) => {
+            const value = event.target.value;
+            setMarketCodes(typeof value === 'string' ? value.split(',') : value);
+          }}
+          renderValue={(selected) => selected.join(', ')}
+          sx={{ minWidth: 180 }}
+        >
+          {marketOptions.map(market => (
+            <MenuItem key={market.code} value={market.code}>
+              {market.name}
+            </MenuItem>
+          ))}
+        </Select>
+        <TextField
+          size="small"
+          type="number"
+          label={`Budget (${budget.currency})`}
+          value={budgetAmount}
+          onChange={(event) => setBudgetAmount(Number(event.target.value))}
+        />
+        <Button variant="outlined" onClick={handleAddCustom} disabled={marketCodes.length === 0 || budgetAmount <= 0}>
+          Add Scenario
+        </Button>
+      </Box>
+
+      {scenarios.length > 0 && (
+        <Box display="flex" gap={1} flexWrap="wrap" mt={2}>
+          {scenarios.map(scenario => (
+            <Chip
+              key={scenario.id}
+              label={scenario.name}
+              onDelete={() => setScenarios(current => current.filter(item => item.id !== scenario.id))}
+            />
+          ))}
+        </Box>
+      )}
+
+      <Box mt={2}>
+        <Button
+          variant="contained"
+          onClick={() => onCompare(scenarios)}
+          disabled={scenarios.length === 0 || isComparing}
+          startIcon={isComparing ? <CircularProgress size={16} /> : undefined}
+        >
+          {isComparing ? 'Comparing...' : 'Compare Scenarios'}
+        </Button>
+      </Box>
+
+      {comparison && (
+        <Table size="small" sx={{ mt: 3 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Scenario</TableCell>
+              <TableCell>Readiness Score</TableCell>
+              <TableCell>Certification Cost</TableCell>
+              <TableCell>Time to First Shipment</TableCell>
+              <TableCell>Top Risks</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {comparison.rows.map(row => (
+              <TableRow key={row.scenarioId} selected={row.scenarioId === comparison.baseScenarioId}>
+                <TableCell>{row.scenarioName}</TableCell>
+                {row.error ? (
+                  <TableCell colSpan={4}>
+                    <Typography variant="body2" color="error">
+                      {row.error}
+                    </Typography>
+                  </TableCell>
+                ) : (
+                  <>
+                    <TableCell><ScoreCell row={row} baseRow={baseRow} /></TableCell>
+                    <TableCell>{formatCost(row)}</TableCell>
+                    <TableCell>
+                      {row.timeToFirstShipmentDays !== null ? `${row.timeToFirstShipmentDays} days` : '-'}
+                    </TableCell>
+                    <TableCell>{row.topRisks.join(', ') || '-'}</TableCell>
+                  </>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
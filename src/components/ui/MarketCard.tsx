@@ -1,5 +1,5 @@
 import React from 'react';
-import { Card, CardContent, Typography, Box, FormControlLabel, Checkbox } from '@mui/material';
+import { Card, CardContent, Typography, Box, FormControlLabel, Checkbox, Alert } from '@mui/material';
 import { styled } from '@mui/material/styles';
 import { CountryFlag } from './CountryFlag';
 
@@ -26,6 +26,10 @@ interface MarketCardProps {
     saExports: string;
     tariff: string;
     selected: boolean;
+    screening?: {
+      status: 'clear' | 'flagged' | 'blocked';
+      reasons: string[];
+    };
   };
   onToggle: (id: string) => void;
 }
@@ -103,7 +107,23 @@ export function MarketCard({ market, onToggle }: MarketCardProps) {
           </Typography>
         </Box>
         
+        {market.screening && market.screening.status !== 'clear' && (
+          <Alert severity={market.screening.status === 'blocked' ? 'error' : 'warning'} sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
+              {market.screening.status === 'blocked'
+                ? 'Export prohibited by sanctions or trade controls'
+                : 'Sanctions or trade control restrictions apply'}
+            </Typography>
+            {market.screening.reasons.map(reason => (
+              <Typography key={reason} variant="body2">
+                {reason}
+              </Typography>
+            ))}
+          </Alert>
+        )}
+        
         <FormControlLabel
+          disabled={market.screening?.status === 'blocked'}
           control={
             <Checkbox 
               checked={market.selected}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import { NationalTariffSelection } from '@/data/hs-codes/types';
 
 export type EntityType = 'business' | 'product' | 'location' | 'contact' | 'person' | 'service';
 
@@ -35,6 +36,7 @@ export interface Product {
   hsCode?: string;
   hsCodeDescription?: string;
   hsCodeConfidence?: number;
+  nationalTariffCodes?: Record<string, NationalTariffSelection>; // Confirmed national code per target market, keyed by market code
   selected?: boolean;
   confidenceScore?: number;
   suggestedCategory?: {
@@ -1,13 +1,22 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import axios from 'axios';
 import { 
+  AssessmentScenario,
   ReportData,
+  ReportDiff,
   ReportFormat,
-  ReportGenerationConfig
+  ReportGenerationConfig,
+  ReportVersion,
+  ScenarioComparison
 } from '@/types/report.types';
+import { RegulatoryChangeAlert } from '@/types/regulatory-change.types';
 import { ReportGeneratorService } from '@/services/report-generator/report-generator.service';
 import { PdfExportService } from '@/services/report-generator/pdf-export.service';
+import { ReportHistoryService } from '@/services/report-generator/report-history.service';
+import { ReportDiffService } from '@/services/report-generator/report-diff.service';
+import { ScenarioComparisonService } from '@/services/report-generator/scenario-comparison.service';
 import { useAssessment } from '@/contexts/assessment-context';
 import { logger } from '@/utils/logger';
 
@@ -17,6 +26,13 @@ interface ReportState {
   reportData: ReportData | null;
   exportFormat: ReportFormat;
   generationConfig: ReportGenerationConfig;
+  reportHistory: ReportVersion[];
+  currentVersion: number | null;
+  comparedVersion: number | null;
+  reportDiff: ReportDiff | null;
+  isComparingScenarios: boolean;
+  scenarioComparison: ScenarioComparison | null;
+  regulatoryAlerts: RegulatoryChangeAlert[];
 }
 
 type ReportAction =
@@ -24,7 +40,12 @@ type ReportAction =
   | { type: 'SET_GENERATION_ERROR'; payload: string | null }
   | { type: 'SET_REPORT_DATA'; payload: ReportData | null }
   | { type: 'SET_EXPORT_FORMAT'; payload: ReportFormat }
-  | { type: 'SET_GENERATION_CONFIG'; payload: Partial<ReportGenerationConfig> };
+  | { type: 'SET_GENERATION_CONFIG'; payload: Partial<ReportGenerationConfig> }
+  | { type: 'SET_REPORT_HISTORY'; payload: { history: ReportVersion[]; currentVersion: number | null } }
+  | { type: 'SET_REPORT_DIFF'; payload: { comparedVersion: number | null; diff: ReportDiff | null } }
+  | { type: 'SET_COMPARING_SCENARIOS'; payload: boolean }
+  | { type: 'SET_SCENARIO_COMPARISON'; payload: ScenarioComparison | null }
+  | { type: 'SET_REGULATORY_ALERTS'; payload: RegulatoryChangeAlert[] };
 
 const initialGenerationConfig: ReportGenerationConfig = {
   includeConfidenceScores: true,
@@ -40,7 +61,14 @@ const initialState: ReportState = {
   generationError: null,
   reportData: null,
   exportFormat: ReportFormat.HTML,
-  generationConfig: initialGenerationConfig
+  generationConfig: initialGenerationConfig,
+  reportHistory: [],
+  currentVersion: null,
+  comparedVersion: null,
+  reportDiff: null,
+  isComparingScenarios: false,
+  scenarioComparison: null,
+  regulatoryAlerts: []
 };
 
 const ReportContext = createContext<{
@@ -49,6 +77,8 @@ const ReportContext = createContext<{
   generateReport: () => Promise<void>;
   exportReport: (format: ReportFormat) => Promise<void>;
   updateGenerationConfig: (config: Partial<ReportGenerationConfig>) => void;
+  compareWithVersion: (version: number) => void;
+  compareScenarios: (scenarios: AssessmentScenario[]) => Promise<void>;
 } | null>(null);
 
 function reportReducer(state: ReportState, action: ReportAction): ReportState {
@@ -66,6 +96,24 @@ function reportReducer(state: ReportState, action: ReportAction): ReportState {
         ...state, 
         generationConfig: { ...state.generationConfig, ...action.payload } 
       };
+    case 'SET_REPORT_HISTORY':
+      return {
+        ...state,
+        reportHistory: action.payload.history,
+        currentVersion: action.payload.currentVersion
+      };
+    case 'SET_REPORT_DIFF':
+      return {
+        ...state,
+        comparedVersion: action.payload.comparedVersion,
+        reportDiff: action.payload.diff
+      };
+    case 'SET_COMPARING_SCENARIOS':
+      return { ...state, isComparingScenarios: action.payload };
+    case 'SET_SCENARIO_COMPARISON':
+      return { ...state, scenarioComparison: action.payload };
+    case 'SET_REGULATORY_ALERTS':
+      return { ...state, regulatoryAlerts: action.payload };
     default:
       return state;
   }
@@ -79,6 +127,9 @@ export function ReportProvider({ children }: { children: ReactNode }) {
   const useMockData = true; // Always use mock data until service integrations are ready
   const reportGeneratorService = new ReportGeneratorService(useMockData);
   const pdfExportService = new PdfExportService();
+  const reportHistoryService = new ReportHistoryService();
+  const reportDiffService = new ReportDiffService();
+  const scenarioComparisonService = new ScenarioComparisonService(reportGeneratorService);
   
   const generateReport = async () => {
     dispatch({ type: 'SET_GENERATING', payload: true });
@@ -102,6 +153,42 @@ export function ReportProvider({ children }: { children: ReactNode }) {
       );
       
       dispatch({ type: 'SET_REPORT_DATA', payload: reportData });
+      
+      // Persist this run and compare it with the previous one for the same assessment
+      const assessmentId = ReportHistoryService.getAssessmentId(assessmentState.businessProfile);
+      const previousVersion = reportHistoryService.getLatest(assessmentId);
+      const savedVersion = reportHistoryService.saveReport(assessmentId, reportData);
+
+      // Watch the compliance data behind this report; tracking failures shouldn't block the report
+      axios.post('/api/regulatory-changes', {
+        assessmentId,
+        request: reportGeneratorService.createComplianceRequest({
+          ...assessmentState,
+          businessProfile: assessmentState.businessProfile
+        })
+      }).catch(error => logger.warn(`Could not track assessment ${assessmentId} for regulatory changes: ${error}`));
+      axios.get<{ data?: RegulatoryChangeAlert[] }>('/api/regulatory-changes', { params: { assessmentId } })
+        .then(response => dispatch({
+          type: 'SET_REGULATORY_ALERTS',
+          payload: (response.data.data || []).map(alert => ({ ...alert, detectedAt: new Date(alert.detectedAt) }))
+        }))
+        .catch(error => logger.warn(`Could not load regulatory change alerts for ${assessmentId}: ${error}`));
+
+      dispatch({
+        type: 'SET_REPORT_HISTORY',
+        payload: {
+          history: reportHistoryService.getHistory(assessmentId),
+          currentVersion: savedVersion.version
+        }
+      });
+      dispatch({
+        type: 'SET_REPORT_DIFF',
+        payload: {
+          comparedVersion: previousVersion ? previousVersion.version : null,
+          diff: previousVersion ? reportDiffService.compare(previousVersion.report, reportData) : null
+        }
+      });
+      
       logger.info('Report generation completed successfully');
     } catch (error) {
       logger.error('Error generating report:', error);
@@ -132,7 +219,7 @@ export function ReportProvider({ children }: { children: ReactNode }) {
       
       // Download the generated file
       const fileName = `${state.reportData.businessProfile.name.replace(/\s+/g, '_')}_export_readiness_report`;
-      const extension = format.toLowerCase();
+      const extension = pdfExportService.getFileExtension(format);
       pdfExportService.downloadPdf(blob, `${fileName}.${extension}`);
       
       logger.info('Report export completed successfully');
@@ -149,13 +236,65 @@ export function ReportProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_GENERATION_CONFIG', payload: config });
   };
   
+  const compareWithVersion = (version: number) => {
+    const comparedEntry = state.reportHistory.find(entry => entry.version === version);
+    if (!state.reportData || !comparedEntry) {
+      return;
+    }
+    
+    dispatch({
+      type: 'SET_REPORT_DIFF',
+      payload: {
+        comparedVersion: version,
+        diff: reportDiffService.compare(comparedEntry.report, state.reportData)
+      }
+    });
+  };
+  
+  const compareScenarios = async (scenarios: AssessmentScenario[]) => {
+    if (!assessmentState.businessProfile) {
+      dispatch({ 
+        type: 'SET_GENERATION_ERROR', 
+        payload: 'Business profile is required for scenario comparison' 
+      });
+      return;
+    }
+    
+    dispatch({ type: 'SET_COMPARING_SCENARIOS', payload: true });
+    
+    try {
+      logger.info(`Comparing ${scenarios.length} report scenarios`);
+      
+      const comparison = await scenarioComparisonService.compareScenarios(
+        {
+          ...assessmentState,
+          businessProfile: assessmentState.businessProfile
+        },
+        scenarios,
+        state.generationConfig
+      );
+      
+      dispatch({ type: 'SET_SCENARIO_COMPARISON', payload: comparison });
+    } catch (error) {
+      logger.error('Error comparing scenarios:', error);
+      dispatch({ 
+        type: 'SET_GENERATION_ERROR', 
+        payload: error instanceof Error ? error.message : 'Unknown error comparing scenarios'
+      });
+    } finally {
+      dispatch({ type: 'SET_COMPARING_SCENARIOS', payload: false });
+    }
+  };
+  
   return (
     <ReportContext.Provider value={{ 
       state, 
       dispatch, 
       generateReport, 
       exportReport,
-      updateGenerationConfig
+      updateGenerationConfig,
+      compareWithVersion,
+      compareScenarios
     }}>
       {children}
     </ReportContext.Provider>
@@ -0,0 +1,30 @@
+import certificationGraph from './certification-graph.json';
+
+export interface CertificationNode {
+  id: string;
+  kind: 'certification' | 'certifier';
+  name: string;
+  // Lower-case names the node appears under in requirements and user input
+  aliases: string[];
+}
+
+// covers: holding `from` also meets `to`; equivalent-to holds both ways;
+// accepted-by-market points at a market code; accepted-certifier at a certifier node
+export type CertificationEdgeType = 'covers' | 'equivalent-to' | 'accepted-by-market' | 'accepted-certifier';
+
+export interface CertificationEdge {
+  type: CertificationEdgeType;
+  from: string;
+  to: string;
+  // Markets the edge is limited to
+  markets?: string[];
+}
+
+export interface CertificationGraphData {
+  version: string;
+  // Specific schemes come before generic ones so they win when resolving names
+  nodes: CertificationNode[];
+  edges: CertificationEdge[];
+}
+
+export const certificationGraphData = certificationGraph as CertificationGraphData;
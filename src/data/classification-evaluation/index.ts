@@ -0,0 +1,10 @@
+import labelledProducts from './labelled-products.json';
+import llmFixtures from './llm-fixtures.json';
+import { EvaluationDataset } from '@/types/classification-evaluation.types';
+
+export const classificationEvaluationDataset = labelledProducts as EvaluationDataset;
+
+
+// Message content of /api/classify completions recorded with `npm run record:llm-fixtures`,
+// keyed by product description. Products without a recording count as LLM errors.
+export const llmClassificationFixtures: Record<string, string> = llmFixtures.responses;
@@ -0,0 +1,19 @@
+import allMarketsRules from './all-markets.json';
+import internationalRules from './international.json';
+import southAfricaRules from './za.json';
+import uaeRules from './ae.json';
+import unitedKingdomRules from './gb.json';
+import unitedStatesRules from './us.json';
+
+/**
+ * Compliance rule files bundled with the app. Files are validated when the rule
+ * base loads them, so they are exported untyped here.
+ */
+export const complianceRuleFiles: Array<{ name: string; data: unknown }> = [
+  { name: 'all-markets.json', data: allMarketsRules },
+  { name: 'international.json', data: internationalRules },
+  { name: 'za.json', data: southAfricaRules },
+  { name: 'ae.json', data: uaeRules },
+  { name: 'gb.json', data: unitedKingdomRules },
+  { name: 'us.json', data: unitedStatesRules }
+];
@@ -0,0 +1,6 @@
+import labelled from './labelled-products.json';
+import { LabelledProduct } from '../types';
+
+// Held out from tuning: no description contains an HS example or search term the local
+// index is built from, so the benchmark measures products the index has not seen
+export const labelledProducts: LabelledProduct[] = labelled.products;
@@ -0,0 +1,60 @@
+import gb from './national/gb.json';
+import ae from './national/ae.json';
+import { HSNomenclatureError } from './nomenclature';
+import { NationalTariffLine, NationalTariffSchedule } from './types';
+
+// Lines are only bundled for a handful of subheadings common in South African exports, not the full
+// schedules; for other subheadings users are sent to the tariff's source to look up the national code
+export const nationalTariffSchedules: NationalTariffSchedule[] = [gb, ae];
+
+/**
+ * Check every line of a national tariff has the tariff's length and is unique, reporting every problem at once
+ */
+export function validateNationalTariffSchedule(schedule: NationalTariffSchedule): void {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  schedule.lines.forEach((line, index) => {
+    if (!new RegExp(`^\\d{${schedule.digits}}$`).test(line.code)) {
+      errors.push(`lines[${index}].code: expected ${schedule.digits} digits, got "${line.code}"`);
+    } else if (seen.has(line.code)) {
+      errors.push(`lines[${index}].code: ${line.code} is listed more than once`);
+    }
+    if (!line.description) {
+      errors.push(`lines[${index}].description: expected a description`);
+    }
+    seen.add(line.code);
+  });
+
+  if (errors.length > 0) {
+    throw new HSNomenclatureError(`Invalid ${schedule.market} tariff ${schedule.version}: ${errors.length} problem(s)`, errors);
+  }
+}
+
+/**
+ * Index national tariff lines by market and the 6-digit subheading they fall under
+ */
+export function loadNationalTariffLines(
+  schedules: NationalTariffSchedule[] = nationalTariffSchedules
+): Record<string, Record<string, NationalTariffLine[]>> {
+  const index: Record<string, Record<string, NationalTariffLine[]>> = {};
+
+  for (const schedule of schedules) {
+    validateNationalTariffSchedule(schedule);
+    const bySubheading: Record<string, NationalTariffLine[]> = {};
+
+    for (const line of schedule.lines) {
+      const subheading = line.code.substring(0, 6);
+      if (!bySubheading[subheading]) {
+        bySubheading[subheading] = [];
+      }
+      bySubheading[subheading].push({ ...line, market: schedule.market, subheading });
+    }
+
+    index[schedule.market] = bySubheading;
+  }
+
+  return index;
+}
+
+export const nationalTariffLines = loadNationalTariffLines();
@@ -0,0 +1,140 @@
+import sections from './hs2022/sections.json';
+import chapters from './hs2022/chapters.json';
+import headings from './hs2022/headings.json';
+import subheadings from './hs2022/subheadings.json';
+import searchTerms from './hs2022/search-terms.json';
+import hs2017To2022 from './correlations/hs2017-hs2022.json';
+import {
+  HSCodeHierarchy,
+  HSCodeNode,
+  HSCorrelationTable,
+  HSNomenclature,
+  HSNomenclatureEntry
+} from './types';
+
+export class HSNomenclatureError extends Error {
+  constructor(message: string, public errors: string[]) {
+    super(message);
+    this.name = 'HSNomenclatureError';
+  }
+}
+
+export const hs2022Nomenclature = {
+  version: 'HS2022',
+  sections: sections.sections,
+  chapters: chapters.chapters,
+  headings: headings.headings,
+  subheadings: subheadings.subheadings,
+  completeChapters: headings.completeChapters,
+  completeHeadings: subheadings.completeHeadings
+} as HSNomenclature;
+
+// Everyday product names for codes, used when matching free-text product descriptions
+export const hs2022SearchTerms: Record<string, string[]> = searchTerms.terms;
+
+export const hsCorrelationTables: HSCorrelationTable[] = [hs2017To2022 as HSCorrelationTable];
+
+const CODE_LENGTHS = { chapters: 2, headings: 4, subheadings: 6 } as const;
+
+/**
+ * Check codes are well formed, unique and hang off a known parent, reporting every problem at once
+ */
+export function validateHSNomenclature(nomenclature: HSNomenclature): void {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const level of ['chapters', 'headings', 'subheadings'] as const) {
+    const length = CODE_LENGTHS[level];
+    nomenclature[level].forEach((entry, index) => {
+      if (!new RegExp(`^\\d{${length}}$`).test(entry.code)) {
+        errors.push(`${level}[${index}].code: expected ${length} digits, got "${entry.code}"`);
+      } else if (seen.has(entry.code)) {
+        errors.push(`${level}[${index}].code: ${entry.code} is listed more than once`);
+      } else if (length > 2 && !seen.has(entry.code.substring(0, length - 2))) {
+        errors.push(`${level}[${index}].code: parent ${entry.code.substring(0, length - 2)} of ${entry.code} is missing`);
+      }
+      if (!entry.title) {
+        errors.push(`${level}[${index}].title: expected a title`);
+      }
+      seen.add(entry.code);
+    });
+  }
+
+  (nomenclature.completeChapters || [])
+    .filter(code => !nomenclature.chapters.some(chapter => chapter.code === code))
+    .forEach(code => errors.push(`completeChapters: chapter ${code} is not bundled`));
+  (nomenclature.completeHeadings || [])
+    .filter(code => !nomenclature.headings.some(heading => heading.code === code))
+    .forEach(code => errors.push(`completeHeadings: heading ${code} is not bundled`));
+
+  for (const chapter of nomenclature.chapters) {
+    if (!nomenclature.sections.some(section => chapter.code >= section.fromChapter && chapter.code <= section.toChapter)) {
+      errors.push(`chapter ${chapter.code} is not in any section`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new HSNomenclatureError(`Invalid ${nomenclature.version} nomenclature: ${errors.length} problem(s)`, errors);
+  }
+}
+
+/**
+ * Build the navigable index of a nomenclature: nodes by code and children by parent.
+ * Examples are optional product names shown alongside codes.
+ */
+export function loadHSNomenclature(
+  nomenclature: HSNomenclature = hs2022Nomenclature,
+  examples: Record<string, string[]> = {}
+): HSCodeHierarchy {
+  validateHSNomenclature(nomenclature);
+
+  const hierarchy: HSCodeHierarchy = {
+    version: nomenclature.version,
+    sections: nomenclature.sections,
+    nodes: {},
+    chapters: [],
+    headingsByChapter: {},
+    subheadingsByHeading: {},
+    completeChapters: [],
+    completeHeadings: []
+  };
+
+  const toNode = (entry: HSNomenclatureEntry, level: HSCodeNode['level']): HSCodeNode => {
+    const chapterCode = entry.code.substring(0, 2);
+    const node: HSCodeNode = {
+      id: entry.code,
+      code: entry.code,
+      level,
+      name: entry.title,
+      description: entry.title,
+      examples: examples[entry.code] || [],
+      parentId: level === 'chapter' ? undefined : entry.code.substring(0, entry.code.length - 2),
+      section: nomenclature.sections.find(section =>
+        chapterCode >= section.fromChapter && chapterCode <= section.toChapter)?.id
+    };
+    if (entry.notes) node.notes = entry.notes;
+    if (entry.exclusions) node.exclusions = entry.exclusions;
+    return node;
+  };
+
+  // Reserved chapters have no goods to navigate to
+  for (const chapter of nomenclature.chapters.filter(entry => !entry.reserved)) {
+    hierarchy.nodes[chapter.code] = toNode(chapter, 'chapter');
+    hierarchy.chapters.push(chapter.code);
+    hierarchy.headingsByChapter[chapter.code] = [];
+  }
+  for (const heading of nomenclature.headings) {
+    hierarchy.nodes[heading.code] = toNode(heading, 'heading');
+    hierarchy.headingsByChapter[heading.code.substring(0, 2)].push(heading.code);
+    hierarchy.subheadingsByHeading[heading.code] = [];
+  }
+  for (const subheading of nomenclature.subheadings) {
+    hierarchy.nodes[subheading.code] = toNode(subheading, 'subheading');
+    hierarchy.subheadingsByHeading[subheading.code.substring(0, 4)].push(subheading.code);
+  }
+
+  hierarchy.completeChapters = nomenclature.completeChapters || [...hierarchy.chapters];
+  hierarchy.completeHeadings = nomenclature.completeHeadings || Object.keys(hierarchy.subheadingsByHeading);
+
+  return hierarchy;
+}
@@ -6,13 +6,108 @@ export interface HSCodeNode {
   description: string;  // Detailed description
   examples: string[];   // Example products
   parentId?: string;    // Reference to parent (null for chapters)
+  section?: string;     // Roman numeral of the section the code falls in
+  notes?: string[];     // Legal notes of the chapter or heading
+  exclusions?: HSExclusionNote[];
 }
 
 export interface HSCodeHierarchy {
+  version: HSVersion;
+  sections: HSSection[];
   nodes: Record<string, HSCodeNode>;
   chapters: string[];   // IDs of chapter-level nodes
   headingsByChapter: Record<string, string[]>;
   subheadingsByHeading: Record<string, string[]>;
+  completeChapters: string[];  // Chapters with every heading bundled
+  completeHeadings: string[];  // Headings with every subheading bundled
+}
+
+export type HSVersion = 'HS2017' | 'HS2022';
+
+// Goods a chapter or section excludes, and where they are classified instead
+export interface HSExclusionNote {
+  description: string;
+  see: string[];        // Chapter or heading codes
+}
+
+export interface HSSection {
+  id: string;           // Roman numeral, 'I' to 'XXI'
+  title: string;
+  fromChapter: string;
+  toChapter: string;
+  notes?: string[];
+}
+
+export interface HSNomenclatureEntry {
+  code: string;
+  title: string;
+  notes?: string[];
+  exclusions?: HSExclusionNote[];
+  reserved?: boolean;   // Chapter 77 is kept free for future use
+}
+
+export interface HSNomenclature {
+  version: HSVersion;
+  sections: HSSection[];
+  chapters: HSNomenclatureEntry[];
+  headings: HSNomenclatureEntry[];
+  subheadings: HSNomenclatureEntry[];
+  completeChapters?: string[];  // Left out when every chapter has all its headings
+  completeHeadings?: string[];  // Left out when every heading has all its subheadings
+}
+
+// Codes of the older version map to one or more codes, or whole headings, of the newer
+export interface HSCorrelation {
+  from: string;
+  to: string[];
+  note?: string;
+}
+
+export interface HSCorrelationTable {
+  from: HSVersion;
+  to: HSVersion;
+  correlations: HSCorrelation[];
+}
+
+export interface HSCodeMigration {
+  code: string;
+  from: HSVersion;
+  to: HSVersion;
+  status: 'unchanged' | 'changed' | 'unknown';
+  candidates: string[]; // Codes in the newer version the code may now fall under
+  note?: string;
+}
+
+// National tariff line below an international 6-digit subheading
+export interface NationalTariffLine {
+  code: string;         // Full national code (e.g., '2204217900')
+  market: string;       // ISO country code of the tariff ('GB', 'AE')
+  subheading: string;   // International 6-digit code the line falls under
+  description: string;
+}
+
+export interface NationalTariffSchedule {
+  market: string;
+  name: string;         // 'UK Global Tariff', 'GCC Common Customs Tariff'
+  version: string;
+  digits: number;       // Length of a national code in this tariff
+  source?: string;
+  lines: Omit<NationalTariffLine, 'market' | 'subheading'>[];
+}
+
+// National code confirmed for a product in one target market
+export interface NationalTariffSelection {
+  market: string;
+  code: string;
+  subheading: string;
+  description: string;
+  confirmedAt: string;
+}
+
+// Product description with the code it is known to classify under, for measuring classifiers
+export interface LabelledProduct {
+  description: string;
+  hsCode: string;
 }
 
 export interface HSCodeSuggestion {
@@ -0,0 +1,28 @@
+import ingredients from './ingredients.json';
+import nutritionPanels from './nutrition-panels.json';
+
+export interface IngredientDictionaryEntry {
+  name: string;
+  // Lower-case names the ingredient appears under on labels
+  synonyms: string[];
+  eNumbers: string[];
+  // Phrases that contain a synonym but are not the ingredient, e.g. "cocoa butter"
+  except?: string[];
+}
+
+export interface IngredientDictionary {
+  version: string;
+  // Ingredients markets restrict, keyed to the names used in banned lists
+  restricted: IngredientDictionaryEntry[];
+  allergens: IngredientDictionaryEntry[];
+}
+
+export interface NutritionPanelReference {
+  version: string;
+  fieldAliases: Record<string, string[]>;
+  // Mandatory panel fields per market; '*' applies to markets without their own list
+  markets: Record<string, string[]>;
+}
+
+export const ingredientDictionary: IngredientDictionary = ingredients;
+export const nutritionPanelReference: NutritionPanelReference = nutritionPanels;
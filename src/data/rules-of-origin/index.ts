@@ -0,0 +1,7 @@
+import { TradeAgreementFile } from '@/mcp/compliance-mcp/rules-of-origin/rules-of-origin.interface';
+import agreements from './agreements.json';
+
+/**
+ * Preferential trade agreements South African exporters ship under
+ */
+export const tradeAgreements = agreements as TradeAgreementFile;
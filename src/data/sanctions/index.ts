@@ -0,0 +1,71 @@
+import countryEmbargoes from './country-embargoes.json';
+import controlledGoods from './controlled-goods.json';
+import citesSpecies from './cites-species.json';
+
+export interface CountryEmbargo {
+  country: string;
+  name: string;
+  // Body that imposed the measures: UN, EU, UK or US
+  authority: string;
+  // comprehensive: all trade; arms: strategic and dual-use goods; sectoral: the listed HS prefixes
+  scope: 'comprehensive' | 'arms' | 'sectoral';
+  hsPrefixes?: string[];
+  reference: string;
+  url: string;
+}
+
+export interface CountryEmbargoList {
+  version: string;
+  // Authorities whose measures bind exporters from each country; EU members not listed
+  // follow the EU's measures and '*' covers the rest
+  authoritiesByExporter: Record<string, string[]>;
+  // Member states screened for regional markets such as SADC
+  regions: Record<string, string[]>;
+  marketAliases: Record<string, string>;
+  embargoes: CountryEmbargo[];
+}
+
+export interface ControlledGoodsEntry {
+  hsPrefix: string;
+  description: string;
+  control: string;
+  // Body that issues export permits for the goods
+  authority: string;
+  url: string;
+}
+
+export interface ControlledGoodsList {
+  version: string;
+  // Conventional arms and munitions
+  strategic: ControlledGoodsEntry[];
+  dualUse: ControlledGoodsEntry[];
+}
+
+export interface CitesSpeciesEntry {
+  name: string;
+  taxon: string;
+  appendix: 'I' | 'II' | 'III';
+  // Lower-case terms that identify the species in product names and descriptions
+  keywords: string[];
+}
+
+export interface CitesSpeciesList {
+  version: string;
+  species: CitesSpeciesEntry[];
+}
+
+export interface ScreeningLists {
+  embargoes: CountryEmbargoList;
+  controlledGoods: ControlledGoodsList;
+  cites: CitesSpeciesList;
+}
+
+export const countryEmbargoList = countryEmbargoes as CountryEmbargoList;
+export const controlledGoodsList: ControlledGoodsList = controlledGoods;
+export const citesSpeciesList = citesSpecies as CitesSpeciesList;
+
+export const screeningLists: ScreeningLists = {
+  embargoes: countryEmbargoList,
+  controlledGoods: controlledGoodsList,
+  cites: citesSpeciesList
+};
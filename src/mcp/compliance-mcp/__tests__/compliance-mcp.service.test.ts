@@ -0,0 +1,242 @@
+/**
+ * @jest-environment node
+ */
+
+import axios from 'axios';
+import { ComplianceMCPService } from '../compliance-mcp.service';
+import { ComplianceRequest, MarketSpecificCompliance } from '../compliance-mcp.interface';
+import { ComplianceRuleBase } from '../rules/compliance-rule-base.service';
+import { CountryComplianceAdapterRegistry } from '../adapters/country-compliance-registry';
+import { CountryComplianceAdapter, CountryMarketCompliance } from '../adapters/country-compliance-adapter.interface';
+import { CurrencyService, StaticExchangeRateProvider } from '@/services/currency/currency.service';
+import { complianceRuleFiles } from '@/data/compliance-rules';
+
+const currencyService = new CurrencyService(new StaticExchangeRateProvider({
+  base: 'USD',
+  rateDate: '2025-01-31',
+  source: 'Test rates',
+  rates: { USD: 1, ZAR: 18, GBP: 0.8, AED: 3.6 }
+}));
+
+const request: ComplianceRequest = {
+  productCategories: ['Food Products'],
+  targetMarkets: ['AE', 'US'],
+  businessProfile: {} as ComplianceRequest['businessProfile'],
+  currency: 'ZAR',
+  asOf: '2025-03-01',
+  products: [{ category: 'Food Products', hsCode: '1602.50', storageType: 'frozen', halal: true }]
+};
+
+const ukAdapter: CountryComplianceAdapter = {
+  countryCode: 'GB',
+  name: 'Test UK adapter',
+  getRequirements: async products => ({
+    requirements: [{
+      id: 'gb-food-cert-001',
+      name: 'UK Food Hygiene Rating',
+      description: 'Rating system for food businesses',
+      isRequired: true,
+      estimatedCost: { min: 0, max: 0, currency: 'GBP' },
+      countryCode: 'GB',
+      productCategories: products.map(product => product.category)
+    }]
+  })
+};
+
+const createService = (adapters: CountryComplianceAdapter[] = []) => new ComplianceMCPService(
+  currencyService,
+  new ComplianceRuleBase(),
+  new CountryComplianceAdapterRegistry(adapters)
+);
+
+describe('ComplianceMCPService', () => {
+  let requestedUrls: string[];
+
+  beforeEach(() => {
+    requestedUrls = [];
+    jest.restoreAllMocks();
+    jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      requestedUrls.push(url);
+      throw new Error('offline');
+    });
+  });
+
+  it('should answer from the bundled rule base when WITS is unavailable', async () => {
+    const response = await createService().getRequirements(request);
+    const ids = response.requirements.map(req => req.id);
+
+    expect(ids).toEqual(expect.arrayContaining([
+      'ae-exporter-registration',
+      'us-exporter-registration',
+      'food-export-base',
+      'haccp-cert',
+      'fda-compliance',
+      'za-halal-certification',
+      'za-cold-chain-ppecb',
+      'ae-halal-meat',
+      'ae-cold-chain-shelf-life',
+      'us-food-facility-registration'
+    ]));
+    expect(ids).not.toContain('gb-ipaffs-notification');
+    expect(ids).not.toContain('us-nop-organic');
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(response.totalEstimatedCost.currency).toBe('ZAR');
+    expect(response.ruleBaseVersions).toMatchObject({ '*': '2025.1', ZA: '2025.1', AE: '2025.1' });
+  });
+
+  it('should not call WITS while building requirements', async () => {
+    await createService().getRequirements({
+      ...request,
+      targetMarkets: ['GB'],
+      products: [
+        { category: 'Food Products', hsCode: '1602.50' },
+        { category: 'Food Products', hsCode: '2103.90.10' },
+        { category: 'Beverages' }
+      ]
+    });
+
+    expect(requestedUrls).toEqual([]);
+  });
+
+  it('should dispatch markets with a country adapter to it and use the global rules elsewhere', async () => {
+    const response = await createService([ukAdapter]).getRequirements({ ...request, targetMarkets: ['GB', 'AE'] });
+    const ids = response.requirements.map(req => req.id);
+
+    expect(ids).toContain('gb-food-cert-001');
+    expect(ids).not.toContain('gb-exporter-registration');
+    expect(ids).toContain('ae-exporter-registration');
+    // Origin and international rules still apply to adapter markets
+    expect(ids).toContain('haccp-cert');
+    expect(ids).toContain('fda-compliance');
+  });
+
+  it('should fall back to the global rules when a country adapter fails', async () => {
+    const failingAdapter: CountryComplianceAdapter = {
+      ...ukAdapter,
+      getRequirements: async () => { throw new Error('service unavailable'); }
+    };
+
+    const response = await createService([failingAdapter]).getRequirements({ ...request, targetMarkets: ['GB'] });
+    const ids = response.requirements.map(req => req.id);
+
+    expect(ids).toContain('gb-exporter-registration');
+    expect(ids).not.toContain('gb-food-cert-001');
+  });
+
+  it('should keep the global rules when a country adapter has no live requirements', async () => {
+    const simulatedAdapter: CountryComplianceAdapter = {
+      ...ukAdapter,
+      getRequirements: async products => ({ ...(await ukAdapter.getRequirements(products, request)), simulated: true })
+    };
+    const emptyAdapter: CountryComplianceAdapter = { ...ukAdapter, getRequirements: async () => ({ requirements: [] }) };
+
+    for (const adapter of [simulatedAdapter, emptyAdapter]) {
+      const response = await createService([adapter]).getRequirements({ ...request, targetMarkets: ['GB'] });
+      const ids = response.requirements.map(req => req.id);
+
+      expect(ids).toContain('gb-exporter-registration');
+      expect(ids).not.toContain('gb-food-cert-001');
+    }
+  });
+
+  it('should feed rules-of-origin results into the market tariff results', async () => {
+    const adapterWithTariffs: CountryComplianceAdapter = {
+      ...ukAdapter,
+      getRequirements: async products => ({
+        requirements: (await ukAdapter.getRequirements(products, request)).requirements,
+        marketSpecificCompliance: {
+          countryCode: 'GB',
+          tariffAndTrade: { tariffRatePercentage: 0, hasQuotaRestrictions: false, hasProductBans: false }
+        } as MarketSpecificCompliance
+      })
+    };
+
+    const response = await createService([adapterWithTariffs]).getRequirements({
+      ...request,
+      targetMarkets: ['GB', 'US'],
+      products: [{
+        name: 'Beef burgers',
+        category: 'Food Products',
+        hsCode: '1602.50',
+        billOfMaterials: [{ hsCode: '0201.30', originCountry: 'ZA', valueShare: 60 }]
+      }]
+    });
+
+    expect(response.originEvaluations?.map(result => result.destinationCountry)).toEqual(['GB', 'US']);
+    expect(response.marketSpecificCompliance?.[0].tariffAndTrade.preferentialTariffs).toEqual([{
+      hsCode: '160250',
+      productName: 'Beef burgers',
+      eligible: true,
+      agreement: 'UK–SACU–Mozambique Economic Partnership Agreement',
+      rate: 0,
+      originDocument: 'EUR.1 movement certificate'
+    }]);
+  });
+
+  it('should keep the rule base tariff rate when a country adapter has none', async () => {
+    const adapterWithConditions = (tariffRatePercentage?: number): CountryComplianceAdapter => ({
+      ...ukAdapter,
+      countryCode: 'AE',
+      getRequirements: async products => ({
+        requirements: (await ukAdapter.getRequirements(products, request)).requirements,
+        marketSpecificCompliance: {
+          countryCode: 'AE',
+          tariffAndTrade: { tariffRatePercentage, hasQuotaRestrictions: false, hasProductBans: false }
+        } as CountryMarketCompliance
+      })
+    });
+    const tariffRate = async (adapter: CountryComplianceAdapter) =>
+      (await createService([adapter]).getRequirements({ ...request, targetMarkets: ['AE'] }))
+        .marketSpecificCompliance?.[0].tariffAndTrade.tariffRatePercentage;
+
+    expect(await tariffRate(adapterWithConditions())).toBe(5);
+    expect(await tariffRate(adapterWithConditions(12))).toBe(12);
+  });
+
+  it('should feed rules-of-origin results into rule base market conditions without changing the rules', async () => {
+    const zambiaRules = {
+      name: 'zm.json',
+      data: {
+        market: 'ZM',
+        version: '2025.1',
+        rules: [{
+          id: 'zm-import-permit',
+          name: 'Import permit',
+          description: 'Zambian import permit for meat products',
+          isRequired: true,
+          effectiveFrom: '2020-01-01',
+          source: { title: 'Test regulation' },
+          marketSpecificCompliance: [{
+            countryCode: 'ZM',
+            tariffAndTrade: { tariffRatePercentage: 25, hasQuotaRestrictions: false, hasProductBans: false }
+          }]
+        }]
+      }
+    };
+    const service = new ComplianceMCPService(
+      currencyService,
+      new ComplianceRuleBase([...complianceRuleFiles, zambiaRules]),
+      new CountryComplianceAdapterRegistry([])
+    );
+    const product = {
+      name: 'Beef burgers',
+      category: 'Food Products',
+      hsCode: '1602.50',
+      billOfMaterials: [{ hsCode: '0201.30', originCountry: 'ZA', valueShare: 60 }]
+    };
+    const permitConditions = (response: Awaited<ReturnType<ComplianceMCPService['getRequirements']>>) =>
+      response.requirements.find(req => req.id === 'zm-import-permit')?.marketSpecificCompliance?.[0].tariffAndTrade;
+
+    const withOrigin = await service.getRequirements({ ...request, targetMarkets: ['ZM'], products: [product] });
+    const withoutOrigin = await service.getRequirements({
+      ...request,
+      targetMarkets: ['ZM'],
+      products: [{ ...product, billOfMaterials: undefined }]
+    });
+
+    expect(permitConditions(withOrigin)?.preferentialTariffs).toEqual([
+      expect.objectContaining({ hsCode: '160250', productName: 'Beef burgers', agreement: 'SADC Protocol on Trade (Free Trade Area)' })
+    ]);
+    expect(permitConditions(withoutOrigin)).toEqual({ tariffRatePercentage: 25, hasQuotaRestrictions: false, hasProductBans: false });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * @jest-environment node
+ */
+
+import { ComplianceRuleBase } from '../rules/compliance-rule-base.service';
+import { ComplianceRuleValidationError, validateComplianceRuleFile } from '../rules/compliance-rule-validator';
+import { ComplianceRequest } from '../compliance-mcp.interface';
+import { complianceRuleFiles } from '@/data/compliance-rules';
+
+const source = { title: 'Test regulation', url: 'https://example.org/regulation' };
+
+const testRuleFiles = [
+  {
+    name: 'all-markets.json',
+    data: {
+      market: '*',
+      version: '2025.1',
+      rules: [
+        { id: 'exporter-registration', name: 'Exporter registration', description: 'Register', isRequired: true, effectiveFrom: '2020-01-01', source }
+      ]
+    }
+  },
+  {
+    name: 'ae.json',
+    data: {
+      market: 'AE',
+      version: '2025.2',
+      rules: [
+        {
+          id: 'ae-halal-meat', name: 'Halal meat', description: 'Halal certificate', isRequired: true,
+          effectiveFrom: '2020-01-01', source, appliesTo: { hsChapters: ['02', '16'] }
+        },
+        {
+          id: 'ae-cold-chain', name: 'Cold chain', description: 'Shelf life', isRequired: true,
+          effectiveFrom: '2020-01-01', source, appliesTo: { storageTypes: ['chilled', 'frozen'] }
+        },
+        {
+          id: 'ae-old-labelling', name: 'Old labelling rule', description: 'Withdrawn', isRequired: true,
+          effectiveFrom: '2020-01-01', effectiveTo: '2024-12-31', source
+        },
+        {
+          id: 'ae-new-labelling', name: 'New labelling rule', description: 'Replacement', isRequired: true,
+          effectiveFrom: '2025-01-01', source, estimatedCost: { min: 100, max: 200, currency: 'AED' }
+        }
+      ]
+    }
+  },
+  {
+    name: 'za.json',
+    data: {
+      market: 'ZA',
+      version: '2025.1',
+      rules: [
+        {
+          id: 'za-organic', name: 'Organic certification', description: 'Organic', isRequired: true,
+          effectiveFrom: '2020-01-01', source, appliesTo: { productCategories: ['food'], organic: true }
+        }
+      ]
+    }
+  }
+];
+
+const createRequest = (overrides: Partial<ComplianceRequest> = {}): ComplianceRequest => ({
+  productCategories: ['Food Products'],
+  targetMarkets: ['AE', 'GB'],
+  businessProfile: {} as ComplianceRequest['businessProfile'],
+  asOf: '2025-03-01',
+  ...overrides
+});
+
+describe('validateComplianceRuleFile', () => {
+  it('should report every problem in a rule file', () => {
+    const invalid = {
+      market: 'AE',
+      version: '2025.1',
+      rules: [
+        {
+          id: 'broken', name: 'Broken', description: 'Broken rule', isRequired: true,
+          effectiveFrom: '2025-06-01', effectiveTo: '2025-01-01',
+          estimatedCost: { min: 500, max: 100, currency: 'aed' },
+          appliesTo: { hsChapters: ['2'], storageTypes: ['warm'] }
+        },
+        { id: 'broken', name: 'Duplicate', description: 'Duplicate', isRequired: true, effectiveFrom: '2025-01-01', source }
+      ]
+    };
+
+    const validate = () => validateComplianceRuleFile(invalid, 'ae.json');
+
+    expect(validate).toThrow(ComplianceRuleValidationError);
+    expect(validate).toThrow(expect.objectContaining({
+      errors: [
+        'rules[0].estimatedCost: expected min and max with 0 <= min <= max',
+        'rules[0].estimatedCost.currency: expected an ISO 4217 currency code',
+        'rules[0].effectiveTo: must not be before effectiveFrom',
+        'rules[0].source.title: every rule needs a source citation',
+        'rules[0].appliesTo.hsChapters: expected two-digit HS chapters',
+        'rules[0].appliesTo.storageTypes: expected any of ambient, chilled, frozen',
+        'rules[1].id: duplicate rule id broken'
+      ]
+    }));
+  });
+
+  it('should accept every bundled rule file', () => {
+    for (const file of complianceRuleFiles) {
+      expect(() => validateComplianceRuleFile(file.data, file.name)).not.toThrow();
+    }
+  });
+});
+
+describe('ComplianceRuleBase', () => {
+  let ruleBase: ComplianceRuleBase;
+
+  beforeEach(() => {
+    ruleBase = new ComplianceRuleBase(testRuleFiles);
+  });
+
+  it('should repeat all-market rules for every target market', () => {
+    const ids = ruleBase.query(createRequest()).map(req => `${req.countryCode}:${req.id}`);
+
+    expect(ids).toContain('AE:ae-exporter-registration');
+    expect(ids).toContain('GB:gb-exporter-registration');
+  });
+
+  it('should only return rules in effect on the requested date', () => {
+    const current = ruleBase.query(createRequest()).map(req => req.id);
+    const previous = ruleBase.query(createRequest({ asOf: '2024-06-30' })).map(req => req.id);
+
+    expect(current).toContain('ae-new-labelling');
+    expect(current).not.toContain('ae-old-labelling');
+    expect(previous).toContain('ae-old-labelling');
+    expect(previous).not.toContain('ae-new-labelling');
+  });
+
+  it('should match rules on HS chapter and product attributes', () => {
+    const ids = ruleBase.query(createRequest({
+      products: [
+        { category: 'Food Products', hsCode: '1602.49', storageType: 'frozen' },
+        { category: 'Food Products', hsCode: '2009.11', organic: true }
+      ]
+    })).map(req => req.id);
+
+    expect(ids).toEqual(expect.arrayContaining(['ae-halal-meat', 'ae-cold-chain', 'za-organic']));
+    expect(ruleBase.query(createRequest()).map(req => req.id))
+      .not.toEqual(expect.arrayContaining(['ae-halal-meat']));
+  });
+
+  it('should skip destination rules for markets that were not requested', () => {
+    const requirements = ruleBase.query(createRequest({ targetMarkets: ['GB'] }));
+
+    expect(requirements.every(req => req.countryCode !== 'AE')).toBe(true);
+  });
+
+  it('should produce requirements in the existing shape', () => {
+    const requirement = ruleBase.query(createRequest()).find(req => req.id === 'ae-new-labelling');
+
+    expect(requirement).toEqual({
+      id: 'ae-new-labelling',
+      name: 'New labelling rule',
+      description: 'Replacement',
+      isRequired: true,
+      estimatedCost: { min: 100, max: 200, currency: 'AED' },
+      countryCode: 'AE',
+      productCategories: ['all'],
+      referenceUrl: 'https://example.org/regulation',
+      triggeredBy: [{ category: 'Food Products' }],
+      applicability: {
+        matches: [{
+          product: { category: 'Food Products' },
+          marketCode: 'AE',
+          attribute: 'allProducts',
+          ruleId: 'ae-new-labelling'
+        }],
+        evidence: [{
+          source: 'rule-base',
+          reference: 'AE rules 2025.2',
+          title: 'Test regulation',
+          url: 'https://example.org/regulation'
+        }]
+      }
+    });
+  });
+
+  it('should trace the product attributes and market each rule matched', () => {
+    const requirements = ruleBase.query(createRequest({
+      targetMarkets: ['AE'],
+      products: [
+        { id: 'p1', category: 'Food Products', hsCode: '1602.49', storageType: 'frozen' },
+        { id: 'p2', category: 'Food Products', hsCode: '2009.11', organic: true }
+      ]
+    }));
+    const matches = (id: string) => requirements.find(req => req.id === id)?.applicability?.matches
+      .map(match => [match.product.id, match.marketCode, match.attribute, match.matchedValue]);
+
+    expect(matches('ae-halal-meat')).toEqual([['p1', 'AE', 'hsChapter', '16']]);
+    expect(matches('ae-cold-chain')).toEqual([['p1', 'AE', 'storageType', 'frozen']]);
+    // Origin rules are resolved once per target market
+    expect(matches('za-organic')).toEqual([
+      ['p2', 'AE', 'productCategory', 'food'],
+      ['p2', 'AE', 'organic', 'true']
+    ]);
+    expect(requirements.find(req => req.id === 'ae-exporter-registration')?.applicability?.evidence)
+      .toEqual([expect.objectContaining({ source: 'rule-base', reference: '* rules 2025.1' })]);
+  });
+
+  it('should resolve each product of a mixed catalogue separately', () => {
+    const requirements = ruleBase.query(createRequest({
+      products: [
+        { id: 'p1', name: 'Frozen boerewors', category: 'Food Products', hsCode: '1601.00', storageType: 'frozen' },
+        { id: 'p2', name: 'Peri-peri sauce', category: 'Food Products', hsCode: '2103.90' }
+      ]
+    }));
+    const triggeredBy = (id: string) => requirements.find(req => req.id === id)?.triggeredBy?.map(product => product.id);
+
+    expect(triggeredBy('ae-halal-meat')).toEqual(['p1']);
+    expect(triggeredBy('ae-cold-chain')).toEqual(['p1']);
+    expect(triggeredBy('ae-exporter-registration')).toEqual(['p1', 'p2']);
+    expect(triggeredBy('gb-exporter-registration')).toEqual(['p1', 'p2']);
+  });
+
+  it('should report the version of every rule file', () => {
+    expect(ruleBase.getVersions()).toEqual({ '*': '2025.1', AE: '2025.2', ZA: '2025.1' });
+  });
+
+  it('should reject rule ids defined in more than one file', () => {
+    const duplicate = { name: 'gb.json', data: { ...testRuleFiles[1].data, market: 'GB' } };
+
+    expect(() => new ComplianceRuleBase([...testRuleFiles, duplicate])).toThrow(ComplianceRuleValidationError);
+  });
+});
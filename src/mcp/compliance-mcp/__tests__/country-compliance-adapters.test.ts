@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+
+import { parseCostRange, parseTimeframeInDays } from '../adapters/country-adapter.utils';
+import { CountryComplianceAdapterRegistry } from '../adapters/country-compliance-registry';
+import { UkComplianceAdapter } from '@/mcp/country/uk/compliance-mcp/uk-compliance.adapter';
+import { UaeComplianceAdapter } from '@/mcp/country/uae/compliance-mcp/uae-compliance.adapter';
+import { UkComplianceMCP, UkComplianceRequirement } from '@/mcp/country/uk/compliance-mcp/uk-compliance-mcp.interface';
+import { UaeComplianceMCP, UaeComplianceRequirement } from '@/mcp/country/uae/compliance-mcp/uae-compliance-mcp.interface';
+
+const ukFoodRequirements: UkComplianceRequirement[] = [{
+  hsCode: '160250',
+  regulations: [{
+    id: 'food-safety-001',
+    title: 'UK Food Safety Standards',
+    description: 'Food products must comply with UK food safety regulations.',
+    category: 'Food Safety',
+    requirements: ['Registration with Food Standards Agency'],
+    url: 'https://www.food.gov.uk/business-guidance',
+    lastUpdated: '2023-03-10'
+  }],
+  certifications: [{
+    id: 'ee-cert-001',
+    name: 'UK Electrical Equipment Certification',
+    description: 'Certification for electrical equipment safety.',
+    issuingAuthority: 'Office for Product Safety and Standards',
+    requirements: ['Product testing by approved body'],
+    applicationProcess: 'Submit application to approved body',
+    estimatedTimeframe: '6-10 weeks',
+    estimatedCost: '£2,000 - £5,000',
+    url: 'https://www.gov.uk/government/organisations/office-for-product-safety-and-standards'
+  }],
+  restrictions: [{
+    type: 'prohibition',
+    description: 'Import ban',
+    details: 'Products from unapproved establishments are prohibited.',
+    exceptions: [],
+    url: 'https://www.gov.uk'
+  }],
+  generalNotes: [],
+  lastUpdated: '2025-01-01'
+}];
+
+const uaeFoodRequirements: UaeComplianceRequirement[] = [{
+  hsCode: '1901.90',
+  regulations: [],
+  certifications: [{
+    id: 'UAE-HALAL-001',
+    name: 'Halal Certificate',
+    description: 'Certification for food products to comply with Islamic dietary laws',
+    issuingAuthority: 'ESMA',
+    requirements: ['Ingredient verification'],
+    applicationProcess: 'Apply through approved halal certification bodies',
+    estimatedTimeframe: '4-8 weeks',
+    estimatedCost: '3000-8000 AED',
+    url: 'https://www.halal.ae',
+    validityPeriod: '1 year'
+  }],
+  restrictions: [],
+  freeZoneRequirements: [{
+    freeZoneName: 'Dubai Food Park',
+    additionalRequirements: ['Temperature control verification'],
+    exemptions: ['Products for sampling only'],
+    url: 'https://www.dubaifoodpark.com'
+  }],
+  generalNotes: [],
+  lastUpdated: '2025-01-01'
+}];
+
+describe('country adapter parsing', () => {
+  it('should parse free-text costs and timeframes', () => {
+    expect(parseCostRange('£2,000 - £5,000', 'USD')).toEqual({ min: 2000, max: 5000, currency: 'GBP' });
+    expect(parseCostRange('3000-8000 AED', 'USD')).toEqual({ min: 3000, max: 8000, currency: 'AED' });
+    expect(parseCostRange('£1,200 plus VAT', 'USD')).toEqual({ min: 1200, max: 1200, currency: 'GBP' });
+    expect(parseCostRange('VAT of 5% on 1000 AED', 'USD')).toEqual({ min: 5, max: 1000, currency: 'AED' });
+    expect(parseCostRange('No direct cost for inspection', 'GBP')).toEqual({ min: 0, max: 0, currency: 'GBP' });
+    expect(parseTimeframeInDays('4-6 weeks')).toBe(42);
+    expect(parseTimeframeInDays('2 months')).toBe(60);
+    expect(parseTimeframeInDays('unknown')).toBeUndefined();
+  });
+});
+
+describe('UkComplianceAdapter', () => {
+  it('should normalise UK results and record the products that triggered them', async () => {
+    const client: UkComplianceMCP = {
+      getComplianceByHsCode: async () => ukFoodRequirements,
+      getComplianceRequirements: async query => ({ requirements: ukFoodRequirements, query, timestamp: '2025-01-01' })
+    };
+    const adapter = new UkComplianceAdapter(async () => client);
+
+    const result = await adapter.getRequirements([
+      { id: 'p1', name: 'Beef biltong', category: 'Food Products', hsCode: '1602.50' },
+      { id: 'p2', name: 'Chutney', category: 'Food Products' }
+    ]);
+
+    const certification = result.requirements.find(req => req.id === 'gb-ee-cert-001');
+    expect(certification).toMatchObject({
+      countryCode: 'GB',
+      estimatedCost: { min: 2000, max: 5000, currency: 'GBP' },
+      estimatedTimelineInDays: 70,
+      regulatoryBody: 'Office for Product Safety and Standards',
+      productCategories: ['Food Products']
+    });
+    expect(certification?.triggeredBy?.map(product => product.id)).toEqual(['p1', 'p2']);
+    expect(certification?.applicability).toEqual({
+      matches: [
+        expect.objectContaining({ marketCode: 'GB', attribute: 'hsCode', matchedValue: '1602.50', ruleId: 'gb-ee-cert-001' }),
+        expect.objectContaining({ marketCode: 'GB', attribute: 'productName', matchedValue: 'Chutney' })
+      ],
+      evidence: [{
+        source: 'country-api',
+        reference: 'UK compliance MCP',
+        url: 'https://www.gov.uk/government/organisations/office-for-product-safety-and-standards',
+        verifiedAt: '2025-01-01'
+      }]
+    });
+    expect(result.simulated).toBe(false);
+    expect(result.requirements.map(req => req.id)).toContain('gb-food-safety-001');
+    expect(result.marketSpecificCompliance).toMatchObject({
+      countryCode: 'GB',
+      labeling: { nutritionLabelMandatory: true, requiredLanguages: ['English'] },
+      tariffAndTrade: { hasProductBans: true, banDetails: 'Products from unapproved establishments are prohibited.' }
+    });
+  });
+
+  it('should flag placeholder results and let client errors propagate', async () => {
+    const simulatedClient: UkComplianceMCP = {
+      getComplianceByHsCode: async () => ukFoodRequirements.map(requirement => ({ ...requirement, simulated: true })),
+      getComplianceRequirements: async query => ({ requirements: [], query, timestamp: '2025-01-01' })
+    };
+    const failingClient: UkComplianceMCP = {
+      ...simulatedClient,
+      getComplianceByHsCode: async () => { throw new Error('service unavailable'); }
+    };
+    const product = { category: 'Food Products', hsCode: '1602.50' };
+
+    const simulated = await new UkComplianceAdapter(async () => simulatedClient).getRequirements([product]);
+    expect(simulated.simulated).toBe(true);
+    simulated.requirements.forEach(requirement => {
+      expect(requirement.applicability?.evidence).toEqual([
+        expect.objectContaining({ source: 'simulated', reference: 'UK compliance MCP' })
+      ]);
+      expect(requirement.applicability?.evidence[0].verifiedAt).toBeUndefined();
+    });
+    await expect(new UkComplianceAdapter(async () => failingClient).getRequirements([product]))
+      .rejects.toThrow('service unavailable');
+  });
+});
+
+describe('UaeComplianceAdapter', () => {
+  it('should carry halal and free zone requirements into the market conditions', async () => {
+    const client: UaeComplianceMCP = {
+      getComplianceByHsCode: async () => uaeFoodRequirements,
+      getComplianceRequirements: async query => ({ requirements: uaeFoodRequirements, query, timestamp: '2025-01-01' }),
+      getFreeZoneRequirements: async () => null
+    };
+    const adapter = new UaeComplianceAdapter(async () => client);
+
+    const result = await adapter.getRequirements([{ category: 'Food Products', hsCode: '1901.90' }]);
+
+    expect(result.requirements[0]).toMatchObject({
+      id: 'ae-uae-halal-001',
+      countryCode: 'AE',
+      estimatedCost: { min: 3000, max: 8000, currency: 'AED' },
+      estimatedTimelineInDays: 56
+    });
+    expect(result.marketSpecificCompliance?.marketRequirements.halalCertificationMandatory).toBe(true);
+    expect(result.marketSpecificCompliance?.labeling.requiredLanguages).toEqual(['Arabic', 'English']);
+    expect(result.marketSpecificCompliance?.freeZones).toEqual([{
+      freeZoneName: 'Dubai Food Park',
+      additionalRequirements: ['Temperature control verification'],
+      exemptions: ['Products for sampling only'],
+      url: 'https://www.dubaifoodpark.com'
+    }]);
+  });
+});
+
+describe('CountryComplianceAdapterRegistry', () => {
+  it('should look adapters up by market code and let new markets plug in', () => {
+    const registry = new CountryComplianceAdapterRegistry([new UkComplianceAdapter(), new UaeComplianceAdapter()]);
+    registry.register({
+      countryCode: 'na',
+      name: 'SADC adapter',
+      getRequirements: async () => ({ requirements: [] })
+    });
+
+    expect(registry.get('gb')?.name).toBe('UK compliance MCP');
+    expect(registry.get('NA')?.name).toBe('SADC adapter');
+    expect(registry.get('US')).toBeUndefined();
+    expect(registry.list()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+
+import { RulesOfOriginError, RulesOfOriginService } from '../rules-of-origin/rules-of-origin.service';
+import { BillOfMaterialsLine } from '../rules-of-origin/rules-of-origin.interface';
+
+const beefBurgerInputs = (beefOrigin: string, beefShare = 60): BillOfMaterialsLine[] => [
+  { hsCode: '0201.30', originCountry: beefOrigin, valueShare: beefShare, description: 'Beef' },
+  { hsCode: '0904.21', originCountry: 'IN', valueShare: 5, description: 'Pepper' },
+  { hsCode: '4819.10', originCountry: 'CN', valueShare: 5, description: 'Cartons' }
+];
+
+describe('RulesOfOriginService', () => {
+  let service: RulesOfOriginService;
+
+  beforeEach(() => {
+    service = new RulesOfOriginService();
+  });
+
+  it('should grant the UK preference to meat products made from originating beef', () => {
+    const result = service.evaluate({ hsCode: '1602.50', destinationCountry: 'GB', billOfMaterials: beefBurgerInputs('ZA') });
+
+    expect(result.preferentialAgreement).toMatchObject({
+      agreementId: 'uk-sacum-epa',
+      eligible: true,
+      preferentialRate: 0,
+      originDocument: { type: 'EUR.1', name: 'EUR.1 movement certificate' }
+    });
+    expect(result.preferentialAgreement?.rule).toContain('Chapters 2 and 3');
+  });
+
+  it('should refuse the preference when excluded materials exceed the tolerance', () => {
+    const result = service.evaluate({
+      hsCode: '160250',
+      destinationCountry: 'GB',
+      billOfMaterials: beefBurgerInputs('BR'),
+      mfnRate: 12
+    });
+
+    expect(result.preferentialAgreement).toBeUndefined();
+    expect(result.applicableRate).toBe(12);
+    expect(result.agreements[0].alternatives[0][0]).toMatchObject({
+      satisfied: false,
+      reason: 'Beef from BR does not change chapter (60% of the ex-works price, tolerance 15%)'
+    });
+  });
+
+  it('should allow excluded materials within the tolerance', () => {
+    const result = service.evaluate({ hsCode: '160250', destinationCountry: 'GB', billOfMaterials: beefBurgerInputs('BR', 10) });
+
+    expect(result.preferentialAgreement?.eligible).toBe(true);
+  });
+
+  it('should count materials from the cumulation zone as originating', () => {
+    const sauceInputs = [{ hsCode: '2103.90', originCountry: 'FR', valueShare: 70, description: 'Sauce base' }];
+
+    expect(service.evaluate({ hsCode: '210390', destinationCountry: 'GB', billOfMaterials: sauceInputs })
+      .preferentialAgreement?.agreementId).toBe('uk-sacum-epa');
+    expect(service.evaluate({ hsCode: '210390', destinationCountry: 'ZM', billOfMaterials: sauceInputs })
+      .preferentialAgreement).toBeUndefined();
+  });
+
+  it('should need every criterion of one alternative to be met', () => {
+    const machine = (share: number) => service.evaluate({
+      hsCode: '8479.89',
+      destinationCountry: 'DE',
+      billOfMaterials: [{ hsCode: '8483.40', originCountry: 'CN', valueShare: share }]
+    });
+
+    expect(machine(45).preferentialAgreement?.agreementId).toBe('eu-sadc-epa');
+    const refused = machine(55);
+    expect(refused.preferentialAgreement).toBeUndefined();
+    expect(refused.agreements[0].alternatives.map(criteria => criteria.map(result => result.satisfied)))
+      .toEqual([[true, false], [false]]);
+  });
+
+  it('should apply the value rule when the tariff shift fails', () => {
+    const result = service.evaluate({
+      hsCode: '210390',
+      destinationCountry: 'ZM',
+      billOfMaterials: [{ hsCode: '2103.90', originCountry: 'TH', valueShare: 40 }]
+    });
+
+    expect(result.agreements.map(agreement => agreement.agreementId)).toEqual(['sadc-fta', 'afcfta']);
+    expect(result.agreements.every(agreement => agreement.eligible)).toBe(true);
+    expect(result.preferentialAgreement?.originDocument.name).toBe('SADC certificate of origin');
+  });
+
+  it('should carry tariff-rate quota notes into the tariff rate', () => {
+    const result = service.evaluate({
+      hsCode: '2204.21',
+      destinationCountry: 'DE',
+      billOfMaterials: [{ hsCode: '0806.10', originCountry: 'ZA', valueShare: 40, description: 'Grapes' }]
+    });
+
+    expect(service.toTariffRate(result, 2025)).toEqual({
+      country: 'DE',
+      rate: 0,
+      unit: '%',
+      year: 2025,
+      category: 'Preferential',
+      specialProvisions: [
+        'EU–SADC Economic Partnership Agreement',
+        'Origin proof: EUR.1 movement certificate',
+        expect.stringContaining('tariff-rate quota')
+      ]
+    });
+  });
+
+  it('should fall back to the MFN rate where no agreement covers the market', () => {
+    const result = service.evaluate({ hsCode: '160250', destinationCountry: 'US', billOfMaterials: [], mfnRate: 4.5 });
+
+    expect(result.agreements).toEqual([]);
+    expect(result.applicableRate).toBe(4.5);
+    expect(service.toTariffRate(result)).toBeUndefined();
+  });
+
+  it('should reject bills of materials that do not add up', () => {
+    expect(() => service.evaluate({
+      hsCode: '1602',
+      destinationCountry: 'GB',
+      billOfMaterials: [
+        { hsCode: '0201', originCountry: 'ZA', valueShare: 80 },
+        { hsCode: '0904', originCountry: 'India', valueShare: 30 }
+      ]
+    })).toThrow(expect.objectContaining({
+      name: RulesOfOriginError.name,
+      errors: [
+        'hsCode must have at least 6 digits',
+        'billOfMaterials[1].originCountry must be an ISO 3166-1 alpha-2 code',
+        'billOfMaterials value shares add up to 110%, more than the ex-works price'
+      ]
+    }));
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  ApplicabilityMatch,
+  ComplianceProductProfile,
+  ComplianceProductReference,
+  ComplianceRequirement,
+  RequirementEvidence
+} from '../compliance-mcp.interface';
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '£': 'GBP', '$': 'USD', '€': 'EUR', 'R': 'ZAR' };
+
+// ISO 4217 codes known to the runtime, so acronyms such as "VAT" are not read as currencies
+const ISO_CURRENCY_CODES = new Set<string>(typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('currency') : []);
+
+/**
+ * Parse free-text costs such as "£2,000 - £5,000" or "5000-10000 AED".
+ * Text without any amount (e.g. "No direct cost") is treated as free.
+ */
+export function parseCostRange(
+  text: string,
+  defaultCurrency: string
+): { min: number; max: number; currency: string } {
+  const amounts = (text.match(/\d[\d,]*(\.\d+)?/g) || []).map(amount => Number(amount.replace(/,/g, '')));
+  const code = (text.match(/\b[A-Z]{3}\b/g) || []).find(candidate => ISO_CURRENCY_CODES.has(candidate));
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(candidate => new RegExp(`(^|\\s)\\${candidate}\\s?\\d`).test(text));
+  const currency = code || (symbol ? CURRENCY_SYMBOLS[symbol] : defaultCurrency);
+
+  if (amounts.length === 0) {
+    return { min: 0, max: 0, currency };
+  }
+  return { min: Math.min(...amounts), max: Math.max(...amounts), currency };
+}
+
+/**
+ * Parse timeframes such as "4-6 weeks" or "30 days", taking the upper bound
+ */
+export function parseTimeframeInDays(text: string): number | undefined {
+  const amounts = (text.match(/\d+/g) || []).map(Number);
+  if (amounts.length === 0) {
+    return undefined;
+  }
+
+  const upper = Math.max(...amounts);
+  const unit = text.toLowerCase();
+  if (unit.includes('month')) return upper * 30;
+  if (unit.includes('week')) return upper * 7;
+  return upper;
+}
+
+export function toProductReference(product: ComplianceProductProfile): ComplianceProductReference {
+  const reference: ComplianceProductReference = { category: product.category };
+  if (product.id) reference.id = product.id;
+  if (product.name) reference.name = product.name;
+  if (product.hsCode) reference.hsCode = product.hsCode;
+  return reference;
+}
+
+/**
+ * Identity of a triggering product, so each product is recorded once
+ */
+export function productReferenceKey(reference: ComplianceProductReference): string {
+  return `${reference.id ?? reference.name ?? ''}|${reference.category}|${reference.hsCode ?? ''}`;
+}
+
+/**
+ * Record why a requirement applies, keeping each match and source once
+ */
+export function addApplicability(
+  requirement: ComplianceRequirement,
+  matches: ApplicabilityMatch[],
+  evidence: RequirementEvidence[]
+): void {
+  const trace = requirement.applicability ?? { matches: [], evidence: [] };
+  const matchKey = (match: ApplicabilityMatch) =>
+    `${productReferenceKey(match.product)}|${match.marketCode}|${match.attribute}|${match.matchedValue ?? ''}|${match.ruleId}`;
+
+  for (const match of matches) {
+    if (!trace.matches.some(existing => matchKey(existing) === matchKey(match))) {
+      trace.matches.push(match);
+    }
+  }
+  for (const item of evidence) {
+    if (!trace.evidence.some(existing =>
+      existing.source === item.source && existing.reference === item.reference && existing.url === item.url)) {
+      trace.evidence.push(item);
+    }
+  }
+  requirement.applicability = trace;
+}
+
+/**
+ * Attribute requirements built from a country API result to that API. Simulated
+ * results never reached the API, so they carry no verification date.
+ */
+export function withCountryApiEvidence(
+  requirements: ComplianceRequirement[],
+  reference: string,
+  result: { lastUpdated: string; simulated?: boolean }
+): ComplianceRequirement[] {
+  const evidence = (url?: string): RequirementEvidence => result.simulated
+    ? { source: 'simulated', reference, url }
+    : { source: 'country-api', reference, url, verifiedAt: result.lastUpdated };
+
+  return requirements.map(requirement => ({
+    ...requirement,
+    applicability: {
+      matches: [],
+      evidence: [evidence(requirement.referenceUrl)]
+    }
+  }));
+}
+
+/**
+ * Add requirements triggered by one product, merging those already triggered by another.
+ * Country APIs are queried by HS code, falling back to the product name or category,
+ * so that is what each requirement is recorded as matching on.
+ */
+export function mergeTriggeredRequirements(
+  merged: Map<string, ComplianceRequirement>,
+  requirements: ComplianceRequirement[],
+  product: ComplianceProductProfile
+): void {
+  const reference = toProductReference(product);
+  const [attribute, matchedValue]: [ApplicabilityMatch['attribute'], string] = product.hsCode
+    ? ['hsCode', product.hsCode]
+    : product.name ? ['productName', product.name] : ['productCategory', product.category];
+
+  for (const requirement of requirements) {
+    const existing = merged.get(requirement.id)
+      ?? { ...requirement, productCategories: [], triggeredBy: [], applicability: { matches: [], evidence: [] } };
+    const triggeredBy = existing.triggeredBy ?? [];
+
+    if (!triggeredBy.some(ref => productReferenceKey(ref) === productReferenceKey(reference))) {
+      triggeredBy.push(reference);
+    }
+    if (!existing.productCategories.includes(product.category)) {
+      existing.productCategories.push(product.category);
+    }
+    existing.triggeredBy = triggeredBy;
+    addApplicability(
+      existing,
+      [{ product: reference, marketCode: requirement.countryCode, attribute, matchedValue, ruleId: requirement.id }],
+      requirement.applicability?.evidence ?? []
+    );
+    merged.set(requirement.id, existing);
+  }
+}
+
+/**
+ * Join details reported for several products, dropping repeats
+ */
+export function joinDistinct(values: string[]): string | undefined {
+  return [...new Set(values)].join(' ') || undefined;
+}
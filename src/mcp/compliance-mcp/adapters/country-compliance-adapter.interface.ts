@@ -0,0 +1,37 @@
+import {
+  ComplianceProductProfile,
+  ComplianceRequest,
+  ComplianceRequirement,
+  MarketSpecificCompliance,
+  TariffAndTradeRequirements
+} from '../compliance-mcp.interface';
+
+/**
+ * Market conditions from a country adapter. Compliance sources rarely carry tariff rates,
+ * so adapters may leave the rate out and the rule base's rate for the market is kept.
+ */
+export type CountryMarketCompliance = Omit<MarketSpecificCompliance, 'tariffAndTrade'> & {
+  tariffAndTrade: Omit<TariffAndTradeRequirements, 'tariffRatePercentage'> & { tariffRatePercentage?: number };
+};
+
+/**
+ * Requirements for one market, normalised from a country adapter's own result shape
+ */
+export interface CountryComplianceResult {
+  requirements: ComplianceRequirement[];
+  marketSpecificCompliance?: CountryMarketCompliance;
+  // Built from placeholder data because the country's API is not connected
+  simulated?: boolean;
+}
+
+/**
+ * Country-specific compliance source. Adapters replace the global destination
+ * rules for their market when they return live, non-empty results; origin and
+ * international rules still apply. Adapters should throw when their source fails.
+ */
+export interface CountryComplianceAdapter {
+  // ISO 3166-1 alpha-2 code of the market this adapter covers
+  countryCode: string;
+  name: string;
+  getRequirements(products: ComplianceProductProfile[], request: ComplianceRequest): Promise<CountryComplianceResult>;
+}
@@ -0,0 +1,36 @@
+import { logger } from '@/utils/logger';
+import { CountryComplianceAdapter } from './country-compliance-adapter.interface';
+
+/**
+ * Country compliance adapters keyed by market code
+ */
+export class CountryComplianceAdapterRegistry {
+  private adapters = new Map<string, CountryComplianceAdapter>();
+
+  constructor(adapters: CountryComplianceAdapter[] = []) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  /**
+   * Add an adapter, replacing any existing adapter for the same market
+   */
+  register(adapter: CountryComplianceAdapter): void {
+    this.adapters.set(adapter.countryCode.toUpperCase(), adapter);
+    logger.info(`Registered compliance adapter for ${adapter.countryCode}: ${adapter.name}`);
+  }
+
+  unregister(countryCode: string): void {
+    this.adapters.delete(countryCode.toUpperCase());
+  }
+
+  list(): CountryComplianceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Adapter for a market, or undefined when the market uses the global rules
+   */
+  get(countryCode: string): CountryComplianceAdapter | undefined {
+    return this.adapters.get(countryCode.toUpperCase());
+  }
+}
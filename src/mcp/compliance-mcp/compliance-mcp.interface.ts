@@ -1,4 +1,5 @@
 import { BusinessProfile } from '../../types/business-profile.types';
+import { BillOfMaterialsLine, OriginEvaluationResult } from './rules-of-origin/rules-of-origin.interface';
 
 export interface LabelingRequirements {
   nutritionLabelMandatory: boolean;
@@ -8,6 +9,7 @@ export interface LabelingRequirements {
     required: boolean;
     details: string;
   }[];
+  // Longest shelf life the market accepts
   shelfLifeMonths?: number;
   ingredientRestrictions?: {
     hasBannedIngredients: boolean;
@@ -29,6 +31,17 @@ export interface TariffAndTradeRequirements {
   quotaDetails?: string;
   hasProductBans: boolean;
   banDetails?: string;
+  // Preferential rates for products whose bill of materials was checked against the rules of origin
+  preferentialTariffs?: PreferentialTariff[];
+}
+
+export interface PreferentialTariff {
+  hsCode: string;
+  productName?: string;
+  eligible: boolean;
+  agreement?: string;
+  rate?: number;
+  originDocument?: string;
 }
 
 export interface CustomsRequirements {
@@ -53,12 +66,20 @@ export interface ExporterRegistrationRequirements {
   };
 }
 
+export interface FreeZoneRequirements {
+  freeZoneName: string;
+  additionalRequirements: string[];
+  exemptions: string[];
+  url?: string;
+}
+
 export interface MarketSpecificCompliance {
   countryCode: string;
   labeling: LabelingRequirements;
   marketRequirements: MarketSpecificRequirements;
   tariffAndTrade: TariffAndTradeRequirements;
   customs: CustomsRequirements;
+  freeZones?: FreeZoneRequirements[];
 }
 
 export interface ComplianceRequirement {
@@ -80,6 +101,53 @@ export interface ComplianceRequirement {
   exporterRegistration?: ExporterRegistrationRequirements;
   marketSpecificCompliance?: MarketSpecificCompliance[];
   confidenceScore?: number;
+  // Products whose category, HS code or attributes made this requirement apply
+  triggeredBy?: ComplianceProductReference[];
+  // Why the requirement applies and where it comes from
+  applicability?: ApplicabilityTrace;
+}
+
+// Product attribute a requirement was matched on
+export type ApplicabilityAttribute =
+  | 'allProducts'
+  | 'productCategory'
+  | 'productName'
+  | 'hsCode'
+  | 'hsChapter'
+  | 'hsHeading'
+  | 'storageType'
+  | 'organic'
+  | 'halal';
+
+export interface ApplicabilityMatch {
+  product: ComplianceProductReference;
+  // Target market the product was resolved for
+  marketCode: string;
+  attribute: ApplicabilityAttribute;
+  // Rule criterion the product matched, e.g. "16" for an HS chapter
+  matchedValue?: string;
+  // Rule base rule id, or the requirement id for country API results
+  ruleId: string;
+}
+
+export interface RequirementEvidence {
+  // Simulated: placeholder data a country adapter generated without reaching its API
+  source: 'rule-base' | 'country-api' | 'simulated' | 'perplexity-verification';
+  // Rule file and version, country adapter or verification service
+  reference: string;
+  title?: string;
+  url?: string;
+  // ISO date the source last confirmed the requirement
+  verifiedAt?: string;
+}
+
+/**
+ * Machine-readable record of which product, market and rule made a
+ * requirement apply, and the sources behind it
+ */
+export interface ApplicabilityTrace {
+  matches: ApplicabilityMatch[];
+  evidence: RequirementEvidence[];
 }
 
 export interface ComplianceMCPResponse {
@@ -90,12 +158,47 @@ export interface ComplianceMCPResponse {
     currency: string;
   };
   totalEstimatedTimelineInDays: number;
+  // Date of the exchange rates used to convert requirement costs into the total
+  exchangeRateDate?: string;
+  // Version of each compliance rule file that was consulted, keyed by market
+  ruleBaseVersions?: Record<string, string>;
+  // Market conditions reported by country adapters
+  marketSpecificCompliance?: MarketSpecificCompliance[];
+  // Rules-of-origin results per product and market, for products with a bill of materials
+  originEvaluations?: OriginEvaluationResult[];
 }
 
+export type ProductStorageType = 'ambient' | 'chilled' | 'frozen';
+
+/**
+ * Product attributes compliance rules are keyed on
+ */
+export interface ComplianceProductProfile {
+  id?: string;
+  name?: string;
+  category: string;
+  // The HS code the user confirmed for this product
+  hsCode?: string;
+  storageType?: ProductStorageType;
+  organic?: boolean;
+  halal?: boolean;
+  // Inputs with their origin and share of the ex-works price, for rules of origin
+  billOfMaterials?: BillOfMaterialsLine[];
+}
+
+export type ComplianceProductReference = Pick<ComplianceProductProfile, 'id' | 'name' | 'category' | 'hsCode'>;
+
 export interface ComplianceRequest {
   productCategories: string[];
   targetMarkets: string[];
   businessProfile: BusinessProfile;
+  // Currency for cost totals, usually the exporter's budget currency (defaults to USD)
+  currency?: string;
+  // Individual products, resolved against every target market; when omitted,
+  // rules are matched on productCategories only
+  products?: ComplianceProductProfile[];
+  // ISO date the requirements should be valid on (defaults to today)
+  asOf?: string;
 }
 
 export interface ComplianceMCP {
@@ -0,0 +1,110 @@
+/**
+ * One condition of a product-specific origin rule
+ */
+export type OriginCriterion =
+  | { type: 'wholly-obtained' }
+  | {
+    type: 'change-of-chapter' | 'change-of-heading' | 'change-of-subheading';
+    // HS prefixes of non-originating materials that may not be used even though they shift classification
+    exceptFrom?: string[];
+  }
+  // Non-originating materials may not exceed this share of the ex-works price
+  | { type: 'max-non-originating-value'; percent: number }
+  // Originating content must reach this share of the ex-works price
+  | { type: 'min-regional-value-content'; percent: number };
+
+export interface OriginRule {
+  description: string;
+  // Any one alternative confers origin; every criterion in an alternative must be met
+  alternatives: OriginCriterion[][];
+}
+
+export interface ProductSpecificRule extends OriginRule {
+  hsPrefix: string;
+}
+
+export interface PreferentialRate {
+  // Longest matching prefix wins; '' is the agreement's default rate
+  hsPrefix: string;
+  // Ad valorem duty in percent
+  rate: number;
+  note?: string;
+}
+
+export interface OriginDocument {
+  type: 'EUR.1' | 'certificate-of-origin';
+  name: string;
+  issuingBody: string;
+}
+
+export interface TradeAgreement {
+  id: string;
+  name: string;
+  effectiveFrom: string;
+  source: string;
+  // Destination markets the agreement grants preferences in
+  partners: string[];
+  // Countries whose materials count as originating
+  cumulationZone: string[];
+  // Share of the ex-works price non-originating materials may take without meeting a tariff shift rule
+  tolerancePercent: number;
+  originDocument: OriginDocument;
+  defaultRule: OriginRule;
+  productRules: ProductSpecificRule[];
+  preferentialRates: PreferentialRate[];
+  notes?: string;
+}
+
+export interface TradeAgreementFile {
+  version: string;
+  agreements: TradeAgreement[];
+}
+
+export interface BillOfMaterialsLine {
+  hsCode: string;
+  // ISO 3166-1 alpha-2 country the material originates in
+  originCountry: string;
+  // Share of the product's ex-works price, in percent
+  valueShare: number;
+  description?: string;
+}
+
+export interface OriginEvaluationRequest {
+  hsCode: string;
+  destinationCountry: string;
+  billOfMaterials: BillOfMaterialsLine[];
+  productName?: string;
+  // Most-favoured-nation rate in the destination, to show the saving
+  mfnRate?: number;
+}
+
+export interface CriterionResult {
+  criterion: OriginCriterion;
+  satisfied: boolean;
+  reason: string;
+}
+
+export interface AgreementEligibility {
+  agreementId: string;
+  agreementName: string;
+  eligible: boolean;
+  rule: string;
+  // Results for each alternative of the rule
+  alternatives: CriterionResult[][];
+  preferentialRate: number;
+  rateNote?: string;
+  originDocument: OriginDocument;
+}
+
+export interface OriginEvaluationResult {
+  hsCode: string;
+  destinationCountry: string;
+  productName?: string;
+  // Every agreement covering the destination, eligible ones first by rate
+  agreements: AgreementEligibility[];
+  // The eligible agreement with the lowest rate
+  preferentialAgreement?: AgreementEligibility;
+  mfnRate?: number;
+  // Rate the shipment pays: the preferential rate when eligible, otherwise the MFN rate
+  applicableRate?: number;
+}
@@ -0,0 +1,251 @@
+import { tradeAgreements } from '@/data/rules-of-origin';
+import { TariffRate } from '@/mcp/global/hscode-tariff-mcp/hscode-tariff-mcp.interface';
+import { logger } from '@/utils/logger';
+import { PreferentialTariff } from '../compliance-mcp.interface';
+import {
+  AgreementEligibility,
+  BillOfMaterialsLine,
+  CriterionResult,
+  OriginCriterion,
+  OriginEvaluationRequest,
+  OriginEvaluationResult,
+  OriginRule,
+  PreferentialRate,
+  TradeAgreement,
+  TradeAgreementFile
+} from './rules-of-origin.interface';
+
+export class RulesOfOriginError extends Error {
+  constructor(message: string, public errors: string[]) {
+    super(message);
+    this.name = 'RulesOfOriginError';
+  }
+}
+
+const TARIFF_SHIFT_DIGITS = {
+  'change-of-chapter': 2,
+  'change-of-heading': 4,
+  'change-of-subheading': 6
+};
+
+const TARIFF_SHIFT_LEVELS = {
+  'change-of-chapter': 'chapter',
+  'change-of-heading': 'heading',
+  'change-of-subheading': 'subheading'
+};
+
+/**
+ * Decides whether a product qualifies for preferential rates under the trade
+ * agreements covering its destination, from its HS code and bill of materials
+ */
+export class RulesOfOriginService {
+  private agreements: TradeAgreement[];
+
+  constructor(agreementFile: TradeAgreementFile = tradeAgreements) {
+    this.agreements = agreementFile.agreements;
+  }
+
+  getAgreements(destinationCountry: string): TradeAgreement[] {
+    return this.agreements.filter(agreement => agreement.partners.includes(destinationCountry.toUpperCase()));
+  }
+
+  evaluate(request: OriginEvaluationRequest): OriginEvaluationResult {
+    this.validateRequest(request);
+
+    const hsCode = this.digits(request.hsCode);
+    const destinationCountry = request.destinationCountry.toUpperCase();
+
+    const agreements = this.getAgreements(destinationCountry)
+      .map(agreement => this.evaluateAgreement(agreement, hsCode, request.billOfMaterials))
+      .sort((a, b) => Number(b.eligible) - Number(a.eligible) || a.preferentialRate - b.preferentialRate);
+    const preferentialAgreement = agreements.find(agreement => agreement.eligible);
+
+    logger.info(`Rules of origin for ${hsCode} to ${destinationCountry}: ${preferentialAgreement
+      ? `eligible under ${preferentialAgreement.agreementName}`
+      : `no preference from ${agreements.length} agreements`}`);
+
+    return {
+      hsCode,
+      destinationCountry,
+      productName: request.productName,
+      agreements,
+      preferentialAgreement,
+      mfnRate: request.mfnRate,
+      applicableRate: preferentialAgreement ? preferentialAgreement.preferentialRate : request.mfnRate
+    };
+  }
+
+  /**
+   * The preferential rate as a tariff rate, alongside the MFN rates from the tariff services
+   */
+  toTariffRate(result: OriginEvaluationResult, year = new Date().getFullYear()): TariffRate | undefined {
+    const agreement = result.preferentialAgreement;
+    if (!agreement) {
+      return undefined;
+    }
+
+    return {
+      country: result.destinationCountry,
+      rate: agreement.preferentialRate,
+      unit: '%',
+      year,
+      category: 'Preferential',
+      specialProvisions: [
+        agreement.agreementName,
+        `Origin proof: ${agreement.originDocument.name}`,
+        ...(agreement.rateNote ? [agreement.rateNote] : [])
+      ]
+    };
+  }
+
+  toPreferentialTariff(result: OriginEvaluationResult): PreferentialTariff {
+    const agreement = result.preferentialAgreement;
+
+    return {
+      hsCode: result.hsCode,
+      productName: result.productName,
+      eligible: !!agreement,
+      agreement: agreement?.agreementName,
+      rate: agreement?.preferentialRate,
+      originDocument: agreement?.originDocument.name
+    };
+  }
+
+  private evaluateAgreement(
+    agreement: TradeAgreement,
+    hsCode: string,
+    billOfMaterials: BillOfMaterialsLine[]
+  ): AgreementEligibility {
+    const rule = this.getRule(agreement, hsCode);
+    const alternatives = rule.alternatives.map(criteria =>
+      criteria.map(criterion => this.evaluateCriterion(criterion, agreement, hsCode, billOfMaterials)));
+    const rate = this.getPreferentialRate(agreement, hsCode);
+
+    return {
+      agreementId: agreement.id,
+      agreementName: agreement.name,
+      eligible: alternatives.some(criteria => criteria.every(result => result.satisfied)),
+      rule: rule.description,
+      alternatives,
+      preferentialRate: rate.rate,
+      rateNote: rate.note,
+      originDocument: agreement.originDocument
+    };
+  }
+
+  private evaluateCriterion(
+    criterion: OriginCriterion,
+    agreement: TradeAgreement,
+    hsCode: string,
+    billOfMaterials: BillOfMaterialsLine[]
+  ): CriterionResult {
+    const nonOriginating = this.nonOriginatingLines(billOfMaterials, agreement.cumulationZone);
+    const nonOriginatingShare = this.round(nonOriginating.reduce((sum, line) => sum + line.valueShare, 0));
+
+    switch (criterion.type) {
+      case 'wholly-obtained':
+        return nonOriginating.length === 0
+          ? { criterion, satisfied: true, reason: 'All materials originate in the agreement area' }
+          : {
+            criterion,
+            satisfied: false,
+            reason: `Non-originating materials used: ${nonOriginating.map(line => this.describe(line)).join(', ')}`
+          };
+
+      case 'max-non-originating-value':
+        return {
+          criterion,
+          satisfied: nonOriginatingShare <= criterion.percent,
+          reason: `Non-originating materials are ${nonOriginatingShare}% of the ex-works price (maximum ${criterion.percent}%)`
+        };
+
+      case 'min-regional-value-content': {
+        const content = this.round(100 - nonOriginatingShare);
+        return {
+          criterion,
+          satisfied: content >= criterion.percent,
+          reason: `Originating content is ${content}% of the ex-works price (minimum ${criterion.percent}%)`
+        };
+      }
+
+      default: {
+        const digits = TARIFF_SHIFT_DIGITS[criterion.type];
+        const level = TARIFF_SHIFT_LEVELS[criterion.type];
+        const failing = nonOriginating.filter(line => {
+          const inputCode = this.digits(line.hsCode);
+          return inputCode.slice(0, digits) === hsCode.slice(0, digits)
+            || (criterion.exceptFrom || []).some(prefix => inputCode.startsWith(prefix));
+        });
+        const failingShare = this.round(failing.reduce((sum, line) => sum + line.valueShare, 0));
+
+        if (failing.length === 0) {
+          return { criterion, satisfied: true, reason: `All non-originating materials change ${level}` };
+        }
+        const withinTolerance = failingShare <= agreement.tolerancePercent;
+        return {
+          criterion,
+          satisfied: withinTolerance,
+          reason: `${failing.map(line => this.describe(line)).join(', ')} ${failing.length === 1 ? 'does' : 'do'} not change ${level}`
+            + ` (${failingShare}% of the ex-works price, tolerance ${agreement.tolerancePercent}%)`
+        };
+      }
+    }
+  }
+
+  private getRule(agreement: TradeAgreement, hsCode: string): OriginRule {
+    const rules = agreement.productRules
+      .filter(rule => hsCode.startsWith(rule.hsPrefix))
+      .sort((a, b) => b.hsPrefix.length - a.hsPrefix.length);
+    return rules[0] || agreement.defaultRule;
+  }
+
+  private getPreferentialRate(agreement: TradeAgreement, hsCode: string): PreferentialRate {
+    const rates = agreement.preferentialRates
+      .filter(rate => hsCode.startsWith(rate.hsPrefix))
+      .sort((a, b) => b.hsPrefix.length - a.hsPrefix.length);
+    if (rates.length === 0) {
+      throw new RulesOfOriginError(`${agreement.name} has no preferential rate for ${hsCode}`, [agreement.id]);
+    }
+    return rates[0];
+  }
+
+  private nonOriginatingLines(billOfMaterials: BillOfMaterialsLine[], zone: string[]): BillOfMaterialsLine[] {
+    return billOfMaterials.filter(line => !zone.includes(line.originCountry.toUpperCase()));
+  }
+
+  private validateRequest(request: OriginEvaluationRequest): void {
+    const errors: string[] = [];
+
+    if (this.digits(request.hsCode || '').length < 6) {
+      errors.push('hsCode must have at least 6 digits');
+    }
+    if (!/^[A-Za-z]{2}$/.test(request.destinationCountry || '')) {
+      errors.push('destinationCountry must be an ISO 3166-1 alpha-2 code');
+    }
+    (request.billOfMaterials || []).forEach((line, index) => {
+      if (this.digits(line.hsCode || '').length < 4) errors.push(`billOfMaterials[${index}].hsCode must have at least 4 digits`);
+      if (!/^[A-Za-z]{2}$/.test(line.originCountry || '')) errors.push(`billOfMaterials[${index}].originCountry must be an ISO 3166-1 alpha-2 code`);
+      if (!(line.valueShare >= 0 && line.valueShare <= 100)) errors.push(`billOfMaterials[${index}].valueShare must be between 0 and 100`);
+    });
+    const totalShare = (request.billOfMaterials || []).reduce((sum, line) => sum + (line.valueShare || 0), 0);
+    if (totalShare > 100) {
+      errors.push(`billOfMaterials value shares add up to ${this.round(totalShare)}%, more than the ex-works price`);
+    }
+
+    if (errors.length > 0) {
+      throw new RulesOfOriginError(`Invalid origin evaluation request: ${errors.join('; ')}`, errors);
+    }
+  }
+
+  private describe(line: BillOfMaterialsLine): string {
+    return `${line.description || this.digits(line.hsCode)} from ${line.originCountry.toUpperCase()}`;
+  }
+
+  private digits(hsCode: string): string {
+    return hsCode.replace(/\D/g, '');
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,186 @@
+import { complianceRuleFiles } from '@/data/compliance-rules';
+import { logger } from '@/utils/logger';
+import {
+  ApplicabilityMatch,
+  ComplianceProductProfile,
+  ComplianceRequest,
+  ComplianceRequirement
+} from '../compliance-mcp.interface';
+import { ComplianceRule, ComplianceRuleFile } from './compliance-rule.interface';
+import { ComplianceRuleValidationError, validateComplianceRuleFile } from './compliance-rule-validator';
+import { addApplicability, productReferenceKey, toProductReference } from '../adapters/country-adapter.utils';
+
+type ProductMatch = Pick<ApplicabilityMatch, 'attribute' | 'matchedValue'>;
+
+// Rule file markets that are not destination country codes
+export const ALL_MARKETS = '*';
+export const INTERNATIONAL = 'INTL';
+
+/**
+ * Versioned compliance rules keyed by market, HS code and product attributes
+ */
+export class ComplianceRuleBase {
+  private files: ComplianceRuleFile[];
+
+  constructor(
+    ruleFiles: Array<{ name: string; data: unknown }> = complianceRuleFiles,
+    private originCountry = 'ZA'
+  ) {
+    this.files = ruleFiles.map(file => validateComplianceRuleFile(file.data, file.name));
+
+    const seen = new Map<string, string>();
+    const duplicates: string[] = [];
+    ruleFiles.forEach((file, index) => {
+      for (const rule of this.files[index].rules) {
+        const previous = seen.get(rule.id);
+        if (previous) {
+          duplicates.push(`${file.name}: rule id ${rule.id} is already defined in ${previous}`);
+        }
+        seen.set(rule.id, file.name);
+      }
+    });
+    if (duplicates.length > 0) {
+      throw new ComplianceRuleValidationError(`Duplicate compliance rule ids: ${duplicates[0]}`, duplicates);
+    }
+
+    logger.info(`ComplianceRuleBase loaded ${seen.size} rules from ${this.files.length} files`);
+  }
+
+  /**
+   * Version of each loaded rule file, keyed by market
+   */
+  getVersions(): Record<string, string> {
+    return Object.fromEntries(this.files.map(file => [file.market, file.version]));
+  }
+
+  /**
+   * Requirements that apply to the request's products and markets on the
+   * request's date. Each product is resolved against each target market, and
+   * every requirement records the products that triggered it. Covered markets
+   * get their destination rules elsewhere, so only origin and international
+   * rules are resolved for them.
+   */
+  query(request: ComplianceRequest, coveredMarkets: string[] = []): ComplianceRequirement[] {
+    const asOf = request.asOf ?? new Date().toISOString().slice(0, 10);
+    const products: ComplianceProductProfile[] = request.products?.length
+      ? request.products
+      : request.productCategories.map(category => ({ category }));
+    const requirements = new Map<string, ComplianceRequirement>();
+
+    for (const marketCode of request.targetMarkets) {
+      for (const product of products) {
+        for (const file of this.files) {
+          if (!this.appliesToMarket(file.market, marketCode, coveredMarkets.includes(marketCode))) {
+            continue;
+          }
+          // '*' rules are repeated for each market; every other file applies to one country
+          const countryCode = file.market === ALL_MARKETS ? marketCode : file.market;
+
+          for (const rule of file.rules) {
+            const matches = this.isEffective(rule, asOf) ? this.matchProduct(rule, product) : undefined;
+            if (!matches) {
+              continue;
+            }
+            const id = file.market === ALL_MARKETS ? `${countryCode.toLowerCase()}-${rule.id}` : rule.id;
+            const requirement = requirements.get(id) ?? this.toRequirement(rule, id, countryCode);
+            this.addTrigger(requirement, rule, product);
+            addApplicability(
+              requirement,
+              matches.map(match => ({ ...match, product: toProductReference(product), marketCode, ruleId: rule.id })),
+              [{
+                source: 'rule-base',
+                reference: `${file.market} rules ${file.version}`,
+                title: rule.source.title,
+                url: rule.source.url,
+                verifiedAt: rule.source.retrievedAt
+              }]
+            );
+            requirements.set(id, requirement);
+          }
+        }
+      }
+    }
+
+    return [...requirements.values()];
+  }
+
+  private appliesToMarket(market: string, marketCode: string, covered: boolean): boolean {
+    if (market === INTERNATIONAL || market === this.originCountry) {
+      return true;
+    }
+    return !covered && (market === ALL_MARKETS || market === marketCode);
+  }
+
+  private isEffective(rule: ComplianceRule, asOf: string): boolean {
+    return rule.effectiveFrom <= asOf && (!rule.effectiveTo || asOf <= rule.effectiveTo);
+  }
+
+  /**
+   * The criteria a product satisfies, or undefined when the rule doesn't apply to it
+   */
+  private matchProduct(rule: ComplianceRule, product: ComplianceProductProfile): ProductMatch[] | undefined {
+    const criteria = rule.appliesTo;
+    if (!criteria) {
+      return [{ attribute: 'allProducts' }];
+    }
+
+    const hsCode = product.hsCode?.replace(/\D/g, '') ?? '';
+    const category = criteria.productCategories?.find(keyword =>
+      product.category.toLowerCase().includes(keyword.toLowerCase()));
+    const chapter = criteria.hsChapters?.find(value => hsCode.startsWith(value));
+    const heading = criteria.hsHeadings?.find(value => hsCode.startsWith(value));
+    const hasAlternatives = !!(criteria.productCategories || criteria.hsChapters || criteria.hsHeadings);
+    const matches: ProductMatch[] = [
+      ...(category ? [{ attribute: 'productCategory' as const, matchedValue: category }] : []),
+      ...(chapter ? [{ attribute: 'hsChapter' as const, matchedValue: chapter }] : []),
+      ...(heading ? [{ attribute: 'hsHeading' as const, matchedValue: heading }] : [])
+    ];
+
+    if (hasAlternatives && matches.length === 0) {
+      return undefined;
+    }
+    if (criteria.storageTypes) {
+      const storageType = product.storageType ?? 'ambient';
+      if (!criteria.storageTypes.includes(storageType)) return undefined;
+      matches.push({ attribute: 'storageType', matchedValue: storageType });
+    }
+    if (criteria.organic !== undefined) {
+      if (criteria.organic !== (product.organic ?? false)) return undefined;
+      matches.push({ attribute: 'organic', matchedValue: String(criteria.organic) });
+    }
+    if (criteria.halal !== undefined) {
+      if (criteria.halal !== (product.halal ?? false)) return undefined;
+      matches.push({ attribute: 'halal', matchedValue: String(criteria.halal) });
+    }
+    return matches;
+  }
+
+  private toRequirement(rule: ComplianceRule, id: string, countryCode: string): ComplianceRequirement {
+    const { appliesTo, effectiveFrom, effectiveTo, source, ...requirement } = rule;
+
+    return {
+      ...requirement,
+      id,
+      countryCode,
+      productCategories: appliesTo ? [] : ['all'],
+      referenceUrl: rule.referenceUrl ?? source.url,
+      triggeredBy: []
+    };
+  }
+
+  /**
+   * Record a triggering product once, however many markets it was resolved for
+   */
+  private addTrigger(requirement: ComplianceRequirement, rule: ComplianceRule, product: ComplianceProductProfile): void {
+    const triggeredBy = requirement.triggeredBy ?? [];
+    const reference = toProductReference(product);
+
+    if (!triggeredBy.some(existing => productReferenceKey(existing) === productReferenceKey(reference))) {
+      triggeredBy.push(reference);
+    }
+    if (rule.appliesTo && !requirement.productCategories.includes(product.category)) {
+      requirement.productCategories.push(product.category);
+    }
+    requirement.triggeredBy = triggeredBy;
+  }
+}
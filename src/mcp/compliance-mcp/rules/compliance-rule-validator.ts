@@ -0,0 +1,163 @@
+import { ComplianceRuleFile, PRODUCT_STORAGE_TYPES } from './compliance-rule.interface';
+
+export class ComplianceRuleValidationError extends Error {
+  constructor(message: string, public errors: string[]) {
+    super(message);
+    this.name = 'ComplianceRuleValidationError';
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Check a parsed rule file against the rule schema, reporting every problem at once
+ */
+export function validateComplianceRuleFile(data: unknown, fileName = 'rule file'): ComplianceRuleFile {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    throw new ComplianceRuleValidationError(`Invalid ${fileName}: expected an object`, ['root: expected an object']);
+  }
+
+  if (typeof data.market !== 'string' || data.market.length === 0) {
+    errors.push('market: expected a country code, "INTL" or "*"');
+  }
+  if (typeof data.version !== 'string' || data.version.length === 0) {
+    errors.push('version: expected a non-empty string');
+  }
+  if (!Array.isArray(data.rules)) {
+    errors.push('rules: expected an array');
+  }
+
+  const ids = new Set<string>();
+  (Array.isArray(data.rules) ? data.rules : []).forEach((rule: unknown, index: number) => {
+    const at = (field: string) => `rules[${index}].${field}`;
+
+    if (!isObject(rule)) {
+      errors.push(`rules[${index}]: expected an object`);
+      return;
+    }
+
+    if (typeof rule.id !== 'string' || rule.id.length === 0) {
+      errors.push(`${at('id')}: expected a non-empty string`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`${at('id')}: duplicate rule id ${rule.id}`);
+    } else {
+      ids.add(rule.id);
+    }
+
+    for (const field of ['name', 'description']) {
+      if (typeof rule[field] !== 'string' || (rule[field] as string).length === 0) {
+        errors.push(`${at(field)}: expected a non-empty string`);
+      }
+    }
+    if (typeof rule.isRequired !== 'boolean') {
+      errors.push(`${at('isRequired')}: expected a boolean`);
+    }
+
+    if (rule.estimatedCost !== undefined) {
+      const cost = rule.estimatedCost;
+      if (!isObject(cost) || typeof cost.min !== 'number' || typeof cost.max !== 'number'
+        || cost.min < 0 || cost.max < cost.min) {
+        errors.push(`${at('estimatedCost')}: expected min and max with 0 <= min <= max`);
+      }
+      if (!isObject(cost) || typeof cost.currency !== 'string' || !CURRENCY_CODE.test(cost.currency)) {
+        errors.push(`${at('estimatedCost.currency')}: expected an ISO 4217 currency code`);
+      }
+    }
+    if (rule.estimatedTimelineInDays !== undefined
+      && (typeof rule.estimatedTimelineInDays !== 'number' || rule.estimatedTimelineInDays < 0)) {
+      errors.push(`${at('estimatedTimelineInDays')}: expected a non-negative number`);
+    }
+    for (const field of ['regulatoryBody', 'referenceUrl']) {
+      if (rule[field] !== undefined && typeof rule[field] !== 'string') {
+        errors.push(`${at(field)}: expected a string`);
+      }
+    }
+    if (rule.documentationNeeded !== undefined && !isStringArray(rule.documentationNeeded)) {
+      errors.push(`${at('documentationNeeded')}: expected an array of strings`);
+    }
+
+    if (!isIsoDate(rule.effectiveFrom)) {
+      errors.push(`${at('effectiveFrom')}: expected an ISO date (YYYY-MM-DD)`);
+    }
+    if (rule.effectiveTo !== undefined) {
+      if (!isIsoDate(rule.effectiveTo)) {
+        errors.push(`${at('effectiveTo')}: expected an ISO date (YYYY-MM-DD)`);
+      } else if (isIsoDate(rule.effectiveFrom) && rule.effectiveTo < rule.effectiveFrom) {
+        errors.push(`${at('effectiveTo')}: must not be before effectiveFrom`);
+      }
+    }
+
+    if (!isObject(rule.source) || typeof rule.source.title !== 'string' || rule.source.title.length === 0) {
+      errors.push(`${at('source.title')}: every rule needs a source citation`);
+    } else {
+      if (rule.source.url !== undefined && typeof rule.source.url !== 'string') {
+        errors.push(`${at('source.url')}: expected a string`);
+      }
+      if (rule.source.retrievedAt !== undefined && !isIsoDate(rule.source.retrievedAt)) {
+        errors.push(`${at('source.retrievedAt')}: expected an ISO date (YYYY-MM-DD)`);
+      }
+    }
+
+    if (rule.exporterRegistration !== undefined && !isObject(rule.exporterRegistration)) {
+      errors.push(`${at('exporterRegistration')}: expected an object`);
+    }
+    if (rule.marketSpecificCompliance !== undefined && !Array.isArray(rule.marketSpecificCompliance)) {
+      errors.push(`${at('marketSpecificCompliance')}: expected an array`);
+    }
+
+    if (rule.appliesTo !== undefined) {
+      const appliesTo = rule.appliesTo;
+      if (!isObject(appliesTo)) {
+        errors.push(`${at('appliesTo')}: expected an object`);
+        return;
+      }
+      if (appliesTo.productCategories !== undefined && !isStringArray(appliesTo.productCategories)) {
+        errors.push(`${at('appliesTo.productCategories')}: expected an array of strings`);
+      }
+      if (appliesTo.hsChapters !== undefined
+        && !(isStringArray(appliesTo.hsChapters) && appliesTo.hsChapters.every(code => /^\d{2}$/.test(code)))) {
+        errors.push(`${at('appliesTo.hsChapters')}: expected two-digit HS chapters`);
+      }
+      if (appliesTo.hsHeadings !== undefined
+        && !(isStringArray(appliesTo.hsHeadings) && appliesTo.hsHeadings.every(code => /^\d{4}$/.test(code)))) {
+        errors.push(`${at('appliesTo.hsHeadings')}: expected four-digit HS headings`);
+      }
+      if (appliesTo.storageTypes !== undefined
+        && !(isStringArray(appliesTo.storageTypes)
+          && appliesTo.storageTypes.every(type => (PRODUCT_STORAGE_TYPES as string[]).includes(type)))) {
+        errors.push(`${at('appliesTo.storageTypes')}: expected any of ${PRODUCT_STORAGE_TYPES.join(', ')}`);
+      }
+      for (const field of ['organic', 'halal']) {
+        if (appliesTo[field] !== undefined && typeof appliesTo[field] !== 'boolean') {
+          errors.push(`${at(`appliesTo.${field}`)}: expected a boolean`);
+        }
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ComplianceRuleValidationError(
+      `Invalid ${fileName}: ${errors.length} problem(s), first: ${errors[0]}`,
+      errors
+    );
+  }
+
+  return data as unknown as ComplianceRuleFile;
+}
@@ -0,0 +1,68 @@
+import {
+  ExporterRegistrationRequirements,
+  MarketSpecificCompliance,
+  ProductStorageType
+} from '../compliance-mcp.interface';
+
+export const PRODUCT_STORAGE_TYPES: ProductStorageType[] = ['ambient', 'chilled', 'frozen'];
+
+/**
+ * Where a rule comes from, so reviewers can check it against the regulation
+ */
+export interface ComplianceRuleSource {
+  title: string;
+  url?: string;
+  // ISO date the source was last checked
+  retrievedAt?: string;
+}
+
+/**
+ * Products a rule applies to. Product categories (matched as case-insensitive
+ * keywords), HS chapters and HS headings are alternatives: a product matches if
+ * it satisfies any of them. Storage type, organic and halal must all match.
+ * Rules without any criteria apply to every product.
+ */
+export interface ComplianceRuleApplicability {
+  productCategories?: string[];
+  // Two-digit HS chapters, e.g. "16"
+  hsChapters?: string[];
+  // Four-digit HS headings, e.g. "1602"
+  hsHeadings?: string[];
+  storageTypes?: ProductStorageType[];
+  organic?: boolean;
+  halal?: boolean;
+}
+
+export interface ComplianceRule {
+  id: string;
+  name: string;
+  description: string;
+  isRequired: boolean;
+  estimatedCost?: {
+    min: number;
+    max: number;
+    currency: string;
+  };
+  estimatedTimelineInDays?: number;
+  regulatoryBody?: string;
+  documentationNeeded?: string[];
+  referenceUrl?: string;
+  // ISO dates; effectiveTo is the last day the rule applies
+  effectiveFrom: string;
+  effectiveTo?: string;
+  source: ComplianceRuleSource;
+  appliesTo?: ComplianceRuleApplicability;
+  exporterRegistration?: ExporterRegistrationRequirements;
+  marketSpecificCompliance?: MarketSpecificCompliance[];
+}
+
+/**
+ * One versioned rule file. `market` is a destination country code, the
+ * exporter's origin country, "INTL" for international standards that apply
+ * once per request, or "*" for rules that apply to every target market.
+ */
+export interface ComplianceRuleFile {
+  market: string;
+  version: string;
+  rules: ComplianceRule[];
+}
@@ -0,0 +1,20 @@
+import { CountryComplianceAdapter } from '@/mcp/compliance-mcp/adapters/country-compliance-adapter.interface';
+import { CountryComplianceAdapterRegistry } from '@/mcp/compliance-mcp/adapters/country-compliance-registry';
+import { UkComplianceAdapter } from './uk/compliance-mcp/uk-compliance.adapter';
+import { UaeComplianceAdapter } from './uae/compliance-mcp/uae-compliance.adapter';
+
+/**
+ * Country adapters that ship with the app. New markets (EU, US, SADC) add an
+ * adapter here or register one on the shared registry at startup.
+ */
+export function createBuiltInCountryComplianceAdapters(): CountryComplianceAdapter[] {
+  return [
+    new UkComplianceAdapter(),
+    new UaeComplianceAdapter()
+  ];
+}
+
+// Shared so adapters registered at startup are used by every compliance lookup
+export const countryComplianceRegistry = new CountryComplianceAdapterRegistry(
+  createBuiltInCountryComplianceAdapters()
+);
@@ -52,6 +52,8 @@ export interface UaeComplianceRequirement {
   freeZoneRequirements: UaeFreeZoneRequirement[];
   generalNotes: string[];
   lastUpdated: string;
+  // Placeholder data generated locally because no UAE compliance API key is configured
+  simulated?: boolean;
 }
 
 export interface UaeComplianceResult {
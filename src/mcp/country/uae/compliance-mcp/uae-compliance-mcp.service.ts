@@ -51,12 +51,16 @@ export class UaeComplianceMCPService implements UaeComplianceMCP {
     }
   }
 
+  /**
+   * Requirements for an HS code from the UAE compliance API, or flagged mock data when no
+   * API key is configured. API errors propagate so callers can fall back to other sources.
+   */
   async getComplianceByHsCode(hsCode: string): Promise<UaeComplianceRequirement[]> {
+    if (!this.apiKey) {
+      return this.getMockComplianceData(hsCode).map(requirement => ({ ...requirement, simulated: true }));
+    }
+    
     try {
-      if (!this.apiKey) {
-        return this.getMockComplianceData(hsCode);
-      }
-      
       const response = await axios.get(`${this.baseUrl}/compliance/${hsCode}`, {
         headers: {
           'Authorization': `Bearer ${this.apiKey}`
@@ -66,7 +70,7 @@ export class UaeComplianceMCPService implements UaeComplianceMCP {
       return response.data.requirements;
     } catch (error) {
       logger.error(`Error getting UAE compliance for HS code ${hsCode}: ${error}`);
-      return this.getMockComplianceData(hsCode);
+      throw error;
     }
   }
 
@@ -0,0 +1,160 @@
+import {
+  ComplianceProductProfile,
+  ComplianceRequirement,
+  FreeZoneRequirements
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import {
+  CountryComplianceAdapter,
+  CountryComplianceResult,
+  CountryMarketCompliance
+} from '@/mcp/compliance-mcp/adapters/country-compliance-adapter.interface';
+import {
+  joinDistinct,
+  mergeTriggeredRequirements,
+  parseCostRange,
+  parseTimeframeInDays,
+  withCountryApiEvidence
+} from '@/mcp/compliance-mcp/adapters/country-adapter.utils';
+import { UaeComplianceMCP, UaeComplianceRequirement } from './uae-compliance-mcp.interface';
+
+export type UaeComplianceClientLoader = () => Promise<UaeComplianceMCP>;
+
+// Loaded on first use so reports that never target the UAE don't construct the service
+const loadUaeComplianceService: UaeComplianceClientLoader = async () => {
+  const { UaeComplianceMCPService } = await import('./uae-compliance-mcp.service');
+  return new UaeComplianceMCPService();
+};
+
+/**
+ * Normalises UAE compliance results, including free zone requirements, into
+ * the global compliance shape
+ */
+export class UaeComplianceAdapter implements CountryComplianceAdapter {
+  readonly countryCode = 'AE';
+  readonly name = 'UAE compliance MCP';
+  private client?: Promise<UaeComplianceMCP>;
+
+  constructor(private loadClient: UaeComplianceClientLoader = loadUaeComplianceService) {}
+
+  async getRequirements(products: ComplianceProductProfile[]): Promise<CountryComplianceResult> {
+    const client = await this.getClient();
+    const merged = new Map<string, ComplianceRequirement>();
+    const results: UaeComplianceRequirement[] = [];
+
+    for (const product of products) {
+      const productResults = product.hsCode
+        ? await client.getComplianceByHsCode(product.hsCode)
+        : (await client.getComplianceRequirements(product.name || product.category)).requirements;
+
+      results.push(...productResults);
+      mergeTriggeredRequirements(merged, productResults.flatMap(result => this.toRequirements(result)), product);
+    }
+
+    return {
+      requirements: [...merged.values()],
+      marketSpecificCompliance: this.toMarketSpecificCompliance(results),
+      simulated: results.some(result => result.simulated)
+    };
+  }
+
+  private getClient(): Promise<UaeComplianceMCP> {
+    if (!this.client) {
+      this.client = this.loadClient();
+    }
+    return this.client;
+  }
+
+  private toRequirements(result: UaeComplianceRequirement): ComplianceRequirement[] {
+    const certifications = result.certifications.map(certification => ({
+      id: `ae-${certification.id.toLowerCase()}`,
+      name: certification.name,
+      description: `${certification.description} (valid for ${certification.validityPeriod})`,
+      isRequired: true,
+      estimatedCost: parseCostRange(certification.estimatedCost, 'AED'),
+      estimatedTimelineInDays: parseTimeframeInDays(certification.estimatedTimeframe),
+      countryCode: this.countryCode,
+      regulatoryBody: certification.issuingAuthority,
+      productCategories: [],
+      documentationNeeded: certification.requirements,
+      referenceUrl: certification.url
+    }));
+
+    const regulations = result.regulations.map(regulation => ({
+      id: `ae-${regulation.id.toLowerCase()}`,
+      name: regulation.title,
+      description: regulation.description,
+      isRequired: true,
+      countryCode: this.countryCode,
+      productCategories: [],
+      documentationNeeded: regulation.requirements,
+      referenceUrl: regulation.url
+    }));
+
+    const licences = result.restrictions
+      .filter(restriction => restriction.type === 'license')
+      .map(restriction => ({
+        id: `ae-licence-${restriction.description.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+        name: restriction.description,
+        description: restriction.details,
+        isRequired: true,
+        countryCode: this.countryCode,
+        productCategories: [],
+        referenceUrl: restriction.url
+      }));
+
+    return withCountryApiEvidence([...certifications, ...regulations, ...licences], this.name, result);
+  }
+
+  private toMarketSpecificCompliance(results: UaeComplianceRequirement[]): CountryMarketCompliance {
+    const regulations = results.flatMap(result => result.regulations);
+    const certifications = results.flatMap(result => result.certifications);
+    const restrictions = results.flatMap(result => result.restrictions);
+    const bans = restrictions.filter(restriction => restriction.type === 'prohibition');
+    const quotas = restrictions.filter(restriction => restriction.type === 'quota');
+    const halal = certifications.some(certification => certification.name.toLowerCase().includes('halal'));
+    const food = regulations.some(regulation => regulation.category === 'Food Safety');
+
+    const freeZones = new Map<string, FreeZoneRequirements>();
+    for (const zone of results.flatMap(result => result.freeZoneRequirements)) {
+      freeZones.set(zone.freeZoneName, {
+        freeZoneName: zone.freeZoneName,
+        additionalRequirements: zone.additionalRequirements,
+        exemptions: zone.exemptions,
+        url: zone.url
+      });
+    }
+
+    return {
+      countryCode: this.countryCode,
+      labeling: {
+        nutritionLabelMandatory: food,
+        requiredLanguages: ['Arabic', 'English'],
+        specializedLabels: halal
+          ? [{ type: 'Halal', required: true, details: 'Must display Halal certification mark' }]
+          : []
+      },
+      marketRequirements: {
+        halalCertificationMandatory: halal,
+        organicCertificationRequired: false,
+        productTestingRequired: regulations.some(regulation =>
+          regulation.requirements.some(requirement => requirement.toLowerCase().includes('testing'))),
+        foodSafetyCertifications: food ? ['HACCP'] : []
+      },
+      // Compliance sources don't carry tariff rates, so the rule base's rate for the market is kept
+      tariffAndTrade: {
+        hasQuotaRestrictions: quotas.length > 0,
+        quotaDetails: joinDistinct(quotas.map(quota => quota.details)),
+        hasProductBans: bans.length > 0,
+        banDetails: joinDistinct(bans.map(ban => ban.details))
+      },
+      customs: {
+        exportHealthCertificateRequired: regulations.some(regulation =>
+          regulation.requirements.some(requirement => requirement.toLowerCase().includes('health certificate'))),
+        phytosanitaryCertificateRequired: false,
+        preShipmentInspectionRequired: false,
+        electronicFilingMandatory: true
+      },
+      freeZones: [...freeZones.values()]
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { HsClassificationResult } from '@/mcp/global/hs-code-mcp/hs-code-mcp.interface';
 import { ClassificationResult } from '@/services/classification/embeddingService';
+import { NationalTariffLine } from '@/data/hs-codes/types';
 
 export interface UaeHsCodeTariffInfo {
   hsCode: string;
@@ -21,4 +22,5 @@ export interface UaeHsCodeResult {
 export interface UaeHsTariffMCP {
   getExtendedHsCode(productDescription: string): Promise<UaeHsCodeResult>;
   getTariffByHsCode(hsCode: string): Promise<UaeHsCodeTariffInfo[]>;
+  getNationalTariffLines(hsCode: string): NationalTariffLine[];
 } 
\ No newline at end of file
@@ -1,16 +1,20 @@
 import axios from 'axios';
 import { GlobalHsCodeMCPService } from '@/mcp/global/hs-code-mcp/hs-code-mcp.service';
 import { CacheService } from '@/services/cache-service';
+import { HSCodeSelectionService } from '@/services/hs-code/hsCodeSelection.service';
+import { NationalTariffLine } from '@/data/hs-codes/types';
 import { UaeHsCodeResult, UaeHsCodeTariffInfo, UaeHsTariffMCP } from './uae-hs-tariff-mcp.interface';
 import { logger } from '@/utils/logger';
 
 export class UaeHsTariffMCPService implements UaeHsTariffMCP {
   private readonly globalHsCodeMCP: GlobalHsCodeMCPService;
+  private readonly hsCodeSelection: HSCodeSelectionService;
   private readonly cacheService: CacheService<UaeHsCodeResult>;
   private readonly uaeApiBaseUrl: string;
   
   constructor() {
     this.globalHsCodeMCP = new GlobalHsCodeMCPService();
+    this.hsCodeSelection = new HSCodeSelectionService();
     this.cacheService = new CacheService<UaeHsCodeResult>({
       ttl: 60 * 60 * 24 * 1000, // 24 hours
       maxSize: 1000
@@ -84,7 +88,11 @@ export class UaeHsTariffMCPService implements UaeHsTariffMCP {
       
       // This would be a real API call in a production implementation
       // For now, we'll generate mock data based on HS code patterns
-      const tariffInfo = this.generateMockTariffData(formattedHsCode);
+      // One entry per GCC national line under the code, where they are bundled
+      const nationalLines = this.getNationalTariffLines(formattedHsCode);
+      const tariffInfo = nationalLines.length > 0
+        ? nationalLines.flatMap(line => this.generateMockTariffData(line.code, line.description))
+        : this.generateMockTariffData(formattedHsCode);
       
       // Cache the result
       this.cacheService.set(cacheKey, tariffInfo);
@@ -96,7 +104,13 @@ export class UaeHsTariffMCPService implements UaeHsTariffMCP {
     }
   }
   
-  private generateMockTariffData(hsCode: string): UaeHsCodeTariffInfo[] {
+  getNationalTariffLines(hsCode: string): NationalTariffLine[] {
+    const formattedHsCode = hsCode.replace(/[\s.]/g, '');
+    return this.hsCodeSelection.getTariffLinesForSubheading(formattedHsCode.substring(0, 6), 'AE')
+      .filter(line => line.code.startsWith(formattedHsCode));
+  }
+  
+  private generateMockTariffData(hsCode: string, description?: string): UaeHsCodeTariffInfo[] {
     // Check for exemptions - usually for essential goods and raw materials
     const isExempt = ['01', '10', '90', '49'].some(prefix => hsCode.startsWith(prefix));
     
@@ -109,7 +123,7 @@ export class UaeHsTariffMCPService implements UaeHsTariffMCP {
     // Create mock tariff data
     return [{
       hsCode,
-      description: `Products under ${hsCode}`,
+      description: description || `Products under ${hsCode}`,
       tariffRate: rate,
       tariffCategory: isExempt ? 'Exempt' : isHighTariff ? 'High Tariff' : 'Standard Rate',
       gccCommonTariff: !isHighTariff, // High tariff items might be UAE-specific
@@ -37,6 +37,8 @@ export interface UkComplianceRequirement {
   restrictions: UkRestriction[];
   generalNotes: string[];
   lastUpdated: string;
+  // Placeholder data generated locally rather than returned by a UK compliance API
+  simulated?: boolean;
 }
 
 export interface UkComplianceResult {
@@ -75,32 +75,31 @@ export class UkComplianceMCPService implements UkComplianceMCP {
     }
   }
   
+  /**
+   * Requirements for an HS code. Errors propagate so callers can fall back to other sources.
+   */
   async getComplianceByHsCode(hsCode: string): Promise<UkComplianceRequirement[]> {
-    try {
-      const cacheKey = `uk-compliance-hs:${hsCode}`;
-      
-      // Try to get from cache first
-      const cachedResult = this.cacheService.get(cacheKey);
-      if (cachedResult) {
-        return cachedResult;
-      }
-      
-      // Format HS code (remove spaces and dots)
-      const formattedHsCode = hsCode.replace(/[\s.]/g, '');
-      
-      // Call compliance API
-      // In a real implementation, this would call a real API
-      // For now, we'll generate mock data
-      const requirements = this.generateMockComplianceRequirements(formattedHsCode);
-      
-      // Cache the result
-      this.cacheService.set(cacheKey, requirements);
-      
-      return requirements;
-    } catch (error) {
-      logger.error(`Error getting UK compliance for HS code ${hsCode}:`, error);
-      return [];
+    const cacheKey = `uk-compliance-hs:${hsCode}`;
+    
+    // Try to get from cache first
+    const cachedResult = this.cacheService.get(cacheKey);
+    if (cachedResult) {
+      return cachedResult;
     }
+    
+    // Format HS code (remove spaces and dots)
+    const formattedHsCode = hsCode.replace(/[\s.]/g, '');
+    
+    // Call compliance API
+    // In a real implementation, this would call a real API
+    // For now, we'll generate mock data, flagged so it isn't mistaken for API results
+    const requirements: UkComplianceRequirement[] = this.generateMockComplianceRequirements(formattedHsCode)
+      .map(requirement => ({ ...requirement, simulated: true }));
+    
+    // Cache the result
+    this.cacheService.set(cacheKey, requirements);
+    
+    return requirements;
   }
   
   private generateMockComplianceRequirements(hsCode: string): UkComplianceRequirement[] {
@@ -0,0 +1,145 @@
+import {
+  ComplianceProductProfile,
+  ComplianceRequirement
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import {
+  CountryComplianceAdapter,
+  CountryComplianceResult,
+  CountryMarketCompliance
+} from '@/mcp/compliance-mcp/adapters/country-compliance-adapter.interface';
+import {
+  joinDistinct,
+  mergeTriggeredRequirements,
+  parseCostRange,
+  parseTimeframeInDays,
+  withCountryApiEvidence
+} from '@/mcp/compliance-mcp/adapters/country-adapter.utils';
+import { UkComplianceMCP, UkComplianceRequirement } from './uk-compliance-mcp.interface';
+
+export type UkComplianceClientLoader = () => Promise<UkComplianceMCP>;
+
+// Loaded on first use so reports that never target the UK don't construct the service
+const loadUkComplianceService: UkComplianceClientLoader = async () => {
+  const { UkComplianceMCPService } = await import('./uk-compliance-mcp.service');
+  return new UkComplianceMCPService();
+};
+
+/**
+ * Normalises UK compliance results into the global compliance shape
+ */
+export class UkComplianceAdapter implements CountryComplianceAdapter {
+  readonly countryCode = 'GB';
+  readonly name = 'UK compliance MCP';
+  private client?: Promise<UkComplianceMCP>;
+
+  constructor(private loadClient: UkComplianceClientLoader = loadUkComplianceService) {}
+
+  async getRequirements(products: ComplianceProductProfile[]): Promise<CountryComplianceResult> {
+    const client = await this.getClient();
+    const merged = new Map<string, ComplianceRequirement>();
+    const results: UkComplianceRequirement[] = [];
+
+    for (const product of products) {
+      const productResults = product.hsCode
+        ? await client.getComplianceByHsCode(product.hsCode)
+        : (await client.getComplianceRequirements(product.name || product.category)).requirements;
+
+      results.push(...productResults);
+      mergeTriggeredRequirements(merged, productResults.flatMap(result => this.toRequirements(result)), product);
+    }
+
+    return {
+      requirements: [...merged.values()],
+      marketSpecificCompliance: this.toMarketSpecificCompliance(results),
+      simulated: results.some(result => result.simulated)
+    };
+  }
+
+  private getClient(): Promise<UkComplianceMCP> {
+    if (!this.client) {
+      this.client = this.loadClient();
+    }
+    return this.client;
+  }
+
+  private toRequirements(result: UkComplianceRequirement): ComplianceRequirement[] {
+    const certifications = result.certifications.map(certification => ({
+      id: `gb-${certification.id}`,
+      name: certification.name,
+      description: certification.description,
+      isRequired: true,
+      estimatedCost: parseCostRange(certification.estimatedCost, 'GBP'),
+      estimatedTimelineInDays: parseTimeframeInDays(certification.estimatedTimeframe),
+      countryCode: this.countryCode,
+      regulatoryBody: certification.issuingAuthority,
+      productCategories: [],
+      documentationNeeded: certification.requirements,
+      referenceUrl: certification.url
+    }));
+
+    const regulations = result.regulations.map(regulation => ({
+      id: `gb-${regulation.id}`,
+      name: regulation.title,
+      description: regulation.description,
+      isRequired: true,
+      countryCode: this.countryCode,
+      productCategories: [],
+      documentationNeeded: regulation.requirements,
+      referenceUrl: regulation.url
+    }));
+
+    const licences = result.restrictions
+      .filter(restriction => restriction.type === 'license')
+      .map(restriction => ({
+        id: `gb-licence-${restriction.description.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+        name: restriction.description,
+        description: restriction.details,
+        isRequired: true,
+        countryCode: this.countryCode,
+        productCategories: [],
+        referenceUrl: restriction.url
+      }));
+
+    return withCountryApiEvidence([...certifications, ...regulations, ...licences], this.name, result);
+  }
+
+  private toMarketSpecificCompliance(results: UkComplianceRequirement[]): CountryMarketCompliance {
+    const regulations = results.flatMap(result => result.regulations);
+    const restrictions = results.flatMap(result => result.restrictions);
+    const bans = restrictions.filter(restriction => restriction.type === 'prohibition');
+    const quotas = restrictions.filter(restriction => restriction.type === 'quota');
+    const foodRegulations = regulations.filter(regulation => regulation.category === 'Food Safety');
+
+    return {
+      countryCode: this.countryCode,
+      labeling: {
+        nutritionLabelMandatory: foodRegulations.length > 0,
+        requiredLanguages: ['English'],
+        specializedLabels: regulations
+          .filter(regulation => regulation.id.startsWith('ukca'))
+          .map(regulation => ({ type: 'UKCA', required: true, details: regulation.title }))
+      },
+      marketRequirements: {
+        halalCertificationMandatory: false,
+        organicCertificationRequired: false,
+        productTestingRequired: regulations.some(regulation =>
+          regulation.requirements.some(requirement => requirement.toLowerCase().includes('testing'))),
+        foodSafetyCertifications: foodRegulations.length > 0 ? ['HACCP'] : []
+      },
+      // Compliance sources don't carry tariff rates, so the rule base's rate for the market is kept
+      tariffAndTrade: {
+        hasQuotaRestrictions: quotas.length > 0,
+        quotaDetails: joinDistinct(quotas.map(quota => quota.details)),
+        hasProductBans: bans.length > 0,
+        banDetails: joinDistinct(bans.map(ban => ban.details))
+      },
+      customs: {
+        exportHealthCertificateRequired: restrictions.some(restriction =>
+          restriction.details.toLowerCase().includes('health certificate')),
+        phytosanitaryCertificateRequired: false,
+        preShipmentInspectionRequired: false,
+        electronicFilingMandatory: true
+      }
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { HsClassificationResult } from '@/mcp/global/hs-code-mcp/hs-code-mcp.interface';
 import { ClassificationResult } from '@/services/classification/embeddingService';
+import { NationalTariffLine } from '@/data/hs-codes/types';
 
 export interface UkHsCodeTariffInfo {
   hsCode: string;
@@ -25,4 +26,5 @@ export interface UkHsCodeResult {
 export interface UkHsTariffMCP {
   getExtendedHsCode(productDescription: string): Promise<UkHsCodeResult>;
   getTariffByHsCode(hsCode: string): Promise<UkHsCodeTariffInfo[]>;
+  getNationalTariffLines(hsCode: string): NationalTariffLine[];
 } 
\ No newline at end of file
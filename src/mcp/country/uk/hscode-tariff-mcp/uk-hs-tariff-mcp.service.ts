@@ -1,16 +1,20 @@
 import axios from 'axios';
 import { GlobalHsCodeMCPService } from '@/mcp/global/hs-code-mcp/hs-code-mcp.service';
 import { CacheService } from '@/services/cache-service';
+import { HSCodeSelectionService } from '@/services/hs-code/hsCodeSelection.service';
+import { NationalTariffLine } from '@/data/hs-codes/types';
 import { UkHsCodeResult, UkHsCodeTariffInfo, UkHsTariffMCP } from './uk-hs-tariff-mcp.interface';
 import { logger } from '@/utils/logger';
 
 export class UkHsTariffMCPService implements UkHsTariffMCP {
   private readonly globalHsCodeMCP: GlobalHsCodeMCPService;
+  private readonly hsCodeSelection: HSCodeSelectionService;
   private readonly cacheService: CacheService<UkHsCodeResult>;
   private readonly ukApiBaseUrl: string;
   
   constructor() {
     this.globalHsCodeMCP = new GlobalHsCodeMCPService();
+    this.hsCodeSelection = new HSCodeSelectionService();
     this.cacheService = new CacheService<UkHsCodeResult>({
       ttl: 60 * 60 * 24 * 1000, // 24 hours
       maxSize: 1000
@@ -82,14 +86,28 @@ export class UkHsTariffMCPService implements UkHsTariffMCP {
       // Format HS code for UK API (remove spaces and dots)
       const formattedHsCode = hsCode.replace(/[\s.]/g, '');
       
-      // Call UK Tariff API
-      const response = await axios.get(`${this.ukApiBaseUrl}/commodities/${formattedHsCode}`);
+      // The UK API only knows 10-digit commodity codes, so look up each national line of a shorter code
+      const nationalLines = formattedHsCode.length < 10 ? this.getNationalTariffLines(formattedHsCode) : [];
+      const commodityCodes = nationalLines.length > 0 ? nationalLines.map(line => line.code) : [formattedHsCode];
       
+      // Call UK Tariff API, keeping the lines that resolved when others fail
+      const responses = await Promise.allSettled(commodityCodes.map(code =>
+        axios.get(`${this.ukApiBaseUrl}/commodities/${code}`)));
+
+      responses.forEach((response, index) => {
+        if (response.status === 'rejected') {
+          logger.error(`Error getting UK tariff for commodity code ${commodityCodes[index]}:`, response.reason);
+        }
+      });
+
       // Parse response and extract tariff information
-      const tariffInfo = this.parseTariffResponse(response.data);
-      
-      // Cache the result
-      this.cacheService.set(cacheKey, tariffInfo);
+      const tariffInfo = responses.flatMap(response =>
+        response.status === 'fulfilled' ? this.parseTariffResponse(response.value.data) : []);
+
+      // Only cache complete results so failed lines are retried on the next lookup
+      if (responses.every(response => response.status === 'fulfilled')) {
+        this.cacheService.set(cacheKey, tariffInfo);
+      }
       
       return tariffInfo;
     } catch (error) {
@@ -98,6 +116,12 @@ export class UkHsTariffMCPService implements UkHsTariffMCP {
     }
   }
   
+  getNationalTariffLines(hsCode: string): NationalTariffLine[] {
+    const formattedHsCode = hsCode.replace(/[\s.]/g, '');
+    return this.hsCodeSelection.getTariffLinesForSubheading(formattedHsCode.substring(0, 6), 'GB')
+      .filter(line => line.code.startsWith(formattedHsCode));
+  }
+  
   private parseTariffResponse(response: any): UkHsCodeTariffInfo[] {
     try {
       const commodity = response.data;
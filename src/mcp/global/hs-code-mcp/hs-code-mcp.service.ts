@@ -1,6 +1,8 @@
 import { Cache } from '@/utils/cache';
 import { EmbeddingService } from '@/services/classification/embeddingService';
 import { ProductMapper } from '@/services/classification/productMapper';
+import { ClassificationFeedbackStore } from '@/services/classification/classificationFeedbackStore';
+import { ClassificationCorrection } from '@/types/classification.types';
 import { WITSAPIClient } from './wits-api-client';
 import { 
   ClassificationMatch, 
@@ -22,8 +24,9 @@ export class HsCodeMCPService {
   private embeddingService: EmbeddingService;
   private productMapper: ProductMapper;
   private witsApiClient: WITSAPIClient;
+  private feedbackStore: ClassificationFeedbackStore;
   
-  constructor() {
+  constructor(feedbackStore: ClassificationFeedbackStore = new ClassificationFeedbackStore()) {
     // Initialize cache with 1 hour TTL
     this.cache = new Cache<string, HsClassificationResult>({
       ttl: 60 * 60 * 1000, // 60 minutes
@@ -34,6 +37,18 @@ export class HsCodeMCPService {
     this.embeddingService = new EmbeddingService();
     this.productMapper = new ProductMapper();
     this.witsApiClient = new WITSAPIClient();
+    this.feedbackStore = feedbackStore;
+  }
+  
+  /**
+   * Remember a user correction so similar products are boosted towards the corrected code
+   * @param correction Product description with its original and corrected HS codes
+   */
+  recordCorrection(correction: ClassificationCorrection): void {
+    this.feedbackStore.recordCorrection(correction);
+    
+    // Cached results predate the correction
+    this.cache.clear();
   }
   
   /**
@@ -141,8 +156,20 @@ export class HsCodeMCPService {
       // 3. Combine results
       const combinedResults = this.combineClassificationResults(keywordResults, vectorResults);
       
-      // 4. Enhance with WITS API data
-      const enhancedResults = await this.enhanceClassificationResults(combinedResults, productDescription);
+      // 4. Boost codes that users corrected similar products to
+      const correctedResults = this.feedbackStore.applyCorrections(
+        productDescription,
+        combinedResults,
+        boost => ({
+          hsCode: boost.hsCode,
+          description: boost.description || '',
+          confidence: 0,
+          source: 'feedback'
+        })
+      );
+      
+      // 5. Enhance with WITS API data
+      const enhancedResults = await this.enhanceClassificationResults(correctedResults, productDescription);
       
       return enhancedResults;
     } catch (error) {
@@ -164,7 +191,7 @@ export class HsCodeMCPService {
    * @param vectorResults Results from embedding-based classification
    * @returns Combined and de-duplicated results
    */
-  private combineClassificationResults(
+  combineClassificationResults(
     keywordResults: ClassificationMatch[],
     vectorResults: ClassificationMatch[]
   ): ClassificationMatch[] {
@@ -2,6 +2,7 @@ import axios from 'axios';
 import { CacheService } from '@/utils/cache.service';
 import { ApiKeyManager } from '@/utils/api-key-manager';
 import { Cache } from '@/utils/cache';
+import { hsCodeData } from '@/data/hs-codes/hs-code-data';
 import { 
   ClassificationMatch, 
   ProductExample,
@@ -398,7 +399,7 @@ export class WITSAPIClient {
       const response = await this.apiClient.get('', { params });
       
       if (!response.data || !response.data.chapters) {
-        return [];
+        return this.getFallbackChapters();
       }
       
       // Transform the response
@@ -414,7 +415,7 @@ export class WITSAPIClient {
       return chapters;
     } catch (error) {
       console.error('Failed to get chapters:', error);
-      return [];
+      return this.getFallbackChapters();
     }
   }
   
@@ -439,7 +440,7 @@ export class WITSAPIClient {
       const response = await this.apiClient.get('', { params });
       
       if (!response.data || !response.data.headings) {
-        return [];
+        return this.getFallbackHeadings(chapterCode);
       }
       
       // Transform the response
@@ -456,7 +457,7 @@ export class WITSAPIClient {
       return headings;
     } catch (error) {
       console.error(`Failed to get headings for chapter ${chapterCode}:`, error);
-      return [];
+      return this.getFallbackHeadings(chapterCode);
     }
   }
   
@@ -481,7 +482,7 @@ export class WITSAPIClient {
       const response = await this.apiClient.get('', { params });
       
       if (!response.data || !response.data.subheadings) {
-        return [];
+        return this.getFallbackSubheadings(headingCode);
       }
       
       // Transform the response
@@ -498,7 +499,7 @@ export class WITSAPIClient {
       return subheadings;
     } catch (error) {
       console.error(`Failed to get subheadings for heading ${headingCode}:`, error);
-      return [];
+      return this.getFallbackSubheadings(headingCode);
     }
   }
   
@@ -621,78 +622,49 @@ export class WITSAPIClient {
   }
   
   /**
-   * Get fallback HS chapters when API fails
-   * @returns Array of common HS chapters
+   * Get fallback HS chapters from the bundled nomenclature when the API fails
+   * @returns Array of all HS chapters
    */
   private getFallbackChapters(): HSChapter[] {
-    return [
-      { code: '84', name: 'Machinery', description: 'Nuclear reactors, boilers, machinery and mechanical appliances; parts thereof' },
-      { code: '85', name: 'Electrical machinery', description: 'Electrical machinery and equipment and parts thereof; sound recorders and reproducers, television recorders and reproducers, parts and accessories' },
-      { code: '87', name: 'Vehicles', description: 'Vehicles other than railway or tramway rolling stock, and parts and accessories thereof' },
-      { code: '61', name: 'Apparel (knitted)', description: 'Articles of apparel and clothing accessories, knitted or crocheted' },
-      { code: '62', name: 'Apparel (not knitted)', description: 'Articles of apparel and clothing accessories, not knitted or crocheted' },
-      { code: '39', name: 'Plastics', description: 'Plastics and articles thereof' },
-      { code: '90', name: 'Optical instruments', description: 'Optical, photographic, cinematographic, measuring, checking, precision, medical or surgical instruments and apparatus; parts and accessories thereof' },
-      { code: '94', name: 'Furniture', description: 'Furniture; bedding, mattresses, mattress supports, cushions and similar stuffed furnishings; lamps and lighting fittings, not elsewhere specified; illuminated signs, illuminated nameplates and the like; prefabricated buildings' }
-    ];
+    return hsCodeData.chapters.map(code => ({
+      code,
+      name: hsCodeData.nodes[code].name,
+      description: hsCodeData.nodes[code].description
+    }));
   }
   
   /**
-   * Get fallback HS headings for a chapter when API fails
+   * Get fallback HS headings for a chapter from the bundled nomenclature when the API fails
    * @param chapterCode Chapter code
-   * @returns Array of common HS headings for the chapter
+   * @returns Array of HS headings for the chapter
    */
   private getFallbackHeadings(chapterCode: string): HSHeading[] {
     // First 2 digits only
     const chapter = chapterCode.substring(0, 2);
     
-    // Fallback headings for common chapters
-    const fallbackMap: Record<string, HSHeading[]> = {
-      '84': [
-        { code: '8471', name: 'Computers', description: 'Automatic data processing machines and units thereof' },
-        { code: '8473', name: 'Computer parts', description: 'Parts and accessories for machines of headings 8469 to 8472' }
-      ],
-      '85': [
-        { code: '8517', name: 'Telephones', description: 'Telephone sets, including smartphones and other telephones for cellular networks' },
-        { code: '8528', name: 'Monitors and projectors', description: 'Monitors and projectors, not incorporating television reception apparatus' }
-      ],
-      '61': [
-        { code: '6109', name: 'T-shirts', description: 'T-shirts, singlets and other vests, knitted or crocheted' },
-        { code: '6110', name: 'Sweaters', description: 'Sweaters, pullovers, sweatshirts, waistcoats and similar articles, knitted or crocheted' }
-      ]
-    };
-    
-    // Return headings for the chapter or empty array
-    return fallbackMap[chapter] || [];
+    return (hsCodeData.headingsByChapter[chapter] || []).map(code => ({
+      code,
+      name: hsCodeData.nodes[code].name,
+      description: hsCodeData.nodes[code].description,
+      chapterCode: chapter
+    }));
   }
   
   /**
-   * Get fallback HS subheadings for a heading when API fails
+   * Get fallback HS subheadings for a heading from the bundled nomenclature when the API fails
    * @param headingCode Heading code
-   * @returns Array of common HS subheadings for the heading
+   * @returns Array of HS subheadings for the heading
    */
   private getFallbackSubheadings(headingCode: string): HSSubheading[] {
     // First 4 digits only
     const heading = headingCode.substring(0, 4);
     
-    // Fallback subheadings for common headings
-    const fallbackMap: Record<string, HSSubheading[]> = {
-      '8471': [
-        { code: '847130', name: 'Laptops', description: 'Portable automatic data processing machines, weighing not more than 10 kg, consisting of at least a central processing unit, a keyboard and a display' },
-        { code: '847150', name: 'Processing units', description: 'Processing units other than those of subheading 8471.41 or 8471.49, whether or not containing in the same housing one or two of the following types of unit: storage units, input units, output units' }
-      ],
-      '8517': [
-        { code: '851712', name: 'Smartphones', description: 'Telephones for cellular networks or for other wireless networks' },
-        { code: '851761', name: 'Base stations', description: 'Base stations for communication apparatus' }
-      ],
-      '6109': [
-        { code: '610910', name: 'Cotton t-shirts', description: 'T-shirts, singlets and other vests, of cotton, knitted or crocheted' },
-        { code: '610990', name: 'Other t-shirts', description: 'T-shirts, singlets and other vests, of other textile materials, knitted or crocheted' }
-      ]
-    };
-    
-    // Return subheadings for the heading or empty array
-    return fallbackMap[heading] || [];
+    return (hsCodeData.subheadingsByHeading[heading] || []).map(code => ({
+      code,
+      name: hsCodeData.nodes[code].name,
+      description: hsCodeData.nodes[code].description,
+      headingCode: heading
+    }));
   }
 
   /**
@@ -1,4 +1,4 @@
-import { BusinessProfile } from '../../types/business-profile.types';
+import { BusinessProfile } from '@/types/business-profile.types';
 
 export interface MarketSize {
   value: number;
@@ -29,12 +29,14 @@ import {
   deselectAllGroups,
 } from '../store/productAssessment/productAssessmentSlice';
 import type { RootState } from '../store/types';
+import { useAssessment } from '../contexts/assessment-context';
 
 const consolidationService = new ProductConsolidationService();
 const hsChapterService = new HSChapterMappingService();
 
 export const ExportReadinessAssessment: React.FC = () => {
   const dispatch = useDispatch();
+  const { state: assessmentState } = useAssessment();
   const {
     consolidatedGroups,
     hsClassifications,
@@ -243,6 +245,7 @@ export const ExportReadinessAssessment: React.FC = () => {
           product={currentProduct}
           onClose={() => setEditDialogOpen(false)}
           onSave={handleSaveProduct}
+          targetMarkets={assessmentState.marketInfo.targetMarkets.map(market => market.code)}
         />
       </Box>
       
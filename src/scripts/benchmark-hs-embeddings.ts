@@ -0,0 +1,29 @@
+import { EmbeddingService } from '../services/classification/embeddingService';
+import { runEmbeddingBenchmark } from '../services/classification/embeddingBenchmark';
+
+/**
+ * Benchmark HS classification by embedding search on the labelled product set.
+ * The backend follows EMBEDDING_BACKEND, or can be passed as the first argument.
+ */
+async function benchmarkHsEmbeddings() {
+  const service = new EmbeddingService(undefined, undefined, undefined, process.argv[2]);
+  console.log(`Benchmarking the ${service.getBackend()} embedding backend...`);
+
+  const result = await runEmbeddingBenchmark(service);
+
+  console.log(`Samples: ${result.samples}`);
+  console.log(`Top-1 accuracy: ${(result.top1Accuracy * 100).toFixed(1)}%`);
+  console.log(`Top-5 accuracy: ${(result.top5Accuracy * 100).toFixed(1)}%`);
+
+  if (result.misses.length > 0) {
+    console.log('\nNot ranked first:');
+    result.misses.forEach(miss => {
+      console.log(`- ${miss.description}: expected ${miss.expected}, got ${miss.predicted.join(', ') || 'nothing'}`);
+    });
+  }
+}
+
+benchmarkHsEmbeddings().catch(error => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { classificationEvaluationDataset } from '../data/classification-evaluation';
+import { buildClassificationRequest, parseClassificationResponse } from '../services/classification/llmClassification';
+
+dotenv.config({ path: '.env.local' });
+
+const FIXTURES_PATH = path.resolve(__dirname, '../data/classification-evaluation/llm-fixtures.json');
+
+interface OpenAIResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+}
+
+/**
+ * Record the completions /api/classify gets for every labelled product, so the LLM
+ * classifier can be scored offline. Needs OPENAI_API_KEY.
+ */
+async function recordLlmClassificationFixtures() {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not set');
+  }
+
+  const { model } = buildClassificationRequest('');
+  const responses: Record<string, string> = {};
+
+  for (const sample of classificationEvaluationDataset.samples) {
+    const response = await axios.post<OpenAIResponse>(
+      'https://api.openai.com/v1/chat/completions',
+      buildClassificationRequest(sample.description),
+      { headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` } }
+    );
+    const content = response.data.choices[0].message.content;
+
+    try {
+      const { hsCode } = parseClassificationResponse(content);
+      console.log(`${sample.description}: ${hsCode.code} (expected ${sample.hsCode})`);
+    } catch (error) {
+      console.warn(`${sample.description}: unparseable response recorded as is`);
+    }
+    responses[sample.description] = content;
+  }
+
+  fs.writeFileSync(FIXTURES_PATH, `${JSON.stringify({
+    version: classificationEvaluationDataset.version,
+    model,
+    recordedAt: new Date().toISOString(),
+    responses
+  }, null, 2)}\n`);
+  console.log(`Recorded ${Object.keys(responses).length} completions to ${FIXTURES_PATH}`);
+}
+
+recordLlmClassificationFixtures().catch(error => {
+  console.error('Recording failed:', error);
+  process.exit(1);
+});
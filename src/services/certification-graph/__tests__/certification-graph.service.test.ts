@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+import { CertificationGraph, GraphRequirement } from '../certification-graph.service';
+import { Certification } from '@/contexts/assessment-context';
+
+const requirement = (id: string, name: string, countryCode: string, isRequired = true): GraphRequirement =>
+  ({ id, name, countryCode, isRequired });
+
+const requirements: GraphRequirement[] = [
+  requirement('haccp-cert', 'HACCP Certification', 'ZA'),
+  requirement('gb-brcgs', 'BRCGS Food Safety', 'GB'),
+  requirement('ae-halal-meat', 'Halal Certificate for Meat Products', 'AE'),
+  requirement('ae-iso-22000', 'ISO 22000', 'AE', false),
+  requirement('gb-ipaffs-notification', 'IPAFFS Pre-notification', 'GB')
+];
+
+describe('CertificationGraph', () => {
+  const graph = new CertificationGraph();
+
+  it('should resolve certification and certifier names', () => {
+    expect(graph.resolve('FSSC 22000 v6')?.id).toBe('fssc22000');
+    expect(graph.resolve('Food Safety Certification')?.id).toBe('food-safety-system');
+    expect(graph.resolve('BRCGS Food Safety')?.id).toBe('brcgs-food');
+    expect(graph.resolve('Halal (SANHA)', 'certifier')?.id).toBe('sanha');
+    expect(graph.resolve('Export Permit')).toBeUndefined();
+  });
+
+  it('should only count obtained certifications', () => {
+    const certifications: Certification[] = [
+      { id: 'haccp', name: 'HACCP', status: 'obtained' },
+      { id: 'halal', name: 'Halal (SANHA)', status: 'in-progress' }
+    ];
+
+    expect(graph.findSatisfiedRequirements(requirements, certifications)).toEqual([{
+      requirementId: 'haccp-cert',
+      marketCode: 'ZA',
+      certificationId: 'haccp',
+      certificationName: 'HACCP',
+      via: 'direct',
+      path: ['haccp']
+    }]);
+  });
+
+  it('should meet requirements covered by a broader certification', () => {
+    const matches = graph.findSatisfiedRequirements(requirements, [{ id: 'fssc', name: 'FSSC 22000', status: 'obtained' }]);
+
+    expect(matches.map(match => [match.requirementId, match.via, match.path])).toEqual([
+      ['haccp-cert', 'covers', ['fssc22000', 'iso22000', 'haccp']],
+      ['gb-brcgs', 'equivalent', ['fssc22000', 'brcgs-food']],
+      ['ae-iso-22000', 'covers', ['fssc22000', 'iso22000']]
+    ]);
+  });
+
+  it('should only accept equivalent schemes in markets that recognise them', () => {
+    const matches = graph.findSatisfiedRequirements(
+      [requirement('gb-brcgs', 'BRCGS Food Safety', 'GB'), requirement('eu-brcgs', 'BRCGS Food Safety', 'EU')],
+      [{ id: 'ifs', name: 'IFS Food', status: 'obtained' }]
+    );
+
+    expect(matches.map(match => match.requirementId)).toEqual(['eu-brcgs']);
+  });
+
+  it('should limit equivalences to the markets that agreed them', () => {
+    const certifications: Certification[] = [{ id: 'eu-organic', name: 'EU Organic', status: 'obtained' }];
+
+    expect(graph.findSatisfiedRequirements([requirement('us-nop-organic', 'USDA Organic Certification', 'US')], certifications))
+      .toHaveLength(1);
+    expect(graph.findSatisfiedRequirements([requirement('za-organic', 'USDA Organic Certification', 'ZA')], certifications))
+      .toHaveLength(0);
+  });
+
+  it('should only accept halal certificates from certifiers the market recognises', () => {
+    const halal = requirement('ae-halal-meat', 'Halal Certificate for Meat Products', 'AE');
+    const accepted = (name: string) => graph.findSatisfiedRequirements([halal], [{ id: 'halal', name, status: 'obtained' }]);
+
+    expect(accepted('Halal (SANHA)')).toHaveLength(1);
+    expect(accepted('Halal (NIHT)')).toHaveLength(0);
+    expect(accepted('Halal Certification')).toHaveLength(0);
+    expect(graph.findSatisfiedRequirements(
+      [{ ...halal, countryCode: 'ZA', exporterRegistration: {
+        sarsRegistrationRequired: true,
+        itacPermitRequired: false,
+        facilityCertificationRequired: true,
+        haccp: { required: false },
+        halal: { required: true, acceptedCertifiers: ['NIHT'] }
+      } }],
+      [{ id: 'halal', name: 'Halal (NIHT)', status: 'obtained' }]
+    )).toHaveLength(1);
+  });
+
+  it('should suggest the certification that meets the most target markets', () => {
+    const suggestion = graph.suggestCertification(['GB', 'AE'], requirements, [
+      { id: 'haccp', name: 'HACCP', status: 'obtained' }
+    ]);
+
+    // FSSC 22000 meets the GB requirement and the optional AE one; halal only the AE one
+    expect(suggestion).toEqual({
+      certificationId: 'fssc22000',
+      name: 'FSSC 22000',
+      marketCodes: ['GB'],
+      requirementIds: ['gb-brcgs', 'ae-iso-22000'],
+      acceptedCertifiers: undefined
+    });
+  });
+
+  it('should name the accepted certifiers with a suggestion', () => {
+    const suggestion = graph.suggestCertification(['AE'], [requirements[2]], []);
+
+    expect(suggestion).toMatchObject({
+      certificationId: 'halal',
+      marketCodes: ['AE'],
+      acceptedCertifiers: {
+        AE: ['South African National Halaal Authority (SANHA)', 'Muslim Judicial Council Halaal Trust (MJC)']
+      }
+    });
+  });
+
+  it('should suggest nothing when every requirement is met', () => {
+    expect(graph.suggestCertification(['GB'], [requirements[1]], [{ id: 'brc', name: 'BRCGS', status: 'obtained' }]))
+      .toBeUndefined();
+  });
+});
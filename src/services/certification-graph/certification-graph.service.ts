@@ -0,0 +1,237 @@
+import { Certification } from '@/contexts/assessment-context';
+import {
+  CertificationEdge,
+  CertificationGraphData,
+  certificationGraphData,
+  CertificationNode
+} from '@/data/certifications';
+import { ComplianceRequirement } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { CertificationMatch, CertificationSuggestion } from '@/types/certification-graph.types';
+import { logger } from '@/utils/logger';
+
+export type GraphRequirement = Pick<ComplianceRequirement, 'id' | 'name' | 'isRequired' | 'countryCode' | 'exporterRegistration'>;
+
+/**
+ * Normalise certification names so "HACCP Certification" matches "HACCP"
+ */
+export const normaliseCertificationName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/\b(certification|certificate|compliance|registration)\b/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+interface GraphPath {
+  nodes: string[];
+  viaEquivalence: boolean;
+  // Whether an equivalence on the path isn't tied to particular markets
+  viaGeneralEquivalence: boolean;
+}
+
+/**
+ * Knowledge graph of which certifications cover or are equivalent to others,
+ * which markets accept them and which certifiers those markets recognise
+ */
+export class CertificationGraph {
+  private nodes: Map<string, CertificationNode>;
+
+  constructor(private data: CertificationGraphData = certificationGraphData) {
+    this.nodes = new Map(data.nodes.map(node => [node.id, node] as const));
+  }
+
+  /**
+   * Find the graph node a certification or requirement name refers to
+   */
+  resolve(name: string, kind: CertificationNode['kind'] = 'certification'): CertificationNode | undefined {
+    const text = ` ${normaliseCertificationName(name)} `;
+    return this.data.nodes.find(node => node.kind === kind
+      && node.aliases.some(alias => text.includes(` ${normaliseCertificationName(alias)} `)));
+  }
+
+  /**
+   * Requirements already met by the exporter's obtained certifications, directly
+   * or because an obtained certification covers or is equivalent to the required one
+   */
+  findSatisfiedRequirements(requirements: GraphRequirement[], certifications: Certification[]): CertificationMatch[] {
+    const obtained = certifications.filter(certification => certification.status === 'obtained');
+    const matches: CertificationMatch[] = [];
+
+    for (const requirement of requirements) {
+      for (const certification of obtained) {
+        const match = this.matchRequirement(requirement, certification);
+        if (match) {
+          matches.push(match);
+          break;
+        }
+      }
+    }
+
+    logger.info(`${matches.length} of ${requirements.length} requirements met by obtained certifications`);
+    return matches;
+  }
+
+  /**
+   * The certification not yet obtained that would meet mandatory requirements in
+   * the most target markets; ties go to the one meeting more requirements overall
+   */
+  suggestCertification(
+    targetMarkets: string[],
+    requirements: GraphRequirement[],
+    certifications: Certification[]
+  ): CertificationSuggestion | undefined {
+    const satisfied = new Set(this.findSatisfiedRequirements(requirements, certifications).map(match => match.requirementId));
+    const unmet = requirements.filter(requirement => !satisfied.has(requirement.id));
+    const obtained = new Set(certifications
+      .filter(certification => certification.status === 'obtained')
+      .map(certification => this.resolveCertification(certification)?.id));
+
+    let best: CertificationSuggestion | undefined;
+    for (const node of this.data.nodes) {
+      if (node.kind !== 'certification' || obtained.has(node.id)) {
+        continue;
+      }
+
+      const candidate: Certification = { id: node.id, name: node.name, status: 'obtained' };
+      const met = unmet.filter(requirement => this.matchRequirement(requirement, candidate, false));
+      // Requirements of the origin country apply to every target market
+      const marketCodes = Array.from(new Set(met
+        .filter(requirement => requirement.isRequired)
+        .flatMap(requirement => targetMarkets.includes(requirement.countryCode) ? [requirement.countryCode] : targetMarkets)));
+
+      if (marketCodes.length === 0) {
+        continue;
+      }
+      if (!best
+        || marketCodes.length > best.marketCodes.length
+        || (marketCodes.length === best.marketCodes.length && met.length > best.requirementIds.length)) {
+        best = {
+          certificationId: node.id,
+          name: node.name,
+          marketCodes,
+          requirementIds: met.map(requirement => requirement.id),
+          acceptedCertifiers: this.getAcceptedCertifiers(node.id, marketCodes)
+        };
+      }
+    }
+
+    return best;
+  }
+
+  private matchRequirement(
+    requirement: GraphRequirement,
+    certification: Certification,
+    checkCertifier = true
+  ): CertificationMatch | undefined {
+    const required = this.resolve(requirement.name) || this.resolve(requirement.id.replace(/[-_]/g, ' '));
+    const held = this.resolveCertification(certification);
+    if (!required || !held) {
+      return undefined;
+    }
+
+    const path = this.findPath(held.id, required.id, requirement.countryCode);
+    if (!path) {
+      return undefined;
+    }
+
+    // A generally equivalent scheme only counts where the market accepts it
+    const acceptedIn = this.getEdges('accepted-by-market', held.id).map(edge => edge.to);
+    if (path.viaGeneralEquivalence && acceptedIn.length > 0 && !acceptedIn.includes(requirement.countryCode)) {
+      return undefined;
+    }
+
+    if (checkCertifier && !this.isCertifierAccepted(requirement, required.id, certification)) {
+      return undefined;
+    }
+
+    return {
+      requirementId: requirement.id,
+      marketCode: requirement.countryCode,
+      certificationId: certification.id,
+      certificationName: certification.name,
+      via: path.nodes.length === 1 ? 'direct' : path.viaEquivalence ? 'equivalent' : 'covers',
+      path: path.nodes
+    };
+  }
+
+  /**
+   * Breadth-first search along covers and equivalent-to edges, so the shortest
+   * chain of recognitions is reported
+   */
+  private findPath(fromId: string, toId: string, marketCode: string): GraphPath | undefined {
+    const queue: GraphPath[] = [{ nodes: [fromId], viaEquivalence: false, viaGeneralEquivalence: false }];
+    const visited = new Set([fromId]);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const nodeId = current.nodes[current.nodes.length - 1];
+      if (nodeId === toId) {
+        return current;
+      }
+
+      const next = [
+        ...this.getEdges('covers', nodeId).map(edge => ({ id: edge.to, equivalence: false, edge })),
+        ...this.data.edges
+          .filter(edge => edge.type === 'equivalent-to' && (edge.from === nodeId || edge.to === nodeId))
+          .map(edge => ({ id: edge.from === nodeId ? edge.to : edge.from, equivalence: true, edge }))
+      ];
+
+      for (const { id, equivalence, edge } of next) {
+        if (visited.has(id) || (edge.markets && !edge.markets.includes(marketCode))) {
+          continue;
+        }
+        visited.add(id);
+        queue.push({
+          nodes: [...current.nodes, id],
+          viaEquivalence: current.viaEquivalence || equivalence,
+          viaGeneralEquivalence: current.viaGeneralEquivalence || (equivalence && !edge.markets)
+        });
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Markets that restrict certifiers, through the graph or the requirement's
+   * halal rules, only accept certificates from those certifiers
+   */
+  private isCertifierAccepted(requirement: GraphRequirement, requiredId: string, certification: Certification): boolean {
+    const accepted = new Set(this.getEdges('accepted-certifier', requiredId)
+      .filter(edge => !edge.markets || edge.markets.includes(requirement.countryCode))
+      .map(edge => edge.to));
+    if (requiredId === 'halal') {
+      for (const name of requirement.exporterRegistration?.halal.acceptedCertifiers || []) {
+        const certifier = this.resolve(name, 'certifier');
+        if (certifier) accepted.add(certifier.id);
+      }
+    }
+
+    if (accepted.size === 0) {
+      return true;
+    }
+    const certifier = this.resolve(certification.name, 'certifier');
+    return !!certifier && accepted.has(certifier.id);
+  }
+
+  private getAcceptedCertifiers(certificationId: string, marketCodes: string[]): Record<string, string[]> | undefined {
+    const accepted: Record<string, string[]> = {};
+    for (const marketCode of marketCodes) {
+      const certifiers = this.getEdges('accepted-certifier', certificationId)
+        .filter(edge => !edge.markets || edge.markets.includes(marketCode))
+        .map(edge => this.nodes.get(edge.to)?.name || edge.to);
+      if (certifiers.length > 0) {
+        accepted[marketCode] = certifiers;
+      }
+    }
+    return Object.keys(accepted).length > 0 ? accepted : undefined;
+  }
+
+  private resolveCertification(certification: Certification): CertificationNode | undefined {
+    const node = this.nodes.get(certification.id);
+    return node?.kind === 'certification' ? node : this.resolve(certification.name) || this.resolve(certification.id);
+  }
+
+  private getEdges(type: CertificationEdge['type'], fromId: string): CertificationEdge[] {
+    return this.data.edges.filter(edge => edge.type === type && edge.from === fromId);
+  }
+}
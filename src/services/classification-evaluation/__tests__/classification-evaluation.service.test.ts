@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+
+import { classificationEvaluationDataset, llmClassificationFixtures } from '@/data/classification-evaluation';
+import { EmbeddingService } from '@/services/classification/embeddingService';
+import { parseClassificationResponse } from '@/services/classification/llmClassification';
+import { ClassifierStrategy, EvaluationDataset } from '@/types/classification-evaluation.types';
+import { ClassificationEvaluationService } from '../classification-evaluation.service';
+import { createLlmStrategy, createVectorStrategy, recordedCompletion } from '../classifier-strategies';
+
+const dataset: EvaluationDataset = {
+  version: 'test',
+  samples: [
+    { id: 'oranges', description: 'Fresh oranges', hsCode: '080510', category: 'food' },
+    { id: 'wine', description: 'Red wine in bottles', hsCode: '220421', category: 'wine' },
+    { id: 'granite', description: 'Granite slabs', hsCode: '680293', category: 'minerals' },
+    { id: 'shirts', description: 'Cotton T-shirts', hsCode: '610910', category: 'textiles' }
+  ]
+};
+
+const stubStrategy = (answers: Record<string, { hsCode: string; confidence: number }[]>): ClassifierStrategy => ({
+  name: 'keyword',
+  classify: async description => {
+    if (!(description in answers)) throw new Error('offline');
+    return answers[description];
+  }
+});
+
+describe('ClassificationEvaluationService', () => {
+  const service = new ClassificationEvaluationService(dataset, () => new Date('2026-10-19T00:00:00Z'));
+
+  it('should score top-k accuracy, chapter accuracy and chapter confusion', async () => {
+    const report = await service.evaluate([stubStrategy({
+      'Fresh oranges': [{ hsCode: '080510', confidence: 0.9 }],
+      'Red wine in bottles': [{ hsCode: '220429', confidence: 0.6 }, { hsCode: '220421', confidence: 0.5 }],
+      'Granite slabs': [{ hsCode: '251611', confidence: 0.45 }]
+    })]);
+
+    expect(report).toMatchObject({ datasetVersion: 'test', generatedAt: '2026-10-19T00:00:00.000Z' });
+    const [evaluation] = report.strategies;
+    expect(evaluation).toMatchObject({
+      strategy: 'keyword',
+      samples: 4,
+      answered: 3,
+      topK: { 1: 0.25, 3: 0.5, 5: 0.5 },
+      chapterAccuracy: 0.5,
+      errors: [{ sampleId: 'shirts', message: 'offline' }]
+    });
+    expect(evaluation.byCategory.food).toEqual({ samples: 1, top1Accuracy: 1 });
+    expect(evaluation.byCategory.wine).toEqual({ samples: 1, top1Accuracy: 0 });
+    expect(evaluation.chapterConfusion).toEqual([
+      { expected: '61', predicted: 'none', count: 1 },
+      { expected: '68', predicted: '25', count: 1 }
+    ]);
+  });
+
+  it('should bin top-1 confidence against accuracy', async () => {
+    const [evaluation] = (await service.evaluate([stubStrategy({
+      'Fresh oranges': [{ hsCode: '080510', confidence: 0.95 }],
+      'Red wine in bottles': [{ hsCode: '220421', confidence: 0.92 }],
+      'Granite slabs': [{ hsCode: '251611', confidence: 0.3 }],
+      'Cotton T-shirts': [{ hsCode: '610910', confidence: 1 }]
+    })])).strategies;
+
+    const { bins, expectedCalibrationError } = evaluation.calibration;
+    expect(bins).toHaveLength(10);
+    expect(bins[9]).toMatchObject({ from: 0.9, to: 1, count: 3, accuracy: 1 });
+    expect(bins[9].meanConfidence).toBeCloseTo(0.9567, 3);
+    expect(bins[3]).toMatchObject({ count: 1, meanConfidence: 0.3, accuracy: 0 });
+    expect(bins[5].count).toBe(0);
+    expect(expectedCalibrationError).toBeCloseTo((3 / 4) * (1 - 0.9567) + (1 / 4) * 0.3, 3);
+  });
+
+  it('should score the LLM strategy from recorded completions', async () => {
+    const completion = (code: string) => JSON.stringify({
+      hsCode: { code, description: '', chapter: code.substring(0, 2), heading: code.substring(0, 4) },
+      confidence: 0.9,
+      category: 'food',
+      subcategory: 'fresh_produce'
+    });
+    const evaluation = await service.evaluateStrategy(createLlmStrategy(recordedCompletion({
+      'Fresh oranges': completion('080510'),
+      'Red wine in bottles': completion('220429'),
+      'Granite slabs': completion('251611')
+    })));
+
+    expect(evaluation.answered).toBe(3);
+    expect(evaluation.errors).toHaveLength(1);
+    expect(evaluation.topK[1]).toBeCloseTo(1 / 4);
+    expect(evaluation.chapterAccuracy).toBeCloseTo(2 / 4);
+  });
+});
+
+describe('Classifier strategies on the labelled dataset', () => {
+  const service = new ClassificationEvaluationService();
+
+  it('should cover food, textiles, wine and minerals with 6-digit codes', () => {
+    const categories = new Set(classificationEvaluationDataset.samples.map(sample => sample.category));
+
+    expect(Array.from(categories).sort()).toEqual(['food', 'minerals', 'textiles', 'wine']);
+    classificationEvaluationDataset.samples.forEach(sample => expect(sample.hsCode).toMatch(/^\d{6}$/));
+  });
+
+  it('should only hold recorded completions of labelled products', () => {
+    const descriptions = classificationEvaluationDataset.samples.map(sample => sample.description);
+
+    Object.entries(llmClassificationFixtures).forEach(([description, content]) => {
+      expect(descriptions).toContain(description);
+      expect(() => parseClassificationResponse(content)).not.toThrow();
+    });
+  });
+
+  it('should report a missing recording as a sample error', async () => {
+    const evaluation = await service.evaluateStrategy(createLlmStrategy(recordedCompletion({})));
+
+    expect(evaluation.answered).toBe(0);
+    expect(evaluation.errors).toHaveLength(classificationEvaluationDataset.samples.length);
+  });
+
+  it('should evaluate the local vector backend', async () => {
+    const evaluation = await service.evaluateStrategy(
+      createVectorStrategy(new EmbeddingService(undefined, undefined, undefined, 'local'))
+    );
+
+    expect(evaluation.errors).toEqual([]);
+    expect(evaluation.topK[5]).toBeGreaterThanOrEqual(evaluation.topK[1]);
+    expect(evaluation.chapterAccuracy).toBeGreaterThanOrEqual(evaluation.topK[1]);
+  });
+});
@@ -0,0 +1,153 @@
+import { classificationEvaluationDataset } from '@/data/classification-evaluation';
+import {
+  CalibrationBin,
+  ChapterConfusion,
+  ClassifierPrediction,
+  ClassifierStrategy,
+  EvaluationCategory,
+  EvaluationDataset,
+  EvaluationReport,
+  StrategyEvaluation
+} from '@/types/classification-evaluation.types';
+import { logger } from '@/utils/logger';
+
+const CALIBRATION_BINS = 10;
+
+interface SampleOutcome {
+  expected: string;
+  category: EvaluationCategory;
+  predictions: ClassifierPrediction[];
+}
+
+/**
+ * Scores HS classifier strategies against a labelled set of product descriptions
+ */
+export class ClassificationEvaluationService {
+  constructor(
+    private dataset: EvaluationDataset = classificationEvaluationDataset,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Run every strategy over the dataset and report top-k and chapter accuracy,
+   * confidence calibration and chapter confusion for each
+   */
+  async evaluate(strategies: ClassifierStrategy[], ks: number[] = [1, 3, 5]): Promise<EvaluationReport> {
+    const evaluations: StrategyEvaluation[] = [];
+    for (const strategy of strategies) {
+      evaluations.push(await this.evaluateStrategy(strategy, ks));
+    }
+
+    return {
+      datasetVersion: this.dataset.version,
+      generatedAt: this.now().toISOString(),
+      strategies: evaluations
+    };
+  }
+
+  async evaluateStrategy(strategy: ClassifierStrategy, ks: number[] = [1, 3, 5]): Promise<StrategyEvaluation> {
+    const outcomes: SampleOutcome[] = [];
+    const errors: StrategyEvaluation['errors'] = [];
+
+    // One sample at a time, so a strategy backed by an API is not flooded
+    for (const sample of this.dataset.samples) {
+      let predictions: ClassifierPrediction[] = [];
+      try {
+        predictions = await strategy.classify(sample.description);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Classifier strategy ${strategy.name} failed on ${sample.id}: ${message}`);
+        errors.push({ sampleId: sample.id, message });
+      }
+      outcomes.push({ expected: sample.hsCode, category: sample.category, predictions });
+    }
+
+    const share = (count: number, total: number) => (total > 0 ? count / total : 0);
+    const isTop1Correct = (outcome: SampleOutcome) => outcome.predictions[0]?.hsCode === outcome.expected;
+
+    const topK: Record<number, number> = {};
+    for (const k of ks) {
+      topK[k] = share(
+        outcomes.filter(outcome => outcome.predictions.slice(0, k).some(prediction => prediction.hsCode === outcome.expected)).length,
+        outcomes.length
+      );
+    }
+
+    const byCategory = {} as StrategyEvaluation['byCategory'];
+    for (const category of ['food', 'textiles', 'wine', 'minerals'] as EvaluationCategory[]) {
+      const inCategory = outcomes.filter(outcome => outcome.category === category);
+      byCategory[category] = {
+        samples: inCategory.length,
+        top1Accuracy: share(inCategory.filter(isTop1Correct).length, inCategory.length)
+      };
+    }
+
+    return {
+      strategy: strategy.name,
+      samples: outcomes.length,
+      answered: outcomes.filter(outcome => outcome.predictions.length > 0).length,
+      topK,
+      chapterAccuracy: share(
+        outcomes.filter(outcome => outcome.predictions[0]?.hsCode.substring(0, 2) === outcome.expected.substring(0, 2)).length,
+        outcomes.length
+      ),
+      byCategory,
+      calibration: this.calibrate(outcomes),
+      chapterConfusion: this.confuseChapters(outcomes),
+      errors
+    };
+  }
+
+  /**
+   * Bin top predictions by confidence and compare each bin's mean confidence with how often it was right
+   */
+  private calibrate(outcomes: SampleOutcome[]): StrategyEvaluation['calibration'] {
+    const answered = outcomes.filter(outcome => outcome.predictions.length > 0);
+    const bins: CalibrationBin[] = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({
+      from: i / CALIBRATION_BINS,
+      to: (i + 1) / CALIBRATION_BINS,
+      count: 0,
+      meanConfidence: 0,
+      accuracy: 0
+    }));
+
+    for (const outcome of answered) {
+      const [top] = outcome.predictions;
+      const confidence = Math.min(1, Math.max(0, top.confidence));
+      const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(confidence * CALIBRATION_BINS))];
+      bin.count++;
+      bin.meanConfidence += confidence;
+      bin.accuracy += top.hsCode === outcome.expected ? 1 : 0;
+    }
+
+    let expectedCalibrationError = 0;
+    for (const bin of bins.filter(candidate => candidate.count > 0)) {
+      bin.meanConfidence /= bin.count;
+      bin.accuracy /= bin.count;
+      expectedCalibrationError += (bin.count / answered.length) * Math.abs(bin.accuracy - bin.meanConfidence);
+    }
+
+    return { bins, expectedCalibrationError };
+  }
+
+  /**
+   * Count how often a sample's chapter was mistaken for another by the top prediction
+   */
+  private confuseChapters(outcomes: SampleOutcome[]): ChapterConfusion[] {
+    const counts = new Map<string, ChapterConfusion>();
+
+    for (const outcome of outcomes) {
+      const expected = outcome.expected.substring(0, 2);
+      const predicted = outcome.predictions[0]?.hsCode.substring(0, 2) || 'none';
+      if (predicted === expected) continue;
+
+      const key = `${expected}:${predicted}`;
+      const entry = counts.get(key) || { expected, predicted, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+
+    return Array.from(counts.values())
+      .sort((a, b) => b.count - a.count || a.expected.localeCompare(b.expected) || a.predicted.localeCompare(b.predicted));
+  }
+}
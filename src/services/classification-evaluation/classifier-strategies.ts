@@ -0,0 +1,86 @@
+import { HsCodeMCPService } from '@/mcp/global/hs-code-mcp/hs-code-mcp.service';
+import { ClassificationMatch } from '@/mcp/global/hs-code-mcp/hs-code.types';
+import { ClassificationResult, EmbeddingService } from '@/services/classification/embeddingService';
+import { parseClassificationResponse } from '@/services/classification/llmClassification';
+import { ProductMapper } from '@/services/classification/productMapper';
+import { ClassifierPrediction, ClassifierStrategy } from '@/types/classification-evaluation.types';
+
+// Returns the model's raw message content for a product description
+export type LlmCompletion = (description: string) => Promise<string>;
+
+function toPredictions(results: Pick<ClassificationResult, 'hsCode' | 'confidence'>[]): ClassifierPrediction[] {
+  return results.map(result => ({ hsCode: result.hsCode.replace(/\D/g, ''), confidence: result.confidence }));
+}
+
+function toVectorMatches(results: ClassificationResult[]): ClassificationMatch[] {
+  return results.map(result => ({
+    hsCode: result.hsCode,
+    description: result.description,
+    confidence: result.confidence,
+    source: 'vector'
+  }));
+}
+
+/**
+ * Replay /api/classify completions recorded from the model instead of calling it
+ */
+export function recordedCompletion(fixtures: Record<string, string>): LlmCompletion {
+  return async description => {
+    const content = fixtures[description];
+    if (content === undefined) {
+      throw new Error(`No recorded completion for "${description}"`);
+    }
+    return content;
+  };
+}
+
+/**
+ * Keyword mappings of ProductMapper, as used first by HsCodeMCPService
+ */
+export function createKeywordStrategy(productMapper: ProductMapper = new ProductMapper()): ClassifierStrategy {
+  return {
+    name: 'keyword',
+    classify: async description => toPredictions(productMapper.getSuggestedHsCodes(description))
+  };
+}
+
+/**
+ * Embedding similarity search on the configured embedding backend
+ */
+export function createVectorStrategy(embeddingService: EmbeddingService = new EmbeddingService()): ClassifierStrategy {
+  return {
+    name: 'vector',
+    classify: async description => toPredictions(await embeddingService.getSimilarHsCodes(description, 5))
+  };
+}
+
+/**
+ * The /api/classify prompt and response parsing, answered by the given completion source
+ */
+export function createLlmStrategy(complete: LlmCompletion): ClassifierStrategy {
+  return {
+    name: 'llm',
+    classify: async description => {
+      const response = parseClassificationResponse(await complete(description));
+      return toPredictions([{ hsCode: response.hsCode.code, confidence: response.confidence }]);
+    }
+  };
+}
+
+/**
+ * Keyword and vector results merged by HsCodeMCPService.combineClassificationResults
+ */
+export function createCombinedStrategy(
+  hsCodeMCP: HsCodeMCPService = new HsCodeMCPService(),
+  productMapper: ProductMapper = new ProductMapper(),
+  embeddingService: EmbeddingService = new EmbeddingService()
+): ClassifierStrategy {
+  return {
+    name: 'combined',
+    classify: async description => {
+      const keywordResults = productMapper.getSuggestedHsCodes(description);
+      const vectorResults = toVectorMatches(await embeddingService.getSimilarHsCodes(description, 5));
+      return toPredictions(hsCodeMCP.combineClassificationResults(keywordResults, vectorResults));
+    }
+  };
+}
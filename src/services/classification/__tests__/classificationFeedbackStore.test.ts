@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+import { MemoryKeyValueStorage } from '@/utils/key-value-storage';
+import { ClassificationCorrection } from '@/types/classification.types';
+import { ClassificationFeedbackStore } from '../classificationFeedbackStore';
+
+const correction = (
+  productDescription: string,
+  originalClassification: string | undefined,
+  finalClassification: string
+): ClassificationCorrection => ({
+  productDescription,
+  originalClassification,
+  finalClassification,
+  finalDescription: `Corrected to ${finalClassification}`,
+  correctedAt: '2026-10-19T00:00:00.000Z'
+});
+
+describe('ClassificationFeedbackStore', () => {
+  let storage: MemoryKeyValueStorage;
+  let store: ClassificationFeedbackStore;
+
+  beforeEach(() => {
+    storage = new MemoryKeyValueStorage();
+    store = new ClassificationFeedbackStore(storage);
+  });
+
+  it('should persist corrections recorded from user-corrected metrics only', () => {
+    const recorded = store.recordMetrics({
+      responseTime: 0,
+      confidenceScore: 1,
+      userCorrected: true,
+      originalClassification: '160232',
+      finalClassification: '0207.14',
+      productDescription: 'Frozen chicken wings'
+    }, 'Frozen cuts and offal of fowls', new Date('2026-10-19T00:00:00Z'));
+    store.recordMetrics({ responseTime: 120, confidenceScore: 0.9, userCorrected: false, finalClassification: '080510' });
+
+    expect(recorded).toMatchObject({ finalClassification: '0207.14', correctedAt: '2026-10-19T00:00:00.000Z' });
+    expect(new ClassificationFeedbackStore(storage).getCorrections()).toEqual([recorded]);
+  });
+
+  it('should keep every correction', () => {
+    for (let index = 0; index < 600; index++) {
+      store.recordCorrection(correction('Fresh fruit', '080510', index % 2 === 0 ? '080550' : '080610'));
+    }
+
+    expect(store.getCorrections()).toHaveLength(600);
+    expect(store.getCorrections()[0].finalClassification).toBe('080550');
+    expect(store.getFrequentlyCorrectedCodes()[0]).toMatchObject({ hsCode: '080510', corrections: 600 });
+  });
+
+  it('should boost the corrected code for similar descriptions only', () => {
+    store.recordCorrection(correction('Frozen chicken wings', '160232', '0207.14'));
+    store.recordCorrection(correction('Frozen chicken wing tips', '160232', '020714'));
+
+    const [boost] = store.getBoosts('frozen chicken wings, 1kg bag');
+    expect(boost).toMatchObject({ hsCode: '020714', corrections: 2, description: 'Corrected to 020714' });
+    expect(boost.boost).toBeGreaterThan(0);
+    expect(boost.boost).toBeLessThanOrEqual(0.4);
+    expect(store.getBoosts('Cotton T-shirts')).toEqual([]);
+  });
+
+  it('should re-rank results and add corrected codes that were not suggested', () => {
+    store.recordCorrection(correction('Frozen chicken wings', '160232', '020714'));
+
+    const results = [
+      { hsCode: '1602.32', confidence: 0.7 },
+      { hsCode: '0207.14', confidence: 0.6 }
+    ];
+    const reranked = store.applyCorrections('Frozen chicken wings', results);
+    expect(reranked.map(result => result.hsCode)).toEqual(['0207.14', '1602.32']);
+    expect(reranked[0].confidence).toBeCloseTo(0.8);
+
+    const added = store.applyCorrections('Frozen chicken wings', [{ hsCode: '160232', confidence: 0.1 }], boost => ({
+      hsCode: boost.hsCode,
+      confidence: 0
+    }));
+    expect(added[0]).toEqual({ hsCode: '020714', confidence: 0.2 });
+    expect(store.applyCorrections('Cotton T-shirts', results)).toBe(results);
+  });
+
+  it('should report frequently corrected codes with their chapter keywords', () => {
+    store.recordCorrection(correction('Frozen chicken wings', '1602.32', '020714'));
+    store.recordCorrection(correction('Frozen beef mince', '160250', '020230'));
+    store.recordCorrection(correction('Frozen chicken drumsticks', '160232', '020714'));
+    store.recordCorrection(correction('Frozen chicken thighs', '160232', '020714'));
+    store.recordCorrection(correction('Crumbed fish fingers', undefined, '160420'));
+
+    expect(store.getFrequentlyCorrectedCodes()).toEqual([{
+      hsCode: '160232',
+      chapter: '16',
+      corrections: 3,
+      correctedTo: [{ hsCode: '020714', count: 3 }],
+      productDescriptions: ['Frozen chicken wings', 'Frozen chicken drumsticks', 'Frozen chicken thighs'],
+      chapterKeywords: ['meat', 'fish', 'prepared', 'breaded', 'fried', 'chicken', 'beef', 'pork']
+    }]);
+    expect(store.getFrequentlyCorrectedCodes(1).map(code => code.hsCode)).toEqual(['160232', '160250']);
+  });
+});
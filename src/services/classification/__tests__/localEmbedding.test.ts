@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+
+import { labelledProducts } from '../../../data/hs-codes/benchmark';
+import { hsCodeData } from '../../../data/hs-codes/hs-code-data';
+import { hs2022SearchTerms } from '../../../data/hs-codes/nomenclature';
+import { EmbeddingService } from '../embeddingService';
+import { runEmbeddingBenchmark } from '../embeddingBenchmark';
+import { buildLocalHSCodeIndex, LocalEmbeddingModel, tokenize } from '../localEmbedding';
+
+describe('Local embeddings', () => {
+  it('should tokenize without stop words and fold plurals', () => {
+    expect(tokenize('Boxes of Fresh Cherries, other than the Grapes')).toEqual(['box', 'fresh', 'cherry', 'grape']);
+  });
+
+  it('should embed similar text closer than unrelated text', () => {
+    const model = new LocalEmbeddingModel(['red wine', 'white wine', 'leather shoes', 'cotton t-shirts'], 64);
+    const similarity = (a: string, b: string) => {
+      const left = model.embed(a);
+      const right = model.embed(b);
+      return left.reduce((sum, value, index) => sum + value * right[index], 0);
+    };
+
+    expect(model.embed('red wine')).toHaveLength(64);
+    expect(similarity('bottled red wine', 'red wine')).toBeGreaterThan(similarity('bottled red wine', 'leather shoes'));
+    expect(model.embed('of the')).toEqual(new Array(64).fill(0));
+    expect(model.embedQuery('maroon wine')).toEqual(model.embed('wine'));
+  });
+
+  it('should rank HS codes for a product description in-process', () => {
+    const { model, index } = buildLocalHSCodeIndex();
+
+    const [best] = index.query(model.embedQuery('Android smartphone'), 5);
+    expect(best).toMatchObject({ hsCode: '851713', chapter: '85', heading: '8517' });
+    expect(best.confidence).toBeGreaterThan(0);
+    expect(best.confidence).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('EmbeddingService backends', () => {
+  it('should classify without the embedding API on the local backend', async () => {
+    const service = new EmbeddingService(undefined, undefined, undefined, 'local');
+
+    expect(service.getBackend()).toBe('local');
+    expect(await service.generateEmbeddings('wine')).toHaveLength(768);
+    expect((await service.getSimilarHsCodes('Sauvignon Blanc white wine', 3))[0].hsCode).toBe('220421');
+  });
+
+  it('should reject an unknown backend', () => {
+    expect(() => new EmbeddingService(undefined, undefined, undefined, 'onnx'))
+      .toThrow('Unknown embedding backend "onnx", expected "remote" or "local"');
+  });
+
+  it('should benchmark on products sharing no tuned terms with the index', () => {
+    const tunedTerms = [
+      ...Object.values(hs2022SearchTerms).flat(),
+      ...Object.values(hsCodeData.nodes).flatMap(node => node.examples)
+    ].map(term => ` ${tokenize(term).join(' ')} `);
+
+    labelledProducts.forEach(product => {
+      const description = ` ${tokenize(product.description).join(' ')} `;
+      expect(tunedTerms.filter(term => term.trim() && description.includes(term))).toEqual([]);
+    });
+  });
+
+  it('should measure top-1 and top-5 accuracy on the labelled product set', async () => {
+    const result = await runEmbeddingBenchmark(new EmbeddingService(undefined, undefined, undefined, 'local'));
+
+    // Measured on the held-out set; raise these as the index improves
+    expect(result.samples).toBe(34);
+    expect(result.top1Accuracy).toBeGreaterThanOrEqual(20 / 34);
+    expect(result.top5Accuracy).toBeGreaterThanOrEqual(28 / 34);
+  });
+});
@@ -0,0 +1,178 @@
+import { HSChapterMappingService } from '@/services/hs-code/hsChapterMapping.service';
+import {
+  ClassificationCorrection,
+  ClassificationMetrics,
+  CorrectionBoost,
+  FrequentlyCorrectedCode
+} from '@/types/classification.types';
+import { KeyValueStorage, resolveKeyValueStorage } from '@/utils/key-value-storage';
+import { logger } from '@/utils/logger';
+import { tokenize } from './localEmbedding';
+
+const STORAGE_KEY = 'classificationFeedback:corrections';
+// File the API routes keep corrections in, shared by /api/classify and /api/classification-feedback
+export const CLASSIFICATION_CORRECTIONS_FILE = 'classification-corrections.json';
+const MIN_SIMILARITY = 0.5;
+const CORRECTION_WEIGHT = 0.2;
+const MAX_BOOST = 0.4;
+
+const normalizeCode = (code: string) => code.replace(/\D/g, '');
+
+// Share of distinct terms two descriptions have in common
+function similarity(left: string, right: string): number {
+  const leftTerms = new Set(tokenize(left));
+  const rightTerms = new Set(tokenize(right));
+  if (leftTerms.size === 0 || rightTerms.size === 0) return 0;
+
+  const shared = Array.from(leftTerms).filter(term => rightTerms.has(term)).length;
+  return shared / (leftTerms.size + rightTerms.size - shared);
+}
+
+/**
+ * Persists user corrections of HS classifications and learns from them: similar products
+ * get a confidence boost towards the corrected code, and codes that keep being corrected
+ * are reported for review of the chapter keyword maps
+ */
+export class ClassificationFeedbackStore {
+  private storage: KeyValueStorage;
+
+  constructor(
+    storage?: KeyValueStorage,
+    private chapterMapping: HSChapterMappingService = new HSChapterMappingService()
+  ) {
+    this.storage = resolveKeyValueStorage(storage);
+  }
+
+  recordCorrection(correction: ClassificationCorrection): void {
+    // Every correction is kept, as old ones still count towards boosts and frequently corrected codes
+    const corrections = [...this.getCorrections(), correction];
+
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(corrections));
+    } catch (error) {
+      logger.error(`Failed to persist classification correction: ${error}`);
+    }
+  }
+
+  /**
+   * Record the metrics of a user-corrected classification; other metrics are ignored
+   */
+  recordMetrics(
+    metrics: ClassificationMetrics,
+    finalDescription?: string,
+    correctedAt: Date = new Date()
+  ): ClassificationCorrection | null {
+    if (!metrics.userCorrected || !metrics.productDescription || !metrics.finalClassification) {
+      return null;
+    }
+
+    const correction: ClassificationCorrection = {
+      productDescription: metrics.productDescription,
+      originalClassification: metrics.originalClassification,
+      finalClassification: metrics.finalClassification,
+      finalDescription,
+      correctedAt: correctedAt.toISOString()
+    };
+    this.recordCorrection(correction);
+    return correction;
+  }
+
+  getCorrections(): ClassificationCorrection[] {
+    try {
+      const stored = this.storage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) as ClassificationCorrection[] : [];
+    } catch (error) {
+      logger.warn(`Failed to read classification corrections: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Boost the codes that products similar to this description were corrected to, strongest first
+   */
+  getBoosts(productDescription: string): CorrectionBoost[] {
+    const boosts = new Map<string, CorrectionBoost>();
+
+    for (const correction of this.getCorrections()) {
+      const score = similarity(productDescription, correction.productDescription);
+      if (score < MIN_SIMILARITY) continue;
+
+      const hsCode = normalizeCode(correction.finalClassification);
+      const boost = boosts.get(hsCode) || { hsCode, boost: 0, corrections: 0 };
+      boost.boost = Math.min(MAX_BOOST, boost.boost + score * CORRECTION_WEIGHT);
+      boost.corrections++;
+      boost.description = correction.finalDescription || boost.description;
+      boosts.set(hsCode, boost);
+    }
+
+    return Array.from(boosts.values()).sort((a, b) => b.boost - a.boost);
+  }
+
+  /**
+   * Raise the confidence (0-1) of results matching a boosted code and re-rank them.
+   * Boosted codes missing from the results are added when createResult is given.
+   */
+  applyCorrections<T extends { hsCode: string; confidence: number }>(
+    productDescription: string,
+    results: T[],
+    createResult?: (boost: CorrectionBoost) => T
+  ): T[] {
+    const boosts = this.getBoosts(productDescription);
+    if (boosts.length === 0) return results;
+
+    const boosted = results.map(result => {
+      const boost = boosts.find(candidate => candidate.hsCode === normalizeCode(result.hsCode));
+      return boost ? { ...result, confidence: Math.min(1, result.confidence + boost.boost) } : result;
+    });
+
+    if (createResult) {
+      boosts
+        .filter(boost => !results.some(result => normalizeCode(result.hsCode) === boost.hsCode))
+        .forEach(boost => boosted.push({ ...createResult(boost), confidence: boost.boost }));
+    }
+
+    return boosted.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Codes corrected away from at least minCorrections times, with the chapter keywords
+   * that led products there
+   */
+  getFrequentlyCorrectedCodes(minCorrections: number = 2): FrequentlyCorrectedCode[] {
+    const byCode = new Map<string, ClassificationCorrection[]>();
+
+    for (const correction of this.getCorrections()) {
+      if (!correction.originalClassification) continue;
+      const hsCode = normalizeCode(correction.originalClassification);
+      if (hsCode === normalizeCode(correction.finalClassification)) continue;
+      byCode.set(hsCode, [...(byCode.get(hsCode) || []), correction]);
+    }
+
+    return Array.from(byCode.entries())
+      .filter(([, corrections]) => corrections.length >= minCorrections)
+      .map(([hsCode, corrections]) => {
+        const correctedTo = new Map<string, number>();
+        corrections.forEach(correction => {
+          const code = normalizeCode(correction.finalClassification);
+          correctedTo.set(code, (correctedTo.get(code) || 0) + 1);
+        });
+        const chapter = hsCode.substring(0, 2);
+
+        return {
+          hsCode,
+          chapter,
+          corrections: corrections.length,
+          correctedTo: Array.from(correctedTo.entries())
+            .map(([code, count]) => ({ hsCode: code, count }))
+            .sort((a, b) => b.count - a.count),
+          productDescriptions: Array.from(new Set(corrections.map(correction => correction.productDescription))),
+          chapterKeywords: this.chapterMapping.getChapterMapping(chapter)?.keywords || []
+        };
+      })
+      .sort((a, b) => b.corrections - a.corrections);
+  }
+
+  clear(): void {
+    this.storage.removeItem(STORAGE_KEY);
+  }
+}
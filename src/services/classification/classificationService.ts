@@ -17,6 +17,7 @@ import {
   setError, 
   setSelectedHSCode 
 } from '../../store/classification/classificationSlice';
+import { logger } from '@/utils/logger';
 
 // Performance monitoring
 const measurePerformance = async <T>(
@@ -69,6 +70,8 @@ const handleClassificationError = (error: unknown): {
 // Classification service
 export const useClassificationService = () => {
   const dispatch = useDispatch();
+  // Code last classified for each description, so a manual selection can be recorded as a correction of it
+  const latestClassifications = new Map<string, string>();
 
   // Classify product
   const classifyProduct = async (description: string): Promise<ClassificationResult> => {
@@ -88,7 +91,10 @@ export const useClassificationService = () => {
     });
 
     // Track metrics
-    dispatch(addMetrics(metrics));
+    dispatch(addMetrics({ ...metrics, productDescription: description }));
+    if (result.hsCode?.code) {
+      latestClassifications.set(description, result.hsCode.code);
+    }
 
     return result;
   };
@@ -141,8 +147,10 @@ export const useClassificationService = () => {
     );
   };
 
-  // Manual classification mutation
-  const useManualClassification = (): UseMutationResult<HSCode, Error, HSCode> => {
+  // Manual classification mutation, remembered as a correction of the original classification
+  const useManualClassification = (
+    productDescription?: string
+  ): UseMutationResult<HSCode, Error, HSCode> => {
     return useMutation<HSCode, Error, HSCode>(
       (hsCode: HSCode) => {
         dispatch(setSelectedHSCode(hsCode));
@@ -150,12 +158,28 @@ export const useClassificationService = () => {
       },
       {
         onSuccess: (hsCode: HSCode) => {
-          dispatch(addMetrics({
+          const metrics: ClassificationMetrics = {
             responseTime: 0,
             confidenceScore: 1,
             userCorrected: true,
-            finalClassification: hsCode.code
-          }));
+            originalClassification: productDescription ? latestClassifications.get(productDescription) : undefined,
+            finalClassification: hsCode.code,
+            productDescription
+          };
+          dispatch(addMetrics(metrics));
+          if (productDescription) {
+            // Corrections are stored server-side so classification there learns from them too
+            fetch('/api/classification-feedback', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                productDescription,
+                originalClassification: metrics.originalClassification,
+                finalClassification: hsCode.code,
+                finalDescription: hsCode.description
+              })
+            }).catch(error => logger.warn(`Could not record classification correction: ${error}`));
+          }
         }
       }
     );
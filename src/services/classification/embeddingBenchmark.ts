@@ -0,0 +1,48 @@
+import { labelledProducts } from '../../data/hs-codes/benchmark';
+import { LabelledProduct } from '../../data/hs-codes/types';
+import { EmbeddingBackend, EmbeddingService } from './embeddingService';
+
+export interface EmbeddingBenchmarkMiss {
+  description: string;
+  expected: string;
+  predicted: string[];  // Top 5 codes, best first
+}
+
+export interface EmbeddingBenchmarkResult {
+  backend: EmbeddingBackend;
+  samples: number;
+  top1Accuracy: number;  // Share of products whose code is ranked first, 0-1
+  top5Accuracy: number;  // Share of products whose code is in the top 5, 0-1
+  misses: EmbeddingBenchmarkMiss[];  // Products whose code is not ranked first
+}
+
+/**
+ * Measure how often the embedding search ranks a product's known HS code first and in the top 5
+ */
+export async function runEmbeddingBenchmark(
+  service: EmbeddingService = new EmbeddingService(),
+  products: LabelledProduct[] = labelledProducts
+): Promise<EmbeddingBenchmarkResult> {
+  let top1 = 0;
+  let top5 = 0;
+  const misses: EmbeddingBenchmarkMiss[] = [];
+
+  for (const product of products) {
+    const predicted = (await service.getSimilarHsCodes(product.description, 5)).map(result => result.hsCode);
+    const rank = predicted.indexOf(product.hsCode);
+
+    if (rank === 0) top1++;
+    if (rank >= 0) top5++;
+    if (rank !== 0) {
+      misses.push({ description: product.description, expected: product.hsCode, predicted });
+    }
+  }
+
+  return {
+    backend: service.getBackend(),
+    samples: products.length,
+    top1Accuracy: products.length > 0 ? top1 / products.length : 0,
+    top5Accuracy: products.length > 0 ? top5 / products.length : 0,
+    misses
+  };
+}
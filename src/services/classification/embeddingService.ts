@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { buildLocalHSCodeIndex, LocalEmbeddingModel, LocalVectorIndex } from './localEmbedding';
 
 // Types for our embedding service
 export interface EmbeddingResponse {
@@ -6,6 +7,9 @@ export interface EmbeddingResponse {
   dimensions: number;
 }
 
+// 'remote' uses the embedding API and vector database, 'local' embeds and searches in-process
+export type EmbeddingBackend = 'remote' | 'local';
+
 export interface ClassificationResult {
   hsCode: string;
   confidence: number;
@@ -22,21 +26,48 @@ export class EmbeddingService {
   private readonly apiUrl: string;
   private readonly dimensions: number;
   private readonly vectorDbUrl: string;
+  private readonly backend: EmbeddingBackend;
+  private local?: { model: LocalEmbeddingModel; index: LocalVectorIndex };
   
   constructor(
     apiUrl: string = process.env.EMBEDDING_API_URL || 'https://api.tradewizard.app/embeddings',
     vectorDbUrl: string = process.env.VECTOR_DB_URL || 'https://vectors.tradewizard.app',
-    dimensions: number = 768
+    dimensions: number = 768,
+    // Without a configured embedding API, default to the local backend so classification works offline
+    backend: string = process.env.EMBEDDING_BACKEND || (process.env.EMBEDDING_API_URL ? 'remote' : 'local')
   ) {
+    if (backend !== 'remote' && backend !== 'local') {
+      throw new Error(`Unknown embedding backend "${backend}", expected "remote" or "local"`);
+    }
     this.apiUrl = apiUrl;
     this.dimensions = dimensions;
     this.vectorDbUrl = vectorDbUrl;
+    this.backend = backend;
+  }
+  
+  /**
+   * The backend this service embeds and searches with
+   */
+  getBackend(): EmbeddingBackend {
+    return this.backend;
+  }
+  
+  // Fitting the local model walks the whole nomenclature, so only do it on first use
+  private getLocalIndex(): { model: LocalEmbeddingModel; index: LocalVectorIndex } {
+    if (!this.local) {
+      this.local = buildLocalHSCodeIndex(undefined, undefined, this.dimensions);
+    }
+    return this.local;
   }
   
   /**
    * Generate embeddings for a product description
    */
   async generateEmbeddings(text: string): Promise<number[]> {
+    if (this.backend === 'local') {
+      return this.getLocalIndex().model.embed(text);
+    }
+    
     try {
       const response = await axios.post<EmbeddingResponse>(
         `${this.apiUrl}/generate`,
@@ -57,6 +88,11 @@ export class EmbeddingService {
     productDescription: string,
     topK: number = 5
   ): Promise<ClassificationResult[]> {
+    if (this.backend === 'local') {
+      const { model, index } = this.getLocalIndex();
+      return index.query(model.embedQuery(productDescription), topK);
+    }
+    
     try {
       // 1. Generate embeddings for the product description
       const embeddings = await this.generateEmbeddings(productDescription);
@@ -86,6 +122,11 @@ export class EmbeddingService {
    * Uses traditional keyword-based search
    */
   async fallbackKeywordSearch(productDescription: string): Promise<ClassificationResult[]> {
+    // The local index already ranks by keyword overlap, so there is nothing further to fall back to
+    if (this.backend === 'local') {
+      return [];
+    }
+    
     try {
       // Implement keyword-based search as fallback
       const response = await axios.get(`${this.apiUrl}/keyword-search`, {
@@ -0,0 +1,73 @@
+// Shape of the JSON the model is asked to return by /api/classify
+export interface LlmClassificationResponse {
+  hsCode: {
+    code: string;
+    description: string;
+    chapter: string;
+    heading: string;
+  };
+  confidence: number;
+  category: string;
+  subcategory?: string;
+}
+
+/**
+ * Prompt asking the model to classify a product and answer in LlmClassificationResponse form
+ */
+export function buildClassificationPrompt(description: string): string {
+  return `
+      Classify the following product with:
+      1. A product category
+      2. A subcategory if applicable
+      3. The most appropriate HS (Harmonized System) code for export
+
+      Product to classify:
+      ${description}
+
+      Return a JSON object in this format:
+      {
+        "hsCode": {
+          "code": "6-digit HS code",
+          "description": "HS code description",
+          "chapter": "2-digit chapter number",
+          "heading": "4-digit heading number"
+        },
+        "confidence": 0.95,
+        "category": "main_category",
+        "subcategory": "sub_category"
+      }
+    `;
+}
+
+/**
+ * Chat completion request body /api/classify sends to OpenAI for a product description
+ */
+export function buildClassificationRequest(description: string) {
+  return {
+    model: 'gpt-4',
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a trade classification expert specializing in HS code assignment.'
+      },
+      {
+        role: 'user',
+        content: buildClassificationPrompt(description)
+      }
+    ],
+    temperature: 0.1
+  };
+}
+
+/**
+ * Parse the model's message content, throwing if it is not a classification
+ */
+export function parseClassificationResponse(content: string): LlmClassificationResponse {
+  const result = JSON.parse(content);
+
+  if (!result?.hsCode?.code || typeof result.confidence !== 'number') {
+    throw new Error('Classification response is missing an HS code or confidence');
+  }
+
+  return result;
+}
@@ -0,0 +1,153 @@
+import { hsCodeData } from '../../data/hs-codes/hs-code-data';
+import { hs2022SearchTerms } from '../../data/hs-codes/nomenclature';
+import { HSCodeHierarchy, HSCodeNode } from '../../data/hs-codes/types';
+import { ClassificationResult } from './embeddingService';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'as', 'at', 'by', 'for', 'from', 'in', 'including', 'into', 'its', 'not',
+  'of', 'on', 'or', 'other', 'than', 'the', 'their', 'thereof', 'to', 'whether', 'with', 'without'
+]);
+
+/**
+ * Split text into lower-case terms, dropping stop words and folding simple plurals
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    .map(term => {
+      if (term.endsWith('ies') && term.length > 4) return `${term.slice(0, -3)}y`;
+      if (/(ss|us|is)$/.test(term)) return term;
+      if (/(sh|ch|x)es$/.test(term)) return term.slice(0, -2);
+      if (term.endsWith('s') && term.length > 3) return term.slice(0, -1);
+      return term;
+    });
+}
+
+// FNV-1a, so the same term always lands in the same dimension
+function hashTerm(term: string, dimensions: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % dimensions;
+}
+
+/**
+ * On-device embeddings: BM25-weighted term vectors hashed into a fixed number of dimensions.
+ * Term statistics come from the corpus the model is fitted on; unseen terms get the highest weight,
+ * so products can still be compared on words the nomenclature does not use.
+ */
+export class LocalEmbeddingModel {
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly documentCount: number;
+  private readonly averageLength: number;
+
+  constructor(
+    corpus: string[],
+    private readonly dimensions: number = 768,
+    private readonly k1: number = 1.2,
+    private readonly b: number = 0.75
+  ) {
+    let totalLength = 0;
+    for (const document of corpus) {
+      const terms = tokenize(document);
+      totalLength += terms.length;
+      new Set(terms).forEach(term => this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1));
+    }
+    this.documentCount = corpus.length;
+    this.averageLength = corpus.length > 0 ? totalLength / corpus.length : 0;
+  }
+
+  /**
+   * Embed text as a unit-length vector; text made only of stop words gives a zero vector
+   */
+  embed(text: string): number[] {
+    return this.weigh(tokenize(text));
+  }
+
+  /**
+   * Embed a search query against the corpus, dropping terms the corpus has never seen
+   * since they could only match through hash collisions
+   */
+  embedQuery(text: string): number[] {
+    return this.weigh(tokenize(text).filter(term => this.documentFrequency.has(term)));
+  }
+
+  private weigh(terms: string[]): number[] {
+    const termFrequency = new Map<string, number>();
+    terms.forEach(term => termFrequency.set(term, (termFrequency.get(term) || 0) + 1));
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const lengthRatio = this.averageLength > 0 ? terms.length / this.averageLength : 1;
+    termFrequency.forEach((frequency, term) => {
+      const df = this.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (this.documentCount - df + 0.5) / (df + 0.5));
+      const saturation = (frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + this.b * lengthRatio));
+      vector[hashTerm(term, this.dimensions)] += idf * saturation;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+/**
+ * In-process vector index ranking documents by cosine similarity to a unit-length query vector
+ */
+export class LocalVectorIndex {
+  private readonly entries: { vector: number[]; result: Omit<ClassificationResult, 'confidence'> }[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  add(vector: number[], result: Omit<ClassificationResult, 'confidence'>): void {
+    this.entries.push({ vector, result });
+  }
+
+  query(vector: number[], topK: number = 5): ClassificationResult[] {
+    return this.entries
+      .map(entry => ({
+        ...entry.result,
+        confidence: entry.vector.reduce((sum, value, index) => sum + value * vector[index], 0)
+      }))
+      .filter(result => result.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, topK);
+  }
+}
+
+/**
+ * Fit a local model on HS heading and subheading descriptions, examples and search terms,
+ * and index every heading and subheading with it
+ */
+export function buildLocalHSCodeIndex(
+  hierarchy: HSCodeHierarchy = hsCodeData,
+  searchTerms: Record<string, string[]> = hs2022SearchTerms,
+  dimensions: number = 768
+): { model: LocalEmbeddingModel; index: LocalVectorIndex } {
+  const ownText = (node: HSCodeNode) =>
+    [node.description, ...node.examples, ...(searchTerms[node.code] || [])].join(' ');
+
+  // Subheadings such as "Boneless" or "Other" only make sense with their heading's text
+  const nodes = Object.values(hierarchy.nodes).filter(node => node.level !== 'chapter');
+  const documents = nodes.map(node => {
+    const heading = node.level === 'subheading' && node.parentId ? hierarchy.nodes[node.parentId] : undefined;
+    return heading ? `${ownText(node)} ${ownText(heading)}` : ownText(node);
+  });
+
+  const model = new LocalEmbeddingModel(documents, dimensions);
+  const index = new LocalVectorIndex();
+  nodes.forEach((node, i) => index.add(model.embed(documents[i]), {
+    hsCode: node.code,
+    description: node.description,
+    chapter: node.code.substring(0, 2),
+    heading: node.code.substring(0, 4)
+  }));
+
+  return { model, index };
+}
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  CurrencyService,
+  CurrencyConversionError,
+  ExchangeRateProvider,
+  StaticExchangeRateProvider
+} from '../currency.service';
+
+const testRates: ExchangeRateProvider = new StaticExchangeRateProvider({
+  base: 'USD',
+  rateDate: '2025-01-31',
+  source: 'Test rates',
+  rates: { USD: 1, ZAR: 18, GBP: 0.8, AED: 3.6 }
+});
+
+describe('CurrencyService', () => {
+  let service: CurrencyService;
+
+  beforeEach(() => {
+    service = new CurrencyService(testRates);
+  });
+
+  it('should convert between non-base currencies through the base currency', () => {
+    expect(service.getRate('GBP', 'ZAR')).toBeCloseTo(22.5);
+    expect(service.convert(1000, 'GBP', 'ZAR')).toBe(22500);
+    expect(service.convert(1800, 'zar', 'usd')).toBe(100);
+    expect(service.convert(42, 'AED', 'AED')).toBe(42);
+  });
+
+  it('should sum ranges in mixed currencies in the target currency', () => {
+    const total = service.sumRanges([
+      { min: 1000, max: 2000, currency: 'USD' },
+      { min: 18000, max: 36000, currency: 'ZAR' },
+      { min: 800, max: 800, currency: 'GBP' }
+    ], 'ZAR');
+
+    expect(total).toEqual({ min: 54000, max: 90000, currency: 'ZAR' });
+  });
+
+  it('should report equivalents in the reporting currencies', () => {
+    expect(service.getEquivalents(1800, 'ZAR')).toEqual({
+      ZAR: 1800,
+      USD: 100,
+      GBP: 80,
+      AED: 360
+    });
+  });
+
+  it('should skip unsupported currencies when listing rates', () => {
+    expect(Object.keys(service.getRates('USD', ['ZAR', 'XYZ']))).toEqual(['ZAR']);
+  });
+
+  it('should throw for currencies without a rate', () => {
+    expect(() => service.convert(100, 'XYZ', 'USD')).toThrow(CurrencyConversionError);
+    expect(service.isSupported('XYZ')).toBe(false);
+    expect(service.canConvert('XYZ', 'USD')).toBe(false);
+    expect(service.canConvert('xyz', 'XYZ')).toBe(true);
+  });
+
+  it('should record the date of the rates used', () => {
+    expect(service.getRateDate()).toBe('2025-01-31');
+    expect(new CurrencyService().getRateDate()).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(new CurrencyService().isSupported('ZAR')).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import exchangeRateSnapshot from '@/data/currency/exchange-rates.json';
+
+/**
+ * Currencies our South African exporters compare costs in
+ */
+export const REPORTING_CURRENCIES = ['ZAR', 'USD', 'GBP', 'AED'];
+
+export interface ExchangeRateTable {
+  // Currency the rates are quoted against
+  base: string;
+  // ISO date (YYYY-MM-DD) the rates apply to
+  rateDate: string;
+  source: string;
+  // Units of each currency per one unit of the base currency
+  rates: Record<string, number>;
+}
+
+/**
+ * Source of exchange rates; swap in a live feed by implementing this interface
+ */
+export interface ExchangeRateProvider {
+  getRateTable(): ExchangeRateTable;
+}
+
+export interface MonetaryRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
+export class CurrencyConversionError extends Error {
+  constructor(message: string, public currency: string) {
+    super(message);
+    this.name = 'CurrencyConversionError';
+  }
+}
+
+/**
+ * Serves the exchange rate snapshot bundled with the app
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  constructor(private table: ExchangeRateTable = exchangeRateSnapshot) {}
+
+  getRateTable(): ExchangeRateTable {
+    return this.table;
+  }
+}
+
+/**
+ * Converts amounts between currencies using a pluggable rate table
+ */
+export class CurrencyService {
+  private provider: ExchangeRateProvider;
+
+  constructor(provider: ExchangeRateProvider = new StaticExchangeRateProvider()) {
+    this.provider = provider;
+  }
+
+  getRateDate(): string {
+    return this.provider.getRateTable().rateDate;
+  }
+
+  getRateSource(): string {
+    return this.provider.getRateTable().source;
+  }
+
+  isSupported(currency: string): boolean {
+    return this.provider.getRateTable().rates[this.normaliseCode(currency)] !== undefined;
+  }
+
+  canConvert(from: string, to: string): boolean {
+    return this.normaliseCode(from) === this.normaliseCode(to) || (this.isSupported(from) && this.isSupported(to));
+  }
+
+  /**
+   * Units of `to` per one unit of `from`
+   */
+  getRate(from: string, to: string): number {
+    const fromCode = this.normaliseCode(from);
+    const toCode = this.normaliseCode(to);
+    if (fromCode === toCode) {
+      return 1;
+    }
+
+    return this.getBaseRate(toCode) / this.getBaseRate(fromCode);
+  }
+
+  /**
+   * Unrounded rates from one currency into each of the given currencies, skipping unsupported ones
+   */
+  getRates(from: string, currencies: string[] = REPORTING_CURRENCIES): Record<string, number> {
+    return currencies
+      .filter(currency => this.isSupported(currency))
+      .reduce<Record<string, number>>((rates, currency) => {
+        rates[this.normaliseCode(currency)] = this.getRate(from, currency);
+        return rates;
+      }, {});
+  }
+
+  convert(amount: number, from: string, to: string): number {
+    return this.round(amount * this.getRate(from, to));
+  }
+
+  convertRange(range: MonetaryRange, to: string): MonetaryRange {
+    return {
+      min: this.convert(range.min, range.currency, to),
+      max: this.convert(range.max, range.currency, to),
+      currency: this.normaliseCode(to)
+    };
+  }
+
+  /**
+   * Sum ranges that may be in different currencies
+   */
+  sumRanges(ranges: MonetaryRange[], to: string): MonetaryRange {
+    return ranges.reduce<MonetaryRange>((total, range) => {
+      const converted = this.convertRange(range, to);
+      return {
+        min: this.round(total.min + converted.min),
+        max: this.round(total.max + converted.max),
+        currency: total.currency
+      };
+    }, { min: 0, max: 0, currency: this.normaliseCode(to) });
+  }
+
+  /**
+   * Value of an amount in each of the given currencies, skipping unsupported ones
+   */
+  getEquivalents(
+    amount: number,
+    from: string,
+    currencies: string[] = REPORTING_CURRENCIES
+  ): Record<string, number> {
+    const rates = this.getRates(from, currencies);
+    return Object.keys(rates).reduce<Record<string, number>>((equivalents, currency) => {
+      equivalents[currency] = this.round(amount * rates[currency]);
+      return equivalents;
+    }, {});
+  }
+
+  private getBaseRate(currency: string): number {
+    const rate = this.provider.getRateTable().rates[currency];
+    if (rate === undefined || rate <= 0) {
+      throw new CurrencyConversionError(`No exchange rate available for ${currency}`, currency);
+    }
+    return rate;
+  }
+
+  private normaliseCode(currency: string): string {
+    return currency.trim().toUpperCase();
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,58 @@
+import { BusinessProfile } from '@/types/business-profile.types';
+import { ExportShipment } from '@/types/export-document.types';
+
+/**
+ * Browns Foods-style exporter used by export document tests
+ */
+export const createMockBusinessProfile = (): BusinessProfile => ({
+  id: 'browns-foods',
+  companyName: 'Browns Foods',
+  industry: ['Food Processing'],
+  productCategories: ['food'],
+  primaryContact: { name: 'Thandi Mokoena', email: 'exports@brownsfoods.co.za', phone: '+27 21 555 0100' },
+  address: { street: '12 Harbour Road', city: 'Cape Town', postalCode: '8001', country: 'ZA' }
+});
+
+export const createMockShipment = (): ExportShipment => ({
+  reference: 'INV-2025-001',
+  date: '2025-03-10',
+  destinationCountry: 'GB',
+  consignee: {
+    name: 'Thames Fine Foods Ltd',
+    address: ['4 Dock Street', 'London E1 8JN'],
+    country: 'GB'
+  },
+  currency: 'USD',
+  incoterm: 'FOB',
+  transportMode: 'sea',
+  portOfLoading: 'Cape Town',
+  portOfDischarge: 'London Gateway',
+  exporterCustomsCode: '21234567',
+  exporterVatNumber: '4123456789',
+  lines: [
+    {
+      productId: 'p1',
+      description: 'Frozen beef burgers',
+      hsCode: '16025095',
+      quantity: 1000,
+      unit: 'kg',
+      unitPrice: 6.5,
+      packages: 100,
+      packageType: 'cartons',
+      netWeightKg: 1000,
+      grossWeightKg: 1100
+    },
+    {
+      productId: 'p2',
+      description: 'Rooibos tea bags',
+      hsCode: '121190',
+      quantity: 200,
+      unit: 'kg',
+      unitPrice: 12.25,
+      packages: 20,
+      packageType: 'cartons',
+      netWeightKg: 200,
+      grossWeightKg: 230
+    }
+  ]
+});
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  ComplianceMCPResponse,
+  ComplianceRequirement,
+  MarketSpecificCompliance
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { DocumentChecklistService } from '../document-checklist.service';
+
+const requirement = (overrides: Partial<ComplianceRequirement>): ComplianceRequirement => ({
+  id: 'requirement',
+  name: 'Requirement',
+  description: 'Test requirement',
+  isRequired: true,
+  countryCode: 'ZA',
+  productCategories: ['all'],
+  ...overrides
+});
+
+const createCompliance = (
+  requirements: ComplianceRequirement[],
+  marketSpecificCompliance: MarketSpecificCompliance[] = []
+): ComplianceMCPResponse => ({
+  requirements,
+  totalEstimatedCost: { min: 0, max: 0, currency: 'ZAR' },
+  totalEstimatedTimelineInDays: 0,
+  marketSpecificCompliance
+});
+
+describe('DocumentChecklistService', () => {
+  let service: DocumentChecklistService;
+
+  beforeEach(() => {
+    service = new DocumentChecklistService();
+  });
+
+  it('should always include the shipping documents with their draft types', () => {
+    const checklist = service.buildChecklist(createCompliance([]), 'GB');
+
+    expect(checklist.map(item => item.draftType).filter(Boolean)).toEqual(expect.arrayContaining([
+      'commercial-invoice', 'packing-list', 'certificate-of-origin-request', 'sad500'
+    ]));
+    expect(checklist.every(item => item.stage === 'customs')).toBe(true);
+  });
+
+  it('should order documents by stage and then by longest lead time', () => {
+    const checklist = service.buildChecklist(createCompliance([
+      requirement({ id: 'haccp', name: 'HACCP Certification', documentationNeeded: ['HACCP certificate'], estimatedTimelineInDays: 90 }),
+      requirement({ id: 'labels', name: 'Food labelling', documentationNeeded: ['Label approval'], estimatedTimelineInDays: 14 }),
+      requirement({ id: 'permit', name: 'Export permit', documentationNeeded: ['ITAC export permit'], estimatedTimelineInDays: 21 })
+    ]), 'GB', 'sea');
+
+    expect(checklist.slice(0, 3).map(item => item.title)).toEqual([
+      'ITAC export permit', 'HACCP certificate', 'Label approval'
+    ]);
+    expect(checklist.map(item => item.order)).toEqual(checklist.map((_, index) => index + 1));
+    expect(checklist[checklist.length - 1].stage).toBe('customs');
+    expect(checklist.map(item => item.title)).toContain('Bill of lading');
+  });
+
+  it('should merge documents requested by several requirements', () => {
+    const checklist = service.buildChecklist(createCompliance([
+      requirement({ id: 'a', name: 'Food safety', documentationNeeded: ['HACCP certificate'], estimatedTimelineInDays: 30, isRequired: false }),
+      requirement({ id: 'b', name: 'Retailer audit', documentationNeeded: ['HACCP Certificate'], estimatedTimelineInDays: 60 })
+    ]), 'GB');
+
+    const haccp = checklist.filter(item => item.id === 'haccp-certificate');
+    expect(haccp).toHaveLength(1);
+    expect(haccp[0]).toMatchObject({ requirementIds: ['a', 'b'], leadTimeInDays: 60, required: true });
+  });
+
+  it('should ignore requirements for other markets', () => {
+    const checklist = service.buildChecklist(createCompliance([
+      requirement({ id: 'us-fda', countryCode: 'US', name: 'FDA registration', documentationNeeded: ['FDA facility registration'] })
+    ]), 'GB');
+
+    expect(checklist.map(item => item.title)).not.toContain('FDA facility registration');
+  });
+
+  it('should add pre-shipment certificates from the market customs conditions', () => {
+    const customs = {
+      exportHealthCertificateRequired: true,
+      phytosanitaryCertificateRequired: false,
+      preShipmentInspectionRequired: true,
+      electronicFilingMandatory: true,
+      additionalDocuments: ['Halal certificate']
+    };
+    const checklist = service.buildChecklist(createCompliance([], [
+      { countryCode: 'AE', customs } as MarketSpecificCompliance,
+      { countryCode: 'GB', customs: { ...customs, phytosanitaryCertificateRequired: true } } as MarketSpecificCompliance
+    ]), 'AE');
+
+    const preShipment = checklist.filter(item => item.stage === 'pre-shipment').map(item => item.id);
+    expect(preShipment).toEqual(['export-health-certificate', 'pre-shipment-inspection', 'halal-certificate']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+
+import { CurrencyService, StaticExchangeRateProvider } from '@/services/currency/currency.service';
+import {
+  CertificateOfOriginRequestDraft,
+  CommercialInvoiceDraft,
+  PackingListDraft,
+  Sad500DeclarationDraft
+} from '@/types/export-document.types';
+import { ExportDocumentDraftService } from '../document-draft.service';
+import { createMockBusinessProfile, createMockShipment } from '../__mocks__/export-shipment';
+
+describe('ExportDocumentDraftService', () => {
+  let service: ExportDocumentDraftService;
+
+  beforeEach(() => {
+    const currencyService = new CurrencyService(new StaticExchangeRateProvider({
+      base: 'USD',
+      rateDate: '2025-03-03',
+      source: 'Test rates',
+      rates: { USD: 1, ZAR: 18, GBP: 0.8 }
+    }));
+    service = new ExportDocumentDraftService(currencyService);
+  });
+
+  const createDrafts = (shipment = createMockShipment()) => {
+    const { drafts, missingFields } = service.createDrafts(createMockBusinessProfile(), shipment);
+    return {
+      invoice: drafts.find(draft => draft.type === 'commercial-invoice') as CommercialInvoiceDraft,
+      packingList: drafts.find(draft => draft.type === 'packing-list') as PackingListDraft,
+      certificate: drafts.find(draft => draft.type === 'certificate-of-origin-request') as CertificateOfOriginRequestDraft,
+      sad500: drafts.find(draft => draft.type === 'sad500') as Sad500DeclarationDraft,
+      missingFields
+    };
+  };
+
+  it('should pre-fill the commercial invoice from the profile and shipment', () => {
+    const { invoice } = createDrafts();
+
+    expect(invoice.exporter).toMatchObject({
+      name: 'Browns Foods',
+      address: ['12 Harbour Road', 'Cape Town', '8001'],
+      country: 'ZA',
+      taxNumber: '4123456789'
+    });
+    expect(invoice.lines.map(line => line.total)).toEqual([6500, 2450]);
+    expect(invoice.totalValue).toBe(8950);
+    expect(invoice.lines[0].countryOfOrigin).toBe('ZA');
+  });
+
+  it('should total packages and weights on the packing list', () => {
+    const { packingList } = createDrafts();
+
+    expect(packingList.totals).toEqual({ packages: 120, netWeightKg: 1200, grossWeightKg: 1330 });
+  });
+
+  it('should convert SAD500 values into rand', () => {
+    const { sad500 } = createDrafts();
+
+    expect(sad500).toMatchObject({
+      declarationType: 'EX1',
+      transportModeCode: 1,
+      exchangeRate: 18,
+      totalInvoiceValue: 8950,
+      portOfExit: 'Cape Town'
+    });
+    expect(sad500.lines.map(line => line.customsValueZar)).toEqual([117000, 44100]);
+    expect(sad500.lines.map(line => line.tariffCode)).toEqual(['16025095', undefined]);
+  });
+
+  it('should pick the certificate of origin for the destination', () => {
+    expect(createDrafts().certificate).toMatchObject({
+      certificateType: 'EUR.1',
+      certificateName: 'EUR.1 movement certificate',
+      agreement: 'UK–SACU–Mozambique Economic Partnership Agreement',
+      issuingBody: 'South African Revenue Service (SARS)',
+      transportDetails: 'By sea, Cape Town to London Gateway'
+    });
+    expect(createDrafts({ ...createMockShipment(), destinationCountry: 'ZM' }).certificate).toMatchObject({
+      certificateType: 'certificate-of-origin',
+      certificateName: 'SADC certificate of origin'
+    });
+    expect(createDrafts({ ...createMockShipment(), destinationCountry: 'KE' }).certificate.certificateName)
+      .toBe('AfCFTA certificate of origin');
+    for (const destinationCountry of ['AE', 'NA']) {
+      expect(createDrafts({ ...createMockShipment(), destinationCountry }).certificate).toMatchObject({
+        certificateType: 'non-preferential',
+        issuingBody: 'South African Chamber of Commerce and Industry (SACCI)'
+      });
+    }
+  });
+
+  it('should report the fields still to complete', () => {
+    const shipment = createMockShipment();
+    delete shipment.exporterCustomsCode;
+    delete shipment.lines[0].grossWeightKg;
+
+    expect(createDrafts(shipment).missingFields).toEqual([
+      'exporterCustomsCode',
+      'lines[0].grossWeightKg',
+      'lines[1].hsCode'
+    ]);
+  });
+});
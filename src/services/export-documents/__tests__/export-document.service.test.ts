@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+import pdfParse from 'pdf-parse';
+import { ComplianceMCPResponse } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { DocumentPdfRendererService } from '../document-pdf-renderer.service';
+import { ExportDocumentService } from '../export-document.service';
+import { DocumentChecklistService } from '../document-checklist.service';
+import { ExportDocumentDraftService } from '../document-draft.service';
+import { createMockBusinessProfile, createMockShipment } from '../__mocks__/export-shipment';
+
+const compliance: ComplianceMCPResponse = {
+  requirements: [
+    {
+      id: 'haccp-cert',
+      name: 'HACCP Certification',
+      description: 'Food safety management system',
+      isRequired: true,
+      countryCode: 'ZA',
+      productCategories: ['food'],
+      documentationNeeded: ['HACCP certificate'],
+      estimatedTimelineInDays: 90
+    }
+  ],
+  totalEstimatedCost: { min: 0, max: 0, currency: 'ZAR' },
+  totalEstimatedTimelineInDays: 90
+};
+
+describe('ExportDocumentService', () => {
+  const generatedAt = new Date('2025-03-10T08:00:00Z');
+  let service: ExportDocumentService;
+
+  beforeEach(() => {
+    service = new ExportDocumentService(
+      new DocumentChecklistService(),
+      new ExportDocumentDraftService(),
+      () => generatedAt
+    );
+  });
+
+  it('should combine the checklist and drafts into a pack', () => {
+    const pack = service.createPack(compliance, createMockBusinessProfile(), createMockShipment());
+
+    expect(pack).toMatchObject({ shipmentReference: 'INV-2025-001', marketCode: 'GB', generatedAt });
+    expect(pack.checklist[0].title).toBe('HACCP certificate');
+    expect(pack.drafts.map(draft => draft.type)).toEqual([
+      'commercial-invoice', 'packing-list', 'certificate-of-origin-request', 'sad500'
+    ]);
+    expect(pack.missingFields).toEqual(['lines[1].hsCode']);
+  });
+
+  it('should list the request fields a pack cannot be built without', () => {
+    const profile = createMockBusinessProfile();
+    const shipment = createMockShipment();
+
+    expect(service.findMissingInputs(compliance, profile, shipment)).toEqual([]);
+    expect(service.findMissingInputs(
+      compliance,
+      { ...profile, address: undefined, primaryContact: undefined },
+      { ...shipment, currency: '', consignee: undefined }
+    )).toEqual([
+      'businessProfile.address',
+      'businessProfile.primaryContact',
+      'shipment.currency',
+      'shipment.consignee'
+    ]);
+    expect(service.findMissingInputs(undefined, undefined, undefined)).toEqual(['compliance', 'businessProfile', 'shipment']);
+  });
+
+  it('should serialise the pack to JSON', () => {
+    const pack = service.createPack(compliance, createMockBusinessProfile(), createMockShipment());
+    const parsed = JSON.parse(service.toJson(pack));
+
+    expect(parsed.generatedAt).toBe('2025-03-10T08:00:00.000Z');
+    expect(parsed.drafts).toHaveLength(4);
+  });
+
+  it('should render the pack as a PDF', async () => {
+    const pack = service.createPack(compliance, createMockBusinessProfile(), createMockShipment());
+    const pdf = await new DocumentPdfRendererService().render(pack);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    const parsed = await pdfParse(pdf);
+    expect(parsed.text).toContain('Document checklist');
+    expect(parsed.text).toContain('Commercial Invoice');
+    expect(parsed.text).toContain('SAD500 Export Declaration');
+  });
+
+  it('should render a single draft on its own', async () => {
+    const pack = service.createPack(compliance, createMockBusinessProfile(), createMockShipment());
+    const parsed = await pdfParse(await new DocumentPdfRendererService().render(pack, 'packing-list'));
+
+    expect(parsed.text).toContain('Packing List');
+    expect(parsed.text).not.toContain('Document checklist');
+    expect(parsed.numpages).toBe(1);
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  ComplianceMCPResponse,
+  ComplianceRequirement,
+  CustomsRequirements
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import {
+  DocumentChecklistItem,
+  DocumentStage,
+  TransportMode
+} from '@/types/export-document.types';
+import { logger } from '@/utils/logger';
+
+const STAGE_ORDER: DocumentStage[] = ['registration', 'certification', 'pre-shipment', 'customs'];
+
+type ChecklistEntry = Omit<DocumentChecklistItem, 'order'>;
+
+/**
+ * Documents every export consignment needs, whatever the compliance result
+ */
+const SHIPPING_DOCUMENTS: Array<Omit<ChecklistEntry, 'requirementIds'>> = [
+  {
+    id: 'commercial-invoice',
+    title: 'Commercial invoice',
+    description: 'Itemised invoice to the consignee showing value, currency and delivery terms',
+    stage: 'customs',
+    required: true,
+    draftType: 'commercial-invoice'
+  },
+  {
+    id: 'packing-list',
+    title: 'Packing list',
+    description: 'Packages, weights and contents of the consignment',
+    stage: 'customs',
+    required: true,
+    draftType: 'packing-list'
+  },
+  {
+    id: 'certificate-of-origin',
+    title: 'Certificate of origin',
+    description: 'Proof of South African origin, needed to claim preferential duty rates',
+    stage: 'customs',
+    required: true,
+    issuingAuthority: 'SARS or the South African Chamber of Commerce and Industry',
+    leadTimeInDays: 3,
+    draftType: 'certificate-of-origin-request'
+  },
+  {
+    id: 'sad500',
+    title: 'SAD500 export declaration',
+    description: 'Customs declaration lodged with SARS before the goods leave South Africa',
+    stage: 'customs',
+    required: true,
+    issuingAuthority: 'South African Revenue Service (SARS)',
+    draftType: 'sad500'
+  }
+];
+
+const TRANSPORT_DOCUMENTS: Record<TransportMode, string> = {
+  sea: 'Bill of lading',
+  air: 'Air waybill',
+  road: 'Road consignment note (CMR)',
+  rail: 'Rail consignment note'
+};
+
+/**
+ * Turns a compliance result into the ordered list of documents a shipment needs
+ */
+export class DocumentChecklistService {
+  constructor(private originCountry = 'ZA') {}
+
+  /**
+   * Documents for a shipment to one market, ordered by stage and then by lead
+   * time so the slowest documents are started first
+   */
+  buildChecklist(
+    compliance: ComplianceMCPResponse,
+    marketCode: string,
+    transportMode?: TransportMode
+  ): DocumentChecklistItem[] {
+    const entries = new Map<string, ChecklistEntry>();
+    const add = (entry: ChecklistEntry) => {
+      const key = this.normaliseTitle(entry.title);
+      const existing = entries.get(key);
+      if (!existing) {
+        entries.set(key, entry);
+        return;
+      }
+      existing.required = existing.required || entry.required;
+      existing.requirementIds = [...new Set([...existing.requirementIds, ...entry.requirementIds])];
+      existing.leadTimeInDays = Math.max(existing.leadTimeInDays ?? 0, entry.leadTimeInDays ?? 0) || undefined;
+      existing.issuingAuthority = existing.issuingAuthority ?? entry.issuingAuthority;
+    };
+
+    const requirements = compliance.requirements.filter(req => this.appliesToMarket(req, marketCode));
+    for (const requirement of requirements) {
+      for (const document of requirement.documentationNeeded || []) {
+        add({
+          id: this.toId(document),
+          title: document,
+          description: `Needed for ${requirement.name}`,
+          stage: this.getRequirementStage(requirement),
+          required: requirement.isRequired,
+          issuingAuthority: requirement.regulatoryBody,
+          leadTimeInDays: requirement.estimatedTimelineInDays,
+          requirementIds: [requirement.id]
+        });
+      }
+    }
+
+    const customs = this.getCustomsRequirements(compliance, marketCode);
+    for (const { requirementIds, customs: flags } of customs) {
+      this.getCustomsDocuments(flags).forEach(entry => add({ ...entry, requirementIds }));
+    }
+
+    SHIPPING_DOCUMENTS.forEach(entry => add({ ...entry, requirementIds: [] }));
+    if (transportMode) {
+      add({
+        id: `transport-${transportMode}`,
+        title: TRANSPORT_DOCUMENTS[transportMode],
+        description: 'Issued by the carrier or freight forwarder when the goods are loaded',
+        stage: 'customs',
+        required: true,
+        requirementIds: []
+      });
+    }
+
+    const items = [...entries.values()]
+      .sort((a, b) =>
+        STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage)
+        || (b.leadTimeInDays ?? 0) - (a.leadTimeInDays ?? 0)
+        || a.title.localeCompare(b.title))
+      .map((entry, index) => ({ ...entry, order: index + 1 }));
+
+    logger.info(`Built document checklist for ${marketCode} with ${items.length} documents`);
+    return items;
+  }
+
+  private appliesToMarket(requirement: ComplianceRequirement, marketCode: string): boolean {
+    return [marketCode, this.originCountry, 'INTL'].includes(requirement.countryCode);
+  }
+
+  private getRequirementStage(requirement: ComplianceRequirement): DocumentStage {
+    return /registration|permit|licen[cs]e/i.test(requirement.name) ? 'registration' : 'certification';
+  }
+
+  /**
+   * Customs conditions for the market, from country adapters and from the rules
+   */
+  private getCustomsRequirements(
+    compliance: ComplianceMCPResponse,
+    marketCode: string
+  ): Array<{ requirementIds: string[]; customs: CustomsRequirements }> {
+    const fromAdapters = (compliance.marketSpecificCompliance || [])
+      .filter(market => market.countryCode === marketCode)
+      .map(market => ({ requirementIds: [], customs: market.customs }));
+
+    const fromRules = compliance.requirements.flatMap(req =>
+      (req.marketSpecificCompliance || [])
+        .filter(market => market.countryCode === marketCode)
+        .map(market => ({ requirementIds: [req.id], customs: market.customs })));
+
+    return [...fromAdapters, ...fromRules];
+  }
+
+  private getCustomsDocuments(customs: CustomsRequirements): Array<Omit<ChecklistEntry, 'requirementIds'>> {
+    const documents: Array<Omit<ChecklistEntry, 'requirementIds'>> = [];
+
+    if (customs.exportHealthCertificateRequired) {
+      documents.push({
+        id: 'export-health-certificate',
+        title: 'Export health certificate',
+        description: 'Veterinary or food safety certificate for the consignment',
+        stage: 'pre-shipment',
+        required: true,
+        issuingAuthority: 'Department of Agriculture, Land Reform and Rural Development (DALRRD)',
+        leadTimeInDays: 7
+      });
+    }
+    if (customs.phytosanitaryCertificateRequired) {
+      documents.push({
+        id: 'phytosanitary-certificate',
+        title: 'Phytosanitary certificate',
+        description: 'Plant health certificate issued after inspection of the consignment',
+        stage: 'pre-shipment',
+        required: true,
+        issuingAuthority: 'DALRRD Directorate Plant Health',
+        leadTimeInDays: 5
+      });
+    }
+    if (customs.preShipmentInspectionRequired) {
+      documents.push({
+        id: 'pre-shipment-inspection',
+        title: 'Pre-shipment inspection report',
+        description: 'Inspection of the goods by an approved agency before loading',
+        stage: 'pre-shipment',
+        required: true,
+        leadTimeInDays: 5
+      });
+    }
+    for (const document of customs.additionalDocuments || []) {
+      documents.push({ id: this.toId(document), title: document, stage: 'pre-shipment', required: true });
+    }
+
+    return documents;
+  }
+
+  private normaliseTitle(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+
+  private toId(title: string): string {
+    return this.normaliseTitle(title).replace(/ /g, '-');
+  }
+}
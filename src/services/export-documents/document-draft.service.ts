@@ -0,0 +1,238 @@
+import { BusinessProfile } from '@/types/business-profile.types';
+import {
+  CertificateOfOriginRequestDraft,
+  CommercialInvoiceDraft,
+  DocumentLineItem,
+  ExportDocumentDraft,
+  ExportShipment,
+  PackingListDraft,
+  Sad500DeclarationDraft,
+  ShipmentParty,
+  TransportMode
+} from '@/types/export-document.types';
+import { CurrencyService } from '@/services/currency/currency.service';
+import { RulesOfOriginService } from '@/mcp/compliance-mcp/rules-of-origin/rules-of-origin.service';
+
+// SACU trade needs no certificate of origin, so no agreement is claimed for these markets
+const SACU_MARKETS = ['BW', 'LS', 'NA', 'SZ'];
+
+const NON_PREFERENTIAL_ISSUING_BODY = 'South African Chamber of Commerce and Industry (SACCI)';
+
+const SARS_TRANSPORT_MODE_CODES: Record<TransportMode, number> = {
+  sea: 1,
+  rail: 2,
+  road: 3,
+  air: 4
+};
+
+export interface ExportDocumentDrafts {
+  drafts: ExportDocumentDraft[];
+  missingFields: string[];
+}
+
+/**
+ * Pre-fills export documents from the business profile and a shipment
+ */
+export class ExportDocumentDraftService {
+  private currencyService: CurrencyService;
+
+  constructor(
+    currencyService: CurrencyService = new CurrencyService(),
+    private originCountry = 'ZA',
+    private rulesOfOrigin: RulesOfOriginService = new RulesOfOriginService()
+  ) {
+    this.currencyService = currencyService;
+  }
+
+  createDrafts(profile: BusinessProfile, shipment: ExportShipment): ExportDocumentDrafts {
+    const exporter = this.toExporter(profile, shipment);
+
+    return {
+      drafts: [
+        this.createCommercialInvoice(exporter, shipment),
+        this.createPackingList(exporter, shipment),
+        this.createCertificateOfOriginRequest(exporter, shipment),
+        this.createSad500Declaration(exporter, shipment)
+      ],
+      missingFields: this.findMissingFields(profile, shipment)
+    };
+  }
+
+  createCommercialInvoice(exporter: ShipmentParty, shipment: ExportShipment): CommercialInvoiceDraft {
+    const lines = shipment.lines.map((line, index) => ({
+      ...this.toLineItem(line, index),
+      unitPrice: line.unitPrice,
+      total: this.round(line.quantity * line.unitPrice)
+    }));
+
+    return {
+      type: 'commercial-invoice',
+      invoiceNumber: shipment.reference,
+      invoiceDate: shipment.date,
+      exporter,
+      consignee: shipment.consignee,
+      currency: shipment.currency,
+      incoterm: shipment.incoterm,
+      transportMode: shipment.transportMode,
+      portOfLoading: shipment.portOfLoading,
+      portOfDischarge: shipment.portOfDischarge,
+      destinationCountry: shipment.destinationCountry,
+      lines,
+      totalValue: this.round(lines.reduce((sum, line) => sum + line.total, 0))
+    };
+  }
+
+  createPackingList(exporter: ShipmentParty, shipment: ExportShipment): PackingListDraft {
+    const lines = shipment.lines.map((line, index) => ({
+      ...this.toLineItem(line, index),
+      packages: line.packages,
+      packageType: line.packageType,
+      netWeightKg: line.netWeightKg,
+      grossWeightKg: line.grossWeightKg
+    }));
+
+    return {
+      type: 'packing-list',
+      reference: shipment.reference,
+      date: shipment.date,
+      exporter,
+      consignee: shipment.consignee,
+      lines,
+      totals: {
+        packages: lines.reduce((sum, line) => sum + (line.packages ?? 0), 0),
+        netWeightKg: this.round(lines.reduce((sum, line) => sum + (line.netWeightKg ?? 0), 0)),
+        grossWeightKg: this.round(lines.reduce((sum, line) => sum + (line.grossWeightKg ?? 0), 0))
+      }
+    };
+  }
+
+  createCertificateOfOriginRequest(exporter: ShipmentParty, shipment: ExportShipment): CertificateOfOriginRequestDraft {
+    const route = [shipment.portOfLoading, shipment.portOfDischarge].filter(Boolean).join(' to ');
+
+    return {
+      type: 'certificate-of-origin-request',
+      ...this.getCertificate(shipment.destinationCountry),
+      invoiceReference: shipment.reference,
+      exporter,
+      consignee: shipment.consignee,
+      destinationCountry: shipment.destinationCountry,
+      transportDetails: route ? `By ${shipment.transportMode}, ${route}` : `By ${shipment.transportMode}`,
+      goods: shipment.lines.map((line, index) => this.toLineItem(line, index))
+    };
+  }
+
+  createSad500Declaration(exporter: ShipmentParty, shipment: ExportShipment): Sad500DeclarationDraft {
+    const exchangeRate = this.currencyService.getRate(shipment.currency, 'ZAR');
+
+    return {
+      type: 'sad500',
+      declarationType: 'EX1',
+      exporterName: exporter.name,
+      exporterCustomsCode: shipment.exporterCustomsCode,
+      exporterVatNumber: shipment.exporterVatNumber,
+      consignee: shipment.consignee,
+      countryOfDestination: shipment.destinationCountry,
+      transportModeCode: SARS_TRANSPORT_MODE_CODES[shipment.transportMode],
+      portOfExit: shipment.portOfLoading,
+      invoiceReference: shipment.reference,
+      deliveryTerms: shipment.incoterm,
+      invoiceCurrency: shipment.currency,
+      totalInvoiceValue: this.round(shipment.lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0)),
+      exchangeRate,
+      lines: shipment.lines.map((line, index) => ({
+        itemNumber: index + 1,
+        tariffCode: this.toTariffCode(line.hsCode),
+        description: line.description,
+        countryOfOrigin: line.countryOfOrigin || this.originCountry,
+        statisticalQuantity: line.quantity,
+        unit: line.unit,
+        customsValueZar: this.currencyService.convert(line.quantity * line.unitPrice, shipment.currency, 'ZAR'),
+        netMassKg: line.netWeightKg,
+        grossMassKg: line.grossWeightKg
+      }))
+    };
+  }
+
+  private toExporter(profile: BusinessProfile, shipment: ExportShipment): ShipmentParty {
+    const address = profile.address;
+
+    return {
+      name: profile.companyName,
+      address: [address.street, address.city, address.state, address.postalCode].filter((part): part is string => !!part),
+      country: this.originCountry,
+      contactName: profile.primaryContact.name,
+      email: profile.primaryContact.email,
+      phone: profile.primaryContact.phone,
+      taxNumber: shipment.exporterVatNumber
+    };
+  }
+
+  private toLineItem(line: ExportShipment['lines'][number], index: number): DocumentLineItem {
+    return {
+      lineNumber: index + 1,
+      description: line.description,
+      hsCode: line.hsCode,
+      countryOfOrigin: line.countryOfOrigin || this.originCountry,
+      quantity: line.quantity,
+      unit: line.unit
+    };
+  }
+
+  /**
+   * Origin document of the first trade agreement covering the destination. Shipments carry
+   * no bill of materials, so eligibility is left to the rules-of-origin check.
+   */
+  private getCertificate(destinationCountry: string): Pick<
+    CertificateOfOriginRequestDraft,
+    'certificateType' | 'certificateName' | 'agreement' | 'issuingBody'
+  > {
+    const [agreement] = SACU_MARKETS.includes(destinationCountry.toUpperCase())
+      ? []
+      : this.rulesOfOrigin.getAgreements(destinationCountry);
+
+    if (!agreement) {
+      return {
+        certificateType: 'non-preferential',
+        certificateName: 'Non-preferential certificate of origin',
+        issuingBody: NON_PREFERENTIAL_ISSUING_BODY
+      };
+    }
+
+    return {
+      certificateType: agreement.originDocument.type,
+      certificateName: agreement.originDocument.name,
+      agreement: agreement.name,
+      issuingBody: agreement.originDocument.issuingBody
+    };
+  }
+
+  /**
+   * SAD500 lines need the 8-digit South African tariff code; shorter HS codes are left for the exporter
+   */
+  private toTariffCode(hsCode?: string): string | undefined {
+    const digits = hsCode?.replace(/\D/g, '') ?? '';
+    return digits.length >= 8 ? digits.slice(0, 8) : undefined;
+  }
+
+  private findMissingFields(profile: BusinessProfile, shipment: ExportShipment): string[] {
+    const missing: string[] = [];
+
+    if (!profile.address.street) missing.push('exporter.address');
+    if (!shipment.exporterCustomsCode) missing.push('exporterCustomsCode');
+    if (!shipment.consignee.address.length) missing.push('consignee.address');
+    if (!shipment.portOfLoading) missing.push('portOfLoading');
+
+    shipment.lines.forEach((line, index) => {
+      if (!this.toTariffCode(line.hsCode)) missing.push(`lines[${index}].hsCode`);
+      if (line.netWeightKg === undefined) missing.push(`lines[${index}].netWeightKg`);
+      if (line.grossWeightKg === undefined) missing.push(`lines[${index}].grossWeightKg`);
+      if (line.packages === undefined) missing.push(`lines[${index}].packages`);
+    });
+
+    return missing;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
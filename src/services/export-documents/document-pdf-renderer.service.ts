@@ -0,0 +1,245 @@
+import PdfPrinter from 'pdfmake';
+import { Content, TableCell, TDocumentDefinitions, TFontDictionary } from 'pdfmake/interfaces';
+import {
+  CertificateOfOriginRequestDraft,
+  CommercialInvoiceDraft,
+  ExportDocumentDraft,
+  ExportDocumentPack,
+  ExportDocumentType,
+  PackingListDraft,
+  Sad500DeclarationDraft,
+  ShipmentParty
+} from '@/types/export-document.types';
+import { logger } from '@/utils/logger';
+
+const STANDARD_FONTS: TFontDictionary = {
+  Helvetica: {
+    normal: 'Helvetica',
+    bold: 'Helvetica-Bold',
+    italics: 'Helvetica-Oblique',
+    bolditalics: 'Helvetica-BoldOblique'
+  }
+};
+
+const DOCUMENT_TITLES: Record<ExportDocumentType, string> = {
+  'commercial-invoice': 'Commercial Invoice',
+  'packing-list': 'Packing List',
+  'certificate-of-origin-request': 'Certificate of Origin Request',
+  'sad500': 'SAD500 Export Declaration (draft data)'
+};
+
+const DRAFT_NOTICE = 'Draft prepared by TradeWizard. Check every field before signing or lodging.';
+
+/**
+ * Server-side PDF renderer for export document packs.
+ * Must only be imported from server code (API routes), as pdfmake reads font metrics from disk.
+ */
+export class DocumentPdfRendererService {
+  private printer = new PdfPrinter(STANDARD_FONTS);
+
+  /**
+   * Render the checklist and every draft, or a single draft when a type is given
+   */
+  async render(pack: ExportDocumentPack, documentType?: ExportDocumentType): Promise<Buffer> {
+    try {
+      logger.info(`Rendering export documents for shipment ${pack.shipmentReference}`);
+
+      const pdfDocument = this.printer.createPdfKitDocument(this.buildDocumentDefinition(pack, documentType));
+
+      return await new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        pdfDocument.on('data', (chunk: Buffer) => chunks.push(chunk));
+        pdfDocument.on('end', () => resolve(Buffer.concat(chunks)));
+        pdfDocument.on('error', reject);
+        pdfDocument.end();
+      });
+    } catch (error) {
+      logger.error(`Error rendering export documents PDF: ${error}`);
+      throw new Error(`Failed to render export documents: ${error}`);
+    }
+  }
+
+  buildDocumentDefinition(pack: ExportDocumentPack, documentType?: ExportDocumentType): TDocumentDefinitions {
+    const drafts = documentType ? pack.drafts.filter(draft => draft.type === documentType) : pack.drafts;
+    const sections: Content[][] = drafts.map(draft => this.buildDraft(draft));
+    if (!documentType) {
+      sections.unshift(this.buildChecklist(pack));
+    }
+
+    return {
+      info: { title: `Export documents ${pack.shipmentReference}`, author: 'TradeWizard' },
+      pageSize: 'A4',
+      pageMargins: [40, 50, 40, 50],
+      defaultStyle: { font: 'Helvetica', fontSize: 9, color: '#333333' },
+      styles: {
+        title: { fontSize: 16, bold: true, margin: [0, 0, 0, 10] },
+        tableHeader: { bold: true, fillColor: '#f2f2f2' },
+        muted: { fontSize: 8, color: '#999999' }
+      },
+      footer: { text: DRAFT_NOTICE, style: 'muted', alignment: 'center', margin: [40, 15, 40, 0] },
+      content: sections.flatMap((section, index) =>
+        index === 0 ? section : [{ text: '', pageBreak: 'before' } as Content, ...section])
+    };
+  }
+
+  private buildChecklist(pack: ExportDocumentPack): Content[] {
+    const content: Content[] = [
+      { text: `Document checklist: shipment ${pack.shipmentReference} to ${pack.marketCode}`, style: 'title' },
+      this.buildTable(
+        ['#', 'Document', 'Stage', 'Issued by', 'Lead time'],
+        pack.checklist.map(item => [
+          String(item.order),
+          item.required ? item.title : `${item.title} (optional)`,
+          item.stage,
+          item.issuingAuthority || '',
+          item.leadTimeInDays ? `${item.leadTimeInDays} days` : ''
+        ]),
+        ['auto', '*', 'auto', '*', 'auto']
+      )
+    ];
+
+    if (pack.missingFields.length > 0) {
+      content.push(
+        { text: 'Still to complete', bold: true, margin: [0, 15, 0, 5] },
+        { ul: pack.missingFields }
+      );
+    }
+    return content;
+  }
+
+  private buildDraft(draft: ExportDocumentDraft): Content[] {
+    const title: Content = { text: DOCUMENT_TITLES[draft.type], style: 'title' };
+
+    switch (draft.type) {
+      case 'commercial-invoice':
+        return [title, ...this.buildCommercialInvoice(draft)];
+      case 'packing-list':
+        return [title, ...this.buildPackingList(draft)];
+      case 'certificate-of-origin-request':
+        return [title, ...this.buildCertificateOfOriginRequest(draft)];
+      case 'sad500':
+        return [title, ...this.buildSad500(draft)];
+    }
+  }
+
+  private buildCommercialInvoice(draft: CommercialInvoiceDraft): Content[] {
+    return [
+      this.buildParties(draft.exporter, draft.consignee),
+      this.buildFields([
+        ['Invoice number', draft.invoiceNumber],
+        ['Invoice date', draft.invoiceDate],
+        ['Delivery terms', draft.incoterm],
+        ['Transport', [draft.transportMode, draft.portOfLoading, draft.portOfDischarge].filter(Boolean).join(' / ')],
+        ['Destination', draft.destinationCountry]
+      ]),
+      this.buildTable(
+        ['#', 'Description', 'HS code', 'Origin', 'Quantity', `Unit price (${draft.currency})`, `Total (${draft.currency})`],
+        [
+          ...draft.lines.map(line => [
+            String(line.lineNumber), line.description, line.hsCode || '', line.countryOfOrigin,
+            `${line.quantity} ${line.unit}`, line.unitPrice.toFixed(2), line.total.toFixed(2)
+          ]),
+          ['', 'Total', '', '', '', '', draft.totalValue.toFixed(2)]
+        ],
+        ['auto', '*', 'auto', 'auto', 'auto', 'auto', 'auto']
+      )
+    ];
+  }
+
+  private buildPackingList(draft: PackingListDraft): Content[] {
+    return [
+      this.buildParties(draft.exporter, draft.consignee),
+      this.buildFields([['Reference', draft.reference], ['Date', draft.date]]),
+      this.buildTable(
+        ['#', 'Description', 'Quantity', 'Packages', 'Net kg', 'Gross kg'],
+        [
+          ...draft.lines.map(line => [
+            String(line.lineNumber), line.description, `${line.quantity} ${line.unit}`,
+            line.packages !== undefined ? `${line.packages} ${line.packageType || ''}`.trim() : '',
+            line.netWeightKg?.toString() ?? '', line.grossWeightKg?.toString() ?? ''
+          ]),
+          ['', 'Total', '', String(draft.totals.packages), String(draft.totals.netWeightKg), String(draft.totals.grossWeightKg)]
+        ],
+        ['auto', '*', 'auto', 'auto', 'auto', 'auto']
+      )
+    ];
+  }
+
+  private buildCertificateOfOriginRequest(draft: CertificateOfOriginRequestDraft): Content[] {
+    return [
+      this.buildParties(draft.exporter, draft.consignee),
+      this.buildFields([
+        ['Certificate', draft.certificateName],
+        ['Trade agreement', draft.agreement || 'None (non-preferential)'],
+        ['Issuing body', draft.issuingBody],
+        ['Invoice reference', draft.invoiceReference],
+        ['Destination', draft.destinationCountry],
+        ['Transport details', draft.transportDetails]
+      ]),
+      this.buildTable(
+        ['#', 'Description of goods', 'HS code', 'Origin', 'Quantity'],
+        draft.goods.map(line => [
+          String(line.lineNumber), line.description, line.hsCode || '', line.countryOfOrigin, `${line.quantity} ${line.unit}`
+        ]),
+        ['auto', '*', 'auto', 'auto', 'auto']
+      )
+    ];
+  }
+
+  private buildSad500(draft: Sad500DeclarationDraft): Content[] {
+    return [
+      this.buildFields([
+        ['Declaration type', draft.declarationType],
+        ['Exporter', draft.exporterName],
+        ['Customs client number', draft.exporterCustomsCode || ''],
+        ['VAT number', draft.exporterVatNumber || ''],
+        ['Consignee', draft.consignee.name],
+        ['Country of destination', draft.countryOfDestination],
+        ['Mode of transport', String(draft.transportModeCode)],
+        ['Port of exit', draft.portOfExit || ''],
+        ['Invoice', `${draft.invoiceReference}, ${draft.invoiceCurrency} ${draft.totalInvoiceValue.toFixed(2)}`],
+        ['Delivery terms', draft.deliveryTerms],
+        ['Rate of exchange', String(draft.exchangeRate)]
+      ]),
+      this.buildTable(
+        ['Item', 'Tariff code', 'Description', 'Origin', 'Quantity', 'Value (ZAR)', 'Gross kg'],
+        draft.lines.map(line => [
+          String(line.itemNumber), line.tariffCode || '', line.description, line.countryOfOrigin,
+          `${line.statisticalQuantity} ${line.unit}`, line.customsValueZar.toFixed(2), line.grossMassKg?.toString() ?? ''
+        ]),
+        ['auto', 'auto', '*', 'auto', 'auto', 'auto', 'auto']
+      )
+    ];
+  }
+
+  private buildParties(exporter: ShipmentParty, consignee: ShipmentParty): Content {
+    const party = (label: string, value: ShipmentParty): Content => ({
+      stack: [
+        { text: label, bold: true },
+        value.name,
+        ...value.address,
+        value.country,
+        ...(value.taxNumber ? [`Tax number: ${value.taxNumber}`] : [])
+      ]
+    });
+
+    return { columns: [party('Exporter', exporter), party('Consignee', consignee)], margin: [0, 0, 0, 10] };
+  }
+
+  private buildFields(fields: Array<[string, string]>): Content {
+    return {
+      table: { widths: [130, '*'], body: fields.map(([label, value]) => [{ text: label, bold: true }, value]) },
+      layout: 'noBorders',
+      margin: [0, 0, 0, 10]
+    };
+  }
+
+  private buildTable(headers: string[], rows: string[][], widths: Array<string | number>): Content {
+    const body: TableCell[][] = [
+      headers.map(header => ({ text: header, style: 'tableHeader' })),
+      ...rows
+    ];
+
+    return { table: { headerRows: 1, widths, body }, layout: 'lightHorizontalLines' };
+  }
+}
@@ -0,0 +1,80 @@
+import { ComplianceMCPResponse } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { BusinessProfile } from '@/types/business-profile.types';
+import { ExportDocumentPack, ExportShipment } from '@/types/export-document.types';
+import { logger } from '@/utils/logger';
+import { DocumentChecklistService } from './document-checklist.service';
+import { ExportDocumentDraftService } from './document-draft.service';
+
+/**
+ * Builds the document pack for a shipment: the ordered checklist from the
+ * compliance result and pre-filled drafts from the business profile
+ */
+export class ExportDocumentService {
+  constructor(
+    private checklistService: DocumentChecklistService = new DocumentChecklistService(),
+    private draftService: ExportDocumentDraftService = new ExportDocumentDraftService(),
+    private now: () => Date = () => new Date()
+  ) {}
+
+  createPack(
+    compliance: ComplianceMCPResponse,
+    profile: BusinessProfile,
+    shipment: ExportShipment
+  ): ExportDocumentPack {
+    logger.info(`Creating export document pack for shipment ${shipment.reference} to ${shipment.destinationCountry}`);
+
+    const { drafts, missingFields } = this.draftService.createDrafts(profile, shipment);
+
+    return {
+      shipmentReference: shipment.reference,
+      marketCode: shipment.destinationCountry,
+      generatedAt: this.now(),
+      checklist: this.checklistService.buildChecklist(compliance, shipment.destinationCountry, shipment.transportMode),
+      drafts,
+      missingFields
+    };
+  }
+
+  /**
+   * Request fields the pack cannot be built without, as dotted paths. Fields the
+   * drafts can leave blank are reported in the pack's missingFields instead.
+   */
+  findMissingInputs(
+    compliance?: ComplianceMCPResponse,
+    profile?: Partial<BusinessProfile>,
+    shipment?: Partial<ExportShipment>
+  ): string[] {
+    const missing: string[] = [];
+
+    if (!compliance) missing.push('compliance');
+    if (!profile) {
+      missing.push('businessProfile');
+    } else {
+      if (!profile.address) missing.push('businessProfile.address');
+      if (!profile.primaryContact) missing.push('businessProfile.primaryContact');
+    }
+
+    if (!shipment) {
+      missing.push('shipment');
+      return missing;
+    }
+    if (!shipment.reference) missing.push('shipment.reference');
+    if (!shipment.destinationCountry) missing.push('shipment.destinationCountry');
+    if (!shipment.currency) missing.push('shipment.currency');
+    if (!shipment.consignee) {
+      missing.push('shipment.consignee');
+    } else if (!Array.isArray(shipment.consignee.address)) {
+      missing.push('shipment.consignee.address');
+    }
+    if (!shipment.lines?.length) missing.push('shipment.lines');
+
+    return missing;
+  }
+
+  /**
+   * Serialise a pack for download or for import into a customs broker's system
+   */
+  toJson(pack: ExportDocumentPack): string {
+    return JSON.stringify(pack, null, 2);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * @jest-environment node
+ */
+
+import { HSCodeSelectionService } from '../hsCodeSelection.service';
+import { hs2022Nomenclature, HSNomenclatureError, loadHSNomenclature } from '../../../data/hs-codes/nomenclature';
+import { loadNationalTariffLines } from '../../../data/hs-codes/national-tariff-lines';
+import { HSNomenclature } from '../../../data/hs-codes/types';
+
+describe('HS 2022 nomenclature', () => {
+  it('should bundle every section and chapter', () => {
+    const hierarchy = loadHSNomenclature();
+
+    expect(hierarchy.version).toBe('HS2022');
+    expect(hierarchy.sections).toHaveLength(21);
+    expect(hs2022Nomenclature.chapters).toHaveLength(97);
+    // Chapter 77 is reserved and has nothing to navigate to
+    expect(hierarchy.chapters).toHaveLength(96);
+    expect(hierarchy.chapters).not.toContain('77');
+    expect(hierarchy.nodes['16']).toMatchObject({ level: 'chapter', section: 'IV' });
+  });
+
+  it('should link headings and subheadings to their parents', () => {
+    const hierarchy = loadHSNomenclature();
+
+    expect(hierarchy.headingsByChapter['22']).toContain('2204');
+    expect(hierarchy.subheadingsByHeading['2204']).toEqual(['220410', '220421', '220422', '220429', '220430']);
+    expect(hierarchy.nodes['220421']).toMatchObject({ level: 'subheading', parentId: '2204', section: 'IV' });
+  });
+
+  it('should record which chapters and headings are fully bundled', () => {
+    const hierarchy = loadHSNomenclature();
+
+    expect(hierarchy.completeChapters).toContain('22');
+    expect(hierarchy.completeChapters).not.toContain('84');
+    expect(hierarchy.completeHeadings).toContain('2204');
+    expect(hierarchy.completeHeadings).not.toContain('2203');
+
+    const service = new HSCodeSelectionService(hierarchy);
+    expect(service.hasAllHeadings('22')).toBe(true);
+    expect(service.hasAllHeadings('84')).toBe(false);
+    expect(service.hasAllSubheadings('2203')).toBe(false);
+  });
+
+  it('should report every problem in a nomenclature', () => {
+    const broken: HSNomenclature = {
+      ...hs2022Nomenclature,
+      headings: [{ code: '9901', title: 'Unknown chapter' }, { code: '220', title: 'Too short' }],
+      subheadings: [{ code: '220410', title: '' }],
+      completeHeadings: ['2204']
+    };
+
+    let error: unknown;
+    try {
+      loadHSNomenclature(broken);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(HSNomenclatureError);
+    expect(error).toMatchObject({
+      errors: [
+        'headings[0].code: parent 99 of 9901 is missing',
+        'headings[1].code: expected 4 digits, got "220"',
+        'subheadings[0].code: parent 2204 of 220410 is missing',
+        'subheadings[0].title: expected a title',
+        'completeHeadings: heading 2204 is not bundled'
+      ]
+    });
+  });
+});
+
+describe('National tariff lines', () => {
+  it('should index lines by market and subheading', () => {
+    const lines = loadNationalTariffLines();
+
+    expect(Object.keys(lines)).toEqual(['GB', 'AE']);
+    expect(lines.GB['220421'].map(line => line.code)).toEqual(['2204217900', '2204218000']);
+    expect(lines.AE['220421']).toEqual([{
+      code: '22042100',
+      market: 'AE',
+      subheading: '220421',
+      description: 'Wine of fresh grapes in containers holding 2 litres or less'
+    }]);
+  });
+
+  it('should report every problem in a schedule', () => {
+    let error: unknown;
+    try {
+      loadNationalTariffLines([{
+        market: 'GB',
+        name: 'UK Global Tariff',
+        version: 'test',
+        digits: 10,
+        lines: [
+          { code: '22042179', description: 'Too short' },
+          { code: '2204217900', description: '' },
+          { code: '2204217900', description: 'Duplicate' }
+        ]
+      }]);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(HSNomenclatureError);
+    expect(error).toMatchObject({
+      errors: [
+        'lines[0].code: expected 10 digits, got "22042179"',
+        'lines[1].description: expected a description',
+        'lines[2].code: 2204217900 is listed more than once'
+      ]
+    });
+  });
+});
+
+describe('HSCodeSelectionService', () => {
+  const service = new HSCodeSelectionService();
+
+  it('should navigate chapters, headings and subheadings', () => {
+    expect(service.getChapter('08')?.name).toBe('Edible fruit and nuts; peel of citrus fruit or melons');
+    expect(service.getHeadingsForChapter('08').map(heading => heading.code)).toContain('0805');
+    expect(service.getSubheadingsForHeading('8517').map(subheading => subheading.code))
+      .toEqual(expect.arrayContaining(['851713', '851714']));
+    expect(service.getNodePath('160250').map(node => node.code)).toEqual(['16', '1602', '160250']);
+  });
+
+  it('should keep example products searchable', () => {
+    expect(service.search('biltong').map(node => node.code)).toEqual(['16']);
+    expect(service.search('pinot')).toEqual([]);
+  });
+
+  it('should find the section and legal notes for a code', () => {
+    expect(service.getSectionForCode('1602.50')?.id).toBe('IV');
+
+    const { notes, exclusions } = service.getNotes('160250');
+    expect(notes).toEqual(expect.arrayContaining([
+      expect.stringContaining('more than 20% by weight of sausage, meat')
+    ]));
+    expect(exclusions).toEqual(expect.arrayContaining([
+      expect.objectContaining({ see: ['2103', '2104'] })
+    ]));
+  });
+
+  it('should migrate HS 2017 codes to HS 2022', () => {
+    expect(service.migrateCode('8517.12')).toEqual({
+      code: '851712',
+      from: 'HS2017',
+      to: 'HS2022',
+      status: 'changed',
+      candidates: ['851713', '851714'],
+      note: 'Smartphones separated from other telephones for cellular or wireless networks'
+    });
+    expect(service.migrateCode('220421')).toMatchObject({ status: 'unchanged', candidates: ['220421'] });
+    expect(service.migrateCode('220421', 'HS2022')).toMatchObject({ status: 'unchanged' });
+    expect(new HSCodeSelectionService(undefined, []).migrateCode('851712')).toMatchObject({ status: 'unknown', candidates: [] });
+  });
+
+  it('should confirm a national tariff line for a market', () => {
+    expect(service.getNationalTariffMarkets()).toEqual(['GB', 'AE']);
+    expect(service.getTariffLinesForSubheading('2204.10', 'GB')).toHaveLength(5);
+    expect(service.getTariffLinesForSubheading('220410', 'US')).toEqual([]);
+    expect(service.getTariffLine('2204.10.15.00', 'GB')?.description).toBe('Prosecco');
+
+    expect(service.confirmTariffLine('2204101500', 'GB', new Date('2026-03-01T00:00:00Z'))).toEqual({
+      market: 'GB',
+      code: '2204101500',
+      subheading: '220410',
+      description: 'Prosecco',
+      confirmedAt: '2026-03-01T00:00:00.000Z'
+    });
+    expect(service.confirmTariffLine('2204101500', 'AE')).toBeNull();
+  });
+
+  it('should describe where to look up national codes that are not bundled', () => {
+    expect(service.getTariffLinesForSubheading('090111', 'GB')).toEqual([]);
+    expect(service.getNationalTariffSchedule('GB')).toMatchObject({
+      name: 'UK Global Tariff',
+      digits: 10,
+      source: 'https://www.trade-tariff.service.gov.uk'
+    });
+    expect(service.getNationalTariffSchedule('GB')).not.toHaveProperty('lines');
+    expect(service.getNationalTariffSchedule('US')).toBeNull();
+  });
+});
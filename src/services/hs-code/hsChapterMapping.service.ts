@@ -109,6 +109,13 @@ export class HSChapterMappingService {
     }
   }
 
+  /**
+   * Get the keyword mapping for a chapter, if one is configured
+   */
+  getChapterMapping(chapter: string): HSChapterMapping | undefined {
+    return this.chapterMappings.find(mapping => mapping.chapter === chapter);
+  }
+
   /**
    * Find matching chapters for a product group, sorted by confidence
    */
@@ -1,8 +1,85 @@
-import { hsCodeData } from '../../data/hs-codes/hs-code-data';
-import { HSCodeNode } from '../../data/hs-codes/types';
+import { hsCodeData as defaultHSCodeData } from '../../data/hs-codes/hs-code-data';
+import { hsCorrelationTables } from '../../data/hs-codes/nomenclature';
+import {
+  nationalTariffLines as defaultNationalTariffLines,
+  nationalTariffSchedules as defaultNationalTariffSchedules
+} from '../../data/hs-codes/national-tariff-lines';
+import {
+  HSCodeHierarchy,
+  HSCodeMigration,
+  HSCodeNode,
+  HSCorrelationTable,
+  HSExclusionNote,
+  HSSection,
+  HSVersion,
+  NationalTariffLine,
+  NationalTariffSchedule,
+  NationalTariffSelection
+} from '../../data/hs-codes/types';
 
 export class HSCodeSelectionService {
-  private hsCodeData = hsCodeData;
+  constructor(
+    private hsCodeData: HSCodeHierarchy = defaultHSCodeData,
+    private correlationTables: HSCorrelationTable[] = hsCorrelationTables,
+    private nationalTariffLines: Record<string, Record<string, NationalTariffLine[]>> = defaultNationalTariffLines,
+    private nationalTariffSchedules: NationalTariffSchedule[] = defaultNationalTariffSchedules
+  ) {}
+  
+  /**
+   * Gets all sections of the nomenclature
+   */
+  getSections(): HSSection[] {
+    return this.hsCodeData.sections;
+  }
+  
+  /**
+   * Gets the section a chapter, heading or subheading falls in
+   */
+  getSectionForCode(code: string): HSSection | null {
+    const chapter = code.replace(/\D/g, '').substring(0, 2);
+    return this.hsCodeData.sections.find(section =>
+      chapter >= section.fromChapter && chapter <= section.toChapter) || null;
+  }
+  
+  /**
+   * Gets the section, chapter and heading legal notes and exclusions that apply to a code
+   */
+  getNotes(code: string): { notes: string[]; exclusions: HSExclusionNote[] } {
+    const cleanCode = code.replace(/\D/g, '');
+    const section = this.getSectionForCode(cleanCode);
+    const ancestors = [cleanCode.substring(0, 2), cleanCode.substring(0, 4)]
+      .filter((ancestor, index, all) => ancestor.length >= 2 && all.indexOf(ancestor) === index)
+      .map(ancestor => this.hsCodeData.nodes[ancestor])
+      .filter((node): node is HSCodeNode => !!node);
+    
+    return {
+      notes: [...(section?.notes || []), ...ancestors.flatMap(node => node.notes || [])],
+      exclusions: ancestors.flatMap(node => node.exclusions || [])
+    };
+  }
+  
+  /**
+   * Maps a code from an older HS version to the codes it may fall under in the bundled version.
+   * Codes the correlation table does not list are unchanged.
+   */
+  migrateCode(code: string, from: HSVersion = 'HS2017'): HSCodeMigration {
+    const cleanCode = code.replace(/\D/g, '').substring(0, 6);
+    const to = this.hsCodeData.version;
+    if (from === to) {
+      return { code: cleanCode, from, to, status: 'unchanged', candidates: [cleanCode] };
+    }
+    
+    const table = this.correlationTables.find(candidate => candidate.from === from && candidate.to === to);
+    const correlation = table?.correlations.find(entry => entry.from === cleanCode);
+    if (correlation) {
+      return { code: cleanCode, from, to, status: 'changed', candidates: correlation.to, note: correlation.note };
+    }
+    
+    // Without a table for these versions we cannot tell
+    return table
+      ? { code: cleanCode, from, to, status: 'unchanged', candidates: [cleanCode] }
+      : { code: cleanCode, from, to, status: 'unknown', candidates: [] };
+  }
   
   /**
    * Gets all chapters (2-digit HS codes)
@@ -26,6 +103,13 @@ export class HSCodeSelectionService {
     return headings.map(id => this.hsCodeData.nodes[id]);
   }
   
+  /**
+   * Whether every heading of the chapter is bundled, rather than only some of them
+   */
+  hasAllHeadings(chapterId: string): boolean {
+    return this.hsCodeData.completeChapters.includes(chapterId);
+  }
+  
   /**
    * Gets a specific heading by ID
    */
@@ -41,6 +125,13 @@ export class HSCodeSelectionService {
     return subheadings.map(id => this.hsCodeData.nodes[id]);
   }
   
+  /**
+   * Whether every subheading of the heading is bundled, rather than only some of them
+   */
+  hasAllSubheadings(headingId: string): boolean {
+    return this.hsCodeData.completeHeadings.includes(headingId);
+  }
+  
   /**
    * Gets a specific subheading by ID
    */
@@ -48,6 +139,56 @@ export class HSCodeSelectionService {
     return this.hsCodeData.nodes[subheadingId] || null;
   }
   
+  /**
+   * Gets the markets with bundled national tariff lines
+   */
+  getNationalTariffMarkets(): string[] {
+    return Object.keys(this.nationalTariffLines);
+  }
+  
+  /**
+   * Gets the bundled tariff of a market without its lines, e.g. to point users at its source
+   */
+  getNationalTariffSchedule(market: string): Omit<NationalTariffSchedule, 'lines'> | null {
+    const schedule = this.nationalTariffSchedules.find(candidate => candidate.market === market);
+    if (!schedule) return null;
+
+    const { lines, ...details } = schedule;
+    return details;
+  }
+  
+  /**
+   * Gets the national tariff lines of a market under a 6-digit subheading
+   */
+  getTariffLinesForSubheading(subheadingId: string, market: string): NationalTariffLine[] {
+    return this.nationalTariffLines[market]?.[subheadingId.replace(/\D/g, '')] || [];
+  }
+  
+  /**
+   * Gets a specific national tariff line by its full code
+   */
+  getTariffLine(code: string, market: string): NationalTariffLine | null {
+    const cleanCode = code.replace(/\D/g, '');
+    return this.getTariffLinesForSubheading(cleanCode.substring(0, 6), market)
+      .find(line => line.code === cleanCode) || null;
+  }
+  
+  /**
+   * Records a national code as confirmed for a product in a market
+   */
+  confirmTariffLine(code: string, market: string, confirmedAt: Date = new Date()): NationalTariffSelection | null {
+    const line = this.getTariffLine(code, market);
+    if (!line) return null;
+    
+    return {
+      market,
+      code: line.code,
+      subheading: line.subheading,
+      description: line.description,
+      confirmedAt: confirmedAt.toISOString()
+    };
+  }
+  
   /**
    * Gets the complete path from chapter to subheading
    */
@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+
+import { ingredientDictionary } from '@/data/labelling';
+import { extractENumbers, IngredientMatcher, parseIngredientList } from '../ingredient-matcher';
+
+describe('IngredientMatcher', () => {
+  const matcher = new IngredientMatcher(ingredientDictionary.restricted);
+
+  it('should match banned ingredients by synonym', () => {
+    const matches = matcher.match(['Beef (80%)', 'Smoked bacon pieces', 'Salt'], ['Pork']);
+
+    expect(matches).toEqual([{ name: 'Pork', ingredients: ['Smoked bacon pieces'] }]);
+  });
+
+  it('should match banned ingredients by E-number in any notation', () => {
+    const matches = matcher.match(['Gelling agent (E 441)', 'Colour: e-120', 'Flavouring (INS1510)'], ['Pork derivatives', 'Alcohol']);
+
+    expect(matches).toEqual([
+      { name: 'Pork derivatives', ingredients: ['Gelling agent (E 441)'] },
+      { name: 'Alcohol', ingredients: ['Flavouring (INS1510)'] }
+    ]);
+  });
+
+  it('should not match phrases the dictionary excludes', () => {
+    expect(matcher.match(['Bovine gelatine', 'Red wine vinegar'], ['Pork derivatives', 'Alcohol'])).toEqual([]);
+  });
+
+  it('should match unknown terms literally', () => {
+    expect(matcher.match(['Potassium bromate', 'Flour'], ['potassium bromate', 'Unapproved additives'])).toEqual([
+      { name: 'potassium bromate', ingredients: ['Potassium bromate'] }
+    ]);
+  });
+
+  it('should resolve synonyms to their dictionary entry', () => {
+    expect(matcher.resolve('Lard').name).toBe('Pork');
+  });
+
+  it('should parse printed ingredient lists outside brackets', () => {
+    expect(parseIngredientList('Ingredients: Beef, Spices (Pepper, Coriander); Salt,')).toEqual([
+      'Beef', 'Spices (Pepper, Coriander)', 'Salt'
+    ]);
+  });
+
+  it('should drop sub-letters from E-numbers', () => {
+    expect(extractENumbers('Caramel (E150a), E 330')).toEqual(['E150', 'E330']);
+  });
+});
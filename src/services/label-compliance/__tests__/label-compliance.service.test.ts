@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  ComplianceMCPResponse,
+  LabelingRequirements,
+  MarketSpecificCompliance
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { ProductLabel } from '@/types/label-compliance.types';
+import { LabelComplianceService } from '../label-compliance.service';
+
+const uaeLabeling: LabelingRequirements = {
+  nutritionLabelMandatory: false,
+  requiredLanguages: ['Arabic', 'English'],
+  specializedLabels: [{ type: 'Halal', required: true, details: 'Must display Halal certification mark' }],
+  shelfLifeMonths: 24,
+  ingredientRestrictions: { hasBannedIngredients: true, bannedList: ['Pork', 'Pork derivatives', 'Alcohol'] }
+};
+
+const ukLabeling: LabelingRequirements = {
+  nutritionLabelMandatory: true,
+  requiredLanguages: ['English'],
+  ingredientRestrictions: { hasBannedIngredients: true, bannedList: ['Unapproved additives'] }
+};
+
+const createLabel = (overrides: Partial<ProductLabel> = {}): ProductLabel => ({
+  productName: 'Beef biltong',
+  ingredients: ['Beef', 'Salt', 'Vinegar', 'Coriander'],
+  languages: ['en', 'ar'],
+  nutritionPanel: {
+    Energy: '1046 kJ', Fat: '3 g', Saturates: '1 g', Carbohydrate: '2 g', Sugars: '1 g', Protein: '55 g', Salt: '4 g'
+  },
+  shelfLifeMonths: 12,
+  marks: ['Halal'],
+  ...overrides
+});
+
+describe('LabelComplianceService', () => {
+  let service: LabelComplianceService;
+
+  beforeEach(() => {
+    service = new LabelComplianceService();
+  });
+
+  it('should pass a compliant label with a finding per rule', () => {
+    const result = service.checkLabel(createLabel(), uaeLabeling, 'AE');
+
+    expect(result.passed).toBe(true);
+    expect(result.findings.map(finding => finding.rule)).toEqual([
+      'requiredLanguages', 'shelfLifeMonths', 'ingredientRestrictions', 'specializedLabels'
+    ]);
+  });
+
+  it('should fail banned ingredients found through synonyms and E-numbers', () => {
+    const result = service.checkLabel(
+      createLabel({ ingredients: ['Beef', 'Lard', 'Gelling agent (E441)', 'Red wine vinegar'] }),
+      uaeLabeling,
+      'AE'
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.findings.find(finding => finding.rule === 'ingredientRestrictions')).toMatchObject({
+      status: 'fail',
+      details: ['Pork: Lard', 'Pork derivatives: Gelling agent (E441)']
+    });
+  });
+
+  it('should report missing languages, marks and excessive shelf life', () => {
+    const result = service.checkLabel(createLabel({ languages: ['English'], marks: [], shelfLifeMonths: 36 }), uaeLabeling, 'AE');
+
+    const failures = result.findings.filter(finding => finding.status === 'fail');
+    expect(failures.map(finding => finding.rule)).toEqual(['requiredLanguages', 'shelfLifeMonths', 'specializedLabels']);
+    expect(failures[0].details).toEqual(['Arabic']);
+  });
+
+  it('should check the nutrition panel against the market fields', () => {
+    const panel = { ...createLabel().nutritionPanel };
+    delete panel.Salt;
+    delete panel.Saturates;
+    const result = service.checkLabel(createLabel({ nutritionPanel: panel }), ukLabeling, 'GB');
+
+    expect(result.findings.find(finding => finding.rule === 'nutritionLabelMandatory')).toMatchObject({
+      status: 'fail',
+      details: ['saturates', 'salt']
+    });
+  });
+
+  it('should accept nutrition field aliases', () => {
+    const result = service.checkLabel(createLabel({
+      nutritionPanel: {
+        Calories: 250, 'Total fat': '3 g', 'Saturated fat': '1 g', 'Total carbohydrate': '2 g',
+        'Total sugars': '1 g', Protein: '55 g', Salt: '4 g'
+      }
+    }), ukLabeling, 'GB');
+
+    expect(result.passed).toBe(true);
+  });
+
+  it('should require allergens in the ingredients to be declared', () => {
+    const label = createLabel({ ingredients: ['Wheat flour', 'Cocoa butter', 'Soya lecithin', 'Sodium metabisulphite'] });
+
+    const undeclared = service.checkLabel({ ...label, allergens: ['Soy'] }, ukLabeling, 'GB');
+    expect(undeclared.findings.find(finding => finding.rule === 'allergenDeclaration')).toMatchObject({
+      status: 'fail',
+      details: ['Cereals containing gluten: Wheat flour', 'Sulphites: Sodium metabisulphite']
+    });
+
+    const declared = service.checkLabel({ ...label, allergens: ['Gluten', 'Soybeans', 'Sulphites'] }, ukLabeling, 'GB');
+    expect(declared.findings.find(finding => finding.rule === 'allergenDeclaration')?.status).toBe('pass');
+  });
+
+  it('should combine labelling requirements for a market from a compliance result', () => {
+    const compliance = {
+      requirements: [{
+        id: 'food-export-base',
+        name: 'Food export',
+        description: '',
+        isRequired: true,
+        countryCode: 'ZA',
+        productCategories: ['food'],
+        marketSpecificCompliance: [{ countryCode: 'AE', labeling: uaeLabeling } as MarketSpecificCompliance]
+      }],
+      totalEstimatedCost: { min: 0, max: 0, currency: 'ZAR' },
+      totalEstimatedTimelineInDays: 0,
+      marketSpecificCompliance: [{
+        countryCode: 'AE',
+        labeling: { nutritionLabelMandatory: true, requiredLanguages: ['arabic'], shelfLifeMonths: 18 }
+      } as MarketSpecificCompliance]
+    } as ComplianceMCPResponse;
+
+    expect(service.getLabelingRequirements(compliance, 'AE')).toMatchObject({
+      nutritionLabelMandatory: true,
+      requiredLanguages: ['arabic', 'English'],
+      shelfLifeMonths: 18,
+      ingredientRestrictions: { hasBannedIngredients: true, bannedList: ['Pork', 'Pork derivatives', 'Alcohol'] }
+    });
+    expect(service.getLabelingRequirements(compliance, 'GB')).toBeUndefined();
+  });
+});
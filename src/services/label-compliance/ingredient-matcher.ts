@@ -0,0 +1,104 @@
+import { IngredientDictionaryEntry } from '@/data/labelling';
+
+export interface IngredientMatch {
+  // Dictionary name of the matched ingredient, or the term itself when the dictionary doesn't know it
+  name: string;
+  // Ingredients on the label that contain it
+  ingredients: string[];
+}
+
+const E_NUMBER_PATTERN = /\b(?:e|ins)\s*-?\s*(\d{3,4})[a-z]?\b/gi;
+
+export const normaliseText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * E-numbers in the text, without sub-letters (E150a becomes E150)
+ */
+export const extractENumbers = (text: string): string[] =>
+  [...text.matchAll(E_NUMBER_PATTERN)].map(match => `E${match[1]}`);
+
+/**
+ * Split a printed ingredients list on commas and semicolons outside brackets
+ */
+export const parseIngredientList = (text: string): string[] => {
+  const ingredients: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    if ((char === ',' || char === ';') && depth === 0) {
+      ingredients.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  ingredients.push(current);
+
+  return ingredients.map(ingredient => ingredient.replace(/^ingredients\s*:/i, '').trim()).filter(Boolean);
+};
+
+/**
+ * Finds dictionary ingredients in label ingredient lists by synonym and E-number
+ */
+export class IngredientMatcher {
+  constructor(private entries: IngredientDictionaryEntry[]) {}
+
+  /**
+   * Dictionary entry for a term from a market's list, matched on name or synonym.
+   * Unknown terms match literally.
+   */
+  resolve(term: string): IngredientDictionaryEntry {
+    const normalised = normaliseText(term);
+    const known = this.entries.find(entry =>
+      normaliseText(entry.name) === normalised
+      || entry.synonyms.some(synonym => normaliseText(synonym) === normalised));
+
+    return known || { name: term, synonyms: [term], eNumbers: extractENumbers(term) };
+  }
+
+  /**
+   * Terms found in the ingredients, each with the ingredients that contain it
+   */
+  match(ingredients: string[], terms: string[]): IngredientMatch[] {
+    return terms
+      .map(term => this.resolve(term))
+      .map(entry => ({
+        name: entry.name,
+        ingredients: ingredients.filter(ingredient => this.contains(ingredient, entry))
+      }))
+      .filter(match => match.ingredients.length > 0);
+  }
+
+  /**
+   * Every dictionary entry found in the ingredients
+   */
+  findAll(ingredients: string[]): IngredientMatch[] {
+    return this.match(ingredients, this.entries.map(entry => entry.name));
+  }
+
+  contains(ingredient: string, entry: IngredientDictionaryEntry): boolean {
+    const eNumbers = extractENumbers(ingredient);
+    if (entry.eNumbers.some(eNumber => eNumbers.includes(eNumber.toUpperCase()))) {
+      return true;
+    }
+
+    let text = ` ${normaliseText(ingredient)} `;
+    for (const phrase of entry.except || []) {
+      text = text.split(` ${normaliseText(phrase)} `).join(' ');
+    }
+
+    return entry.synonyms.some(synonym => {
+      const phrase = normaliseText(synonym);
+      return [phrase, `${phrase}s`, `${phrase}es`].some(form => text.includes(` ${form} `));
+    });
+  }
+}
@@ -0,0 +1,210 @@
+import {
+  ComplianceMCPResponse,
+  LabelingRequirements
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import {
+  ingredientDictionary,
+  IngredientDictionary,
+  nutritionPanelReference,
+  NutritionPanelReference
+} from '@/data/labelling';
+import { LabelCheckResult, LabelFinding, ProductLabel } from '@/types/label-compliance.types';
+import { logger } from '@/utils/logger';
+import { IngredientMatcher, normaliseText } from './ingredient-matcher';
+
+const LANGUAGE_CODES: Record<string, string> = {
+  en: 'english',
+  ar: 'arabic',
+  fr: 'french',
+  de: 'german',
+  es: 'spanish',
+  pt: 'portuguese',
+  zh: 'chinese',
+  ja: 'japanese',
+  af: 'afrikaans'
+};
+
+/**
+ * Validates product label data against a market's labelling requirements
+ */
+export class LabelComplianceService {
+  private restrictedMatcher: IngredientMatcher;
+  private allergenMatcher: IngredientMatcher;
+
+  constructor(
+    dictionary: IngredientDictionary = ingredientDictionary,
+    private nutritionPanels: NutritionPanelReference = nutritionPanelReference
+  ) {
+    this.restrictedMatcher = new IngredientMatcher(dictionary.restricted);
+    this.allergenMatcher = new IngredientMatcher(dictionary.allergens);
+  }
+
+  /**
+   * Check a label against the market's requirements. Every rule the market sets
+   * produces a finding, so passes are reported as well as failures.
+   */
+  checkLabel(label: ProductLabel, requirements: LabelingRequirements, marketCode: string): LabelCheckResult {
+    const findings = [
+      this.checkLanguages(label, requirements),
+      this.checkNutritionPanel(label, requirements, marketCode),
+      this.checkShelfLife(label, requirements),
+      this.checkBannedIngredients(label, requirements),
+      ...this.checkSpecializedLabels(label, requirements),
+      this.checkAllergenDeclaration(label)
+    ].filter((finding): finding is LabelFinding => !!finding);
+
+    const passed = findings.every(finding => finding.status === 'pass');
+    logger.info(`Label check for ${label.productName} in ${marketCode}: ${passed ? 'passed' : 'failed'}`);
+
+    return { productName: label.productName, marketCode, passed, findings };
+  }
+
+  /**
+   * Labelling requirements for a market from a compliance result, combining
+   * country adapter and rule base conditions into the strictest set
+   */
+  getLabelingRequirements(compliance: ComplianceMCPResponse, marketCode: string): LabelingRequirements | undefined {
+    const sources = [
+      ...(compliance.marketSpecificCompliance || []),
+      ...compliance.requirements.flatMap(requirement => requirement.marketSpecificCompliance || [])
+    ]
+      .filter(market => market.countryCode === marketCode)
+      .map(market => market.labeling);
+
+    if (sources.length === 0) {
+      return undefined;
+    }
+
+    const shelfLives = sources.map(source => source.shelfLifeMonths).filter((months): months is number => months !== undefined);
+    const bannedList = this.distinct(sources.flatMap(source => source.ingredientRestrictions?.bannedList || []));
+    const specializedLabels = new Map(sources
+      .flatMap(source => source.specializedLabels || [])
+      .map(label => [normaliseText(label.type), label] as const));
+
+    return {
+      nutritionLabelMandatory: sources.some(source => source.nutritionLabelMandatory),
+      requiredLanguages: this.distinct(sources.flatMap(source => source.requiredLanguages)),
+      specializedLabels: [...specializedLabels.values()],
+      shelfLifeMonths: shelfLives.length > 0 ? Math.min(...shelfLives) : undefined,
+      ingredientRestrictions: {
+        hasBannedIngredients: sources.some(source => source.ingredientRestrictions?.hasBannedIngredients),
+        bannedList
+      }
+    };
+  }
+
+  private checkLanguages(label: ProductLabel, requirements: LabelingRequirements): LabelFinding | undefined {
+    if (requirements.requiredLanguages.length === 0) {
+      return undefined;
+    }
+
+    const present = label.languages.map(language => this.toLanguageName(language));
+    const missing = requirements.requiredLanguages.filter(language => !present.includes(this.toLanguageName(language)));
+
+    return missing.length > 0
+      ? { rule: 'requiredLanguages', status: 'fail', message: `Label must also be printed in ${missing.join(', ')}`, details: missing }
+      : { rule: 'requiredLanguages', status: 'pass', message: `Label is printed in ${requirements.requiredLanguages.join(', ')}` };
+  }
+
+  private checkNutritionPanel(label: ProductLabel, requirements: LabelingRequirements, marketCode: string): LabelFinding | undefined {
+    if (!requirements.nutritionLabelMandatory) {
+      return undefined;
+    }
+    if (!label.nutritionPanel || Object.keys(label.nutritionPanel).length === 0) {
+      return { rule: 'nutritionLabelMandatory', status: 'fail', message: 'A nutrition panel is mandatory in this market' };
+    }
+
+    const present = Object.keys(label.nutritionPanel).map(field => this.toNutritionField(field));
+    const required = this.nutritionPanels.markets[marketCode] || this.nutritionPanels.markets['*'];
+    const missing = required.filter(field => !present.includes(field));
+
+    return missing.length > 0
+      ? { rule: 'nutritionLabelMandatory', status: 'fail', message: `Nutrition panel is missing ${missing.join(', ')}`, details: missing }
+      : { rule: 'nutritionLabelMandatory', status: 'pass', message: 'Nutrition panel has every mandatory field' };
+  }
+
+  private checkShelfLife(label: ProductLabel, requirements: LabelingRequirements): LabelFinding | undefined {
+    const maximum = requirements.shelfLifeMonths;
+    if (maximum === undefined) {
+      return undefined;
+    }
+    if (label.shelfLifeMonths === undefined) {
+      return { rule: 'shelfLifeMonths', status: 'fail', message: 'Label must declare the shelf life or expiry date' };
+    }
+
+    return label.shelfLifeMonths > maximum
+      ? { rule: 'shelfLifeMonths', status: 'fail', message: `Shelf life of ${label.shelfLifeMonths} months exceeds the ${maximum} months the market allows` }
+      : { rule: 'shelfLifeMonths', status: 'pass', message: `Shelf life is within ${maximum} months` };
+  }
+
+  private checkBannedIngredients(label: ProductLabel, requirements: LabelingRequirements): LabelFinding | undefined {
+    const restrictions = requirements.ingredientRestrictions;
+    if (!restrictions?.hasBannedIngredients || !restrictions.bannedList?.length) {
+      return undefined;
+    }
+
+    const matches = this.restrictedMatcher.match(label.ingredients, restrictions.bannedList);
+    if (matches.length === 0) {
+      return { rule: 'ingredientRestrictions', status: 'pass', message: 'No banned ingredients found' };
+    }
+
+    return {
+      rule: 'ingredientRestrictions',
+      status: 'fail',
+      message: `Contains banned ingredients: ${matches.map(match => match.name).join(', ')}`,
+      details: matches.map(match => `${match.name}: ${match.ingredients.join(', ')}`)
+    };
+  }
+
+  private checkSpecializedLabels(label: ProductLabel, requirements: LabelingRequirements): LabelFinding[] {
+    const marks = (label.marks || []).map(mark => normaliseText(mark));
+
+    return (requirements.specializedLabels || [])
+      .filter(specialized => specialized.required)
+      .map((specialized): LabelFinding => marks.includes(normaliseText(specialized.type))
+        ? { rule: 'specializedLabels', status: 'pass', message: `${specialized.type} label is shown` }
+        : { rule: 'specializedLabels', status: 'fail', message: `${specialized.type} label is required: ${specialized.details}` });
+  }
+
+  /**
+   * Allergens found in the ingredients must be declared on the label
+   */
+  private checkAllergenDeclaration(label: ProductLabel): LabelFinding | undefined {
+    const found = this.allergenMatcher.findAll(label.ingredients);
+    if (found.length === 0) {
+      return undefined;
+    }
+
+    const declared = (label.allergens || []).map(allergen => this.allergenMatcher.resolve(allergen).name);
+    const undeclared = found.filter(match => !declared.includes(match.name));
+
+    return undeclared.length > 0
+      ? {
+        rule: 'allergenDeclaration',
+        status: 'fail',
+        message: `Allergens not declared: ${undeclared.map(match => match.name).join(', ')}`,
+        details: undeclared.map(match => `${match.name}: ${match.ingredients.join(', ')}`)
+      }
+      : { rule: 'allergenDeclaration', status: 'pass', message: 'All allergens in the ingredients are declared' };
+  }
+
+  private toLanguageName(language: string): string {
+    const normalised = normaliseText(language);
+    return LANGUAGE_CODES[normalised] || normalised;
+  }
+
+  private toNutritionField(field: string): string {
+    const normalised = normaliseText(field);
+    const canonical = Object.entries(this.nutritionPanels.fieldAliases)
+      .find(([, aliases]) => aliases.includes(normalised));
+    return canonical ? canonical[0] : normalised;
+  }
+
+  private distinct(values: string[]): string[] {
+    const seen = new Map<string, string>();
+    values.forEach(value => {
+      if (!seen.has(value.toLowerCase())) seen.set(value.toLowerCase(), value);
+    });
+    return [...seen.values()];
+  }
+}
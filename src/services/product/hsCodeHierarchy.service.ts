@@ -5,6 +5,8 @@ import { HSCodeTariffInfo, HSCodeSearchResult } from '../../mcp/global/hscode-ta
 import { ProductCategory } from './categoryBasedConsolidation.service';
 import { CacheService } from '../cache-service';
 import { safeSetImmediate } from '../../utils/logger';
+import { hsCodeData } from '../../data/hs-codes/hs-code-data';
+import { HSCodeNode as NomenclatureNode } from '../../data/hs-codes/types';
 
 /**
  * Represents an HS Code node in the hierarchy
@@ -15,6 +17,7 @@ interface HSCodeNode {
   level: 'chapter' | 'heading' | 'subheading';
   parent?: string;
   children?: string[];
+  childrenComplete?: boolean; // False when only some children are bundled so far
   notes?: string[];
   examples?: string[];
   confidence?: number;
@@ -151,8 +154,6 @@ export class HSCodeHierarchyService {
 
   /**
    * Get HS Code chapters (2-digit codes)
-   * 
-   * @throws Error if the WITS API service is not operational
    */
   async getHSCodeChapters(): Promise<HSCodeNode[]> {
     const cacheKey = `${this.cacheKeyPrefix}chapters`;
@@ -164,9 +165,10 @@ export class HSCodeHierarchyService {
     }
     
     try {
-      // This would be implemented to call the WITS API to get all chapters
-      // For now, we'll throw an error to indicate this needs implementation
-      throw new Error('WITS API direct chapter lookup not yet implemented');
+      // Chapters come from the bundled HS 2022 nomenclature rather than the WITS API
+      const chapters = hsCodeData.chapters.map(code => this.fromNomenclature(hsCodeData.nodes[code]));
+      this.cache.set(cacheKey, chapters);
+      return chapters;
     } catch (error) {
       console.error(`Failed to get HS code chapters: ${error}`);
       throw new Error(`Failed to retrieve HS code chapters: ${error instanceof Error ? error.message : String(error)}`);
@@ -177,7 +179,6 @@ export class HSCodeHierarchyService {
    * Get HS Code headings for a specific chapter
    * 
    * @param chapterCode The 2-digit chapter code
-   * @throws Error if the WITS API service is not operational
    */
   async getHSCodeHeadings(chapterCode: string): Promise<HSCodeNode[]> {
     if (!chapterCode || chapterCode.length !== 2) {
@@ -193,9 +194,13 @@ export class HSCodeHierarchyService {
     }
     
     try {
-      // This would be implemented to call the WITS API to get headings for a chapter
-      // For now, we'll throw an error to indicate this needs implementation
-      throw new Error(`WITS API direct heading lookup for chapter ${chapterCode} not yet implemented`);
+      const headings = (hsCodeData.headingsByChapter[chapterCode] || [])
+        .map(code => this.fromNomenclature(hsCodeData.nodes[code]));
+      if (!hsCodeData.completeChapters.includes(chapterCode)) {
+        console.warn(`Only ${headings.length} headings of chapter ${chapterCode} are bundled`);
+      }
+      this.cache.set(cacheKey, headings);
+      return headings;
     } catch (error) {
       console.error(`Failed to get HS code headings for chapter ${chapterCode}: ${error}`);
       throw new Error(`Failed to retrieve HS code headings: ${error instanceof Error ? error.message : String(error)}`);
@@ -206,7 +211,6 @@ export class HSCodeHierarchyService {
    * Get HS Code subheadings for a specific heading
    * 
    * @param headingCode The 4-digit heading code
-   * @throws Error if the WITS API service is not operational
    */
   async getHSCodeSubheadings(headingCode: string): Promise<HSCodeNode[]> {
     if (!headingCode || headingCode.length !== 4) {
@@ -222,9 +226,13 @@ export class HSCodeHierarchyService {
     }
     
     try {
-      // This would be implemented to call the WITS API to get subheadings for a heading
-      // For now, we'll throw an error to indicate this needs implementation
-      throw new Error(`WITS API direct subheading lookup for heading ${headingCode} not yet implemented`);
+      const subheadings = (hsCodeData.subheadingsByHeading[headingCode] || [])
+        .map(code => this.fromNomenclature(hsCodeData.nodes[code]));
+      if (!hsCodeData.completeHeadings.includes(headingCode)) {
+        console.warn(`Only ${subheadings.length} subheadings of heading ${headingCode} are bundled`);
+      }
+      this.cache.set(cacheKey, subheadings);
+      return subheadings;
     } catch (error) {
       console.error(`Failed to get HS code subheadings for heading ${headingCode}: ${error}`);
       throw new Error(`Failed to retrieve HS code subheadings: ${error instanceof Error ? error.message : String(error)}`);
@@ -255,7 +263,7 @@ export class HSCodeHierarchyService {
       const tariffInfo = await this.hsCodeService.getTariffByHsCode(hsCode);
       
       if (!tariffInfo || tariffInfo.length === 0) {
-        return null;
+        return this.getLocalDetails(hsCode);
       }
       
       // Transform the tariff info into an HSCodeNode
@@ -273,6 +281,11 @@ export class HSCodeHierarchyService {
       return this.transformNodeToSuggestion(node);
     } catch (error) {
       console.error(`Failed to get HS code details for ${hsCode}: ${error}`);
+      // Fall back to the bundled nomenclature when the API is unavailable
+      const localDetails = this.getLocalDetails(hsCode);
+      if (localDetails) {
+        return localDetails;
+      }
       throw new Error(`Failed to retrieve HS code details: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -366,6 +379,37 @@ export class HSCodeHierarchyService {
     }
   }
   
+  /**
+   * Details of a code from the bundled nomenclature, or null when it isn't bundled
+   */
+  private getLocalDetails(hsCode: string): HSCodeSuggestion | null {
+    const node = hsCodeData.nodes[hsCode.replace(/\./g, '')];
+    return node ? this.transformNodeToSuggestion(this.fromNomenclature(node)) : null;
+  }
+  
+  /**
+   * Convert a node of the bundled nomenclature, carrying its legal notes along
+   */
+  private fromNomenclature(node: NomenclatureNode): HSCodeNode {
+    const children = node.level === 'chapter'
+      ? hsCodeData.headingsByChapter[node.code]
+      : node.level === 'heading' ? hsCodeData.subheadingsByHeading[node.code] : undefined;
+    
+    return {
+      code: node.code,
+      description: node.description,
+      level: node.level,
+      parent: node.parentId,
+      children,
+      childrenComplete: node.level === 'chapter'
+        ? hsCodeData.completeChapters.includes(node.code)
+        : node.level === 'heading' ? hsCodeData.completeHeadings.includes(node.code) : undefined,
+      notes: [...(node.notes || []), ...(node.exclusions || []).map(exclusion =>
+        `Excludes ${exclusion.description.toLowerCase()} (see ${exclusion.see.join(', ')})`)],
+      examples: node.examples
+    };
+  }
+  
   /**
    * Transform an HSCodeNode to an HSCodeSuggestion
    */
@@ -0,0 +1,220 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  ComplianceMCP,
+  ComplianceMCPResponse,
+  ComplianceRequest,
+  MarketSpecificCompliance
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { ComplianceMCPService } from '@/mcp/compliance-mcp/compliance-mcp.service';
+import { CountryComplianceAdapterRegistry } from '@/mcp/compliance-mcp/adapters/country-compliance-registry';
+import { ComplianceRuleBase } from '@/mcp/compliance-mcp/rules/compliance-rule-base.service';
+import { complianceRuleFiles } from '@/data/compliance-rules';
+import { CurrencyService } from '@/services/currency/currency.service';
+import { MemoryKeyValueStorage } from '@/utils/key-value-storage';
+import { ComplianceSnapshotStore } from '../compliance-snapshot.store';
+import { RegulatoryChangeAlertStore } from '../regulatory-change-alert.store';
+import { RegulatoryChangeTracker } from '../regulatory-change-tracker.service';
+import { LocalEmailNotifier, LocalWebhookNotifier, RegulatoryChangeNotifier } from '../regulatory-change-notifier';
+
+const request: ComplianceRequest = {
+  productCategories: ['Food Products'],
+  targetMarkets: ['GB'],
+  businessProfile: {
+    primaryContact: { name: 'Thandi Mokoena', email: 'exports@brownsfoods.co.za' }
+  } as ComplianceRequest['businessProfile'],
+  asOf: '2025-03-01',
+  products: [{ name: 'Beef burgers', category: 'Food Products', hsCode: '160250' }]
+};
+
+const market = (tariffRatePercentage: number, banDetails?: string): MarketSpecificCompliance => ({
+  countryCode: 'GB',
+  tariffAndTrade: { tariffRatePercentage, hasQuotaRestrictions: false, hasProductBans: !!banDetails, banDetails }
+} as MarketSpecificCompliance);
+
+const response = (overrides: Partial<ComplianceMCPResponse> = {}): ComplianceMCPResponse => ({
+  requirements: [
+    { id: 'gb-ipaffs', name: 'IPAFFS pre-notification', description: '', isRequired: true, countryCode: 'GB', productCategories: [] },
+    { id: 'gb-hfss', name: 'HFSS labelling', description: '', isRequired: false, countryCode: 'GB', productCategories: [] }
+  ],
+  totalEstimatedCost: { min: 0, max: 0, currency: 'USD' },
+  totalEstimatedTimelineInDays: 0,
+  ruleBaseVersions: { GB: '2025.1' },
+  marketSpecificCompliance: [market(0)],
+  ...overrides
+});
+
+describe('RegulatoryChangeTracker', () => {
+  let current: ComplianceMCPResponse;
+  let email: LocalEmailNotifier;
+  let webhook: LocalWebhookNotifier;
+  let tracker: RegulatoryChangeTracker;
+  let now: Date;
+
+  beforeEach(() => {
+    current = response();
+    now = new Date('2025-03-01T00:00:00Z');
+    email = new LocalEmailNotifier();
+    webhook = new LocalWebhookNotifier();
+    const compliance: ComplianceMCP = { getRequirements: async () => current };
+    tracker = new RegulatoryChangeTracker(compliance, [email, webhook], new ComplianceSnapshotStore(), new RegulatoryChangeAlertStore(), () => now);
+  });
+
+  it('should not alert when nothing changed', async () => {
+    await tracker.trackAssessment('browns', request);
+
+    expect(await tracker.checkForChanges()).toEqual([]);
+    expect(email.outbox).toEqual([]);
+  });
+
+  it('should alert on new mandatory requirements, tariff changes and bans', async () => {
+    await tracker.trackAssessment('browns', request);
+    current = response({
+      requirements: [
+        ...response().requirements.map(requirement => ({ ...requirement, isRequired: true })),
+        { id: 'gb-bse', name: 'BSE controls', description: '', isRequired: true, countryCode: 'GB', productCategories: [] }
+      ],
+      ruleBaseVersions: { GB: '2025.2' },
+      marketSpecificCompliance: [market(8, 'Beef from non-listed establishments')]
+    });
+    now = new Date('2025-04-01T00:00:00Z');
+
+    const alerts = await tracker.checkForChanges();
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      id: 'browns:2025-04-01T00:00:00.000Z',
+      contactEmail: 'exports@brownsfoods.co.za',
+      ruleBaseVersions: { previous: { GB: '2025.1' }, current: { GB: '2025.2' } }
+    });
+    expect(alerts[0].changes.map(change => [change.type, change.summary])).toEqual([
+      ['new-mandatory-requirement', 'HFSS labelling is now mandatory'],
+      ['new-mandatory-requirement', 'New mandatory requirement: BSE controls'],
+      ['tariff-change', 'Tariff rate changed from 0% to 8%'],
+      ['new-ban', 'New product ban: Beef from non-listed establishments']
+    ]);
+    expect(email.outbox).toEqual([expect.objectContaining({
+      to: 'exports@brownsfoods.co.za',
+      subject: '4 regulatory changes affect your export assessment'
+    })]);
+    expect(email.outbox[0].text).toContain('- [GB] New mandatory requirement: BSE controls');
+    expect(webhook.deliveries[0].payload.detectedAt).toBe('2025-04-01T00:00:00.000Z');
+  });
+
+  it('should report each change only once', async () => {
+    await tracker.trackAssessment('browns', request);
+    current = response({ marketSpecificCompliance: [market(8)] });
+
+    expect(await tracker.checkForChanges()).toHaveLength(1);
+    expect(await tracker.checkForChanges()).toHaveLength(0);
+  });
+
+  it('should report changed preferential rates and removed requirements', async () => {
+    const preferential = (eligible: boolean): MarketSpecificCompliance => ({
+      ...market(0),
+      tariffAndTrade: {
+        ...market(0).tariffAndTrade,
+        preferentialTariffs: [{ hsCode: '160250', productName: 'Beef burgers', eligible, agreement: 'UK–SACUM EPA', rate: eligible ? 0 : undefined }]
+      }
+    });
+    current = response({ marketSpecificCompliance: [preferential(true)] });
+    await tracker.trackAssessment('browns', request);
+    current = response({ requirements: [response().requirements[0]], marketSpecificCompliance: [preferential(false)] });
+
+    const [alert] = await tracker.checkForChanges();
+
+    expect(alert.changes).toEqual([
+      expect.objectContaining({ type: 'requirement-removed', requirementId: 'gb-hfss' }),
+      expect.objectContaining({ type: 'tariff-change', hsCode: '160250', summary: 'Beef burgers no longer qualifies for UK–SACUM EPA', previous: 0 })
+    ]);
+  });
+
+  it('should only re-check assessments when the loaded rule base versions differ', async () => {
+    const getRequirements = jest.fn(async () => current);
+    tracker = new RegulatoryChangeTracker({ getRequirements }, [email], new ComplianceSnapshotStore(), new RegulatoryChangeAlertStore(), () => now);
+    await tracker.trackAssessment('browns', request);
+    getRequirements.mockClear();
+
+    expect(await tracker.checkForRuleBaseChanges({ GB: '2025.1' })).toEqual([]);
+    expect(getRequirements).not.toHaveBeenCalled();
+
+    current = response({ ruleBaseVersions: { GB: '2025.2' }, marketSpecificCompliance: [market(8)] });
+    expect(await tracker.checkForRuleBaseChanges({ GB: '2025.2' })).toHaveLength(1);
+    expect(await tracker.checkForRuleBaseChanges({ GB: '2025.2' })).toEqual([]);
+  });
+
+  it('should keep notifying other channels when one fails', async () => {
+    const failing: RegulatoryChangeNotifier = { name: 'broken', notify: async () => { throw new Error('down'); } };
+    const compliance: ComplianceMCP = { getRequirements: async () => current };
+    tracker = new RegulatoryChangeTracker(compliance, [failing, webhook], new ComplianceSnapshotStore(), new RegulatoryChangeAlertStore(), () => now);
+    await tracker.trackAssessment('browns', request);
+    current = response({ marketSpecificCompliance: [market(8)] });
+
+    expect(await tracker.checkForChanges()).toHaveLength(1);
+    expect(webhook.deliveries).toHaveLength(1);
+  });
+
+  it('should store alerts for users to read back', async () => {
+    await tracker.trackAssessment('browns', request);
+    current = response({ marketSpecificCompliance: [market(8)] });
+    const [alert] = await tracker.checkForChanges();
+
+    expect(tracker.getAlerts('browns')).toEqual([alert]);
+    expect(tracker.getAlerts('organic-tea')).toEqual([]);
+  });
+
+  it('should report a change again when its alert was neither stored nor delivered', async () => {
+    const failing: RegulatoryChangeNotifier = { name: 'broken', notify: async () => { throw new Error('down'); } };
+    const unwritable = new MemoryKeyValueStorage();
+    unwritable.setItem = () => { throw new Error('disk full'); };
+    const compliance: ComplianceMCP = { getRequirements: async () => current };
+    tracker = new RegulatoryChangeTracker(
+      compliance, [failing], new ComplianceSnapshotStore(), new RegulatoryChangeAlertStore(unwritable), () => now
+    );
+    await tracker.trackAssessment('browns', request);
+    current = response({ marketSpecificCompliance: [market(8)] });
+
+    expect(await tracker.checkForChanges()).toHaveLength(1);
+    expect(await tracker.checkForChanges()).toHaveLength(1);
+  });
+
+  it('should find assessments affected by newly loaded rule data', async () => {
+    const createCompliance = (ruleFiles: typeof complianceRuleFiles) => new ComplianceMCPService(
+      new CurrencyService(),
+      new ComplianceRuleBase(ruleFiles),
+      new CountryComplianceAdapterRegistry()
+    );
+    tracker = new RegulatoryChangeTracker(createCompliance(complianceRuleFiles), [email], new ComplianceSnapshotStore(), new RegulatoryChangeAlertStore(), () => now);
+    await tracker.trackAssessment('browns', request);
+    await tracker.trackAssessment('organic-tea', { ...request, targetMarkets: ['AE'], products: [{ category: 'Beverages', hsCode: '090240' }] });
+
+    const gbRules = complianceRuleFiles.find(file => file.name === 'gb.json')!.data as { version: string; rules: object[] };
+    const updatedRules = complianceRuleFiles.map(file => file.name !== 'gb.json' ? file : {
+      name: file.name,
+      data: {
+        ...gbRules,
+        version: '2025.2',
+        rules: [...gbRules.rules, {
+          id: 'gb-meat-bse-controls',
+          name: 'BSE controls for bovine products',
+          description: 'Bovine products need proof of BSE controls',
+          isRequired: true,
+          effectiveFrom: '2025-02-01',
+          source: { title: 'Test regulation', url: 'https://example.org/bse' },
+          appliesTo: { hsChapters: ['02', '16'] }
+        }]
+      }
+    });
+
+    const alerts = await tracker.checkForChanges(createCompliance(updatedRules));
+
+    expect(alerts.map(alert => alert.assessmentId)).toEqual(['browns']);
+    expect(alerts[0].changes).toEqual([expect.objectContaining({
+      type: 'new-mandatory-requirement',
+      requirementId: 'gb-meat-bse-controls'
+    })]);
+    expect(alerts[0].ruleBaseVersions.current).toMatchObject({ GB: '2025.2' });
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  ComplianceMCPResponse,
+  ComplianceRequest,
+  MarketSpecificCompliance
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import {
+  ComplianceSnapshot,
+  RegulatoryChange,
+  SnapshotMarketTerms
+} from '@/types/regulatory-change.types';
+
+/**
+ * Captures what a compliance result committed an assessment to, and finds
+ * what changed between two captures
+ */
+export class ComplianceChangeDetector {
+  createSnapshot(
+    assessmentId: string,
+    request: ComplianceRequest,
+    response: ComplianceMCPResponse,
+    capturedAt: Date
+  ): ComplianceSnapshot {
+    return {
+      assessmentId,
+      capturedAt,
+      request,
+      ruleBaseVersions: response.ruleBaseVersions || {},
+      requirements: response.requirements.map(requirement => ({
+        id: requirement.id,
+        name: requirement.name,
+        countryCode: requirement.countryCode,
+        isRequired: requirement.isRequired
+      })),
+      markets: this.getMarketTerms(response)
+    };
+  }
+
+  compare(previous: ComplianceSnapshot, current: ComplianceSnapshot): RegulatoryChange[] {
+    return [
+      ...this.compareRequirements(previous, current),
+      ...this.compareMarkets(previous, current)
+    ];
+  }
+
+  private compareRequirements(previous: ComplianceSnapshot, current: ComplianceSnapshot): RegulatoryChange[] {
+    const before = new Map(previous.requirements.map(requirement => [requirement.id, requirement]));
+    const after = new Map(current.requirements.map(requirement => [requirement.id, requirement]));
+    const changes: RegulatoryChange[] = [];
+
+    for (const requirement of after.values()) {
+      const earlier = before.get(requirement.id);
+      if (requirement.isRequired && !earlier?.isRequired) {
+        changes.push({
+          type: 'new-mandatory-requirement',
+          marketCode: requirement.countryCode,
+          requirementId: requirement.id,
+          summary: earlier
+            ? `${requirement.name} is now mandatory`
+            : `New mandatory requirement: ${requirement.name}`
+        });
+      }
+    }
+
+    for (const requirement of before.values()) {
+      if (!after.has(requirement.id)) {
+        changes.push({
+          type: 'requirement-removed',
+          marketCode: requirement.countryCode,
+          requirementId: requirement.id,
+          summary: `${requirement.name} no longer applies`
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  private compareMarkets(previous: ComplianceSnapshot, current: ComplianceSnapshot): RegulatoryChange[] {
+    const changes: RegulatoryChange[] = [];
+
+    for (const market of current.markets) {
+      const earlier = previous.markets.find(entry => entry.countryCode === market.countryCode);
+      if (!earlier) {
+        continue;
+      }
+
+      if (market.tariffRatePercentage !== earlier.tariffRatePercentage) {
+        changes.push({
+          type: 'tariff-change',
+          marketCode: market.countryCode,
+          summary: `Tariff rate changed from ${earlier.tariffRatePercentage}% to ${market.tariffRatePercentage}%`,
+          previous: earlier.tariffRatePercentage,
+          current: market.tariffRatePercentage
+        });
+      }
+
+      for (const tariff of market.preferentialTariffs) {
+        const before = earlier.preferentialTariffs.find(entry => entry.hsCode === tariff.hsCode);
+        if (!before || (before.eligible === tariff.eligible && before.rate === tariff.rate)) {
+          continue;
+        }
+        changes.push({
+          type: 'tariff-change',
+          marketCode: market.countryCode,
+          hsCode: tariff.hsCode,
+          summary: before.eligible && !tariff.eligible
+            ? `${tariff.productName || tariff.hsCode} no longer qualifies for ${before.agreement}`
+            : `Preferential rate for ${tariff.productName || tariff.hsCode} changed`,
+          previous: before.eligible ? before.rate : undefined,
+          current: tariff.eligible ? tariff.rate : undefined
+        });
+      }
+
+      if (market.hasProductBans && (!earlier.hasProductBans || market.banDetails !== earlier.banDetails)) {
+        changes.push({
+          type: 'new-ban',
+          marketCode: market.countryCode,
+          summary: market.banDetails ? `New product ban: ${market.banDetails}` : 'New product ban',
+          previous: earlier.banDetails,
+          current: market.banDetails
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Tariff and ban conditions per market, from country adapters first and then the rules
+   */
+  private getMarketTerms(response: ComplianceMCPResponse): SnapshotMarketTerms[] {
+    const sources: MarketSpecificCompliance[] = [
+      ...(response.marketSpecificCompliance || []),
+      ...response.requirements.flatMap(requirement => requirement.marketSpecificCompliance || [])
+    ];
+    const markets = new Map<string, SnapshotMarketTerms>();
+
+    for (const source of sources) {
+      const tariffAndTrade = source.tariffAndTrade;
+      const existing = markets.get(source.countryCode);
+      if (!existing) {
+        markets.set(source.countryCode, {
+          countryCode: source.countryCode,
+          tariffRatePercentage: tariffAndTrade.tariffRatePercentage,
+          preferentialTariffs: tariffAndTrade.preferentialTariffs || [],
+          hasProductBans: tariffAndTrade.hasProductBans,
+          banDetails: tariffAndTrade.banDetails
+        });
+      } else if (tariffAndTrade.hasProductBans && !existing.hasProductBans) {
+        existing.hasProductBans = true;
+        existing.banDetails = tariffAndTrade.banDetails;
+      }
+    }
+
+    return [...markets.values()];
+  }
+}
@@ -0,0 +1,74 @@
+import { ComplianceSnapshot } from '@/types/regulatory-change.types';
+import { KeyValueStorage, resolveKeyValueStorage } from '@/utils/key-value-storage';
+import { logger } from '@/utils/logger';
+
+const STORAGE_KEY_PREFIX = 'complianceSnapshot:';
+const INDEX_KEY = `${STORAGE_KEY_PREFIX}index`;
+
+/**
+ * Persists the latest compliance snapshot of each saved assessment
+ */
+export class ComplianceSnapshotStore {
+  private storage: KeyValueStorage;
+
+  /**
+   * Server code should pass durable storage such as FileKeyValueStorage;
+   * without one, snapshots only last as long as the process
+   */
+  constructor(storage?: KeyValueStorage) {
+    this.storage = resolveKeyValueStorage(storage);
+  }
+
+  save(snapshot: ComplianceSnapshot): void {
+    try {
+      this.storage.setItem(this.getStorageKey(snapshot.assessmentId), JSON.stringify(snapshot));
+      const ids = this.listAssessmentIds();
+      if (!ids.includes(snapshot.assessmentId)) {
+        this.storage.setItem(INDEX_KEY, JSON.stringify([...ids, snapshot.assessmentId]));
+      }
+    } catch (error) {
+      logger.error(`Failed to persist compliance snapshot for ${snapshot.assessmentId}: ${error}`);
+    }
+  }
+
+  get(assessmentId: string): ComplianceSnapshot | undefined {
+    try {
+      const stored = this.storage.getItem(this.getStorageKey(assessmentId));
+      if (!stored) {
+        return undefined;
+      }
+
+      // JSON round-tripping turns dates into strings, so restore them
+      const snapshot = JSON.parse(stored) as ComplianceSnapshot;
+      return { ...snapshot, capturedAt: new Date(snapshot.capturedAt) };
+    } catch (error) {
+      logger.warn(`Failed to read compliance snapshot for ${assessmentId}: ${error}`);
+      return undefined;
+    }
+  }
+
+  listAssessmentIds(): string[] {
+    try {
+      const stored = this.storage.getItem(INDEX_KEY);
+      return stored ? JSON.parse(stored) as string[] : [];
+    } catch (error) {
+      logger.warn(`Failed to read compliance snapshot index: ${error}`);
+      return [];
+    }
+  }
+
+  list(): ComplianceSnapshot[] {
+    return this.listAssessmentIds()
+      .map(assessmentId => this.get(assessmentId))
+      .filter((snapshot): snapshot is ComplianceSnapshot => !!snapshot);
+  }
+
+  remove(assessmentId: string): void {
+    this.storage.removeItem(this.getStorageKey(assessmentId));
+    this.storage.setItem(INDEX_KEY, JSON.stringify(this.listAssessmentIds().filter(id => id !== assessmentId)));
+  }
+
+  private getStorageKey(assessmentId: string): string {
+    return `${STORAGE_KEY_PREFIX}${assessmentId}`;
+  }
+}
@@ -0,0 +1,52 @@
+import { RegulatoryChangeAlert } from '@/types/regulatory-change.types';
+import { KeyValueStorage, resolveKeyValueStorage } from '@/utils/key-value-storage';
+import { logger } from '@/utils/logger';
+
+const STORAGE_KEY = 'regulatoryChangeAlerts';
+
+/**
+ * Persists every regulatory change alert so it can be shown to users,
+ * whether or not a notifier managed to deliver it
+ */
+export class RegulatoryChangeAlertStore {
+  private storage: KeyValueStorage;
+
+  /**
+   * Server code should pass durable storage such as FileKeyValueStorage;
+   * without one, alerts only last as long as the process
+   */
+  constructor(storage?: KeyValueStorage) {
+    this.storage = resolveKeyValueStorage(storage);
+  }
+
+  /**
+   * Returns whether the alert was persisted
+   */
+  save(alert: RegulatoryChangeAlert): boolean {
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify([...this.list(), alert]));
+      return true;
+    } catch (error) {
+      logger.error(`Failed to persist regulatory change alert ${alert.id}: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Alerts oldest first, optionally only those of one assessment
+   */
+  list(assessmentId?: string): RegulatoryChangeAlert[] {
+    try {
+      const stored = this.storage.getItem(STORAGE_KEY);
+      const alerts = stored ? JSON.parse(stored) as RegulatoryChangeAlert[] : [];
+
+      // JSON round-tripping turns dates into strings, so restore them
+      return alerts
+        .filter(alert => !assessmentId || alert.assessmentId === assessmentId)
+        .map(alert => ({ ...alert, detectedAt: new Date(alert.detectedAt) }));
+    } catch (error) {
+      logger.warn(`Failed to read regulatory change alerts: ${error}`);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import axios from 'axios';
+import { RegulatoryChangeAlert } from '@/types/regulatory-change.types';
+
+/**
+ * Delivers regulatory change alerts to users
+ */
+export interface RegulatoryChangeNotifier {
+  name: string;
+  notify(alert: RegulatoryChangeAlert): Promise<void>;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export const formatAlertSubject = (alert: RegulatoryChangeAlert): string =>
+  `${alert.changes.length} regulatory ${alert.changes.length === 1 ? 'change affects' : 'changes affect'} your export assessment`;
+
+export const formatAlertText = (alert: RegulatoryChangeAlert): string => [
+  `Compliance rules changed for assessment ${alert.assessmentId}:`,
+  '',
+  ...alert.changes.map(change => `- [${change.marketCode}] ${change.summary}`),
+  '',
+  'Re-run the assessment to update your report and action plan.'
+].join('\n');
+
+/**
+ * Posts alerts as JSON to a webhook URL
+ */
+export class WebhookNotifier implements RegulatoryChangeNotifier {
+  name = 'webhook';
+
+  constructor(private url: string) {}
+
+  async notify(alert: RegulatoryChangeAlert): Promise<void> {
+    await axios.post(this.url, alert);
+  }
+}
+
+/**
+ * Local stand-in for an email provider; keeps sent messages in an outbox
+ */
+export class LocalEmailNotifier implements RegulatoryChangeNotifier {
+  name = 'local-email';
+  outbox: EmailMessage[] = [];
+
+  async notify(alert: RegulatoryChangeAlert): Promise<void> {
+    if (!alert.contactEmail) {
+      throw new Error(`No contact email for assessment ${alert.assessmentId}`);
+    }
+
+    this.outbox.push({
+      to: alert.contactEmail,
+      subject: formatAlertSubject(alert),
+      text: formatAlertText(alert)
+    });
+  }
+}
+
+/**
+ * Local stand-in for a webhook endpoint; keeps delivered payloads in memory
+ */
+export class LocalWebhookNotifier implements RegulatoryChangeNotifier {
+  name = 'local-webhook';
+  deliveries: Array<{ url: string; payload: RegulatoryChangeAlert }> = [];
+
+  constructor(private url = 'http://localhost/webhooks/regulatory-changes') {}
+
+  async notify(alert: RegulatoryChangeAlert): Promise<void> {
+    // Round-trip through JSON so payloads look as they would over the wire
+    this.deliveries.push({ url: this.url, payload: JSON.parse(JSON.stringify(alert)) });
+  }
+}
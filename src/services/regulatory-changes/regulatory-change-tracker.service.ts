@@ -0,0 +1,130 @@
+import {
+  ComplianceMCP,
+  ComplianceMCPResponse,
+  ComplianceRequest
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { ComplianceSnapshot, RegulatoryChangeAlert } from '@/types/regulatory-change.types';
+import { logger } from '@/utils/logger';
+import { ComplianceChangeDetector } from './compliance-change-detector';
+import { ComplianceSnapshotStore } from './compliance-snapshot.store';
+import { RegulatoryChangeAlertStore } from './regulatory-change-alert.store';
+import { RegulatoryChangeNotifier } from './regulatory-change-notifier';
+
+/**
+ * Snapshots the compliance result behind each saved assessment and alerts
+ * users when newer rule data changes what their assessment depends on
+ */
+export class RegulatoryChangeTracker {
+  private detector = new ComplianceChangeDetector();
+
+  constructor(
+    private compliance: ComplianceMCP,
+    private notifiers: RegulatoryChangeNotifier[] = [],
+    private store: ComplianceSnapshotStore = new ComplianceSnapshotStore(),
+    private alertStore: RegulatoryChangeAlertStore = new RegulatoryChangeAlertStore(),
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Record the compliance result a saved assessment relied on. The result is
+   * fetched when the caller doesn't already have it.
+   */
+  async trackAssessment(
+    assessmentId: string,
+    request: ComplianceRequest,
+    response?: ComplianceMCPResponse
+  ): Promise<ComplianceSnapshot> {
+    const result = response || await this.compliance.getRequirements(request);
+    const snapshot = this.detector.createSnapshot(assessmentId, request, result, this.now());
+
+    this.store.save(snapshot);
+    logger.info(`Tracking compliance for assessment ${assessmentId} (${snapshot.requirements.length} requirements)`);
+    return snapshot;
+  }
+
+  untrackAssessment(assessmentId: string): void {
+    this.store.remove(assessmentId);
+  }
+
+  /**
+   * Re-run every tracked assessment, typically after new rule data is loaded,
+   * and notify users whose assessments are affected. Snapshots only move forward
+   * once an alert is stored or delivered, so each change is reported exactly once.
+   */
+  async checkForChanges(compliance: ComplianceMCP = this.compliance): Promise<RegulatoryChangeAlert[]> {
+    const alerts: RegulatoryChangeAlert[] = [];
+
+    for (const previous of this.store.list()) {
+      try {
+        const response = await compliance.getRequirements(previous.request);
+        const current = this.detector.createSnapshot(previous.assessmentId, previous.request, response, this.now());
+        const changes = this.detector.compare(previous, current);
+
+        if (changes.length > 0) {
+          const alert: RegulatoryChangeAlert = {
+            id: `${previous.assessmentId}:${current.capturedAt.toISOString()}`,
+            assessmentId: previous.assessmentId,
+            detectedAt: current.capturedAt,
+            contactEmail: previous.request.businessProfile?.primaryContact?.email,
+            changes,
+            ruleBaseVersions: { previous: previous.ruleBaseVersions, current: current.ruleBaseVersions }
+          };
+          const stored = this.alertStore.save(alert);
+          const delivered = await this.notify(alert);
+          alerts.push(alert);
+
+          if (!stored && delivered === 0) {
+            logger.warn(`Alert for assessment ${previous.assessmentId} was neither stored nor delivered, will report it again`);
+            continue;
+          }
+        }
+
+        this.store.save(current);
+      } catch (error) {
+        logger.error(`Failed to check assessment ${previous.assessmentId} for regulatory changes: ${error}`);
+      }
+    }
+
+    logger.info(`Regulatory change check found ${alerts.length} affected assessments`);
+    return alerts;
+  }
+
+  /**
+   * Check tracked assessments when rule data newer than their snapshots has been
+   * loaded, e.g. at server start after a rule base update. Does nothing otherwise.
+   */
+  async checkForRuleBaseChanges(ruleBaseVersions: Record<string, string>): Promise<RegulatoryChangeAlert[]> {
+    const outdated = this.store.list().filter(snapshot =>
+      Object.entries(ruleBaseVersions).some(([market, version]) => snapshot.ruleBaseVersions[market] !== version));
+    if (outdated.length === 0) {
+      return [];
+    }
+
+    logger.info(`Rule base versions changed for ${outdated.length} tracked assessments, checking for regulatory changes`);
+    return this.checkForChanges();
+  }
+
+  /**
+   * Alerts stored for an assessment, or for all assessments
+   */
+  getAlerts(assessmentId?: string): RegulatoryChangeAlert[] {
+    return this.alertStore.list(assessmentId);
+  }
+
+  /**
+   * A failing channel shouldn't stop the others from delivering.
+   * Returns how many notifiers delivered the alert.
+   */
+  private async notify(alert: RegulatoryChangeAlert): Promise<number> {
+    let delivered = 0;
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier.notify(alert);
+        delivered++;
+      } catch (error) {
+        logger.warn(`${notifier.name} notifier failed for assessment ${alert.assessmentId}: ${error}`);
+      }
+    }
+    return delivered;
+  }
+}
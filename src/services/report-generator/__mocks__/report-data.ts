@@ -0,0 +1,147 @@
+import { ReportData } from '@/types/report.types';
+
+/**
+ * Browns Foods-style report used by report export tests
+ */
+export const createMockReportData = (): ReportData => ({
+  businessProfile: {
+    name: 'Browns Foods',
+    description: 'Frozen food manufacturer',
+    industry: 'Food Processing',
+    location: 'South Africa',
+    websiteUrl: 'https://brownsfoods.co.za',
+    contactInfo: {}
+  },
+  selectedProducts: [
+    {
+      id: 'p1',
+      name: 'Frozen Beef Burgers',
+      description: 'Frozen beef patties',
+      category: 'Food Products - Frozen/Canned Goods',
+      categoryId: 'food',
+      subcategoryId: 'frozen',
+      specifications: {},
+      hsCode: '160250'
+    }
+  ],
+  productionCapacity: { monthlyCapacity: 5000, unit: 'kg', leadTime: 21, minimumOrderQuantity: 500 },
+  marketInfo: {
+    targetMarkets: [
+      { id: 'gb', code: 'GB', name: 'United Kingdom' },
+      { id: 'ae', code: 'AE', name: 'United Arab Emirates' }
+    ],
+    existingMarkets: [],
+    competitorAnalysis: ''
+  },
+  certifications: [],
+  budget: {
+    amount: 250000,
+    currency: 'ZAR',
+    timeline: 12,
+    allocation: { certifications: 40, marketing: 30, logistics: 20, other: 10 }
+  },
+  marketOverview: [
+    {
+      marketCode: 'GB',
+      marketName: 'United Kingdom',
+      marketSize: 12500000,
+      marketCurrency: 'GBP',
+      marketSizeInBudgetCurrency: 291930379.75,
+      growthRate: 3.5,
+      keyCompetitors: [{ name: 'Birds Eye', marketShare: 18 }],
+      entryBarriers: ['Strict food safety standards'],
+      opportunities: ['Growing demand for convenience foods'],
+      risks: ['Currency fluctuation'],
+      productSpecificInsights: []
+    }
+  ],
+  certificationRoadmap: {
+    requirements: [
+      {
+        id: 'haccp-cert',
+        name: 'HACCP Certification',
+        description: 'Food safety certification',
+        isRequired: true,
+        estimatedCost: { min: 45000, max: 75000, currency: 'ZAR' },
+        estimatedTimelineInDays: 180,
+        marketCode: 'GB',
+        marketName: 'United Kingdom',
+        regulatoryBody: 'DALRRD',
+        referenceUrl: ''
+      }
+    ],
+    timelineVisualizationData: [
+      { certificationName: 'HACCP Certification', startDay: 0, durationDays: 180, marketCode: 'GB', cost: 60000 },
+      { certificationName: 'Halal Certification', startDay: 30, durationDays: 90, marketCode: 'AE', cost: 15000 }
+    ],
+    totalEstimatedCost: { min: 45000, max: 75000, currency: 'ZAR' },
+    totalEstimatedTimelineInDays: 180
+  },
+  resourceNeeds: {
+    resourceNeeds: [
+      {
+        type: 'financial',
+        name: 'Certification and Compliance Costs',
+        description: 'Certification budget',
+        estimatedCost: { min: 45000, max: 75000, currency: 'ZAR' },
+        priority: 'high',
+        timeline: '5 months'
+      }
+    ],
+    budgetAllocationRecommendation: { certifications: 35, marketing: 35, logistics: 20, other: 10 },
+    productionCapacityAnalysis: {
+      currentCapacity: 5000,
+      requiredCapacity: 8000,
+      capacityGap: 3000,
+      recommendations: ['Increase production capacity']
+    },
+    supplyChainConsiderations: ['Cold chain logistics required']
+  },
+  actionPlan: {
+    actionItems: [
+      {
+        id: 'act-001',
+        name: 'Begin Compliance Preparation',
+        description: 'Start certification work',
+        priority: 'high',
+        timeline: { startDay: 0, durationDays: 60 },
+        dependsOn: [],
+        resources: [],
+        marketCodes: ['GB']
+      },
+      {
+        id: 'act-007',
+        name: 'Execute Pilot Export Shipment',
+        description: 'First shipment',
+        priority: 'high',
+        timeline: { startDay: 180, durationDays: 30 },
+        dependsOn: ['act-001'],
+        resources: [],
+        marketCodes: ['GB']
+      }
+    ],
+    implementationTimeline: [
+      { phase: 'Preparation Phase', startDay: 0, durationDays: 90, items: ['act-001'] },
+      { phase: 'Execution Phase', startDay: 180, durationDays: 90, items: ['act-007'] }
+    ],
+    criticalPath: ['act-001', 'act-007'],
+    totalDurationDays: 210,
+    riskAssessment: [
+      {
+        name: 'Budget Constraints',
+        probability: 'medium',
+        impact: 'high',
+        mitigationStrategy: 'Seek export financing'
+      }
+    ]
+  },
+  generatedAt: new Date('2025-03-01T00:00:00Z'),
+  exportReadinessScore: 68,
+  overallConfidenceScore: 0.82,
+  currencyConversion: {
+    reportCurrency: 'ZAR',
+    rateDate: '2025-03-03',
+    rateSource: 'Snapshot of mid-market reference rates',
+    rates: { ZAR: 1, USD: 0.0542, GBP: 0.0428, AED: 0.199 }
+  }
+});
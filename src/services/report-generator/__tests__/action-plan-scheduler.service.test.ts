@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+
+import { ActionPlanScheduler, ActionPlanCycleError } from '../scheduling/action-plan-scheduler.service';
+import { ActionItem } from '@/types/report.types';
+
+const action = (
+  id: string,
+  startDay: number,
+  durationDays: number,
+  dependsOn: string[] = [],
+  priority: ActionItem['priority'] = 'high'
+): ActionItem => ({
+  id,
+  name: `Action ${id}`,
+  description: '',
+  priority,
+  timeline: { startDay, durationDays },
+  dependsOn,
+  resources: [],
+  marketCodes: ['GB']
+});
+
+const byId = (items: ActionItem[]) => new Map(items.map(item => [item.id, item]));
+
+describe('ActionPlanScheduler', () => {
+  it('should start items only after their dependencies finish', () => {
+    // act-c1 was planned to start before the preparation it depends on is done
+    const { actionItems } = new ActionPlanScheduler().schedule([
+      action('act-001', 0, 60),
+      action('act-c1', 30, 90, ['act-001'])
+    ]);
+
+    expect(byId(actionItems).get('act-c1')!.timeline.startDay).toBe(60);
+  });
+
+  it('should compute slack and the critical path', () => {
+    const { actionItems, criticalPath, totalDurationDays } = new ActionPlanScheduler().schedule([
+      action('a', 0, 30),
+      action('b', 0, 10),
+      action('c', 0, 20, ['a', 'b'])
+    ]);
+    const items = byId(actionItems);
+
+    expect(totalDurationDays).toBe(50);
+    expect(criticalPath).toEqual(['a', 'c']);
+    expect(items.get('b')!.schedule).toEqual({
+      earliestStartDay: 0,
+      latestStartDay: 20,
+      slackDays: 20,
+      isCritical: false
+    });
+    expect(items.get('c')!.schedule!.slackDays).toBe(0);
+  });
+
+  it('should return one ordered dependency chain when parallel branches are both critical', () => {
+    const { actionItems, criticalPath } = new ActionPlanScheduler().schedule([
+      action('d', 0, 20, ['b']),
+      action('c', 0, 20, ['a']),
+      action('b', 0, 30),
+      action('a', 0, 30)
+    ]);
+
+    expect(actionItems.filter(item => item.schedule!.isCritical)).toHaveLength(4);
+    expect(criticalPath).toEqual(['a', 'c']);
+  });
+
+  it('should respect planned start days unless the timeline is optimised', () => {
+    const items = [action('a', 0, 30), action('b', 120, 30, ['a'])];
+
+    const planned = new ActionPlanScheduler().schedule(items);
+    const optimised = new ActionPlanScheduler({ optimizeTimeline: true }).schedule(items);
+
+    expect(planned.totalDurationDays).toBe(150);
+    expect(optimised.totalDurationDays).toBe(60);
+    expect(byId(optimised.actionItems).get('b')!.timeline.startDay).toBe(30);
+  });
+
+  it('should not exceed the maximum number of parallel actions', () => {
+    const items = [
+      action('a', 0, 30),
+      action('b', 0, 30),
+      action('c', 0, 30, [], 'low'),
+      action('d', 0, 30)
+    ];
+
+    const { actionItems, totalDurationDays } = new ActionPlanScheduler({ maxParallelActions: 2 }).schedule(items);
+
+    expect(totalDurationDays).toBe(60);
+    for (let day = 0; day < totalDurationDays; day++) {
+      const running = actionItems.filter(item =>
+        item.timeline.startDay <= day && day < item.timeline.startDay + item.timeline.durationDays
+      );
+      expect(running.length).toBeLessThanOrEqual(2);
+    }
+    // Lower priority work is deferred when capacity runs out
+    expect(byId(actionItems).get('c')!.timeline.startDay).toBe(30);
+  });
+
+  it('should prioritise items with the least room to slip', () => {
+    const { actionItems } = new ActionPlanScheduler({ maxParallelActions: 1 }).schedule([
+      action('short', 0, 10, [], 'high'),
+      action('long', 0, 40, [], 'low'),
+      action('follow-up', 0, 40, ['long'])
+    ]);
+
+    expect(byId(actionItems).get('long')!.timeline.startDay).toBe(0);
+    expect(byId(actionItems).get('short')!.timeline.startDay).toBe(80);
+  });
+
+  it('should ignore dependencies on items that are not in the plan', () => {
+    const { actionItems } = new ActionPlanScheduler().schedule([
+      action('act-006', 0, 30, ['act-002', 'act-004', ''])
+    ]);
+
+    expect(actionItems[0].dependsOn).toEqual([]);
+  });
+
+  it('should report dependency cycles', () => {
+    const scheduler = new ActionPlanScheduler();
+    const items = [
+      action('a', 0, 10),
+      action('b', 0, 10, ['a', 'd']),
+      action('c', 0, 10, ['b']),
+      action('d', 0, 10, ['c'])
+    ];
+
+    expect(() => scheduler.schedule(items)).toThrow(ActionPlanCycleError);
+    try {
+      scheduler.schedule(items);
+    } catch (error) {
+      expect((error as ActionPlanCycleError).cycle).toEqual(['b', 'c', 'd', 'b']);
+    }
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+
+import { CertificationBudgetOptimizer } from '../optimization/certification-budget-optimizer.service';
+import { CertificationRequirement } from '@/types/report.types';
+import { Budget, TargetMarket } from '@/contexts/assessment-context';
+
+const requirement = (
+  id: string,
+  name: string,
+  marketCode: string,
+  cost: number,
+  isRequired: boolean = true
+): CertificationRequirement => ({
+  id,
+  name,
+  description: '',
+  isRequired,
+  estimatedCost: { min: cost, max: cost, currency: 'ZAR' },
+  estimatedTimelineInDays: 90,
+  marketCode,
+  marketName: marketCode,
+  regulatoryBody: '',
+  referenceUrl: ''
+});
+
+const markets: TargetMarket[] = [
+  { id: 'gb', code: 'GB', name: 'United Kingdom' },
+  { id: 'ae', code: 'AE', name: 'United Arab Emirates' },
+  { id: 'us', code: 'US', name: 'United States' }
+];
+
+const budget = (certificationBudget: number, timeline: number = 12): Budget => ({
+  amount: certificationBudget * 2,
+  currency: 'ZAR',
+  timeline,
+  allocation: { certifications: 50, marketing: 30, logistics: 10, other: 10 }
+});
+
+const requirements = [
+  requirement('haccp-gb', 'HACCP Certification', 'GB', 60000),
+  requirement('haccp-ae', 'HACCP', 'AE', 50000),
+  requirement('halal-ae', 'Halal Certification', 'AE', 30000),
+  requirement('fda-us', 'FDA Facility Registration', 'US', 120000),
+  requirement('brc-gb', 'BRC Global Standard', 'GB', 20000, false)
+];
+
+describe('CertificationBudgetOptimizer', () => {
+  let optimizer: CertificationBudgetOptimizer;
+
+  beforeEach(() => {
+    optimizer = new CertificationBudgetOptimizer();
+  });
+
+  it('should merge shared certifications across markets', () => {
+    const groups = optimizer.groupRequirements(requirements);
+    const haccp = groups.find(group => group.name === 'HACCP Certification')!;
+
+    expect(groups).toHaveLength(4);
+    expect(haccp.mandatoryMarketCodes).toEqual(['GB', 'AE']);
+    expect(haccp.cost).toBe(60000);
+  });
+
+  it('should prefer markets unlocked by shared certifications and defer what does not fit', () => {
+    const { plan, funded } = optimizer.optimize(requirements, markets, budget(100000));
+
+    expect(funded.map(group => group.name)).toEqual([
+      'HACCP Certification',
+      'Halal Certification'
+    ]);
+    expect(plan.reachableMarkets).toEqual(['GB', 'AE']);
+    expect(plan.deferredMarkets).toEqual(['US']);
+    expect(plan.totalPlannedSpend).toBe(90000);
+    expect(plan.deferred).toEqual([
+      expect.objectContaining({ name: 'FDA Facility Registration', isRequired: true, marketCodes: ['US'] }),
+      expect.objectContaining({ name: 'BRC Global Standard', isRequired: false })
+    ]);
+  });
+
+  it('should fund optional certifications when budget remains', () => {
+    const { plan } = optimizer.optimize(requirements, markets, budget(300000));
+
+    expect(plan.deferred).toEqual([]);
+    expect(plan.deferredMarkets).toEqual([]);
+    expect(plan.totalPlannedSpend).toBe(230000);
+  });
+
+  it('should spread spend over the budget timeline and report reachable markets per milestone', () => {
+    // 120000 released over 12 months is 10000 per month
+    const { plan, funded } = optimizer.optimize(requirements, markets, budget(120000));
+
+    expect(funded.map(group => [group.name, group.month, group.startDay])).toEqual([
+      ['HACCP Certification', 5, 150],
+      ['Halal Certification', 8, 240],
+      ['BRC Global Standard', 10, 300]
+    ]);
+    expect(plan.milestones.map(milestone => [milestone.month, milestone.marketsReachable])).toEqual([
+      [5, ['GB']],
+      [8, ['AE']],
+      [10, []]
+    ]);
+    expect(plan.milestones[0].cumulativeBudget).toBe(60000);
+    plan.milestones.forEach(milestone =>
+      expect(milestone.cumulativeSpend).toBeLessThanOrEqual(milestone.cumulativeBudget)
+    );
+  });
+
+  it('should treat markets without mandatory certifications as reachable immediately', () => {
+    const { plan } = optimizer.optimize([], markets.slice(0, 1), budget(10000));
+
+    expect(plan.milestones).toEqual([
+      expect.objectContaining({ month: 0, certifications: [], marketsReachable: ['GB'] })
+    ]);
+  });
+});
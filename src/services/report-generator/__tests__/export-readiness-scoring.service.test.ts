@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  ExportReadinessScoringEngine,
+  ReadinessScoringInput,
+  ReadinessDimensionScorer
+} from '../scoring/export-readiness-scoring.service';
+import { defaultExportReadinessScoringConfig } from '../scoring/export-readiness-scoring.config';
+import { ComplianceMCPResponse } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { MarketInsight } from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.interface';
+import { createMockReportData } from '../__mocks__/report-data';
+
+const complianceData: ComplianceMCPResponse = {
+  requirements: [
+    {
+      id: 'haccp-cert',
+      name: 'HACCP Certification',
+      description: 'Food safety management',
+      isRequired: true,
+      estimatedCost: { min: 45000, max: 75000, currency: 'ZAR' },
+      countryCode: 'GB',
+      productCategories: ['food']
+    },
+    {
+      id: 'halal-cert',
+      name: 'Halal Certification',
+      description: 'Halal compliance',
+      isRequired: true,
+      estimatedCost: { min: 20000, max: 35000, currency: 'ZAR' },
+      countryCode: 'AE',
+      productCategories: ['food']
+    },
+    {
+      id: 'brc',
+      name: 'BRC Global Standard',
+      description: 'Retailer standard',
+      isRequired: false,
+      countryCode: 'GB',
+      productCategories: ['food']
+    }
+  ],
+  totalEstimatedCost: { min: 65000, max: 110000, currency: 'ZAR' },
+  totalEstimatedTimelineInDays: 180
+};
+
+const marketInsight = (growthRate: number, entryBarriers: string[]): MarketInsight => ({
+  marketSize: { value: 1000000, currency: 'USD', year: 2025, growthRate },
+  topCompetitors: [],
+  entryBarriers,
+  tariffs: { '160250': { rate: 4, type: 'ad valorem' } },
+  opportunities: [],
+  risks: [],
+  recommendations: []
+});
+
+const createInput = (overrides: Partial<ReadinessScoringInput> = {}): ReadinessScoringInput => {
+  const report = createMockReportData();
+  return {
+    businessProfile: report.businessProfile,
+    selectedProducts: report.selectedProducts,
+    productionCapacity: report.productionCapacity,
+    marketInfo: report.marketInfo,
+    certifications: report.certifications,
+    budget: report.budget,
+    complianceData,
+    marketData: {
+      GB: marketInsight(3.5, ['Strict food safety standards']),
+      AE: marketInsight(6, [])
+    },
+    ...overrides
+  };
+};
+
+const findDimension = (engine: ExportReadinessScoringEngine, input: ReadinessScoringInput, id: string) =>
+  engine.calculate(input).dimensions.find(dimension => dimension.id === id)!;
+
+describe('ExportReadinessScoringEngine', () => {
+  let engine: ExportReadinessScoringEngine;
+
+  beforeEach(() => {
+    engine = new ExportReadinessScoringEngine();
+  });
+
+  it('should return a weighted breakdown whose points add up to the total score', () => {
+    const breakdown = engine.calculate(createInput());
+
+    expect(breakdown.configVersion).toBe(defaultExportReadinessScoringConfig.version);
+    expect(breakdown.dimensions.map(dimension => dimension.id)).toEqual(
+      Object.keys(defaultExportReadinessScoringConfig.weights)
+    );
+    expect(breakdown.dimensions.reduce((sum, dimension) => sum + dimension.weight, 0)).toBeCloseTo(100);
+
+    const points = breakdown.dimensions.reduce((sum, dimension) => sum + dimension.weightedScore, 0);
+    expect(breakdown.totalScore).toBe(Math.round(points));
+    breakdown.dimensions.forEach(dimension => expect(dimension.rationale.length).toBeGreaterThan(0));
+  });
+
+  it('should list unmet mandatory certifications from the compliance data', () => {
+    const dimension = findDimension(engine, createInput(), 'certificationReadiness');
+
+    expect(dimension.subScore).toBe(0);
+    expect(dimension.rationale.join(' ')).toContain('HACCP Certification, Halal Certification');
+    expect(dimension.rationale.join(' ')).not.toContain('BRC');
+  });
+
+  it('should credit obtained and in-progress certifications', () => {
+    const dimension = findDimension(engine, createInput({
+      certifications: [
+        { id: 'c1', name: 'HACCP', status: 'obtained' },
+        { id: 'c2', name: 'Halal (SANHA)', status: 'in-progress' }
+      ]
+    }), 'certificationReadiness');
+
+    expect(dimension.subScore).toBe(75);
+    expect(dimension.rationale.join(' ')).toContain('In progress: Halal Certification');
+  });
+
+  it('should not count in-progress certifications as met in the rationale', () => {
+    const dimension = findDimension(engine, createInput({
+      certifications: [
+        { id: 'c1', name: 'HACCP', status: 'in-progress' },
+        { id: 'c2', name: 'Halal (SANHA)', status: 'in-progress' }
+      ]
+    }), 'certificationReadiness');
+
+    expect(dimension.subScore).toBe(50);
+    expect(dimension.rationale[0]).toBe('0 of 2 mandatory requirement(s) already met.');
+  });
+
+  it('should credit certifications through the certification graph', () => {
+    const dimension = findDimension(engine, createInput({
+      certifications: [
+        // FSSC 22000 covers HACCP through ISO 22000
+        { id: 'c1', name: 'FSSC 22000', status: 'obtained' },
+        // The UAE only accepts halal certificates from recognised certifiers
+        { id: 'c2', name: 'Halal', status: 'obtained' }
+      ]
+    }), 'certificationReadiness');
+
+    expect(dimension.subScore).toBe(50);
+    expect(dimension.rationale.join(' ')).toContain('Unmet mandatory requirements: Halal Certification');
+  });
+
+  it('should compare the certification budget with estimated compliance costs', () => {
+    // 40% of 250000 ZAR = 100000 ZAR, between the min and max estimates
+    const covered = findDimension(engine, createInput(), 'budgetAdequacy');
+    const shortfall = findDimension(engine, createInput({
+      budget: { ...createInput().budget, amount: 100000 }
+    }), 'budgetAdequacy');
+
+    expect(covered.subScore).toBe(80);
+    expect(shortfall.subScore).toBeLessThan(covered.subScore);
+    expect(shortfall.rationale.join(' ')).toContain('below the minimum compliance cost');
+  });
+
+  it('should use market intelligence for market attractiveness', () => {
+    const withData = findDimension(engine, createInput(), 'marketAttractiveness');
+    const withoutData = findDimension(engine, createInput({ marketData: {} }), 'marketAttractiveness');
+
+    expect(withData.rationale).toContainEqual(expect.stringContaining('United Kingdom: 3.5% growth'));
+    expect(withoutData.rationale.join(' ')).toContain('No market intelligence available');
+  });
+
+  it('should apply configured weights and skip unweighted dimensions', () => {
+    const custom = new ExportReadinessScoringEngine({
+      ...defaultExportReadinessScoringConfig,
+      version: 'test',
+      weights: { productionCapacity: 1, certificationReadiness: 1 }
+    });
+    const breakdown = custom.calculate(createInput());
+
+    expect(breakdown.dimensions.map(dimension => dimension.id)).toEqual(['productionCapacity', 'certificationReadiness']);
+    expect(breakdown.dimensions.every(dimension => dimension.weight === 50)).toBe(true);
+    expect(breakdown.totalScore).toBe(50);
+  });
+
+  it('should score registered custom dimensions', () => {
+    const logisticsScorer: ReadinessDimensionScorer = {
+      id: 'logistics',
+      name: 'Logistics',
+      score: () => ({ subScore: 40, rationale: ['No freight forwarder appointed.'] })
+    };
+    const custom = new ExportReadinessScoringEngine(
+      { ...defaultExportReadinessScoringConfig, weights: { logistics: 1 } },
+      []
+    );
+    custom.registerScorer(logisticsScorer);
+
+    const breakdown = custom.calculate(createInput());
+    expect(breakdown.totalScore).toBe(40);
+    expect(breakdown.dimensions[0].rationale).toEqual(['No freight forwarder appointed.']);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+
+import { HtmlRendererService } from '../html-renderer.service';
+import { createMockReportData } from '../__mocks__/report-data';
+
+describe('HtmlRendererService', () => {
+  let service: HtmlRendererService;
+
+  beforeEach(() => {
+    service = new HtmlRendererService();
+  });
+
+  it('should render with the default English template', () => {
+    const html = service.render(createMockReportData());
+
+    expect(html).toContain('<html lang="en" dir="ltr">');
+    expect(html).toContain('<h2>Market Overview</h2>');
+    expect(html).toContain('Generated by TradeWizard 3.0');
+  });
+
+  it('should translate headings for French reports', () => {
+    const report = { ...createMockReportData(), template: { templateId: 'tradewizard-fr' } };
+
+    const html = service.render(report);
+
+    expect(html).toContain('<html lang="fr" dir="ltr">');
+    expect(html).toContain('<h2>Aperçu des marchés</h2>');
+    expect(html).toContain('<h2>Feuille de route des certifications</h2>');
+  });
+
+  it('should lay out Arabic reports right to left', () => {
+    const report = { ...createMockReportData(), template: { templateId: 'tradewizard', locale: 'ar' as const } };
+
+    const html = service.render(report);
+
+    expect(html).toContain('<html lang="ar" dir="rtl">');
+    expect(html).toContain('<h2>نظرة عامة على الأسواق</h2>');
+  });
+
+  it('should apply branding overrides', () => {
+    const report = {
+      ...createMockReportData(),
+      template: {
+        templateId: 'tradewizard',
+        branding: {
+          brandName: 'Acme Export Council',
+          logoUrl: 'https://acme.example/logo.png',
+          primaryColor: '#004d40',
+          coverTitle: 'Market Entry Plan',
+          disclaimer: 'Prepared for Acme members only.'
+        }
+      }
+    };
+
+    const html = service.render(report);
+
+    expect(html).toContain('<img class="logo" src="https://acme.example/logo.png" alt="Acme Export Council">');
+    expect(html).toContain('<h1>Market Entry Plan</h1>');
+    expect(html).toContain('h1, h2, h3 { color: #004d40; }');
+    expect(html).toContain('Prepared for Acme members only.');
+    expect(html).toContain('Generated by Acme Export Council');
+  });
+
+  it('should escape report content', () => {
+    const report = createMockReportData();
+    report.businessProfile.name = '<script>alert(1)</script>';
+
+    const html = service.render(report);
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+
+import pdfParse from 'pdf-parse';
+import { CanvasRect, ContentCanvas, ContentTable } from 'pdfmake/interfaces';
+import { PdfRendererService } from '../pdf-renderer.service';
+import { ARABIC_LATIN_FONT } from '../pdf-right-to-left.service';
+import { ReportTemplateError, ReportTemplateRegistry } from '../templates/report-template.service';
+import { ReportData } from '@/types/report.types';
+import { createMockReportData } from '../__mocks__/report-data';
+
+describe('PdfRendererService', () => {
+  let service: PdfRendererService;
+
+  beforeEach(() => {
+    service = new PdfRendererService();
+  });
+
+  it('should produce a valid PDF document', async () => {
+    const pdf = await service.render(createMockReportData());
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+
+    const parsed = await pdfParse(pdf);
+    expect(parsed.info.Title).toBe('Export Readiness Report - Browns Foods');
+  });
+
+  it('should paginate each report section with headers and footers', async () => {
+    const parsed = await pdfParse(await service.render(createMockReportData()));
+
+    expect(parsed.numpages).toBeGreaterThanOrEqual(5);
+    expect(parsed.text).toContain('Market Overview');
+    expect(parsed.text).toContain('Certification Roadmap');
+    expect(parsed.text).toContain('Resource Needs');
+    expect(parsed.text).toContain('Action Plan');
+    expect(parsed.text).toContain(`Page 1 of ${parsed.numpages}`);
+    expect(parsed.text).toContain(`Page ${parsed.numpages} of ${parsed.numpages}`);
+  });
+
+  it('should embed report tables', async () => {
+    const parsed = await pdfParse(await service.render(createMockReportData()));
+
+    expect(parsed.text).toContain('Birds Eye');
+    expect(parsed.text).toContain('45,000 - 75,000 ZAR');
+    expect(parsed.text).toContain('Seek export financing');
+    expect(parsed.text).toContain('Export Readiness Score: 68/100');
+  });
+
+  it('should render the certification and implementation timelines as Gantt rows', async () => {
+    const parsed = await pdfParse(await service.render(createMockReportData()));
+
+    expect(parsed.text).toContain('Halal Certification (AE)');
+    expect(parsed.text).toContain('30-120');
+    expect(parsed.text).toContain('Preparation Phase');
+    expect(parsed.text).toContain('180-270');
+  });
+
+  it('should accept reports whose generatedAt was serialised to a string', async () => {
+    const report = JSON.parse(JSON.stringify(createMockReportData())) as ReportData;
+
+    const pdf = await service.render(report);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should render translated headings and branding from the report template', async () => {
+    const report = {
+      ...createMockReportData(),
+      template: { templateId: 'tradewizard-fr', branding: { brandName: 'Acme Export Council' } }
+    };
+
+    const parsed = await pdfParse(await service.render(report));
+
+    expect(parsed.info.Author).toBe('Acme Export Council');
+    expect(parsed.text).toContain('Feuille de route des certifications');
+    expect(parsed.text).toContain('Généré par Acme Export Council');
+  });
+
+  it('should render right-to-left reports in the bundled Arabic font', async () => {
+    const report: ReportData = { ...createMockReportData(), template: { templateId: 'tradewizard', locale: 'ar' } };
+
+    const definition = service.buildDocumentDefinition(report);
+    expect(definition.defaultStyle?.font).toBe(ARABIC_LATIN_FONT);
+
+    const pdf = await service.render(report);
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+
+    const parsed = await pdfParse(pdf);
+    expect(parsed.numpages).toBeGreaterThanOrEqual(5);
+    expect(parsed.text).toContain('Birds Eye');
+    expect(parsed.text).toContain('ZAR');
+  });
+
+  it('should fail when a template font is not installed', async () => {
+    const registry = new ReportTemplateRegistry();
+    registry.register({
+      id: 'custom-font',
+      name: 'Custom font',
+      locale: 'en',
+      branding: { brandName: 'Acme', primaryColor: '#000000', accentColor: '#333333' },
+      pdfFont: { family: 'Missing', normal: 'public/fonts/Missing-Regular.ttf', bold: 'public/fonts/Missing-Bold.ttf' }
+    });
+
+    await expect(new PdfRendererService(registry).render({
+      ...createMockReportData(),
+      template: { templateId: 'custom-font' }
+    })).rejects.toThrow(ReportTemplateError);
+  });
+
+  it('should scale Gantt bars to the longest timeline item', () => {
+    const chart = service.buildGanttChart([
+      { label: 'A', startDay: 0, durationDays: 50 },
+      { label: 'B', startDay: 50, durationDays: 50 }
+    ]) as ContentTable;
+
+    const barCell = chart.table.body[2][2] as ContentCanvas;
+    const secondBar = barCell.canvas[1] as CanvasRect;
+    expect(secondBar.x).toBe(150);
+    expect(secondBar.w).toBe(150);
+  });
+
+  it('should run Gantt bars from right to left in right-to-left reports', () => {
+    const chart = service.buildGanttChart([
+      { label: 'A', startDay: 0, durationDays: 50 },
+      { label: 'B', startDay: 50, durationDays: 50 }
+    ], new ReportTemplateRegistry().resolve({ templateId: 'tradewizard', locale: 'ar' })) as ContentTable;
+
+    const firstBar = (chart.table.body[1][2] as ContentCanvas).canvas[1] as CanvasRect;
+    const secondBar = (chart.table.body[2][2] as ContentCanvas).canvas[1] as CanvasRect;
+    expect(firstBar.x).toBe(150);
+    expect(secondBar.x).toBe(0);
+  });
+});
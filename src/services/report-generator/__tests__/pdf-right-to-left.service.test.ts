@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+
+import { ContentColumns, ContentStack, ContentTable, ContentText } from 'pdfmake/interfaces';
+import {
+  ARABIC_FONT,
+  ARABIC_LATIN_FONT,
+  PdfRightToLeftService,
+  tokenize,
+  toVisualOrder
+} from '../pdf-right-to-left.service';
+
+const TOTAL = 'الإجمالي';   // "Total"
+const MARKET = 'السوق';                    // "Market"
+
+const visualText = (text: string) => toVisualOrder(tokenize(text, 'rtl'), 'rtl').map(token => token.text).join('');
+
+describe('PdfRightToLeftService', () => {
+  // Every character is 5pt wide, so a 100pt line holds 20 characters
+  const service = new PdfRightToLeftService(text => text.length * 5);
+  const context = { width: 100, fontSize: 10, bold: false };
+
+  it('should keep numbers left to right and put them after Arabic words in display order', () => {
+    expect(visualText(`${TOTAL}: 45,000 ZAR`)).toBe(`45,000 ZAR :${TOTAL}`);
+  });
+
+  it('should mirror brackets inside right-to-left text', () => {
+    expect(visualText(`${MARKET} (${TOTAL})`)).toBe(`(${TOTAL}) ${MARKET}`);
+  });
+
+  it('should read Arabic-Indic digits as a left-to-right number', () => {
+    expect(visualText(`${TOTAL} ١٢`)).toBe(`12 ${TOTAL}`);
+  });
+
+  it('should set Arabic and Latin runs in their own fonts', () => {
+    const paragraph = service.layoutParagraph(`${TOTAL} ZAR`, context) as ContentText;
+
+    expect(paragraph.alignment).toBe('right');
+    expect(paragraph.text).toEqual([
+      { text: 'ZAR ', font: ARABIC_LATIN_FONT },
+      { text: TOTAL, font: ARABIC_FONT }
+    ]);
+  });
+
+  it('should wrap long right-to-left paragraphs before reordering each line', () => {
+    const words = [TOTAL, MARKET, TOTAL, MARKET];
+    const paragraph = service.layoutParagraph(words.join(' '), context) as ContentStack;
+
+    const lines = paragraph.stack as ContentText[];
+    expect(lines).toHaveLength(2);
+    expect((lines[0].text as ContentText[]).map(run => run.text).join('')).toBe(`${MARKET} ${TOTAL}`);
+    expect((lines[1].text as ContentText[]).map(run => run.text).join('')).toBe(`${MARKET} ${TOTAL}`);
+  });
+
+  it('should leave left-to-right paragraphs without Arabic unchanged', () => {
+    expect(service.layoutParagraph('Birds Eye', context, { alignment: 'right' }))
+      .toEqual({ text: 'Birds Eye', alignment: 'left' });
+  });
+
+  it('should mirror tables, columns and bullet lists', () => {
+    const definition = service.apply({
+      content: [
+        { table: { widths: [100, '*'], body: [['A', 'B']] } },
+        { columns: [{ text: 'left' }, { text: 'right', alignment: 'right' }] },
+        { ul: ['item'] }
+      ]
+    });
+    const [table, columns, list] = definition.content as [ContentTable, ContentColumns, ContentStack];
+
+    expect(definition.defaultStyle?.font).toBe(ARABIC_LATIN_FONT);
+    expect(table.table.widths).toEqual(['*', 100]);
+    expect(table.table.body[0].map(cell => (cell as ContentText).text)).toEqual(['B', 'A']);
+    expect(columns.columns).toEqual([{ text: 'right', alignment: 'left' }, { text: 'left', alignment: 'right' }]);
+    expect((list.stack[0] as ContentColumns).columns[1]).toMatchObject({ text: '•', alignment: 'right' });
+  });
+});
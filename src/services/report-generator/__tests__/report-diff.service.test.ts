@@ -0,0 +1,175 @@
+import { ReportDiffService } from '../report-diff.service';
+import { ReportData } from '@/types/report.types';
+import { createMockReportData } from '../__mocks__/report-data';
+
+describe('ReportDiffService', () => {
+  let service: ReportDiffService;
+  let previous: ReportData;
+
+  beforeEach(() => {
+    service = new ReportDiffService();
+    previous = createMockReportData();
+  });
+
+  it('should report no changes for identical reports', () => {
+    const diff = service.compare(previous, createMockReportData());
+
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.exportReadinessScore.delta).toBe(0);
+  });
+
+  it('should detect added and removed target markets', () => {
+    const current = createMockReportData();
+    current.marketInfo.targetMarkets = [
+      { id: 'gb', code: 'GB', name: 'United Kingdom' },
+      { id: 'us', code: 'US', name: 'United States' }
+    ];
+
+    const diff = service.compare(previous, current);
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.markets.added.map(market => market.code)).toEqual(['US']);
+    expect(diff.markets.removed.map(market => market.code)).toEqual(['AE']);
+  });
+
+  it('should detect certification requirements that appeared, vanished or changed', () => {
+    const current = createMockReportData();
+    const haccp = current.certificationRoadmap.requirements[0];
+    haccp.estimatedCost = { ...haccp.estimatedCost, min: 50000, max: 80000 };
+    haccp.estimatedTimelineInDays = 150;
+    current.certificationRoadmap.requirements.push({
+      ...haccp,
+      id: 'halal-cert',
+      name: 'Halal Certification',
+      marketCode: 'AE',
+      marketName: 'United Arab Emirates'
+    });
+    previous.certificationRoadmap.requirements.push({
+      ...previous.certificationRoadmap.requirements[0],
+      id: 'brc-cert',
+      name: 'BRC Global Standard'
+    });
+
+    const diff = service.compare(previous, current);
+
+    expect(diff.certificationRequirements.added.map(req => req.id)).toEqual(['halal-cert']);
+    expect(diff.certificationRequirements.removed.map(req => req.id)).toEqual(['brc-cert']);
+    expect(diff.certificationRequirements.changed).toEqual([{
+      id: 'haccp-cert',
+      name: 'HACCP Certification',
+      marketCode: 'GB',
+      costMinDelta: 5000,
+      costMaxDelta: 5000,
+      currency: 'ZAR',
+      previousCurrency: 'ZAR',
+      costComparable: true,
+      timelineDeltaInDays: -30
+    }]);
+  });
+
+  it('should convert previous requirement costs into the current currency before comparing', () => {
+    const current = createMockReportData();
+    current.certificationRoadmap.requirements[0].estimatedCost = { min: 3000, max: 5000, currency: 'USD' };
+
+    const diff = service.compare(previous, current);
+
+    // 45000 and 75000 ZAR at 18.45 ZAR per USD
+    expect(diff.certificationRequirements.changed[0]).toMatchObject({
+      currency: 'USD',
+      previousCurrency: 'ZAR',
+      costComparable: true,
+      costMinDelta: 560.98,
+      costMaxDelta: 934.96
+    });
+  });
+
+  it('should mark requirement costs in unconvertible currencies as not comparable', () => {
+    const current = createMockReportData();
+    current.certificationRoadmap.requirements[0].estimatedCost = { min: 45000, max: 75000, currency: 'XYZ' };
+
+    const diff = service.compare(previous, current);
+
+    expect(diff.certificationRequirements.changed).toHaveLength(1);
+    expect(diff.certificationRequirements.changed[0]).toMatchObject({
+      costComparable: false,
+      costMinDelta: 0,
+      costMaxDelta: 0
+    });
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('should report cost, timeline, budget and score deltas', () => {
+    const current = createMockReportData();
+    current.certificationRoadmap.totalEstimatedCost = { min: 60000, max: 90000, currency: 'ZAR' };
+    current.certificationRoadmap.totalEstimatedTimelineInDays = 240;
+    current.budget.amount = 500000;
+    current.exportReadinessScore = 74;
+
+    const diff = service.compare(previous, current);
+
+    expect(diff.totalEstimatedCost.min).toEqual({ previous: 45000, current: 60000, delta: 15000 });
+    expect(diff.totalEstimatedCost.max.delta).toBe(15000);
+    expect(diff.totalEstimatedTimelineInDays.delta).toBe(60);
+    expect(diff.budgetAmount.delta).toBe(250000);
+    expect(diff.exportReadinessScore).toEqual({ previous: 68, current: 74, delta: 6 });
+  });
+
+  it('should convert previous cost totals into the current currency before comparing', () => {
+    const current = createMockReportData();
+    current.certificationRoadmap.totalEstimatedCost = { min: 3000, max: 5000, currency: 'USD' };
+
+    const diff = service.compare(previous, current);
+
+    // 45000 ZAR at 18.45 ZAR per USD
+    expect(diff.totalEstimatedCost).toMatchObject({ currency: 'USD', previousCurrency: 'ZAR', comparable: true });
+    expect(diff.totalEstimatedCost.min).toEqual({ previous: 2439.02, current: 3000, delta: 560.98 });
+  });
+
+  it('should mark cost totals in unconvertible currencies as not comparable', () => {
+    const current = createMockReportData();
+    current.certificationRoadmap.totalEstimatedCost = { min: 45000, max: 75000, currency: 'XYZ' };
+
+    const diff = service.compare(previous, current);
+
+    expect(diff.totalEstimatedCost).toMatchObject({ currency: 'XYZ', previousCurrency: 'ZAR', comparable: false });
+    expect(diff.totalEstimatedCost.min.delta).toBe(0);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('should convert the previous budget into the current currency before comparing', () => {
+    const current = createMockReportData();
+    current.budget = { ...current.budget, amount: 20000, currency: 'USD' };
+
+    const diff = service.compare(previous, current);
+
+    expect(diff.budgetAmount).toMatchObject({ currency: 'USD', previousCurrency: 'ZAR', comparable: true });
+    expect(diff.budgetAmount.previous).toBe(13550.14);
+    expect(diff.budgetAmount.delta).toBeCloseTo(6449.86, 2);
+  });
+
+  it('should mark budgets in unconvertible currencies as not comparable', () => {
+    const current = createMockReportData();
+    current.budget = { ...current.budget, currency: 'XYZ' };
+
+    const diff = service.compare(previous, current);
+
+    expect(diff.budgetAmount).toMatchObject({ comparable: false, delta: 0 });
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('should detect reprioritised action items', () => {
+    const current = createMockReportData();
+    current.actionPlan.actionItems[1].priority = 'medium';
+
+    const diff = service.compare(previous, current);
+
+    expect(diff.actionItems.reprioritised).toEqual([{
+      id: 'act-007',
+      name: 'Execute Pilot Export Shipment',
+      previousPriority: 'high',
+      currentPriority: 'medium'
+    }]);
+    expect(diff.actionItems.added).toHaveLength(0);
+    expect(diff.actionItems.removed).toHaveLength(0);
+  });
+});
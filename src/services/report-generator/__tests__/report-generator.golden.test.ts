@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+
+import { ReportGeneratorService } from '../report-generator.service';
+import { assessmentFixtures, brownsFoodsFixture } from '../fixtures/assessment-fixtures';
+import { createFixtureDataProviders, FIXTURE_GENERATED_AT } from '../fixtures/fixture-data-providers';
+import { ComplianceMCPService } from '@/mcp/compliance-mcp/compliance-mcp.service';
+import { MarketIntelligenceMCPService } from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.service';
+import { PerplexityVerificationService } from '@/ai-agent/services/perplexity-verification.service';
+import { ReportData } from '@/types/report.types';
+
+// Golden reports must never reach the live services
+jest.mock('@/mcp/compliance-mcp/compliance-mcp.service', () => ({ ComplianceMCPService: jest.fn() }));
+jest.mock('@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.service', () => ({
+  MarketIntelligenceMCPService: jest.fn()
+}));
+jest.mock('@/ai-agent/services/perplexity-verification.service', () => ({
+  PerplexityVerificationService: jest.fn()
+}));
+
+const createGenerator = (fixture = brownsFoodsFixture) => new ReportGeneratorService(
+  false,
+  createFixtureDataProviders([fixture], () => new Date(FIXTURE_GENERATED_AT))
+);
+
+for (const fixture of assessmentFixtures) {
+  describe(`golden report: ${fixture.id}`, () => {
+    let report: ReportData;
+
+    beforeAll(async () => {
+      report = await createGenerator(fixture).generateReport(fixture.assessment);
+    });
+
+    it('should contain the expected sections', () => {
+      expect(Object.keys(report).sort()).toMatchSnapshot();
+    });
+
+    // One snapshot per section keeps review diffs focused on what changed
+    it('should match the golden content of every section', () => {
+      for (const section of Object.keys(report).sort() as Array<keyof ReportData>) {
+        expect(report[section]).toMatchSnapshot(section);
+      }
+    });
+  });
+}
+
+describe('ReportGeneratorService with injected providers', () => {
+  it('should use the injected clock for the generation date', async () => {
+    const report = await createGenerator().generateReport(brownsFoodsFixture.assessment);
+
+    expect(report.generatedAt).toEqual(new Date(FIXTURE_GENERATED_AT));
+  });
+
+  it('should generate identical reports for the same assessment', async () => {
+    const generator = createGenerator();
+
+    const first = await generator.generateReport(brownsFoodsFixture.assessment);
+    const second = await generator.generateReport(brownsFoodsFixture.assessment);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should only construct live services for providers that were not injected', () => {
+    const { compliance, marketIntelligence } = createFixtureDataProviders();
+    new ReportGeneratorService(false, { compliance, marketIntelligence });
+
+    expect(ComplianceMCPService).not.toHaveBeenCalled();
+    expect(MarketIntelligenceMCPService).not.toHaveBeenCalled();
+    expect(PerplexityVerificationService).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record the selected template and reject unknown ones', async () => {
+    const generator = createGenerator();
+    const config = {
+      includeConfidenceScores: true,
+      prioritizeMarkets: [],
+      focusOnCertification: false,
+      costOptimization: false,
+      timelineOptimization: false,
+      includeRawData: false
+    };
+
+    const report = await generator.generateReport(brownsFoodsFixture.assessment, {
+      ...config,
+      template: { templateId: 'tradewizard-fr' }
+    });
+
+    expect(report.template).toEqual({ templateId: 'tradewizard-fr' });
+    await expect(generator.generateReport(brownsFoodsFixture.assessment, {
+      ...config,
+      template: { templateId: 'missing' }
+    })).rejects.toThrow('Unknown report template: missing');
+  });
+
+  it('should only include requirements for the requested target markets', async () => {
+    const report = await createGenerator().generateReport({
+      ...brownsFoodsFixture.assessment,
+      marketInfo: {
+        ...brownsFoodsFixture.assessment.marketInfo,
+        targetMarkets: [{ id: 'ae', code: 'AE', name: 'United Arab Emirates' }]
+      }
+    });
+
+    const marketCodes = new Set(report.certificationRoadmap.requirements.map(req => req.marketCode));
+    expect([...marketCodes].sort()).toEqual(['AE', 'ZA']);
+    expect(report.marketOverview.map(market => market.marketCode)).toEqual(['AE']);
+  });
+
+  it('should keep costs without an exchange rate in their own currency and warn about them', async () => {
+    const [first, ...rest] = brownsFoodsFixture.complianceRequirements;
+    const fixture = {
+      ...brownsFoodsFixture,
+      complianceRequirements: [{ ...first, estimatedCost: { min: 100, max: 200, currency: 'XYZ' } }, ...rest]
+    };
+
+    const report = await createGenerator(fixture).generateReport(fixture.assessment);
+
+    const unconverted = report.certificationRoadmap.requirements.filter(req => req.estimatedCost.currency === 'XYZ');
+    expect(unconverted).toHaveLength(1);
+    expect(report.certificationRoadmap.totalEstimatedCost.currency).toBe(brownsFoodsFixture.assessment.budget.currency);
+    expect(report.currencyConversion?.warnings).toEqual([expect.stringContaining('cost left in XYZ')]);
+    expect(Object.keys(report.currencyConversion!.rates).length).toBeGreaterThan(0);
+  });
+
+  it('should still generate a report for a budget in an unsupported currency', async () => {
+    const report = await createGenerator().generateReport({
+      ...brownsFoodsFixture.assessment,
+      budget: { ...brownsFoodsFixture.assessment.budget, currency: 'XYZ' }
+    });
+
+    expect(report.currencyConversion?.rates).toEqual({});
+    expect(report.currencyConversion?.warnings).toContain('No exchange rates for the budget currency XYZ');
+  });
+
+  it('should add a blocking risk factor for each market with a screening hit', async () => {
+    const [product] = brownsFoodsFixture.assessment.selectedProducts;
+    const report = await createGenerator().generateReport({
+      ...brownsFoodsFixture.assessment,
+      selectedProducts: [{ ...product, description: 'Biltong with crocodile leather gift pouch' }]
+    });
+
+    expect(report.sanctionsScreening?.flaggedMarkets).toEqual(['GB', 'AE']);
+    expect(report.actionPlan.riskAssessment.filter(risk => risk.blocking).map(risk => risk.name)).toEqual([
+      'Sanctions and trade control restrictions for GB',
+      'Sanctions and trade control restrictions for AE'
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { KeyValueStorage } from '@/utils/key-value-storage';
+import { ReportHistoryService } from '../report-history.service';
+import { createMockReportData } from '../__mocks__/report-data';
+
+const createStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+describe('ReportHistoryService', () => {
+  let service: ReportHistoryService;
+
+  beforeEach(() => {
+    service = new ReportHistoryService(createStorage(), 3);
+  });
+
+  it('should derive a stable assessment id from the business profile', () => {
+    const report = createMockReportData();
+
+    expect(ReportHistoryService.getAssessmentId(report.businessProfile)).toBe('brownsfoods-co-za');
+  });
+
+  it('should number saved versions per assessment', () => {
+    const first = service.saveReport('browns', createMockReportData());
+    const second = service.saveReport('browns', createMockReportData());
+    const other = service.saveReport('other', createMockReportData());
+
+    expect(first.version).toBe(1);
+    expect(second.version).toBe(2);
+    expect(other.version).toBe(1);
+    expect(service.getHistory('browns')).toHaveLength(2);
+    expect(service.getPrevious('browns', 2)?.version).toBe(1);
+  });
+
+  it('should restore dates when reading history back', () => {
+    service.saveReport('browns', createMockReportData());
+
+    const latest = service.getLatest('browns');
+
+    expect(latest?.report.generatedAt).toBeInstanceOf(Date);
+    expect(latest?.report.generatedAt.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+    expect(latest?.savedAt).toBeInstanceOf(Date);
+  });
+
+  it('should keep only the most recent versions', () => {
+    for (let i = 0; i < 5; i++) {
+      service.saveReport('browns', createMockReportData());
+    }
+
+    expect(service.getHistory('browns').map(entry => entry.version)).toEqual([3, 4, 5]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  DEFAULT_REPORT_TEMPLATE_ID,
+  formatLabel,
+  ReportTemplate,
+  ReportTemplateError,
+  ReportTemplateRegistry
+} from '../templates/report-template.service';
+import { REPORT_LABELS } from '../templates/report-labels';
+
+const partnerTemplate: ReportTemplate = {
+  id: 'acme-export-council',
+  name: 'Acme Export Council',
+  locale: 'fr',
+  branding: {
+    brandName: 'Acme Export Council',
+    primaryColor: '#004d40',
+    accentColor: '#ff6f00',
+    disclaimer: 'Prepared for Acme members only.'
+  }
+};
+
+describe('ReportTemplateRegistry', () => {
+  let registry: ReportTemplateRegistry;
+
+  beforeEach(() => {
+    registry = new ReportTemplateRegistry();
+  });
+
+  it('should use the English TradeWizard template by default', () => {
+    const template = registry.resolve();
+
+    expect(template.id).toBe(DEFAULT_REPORT_TEMPLATE_ID);
+    expect(template.direction).toBe('ltr');
+    expect(template.labels.marketOverview).toBe('Market Overview');
+  });
+
+  it('should lay out Arabic reports right to left', () => {
+    const template = registry.resolve({ templateId: DEFAULT_REPORT_TEMPLATE_ID, locale: 'ar' });
+
+    expect(template.direction).toBe('rtl');
+    expect(template.labels.marketOverview).toBe(REPORT_LABELS.ar.marketOverview);
+  });
+
+  it('should apply per-report locale and branding overrides to a partner template', () => {
+    registry.register(partnerTemplate);
+
+    const template = registry.resolve({
+      templateId: 'acme-export-council',
+      locale: 'ar',
+      branding: { coverTitle: 'Gulf Market Entry Plan' }
+    });
+
+    expect(template.locale).toBe('ar');
+    expect(template.direction).toBe('rtl');
+    expect(template.branding).toEqual({ ...partnerTemplate.branding, coverTitle: 'Gulf Market Entry Plan' });
+  });
+
+  it('should reject unknown templates', () => {
+    expect(() => registry.resolve({ templateId: 'missing' })).toThrow(ReportTemplateError);
+  });
+
+  it('should translate every label', () => {
+    const englishKeys = Object.keys(REPORT_LABELS.en).sort();
+
+    expect(Object.keys(REPORT_LABELS.fr).sort()).toEqual(englishKeys);
+    expect(Object.keys(REPORT_LABELS.ar).sort()).toEqual(englishKeys);
+  });
+});
+
+describe('formatLabel', () => {
+  it('should fill placeholders and leave unknown ones in place', () => {
+    expect(formatLabel('Page {page} of {pages}', { page: 2, pages: 5 })).toBe('Page 2 of 5');
+    expect(formatLabel('Day {day}', {})).toBe('Day {day}');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+
+import { ScenarioComparisonService, BASE_SCENARIO_ID } from '../scenario-comparison.service';
+import { AssessmentState, ReportGeneratorService } from '../report-generator.service';
+import { ReportData } from '@/types/report.types';
+import { createMockReportData } from '../__mocks__/report-data';
+
+jest.mock('../report-generator.service', () => ({
+  PILOT_SHIPMENT_ACTION_ID: 'act-007',
+  ReportGeneratorService: jest.fn()
+}));
+
+const createBaseState = (): AssessmentState => {
+  const report = createMockReportData();
+  return {
+    currentStep: 5,
+    isAnalysing: false,
+    businessInfo: { websiteUrl: report.businessProfile.websiteUrl, extractedInfo: null },
+    businessProfile: report.businessProfile,
+    selectedProducts: report.selectedProducts,
+    productionCapacity: report.productionCapacity,
+    marketInfo: report.marketInfo,
+    certifications: report.certifications,
+    budget: report.budget
+  };
+};
+
+/**
+ * Fake generator whose score and costs follow the budget and markets of the state it is given
+ */
+const createGenerator = () => {
+  const generateReport = jest.fn(async (state: AssessmentState): Promise<ReportData> => {
+    if (state.marketInfo.targetMarkets.some(market => market.code === 'XX')) {
+      throw new Error('No compliance data for XX');
+    }
+
+    const report = createMockReportData();
+    report.exportReadinessScore = Math.min(100, Math.round(state.budget.amount / 5000));
+    report.certificationRoadmap.totalEstimatedCost = {
+      min: state.marketInfo.targetMarkets.length * 10000,
+      max: state.marketInfo.targetMarkets.length * 20000,
+      currency: state.budget.currency
+    };
+    report.actionPlan.riskAssessment = [
+      { name: 'Currency fluctuation', probability: 'medium', impact: 'medium', mitigationStrategy: '' },
+      { name: 'Certification delays', probability: 'high', impact: 'high', mitigationStrategy: '' },
+      { name: 'Freight costs', probability: 'low', impact: 'medium', mitigationStrategy: '' },
+      { name: 'Budget constraints', probability: 'medium', impact: 'high', mitigationStrategy: '' }
+    ];
+    return report;
+  });
+
+  return { generateReport } as unknown as ReportGeneratorService & { generateReport: typeof generateReport };
+};
+
+describe('ScenarioComparisonService', () => {
+  it('should generate the base plan and each scenario with its overrides applied', async () => {
+    const generator = createGenerator();
+    const service = new ScenarioComparisonService(generator);
+
+    const comparison = await service.compareScenarios(createBaseState(), [
+      { id: 'double-budget', name: 'Double the budget', overrides: { budget: { amount: 500000 } } },
+      {
+        id: 'uae-only',
+        name: 'UAE only',
+        overrides: { targetMarkets: [{ id: 'ae', code: 'AE', name: 'United Arab Emirates' }] }
+      }
+    ]);
+
+    expect(generator.generateReport).toHaveBeenCalledTimes(3);
+    expect(comparison.baseScenarioId).toBe(BASE_SCENARIO_ID);
+    expect(Object.keys(comparison.reports)).toEqual([BASE_SCENARIO_ID, 'double-budget', 'uae-only']);
+
+    const [base, doubleBudget, uaeOnly] = comparison.rows;
+    expect(base.exportReadinessScore).toBe(50);
+    expect(doubleBudget.exportReadinessScore).toBe(100);
+    expect(uaeOnly.totalCertificationCost).toEqual({ min: 10000, max: 20000, currency: 'ZAR' });
+    expect(base.totalCertificationCost).toEqual({ min: 20000, max: 40000, currency: 'ZAR' });
+  });
+
+  it('should report time to first shipment and the top risks', async () => {
+    const service = new ScenarioComparisonService(createGenerator());
+    const { rows } = await service.compareScenarios(createBaseState(), []);
+
+    expect(rows[0].timeToFirstShipmentDays).toBe(180);
+    expect(rows[0].topRisks).toEqual(['Certification delays', 'Budget constraints', 'Currency fluctuation']);
+  });
+
+  it('should record failed scenarios without failing the comparison', async () => {
+    const service = new ScenarioComparisonService(createGenerator());
+    const { rows } = await service.compareScenarios(createBaseState(), [
+      { id: 'unknown', name: 'Unknown market', overrides: { targetMarkets: [{ id: 'xx', code: 'XX', name: 'Nowhere' }] } }
+    ]);
+
+    expect(rows[1]).toEqual(expect.objectContaining({
+      scenarioId: 'unknown',
+      exportReadinessScore: null,
+      error: 'No compliance data for XX'
+    }));
+    expect(rows[0].error).toBeUndefined();
+  });
+
+  it('should merge partial budget and capacity overrides into the base assessment', () => {
+    const service = new ScenarioComparisonService(createGenerator());
+    const base = createBaseState();
+
+    const state = service.applyOverrides(base, {
+      budget: { amount: 100000, allocation: { ...base.budget.allocation, certifications: 60 } },
+      productionCapacity: { monthlyCapacity: 10000 }
+    });
+
+    expect(state.budget).toEqual({ ...base.budget, amount: 100000, allocation: { ...base.budget.allocation, certifications: 60 } });
+    expect(state.productionCapacity).toEqual({ ...base.productionCapacity, monthlyCapacity: 10000 });
+    expect(state.marketInfo).toBe(base.marketInfo);
+    expect(base.budget.amount).toBe(250000);
+  });
+});
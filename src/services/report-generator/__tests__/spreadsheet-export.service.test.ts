@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { SpreadsheetExportService } from '../spreadsheet-export.service';
+import { PdfExportService } from '../pdf-export.service';
+import { ReportFormat } from '@/types/report.types';
+import { createMockReportData } from '../__mocks__/report-data';
+
+const loadWorkbook = async (blob: Blob): Promise<ExcelJS.Workbook> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await blob.arrayBuffer());
+  return workbook;
+};
+
+const findColumn = (worksheet: ExcelJS.Worksheet, header: string): number => {
+  let columnNumber = -1;
+  worksheet.getRow(1).eachCell((cell, index) => {
+    if (cell.value === header) {
+      columnNumber = index;
+    }
+  });
+  return columnNumber;
+};
+
+describe('SpreadsheetExportService', () => {
+  let service: SpreadsheetExportService;
+
+  beforeEach(() => {
+    service = new SpreadsheetExportService();
+  });
+
+  describe('generateXlsx', () => {
+    it('should create one worksheet per report table', async () => {
+      const workbook = await loadWorkbook(await service.generateXlsx(createMockReportData()));
+
+      expect(workbook.worksheets.map(sheet => sheet.name)).toEqual([
+        'Market Overview',
+        'Certification Requirements',
+        'Resource Needs',
+        'Action Items',
+        'Risk Factors'
+      ]);
+    });
+
+    it('should write cost ranges and timelines as numeric cells', async () => {
+      const workbook = await loadWorkbook(await service.generateXlsx(createMockReportData()));
+      const certifications = workbook.getWorksheet('Certification Requirements')!;
+      const row = certifications.getRow(2);
+
+      const costMin = row.getCell(findColumn(certifications, 'Cost Min'));
+      const costMax = row.getCell(findColumn(certifications, 'Cost Max'));
+      const timeline = row.getCell(findColumn(certifications, 'Timeline (Days)'));
+
+      expect(costMin.type).toBe(ExcelJS.ValueType.Number);
+      expect(costMin.value).toBe(45000);
+      expect(costMax.value).toBe(75000);
+      expect(row.getCell(findColumn(certifications, 'Currency')).value).toBe('ZAR');
+      expect(timeline.type).toBe(ExcelJS.ValueType.Number);
+      expect(timeline.value).toBe(180);
+    });
+
+    it('should derive numeric action item and resource timelines', async () => {
+      const workbook = await loadWorkbook(await service.generateXlsx(createMockReportData()));
+      const actions = workbook.getWorksheet('Action Items')!;
+      const resources = workbook.getWorksheet('Resource Needs')!;
+
+      const pilotRow = actions.getRow(3);
+      expect(pilotRow.getCell(findColumn(actions, 'Start Day')).value).toBe(180);
+      expect(pilotRow.getCell(findColumn(actions, 'End Day')).value).toBe(210);
+      expect(resources.getRow(2).getCell(findColumn(resources, 'Timeline (Months)')).value).toBe(5);
+    });
+  });
+
+  describe('generateCsvBundle', () => {
+    it('should zip one CSV file per report table', async () => {
+      const blob = await service.generateCsvBundle(createMockReportData());
+      const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+
+      expect(Object.keys(zip.files).sort()).toEqual([
+        'action-items.csv',
+        'certification-requirements.csv',
+        'market-overview.csv',
+        'resource-needs.csv',
+        'risk-factors.csv'
+      ]);
+
+      const csv = await zip.file('certification-requirements.csv')!.async('string');
+      const [header, firstRow] = csv.split('\r\n');
+      expect(header).toContain('Cost Min,Cost Max,Currency,Timeline (Days)');
+      expect(firstRow).toContain('45000,75000,ZAR,180');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote text containing separators and leave empty values blank', () => {
+      const csv = service.toCsv({
+        name: 'Test',
+        fileName: 'test',
+        columns: [
+          { header: 'Name', key: 'name', type: 'string' },
+          { header: 'Cost', key: 'cost', type: 'number' }
+        ],
+        rows: [
+          { name: 'Labels, "Halal" marks', cost: null },
+          { name: 'Freight', cost: 1250.5 }
+        ]
+      });
+
+      expect(csv).toBe('Name,Cost\r\n"Labels, ""Halal"" marks",\r\nFreight,1250.5\r\n');
+    });
+  });
+});
+
+describe('PdfExportService spreadsheet formats', () => {
+  it('should route XLSX and CSV exports to the spreadsheet exporter', async () => {
+    const exportService = new PdfExportService();
+    const report = createMockReportData();
+
+    const xlsx = await exportService.exportReport(report, ReportFormat.XLSX);
+    const csv = await exportService.exportReport(report, ReportFormat.CSV);
+
+    expect(xlsx.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(csv.type).toBe('application/zip');
+    expect(exportService.getFileExtension(ReportFormat.CSV)).toBe('zip');
+    expect(exportService.getFileExtension(ReportFormat.XLSX)).toBe('xlsx');
+  });
+});
@@ -0,0 +1,333 @@
+import { ComplianceRequirement } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { MarketInsight } from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.interface';
+import { AssessmentState } from '../report-generator.service';
+
+/**
+ * A complete assessment together with the compliance and market data the
+ * live services would return for it
+ */
+export interface AssessmentFixture {
+  id: string;
+  description: string;
+  assessment: AssessmentState;
+  complianceRequirements: ComplianceRequirement[];
+  marketInsights: Record<string, MarketInsight>;
+}
+
+/**
+ * Frozen food manufacturer exporting burgers and pies to the UK and UAE
+ */
+export const brownsFoodsFixture: AssessmentFixture = {
+  id: 'browns-foods',
+  description: 'Frozen food exporter targeting the United Kingdom and United Arab Emirates',
+  assessment: {
+    currentStep: 5,
+    isAnalysing: false,
+    businessInfo: { websiteUrl: 'https://brownsfoods.co.za', extractedInfo: null },
+    businessProfile: {
+      name: 'Browns Foods',
+      description: 'Family-owned manufacturer of frozen meat products and ready meals',
+      industry: 'Food Processing',
+      location: 'South Africa',
+      websiteUrl: 'https://brownsfoods.co.za',
+      contactInfo: {
+        email: 'exports@brownsfoods.co.za',
+        phone: '+27 21 555 0100',
+        address: '12 Industria Road, Cape Town'
+      }
+    },
+    selectedProducts: [
+      {
+        id: 'bf-burgers',
+        name: 'Frozen Beef Burgers',
+        description: 'Quick-frozen seasoned beef patties',
+        category: 'Food Products - Frozen/Canned Goods',
+        categoryId: 'food',
+        subcategoryId: 'frozen',
+        specifications: { packSize: '1kg', storage: '-18C' },
+        hsCode: '160250',
+        hsCodeDescription: 'Prepared or preserved meat of bovine animals',
+        confidenceScore: 0.92
+      },
+      {
+        id: 'bf-pies',
+        name: 'Frozen Chicken Pies',
+        description: 'Bake-from-frozen chicken and mushroom pies',
+        category: 'Food Products - Frozen/Canned Goods',
+        categoryId: 'food',
+        subcategoryId: 'frozen',
+        specifications: { packSize: '4 x 180g', storage: '-18C' },
+        hsCode: '190220',
+        hsCodeDescription: 'Stuffed pasta and pastry products',
+        confidenceScore: 0.84
+      }
+    ],
+    productionCapacity: {
+      monthlyCapacity: 20000,
+      unit: 'kg',
+      leadTime: 21,
+      minimumOrderQuantity: 1000
+    },
+    marketInfo: {
+      targetMarkets: [
+        { id: 'gb', code: 'GB', name: 'United Kingdom' },
+        { id: 'ae', code: 'AE', name: 'United Arab Emirates' }
+      ],
+      existingMarkets: ['NA', 'BW'],
+      competitorAnalysis: 'UK supermarket own brands dominate; UAE imports mainly from Brazil and India'
+    },
+    certifications: [
+      { id: 'haccp', name: 'HACCP', status: 'obtained' },
+      { id: 'fssc', name: 'FSSC 22000', status: 'in-progress' }
+    ],
+    budget: {
+      amount: 450000,
+      currency: 'ZAR',
+      timeline: 12,
+      allocation: { certifications: 40, marketing: 30, logistics: 20, other: 10 }
+    }
+  },
+  complianceRequirements: [
+    {
+      id: 'za-export-registration',
+      name: 'Registration as Exporter',
+      description: 'SARS customs client registration for exporters',
+      isRequired: true,
+      estimatedCost: { min: 0, max: 1500, currency: 'ZAR' },
+      estimatedTimelineInDays: 14,
+      countryCode: 'ZA',
+      regulatoryBody: 'South African Revenue Service',
+      productCategories: ['Food Products - Frozen/Canned Goods'],
+      documentationNeeded: ['DA 185 form', 'Company registration documents']
+    },
+    {
+      id: 'za-export-health-certificate',
+      name: 'Veterinary Export Health Certificate',
+      description: 'Export health certificate for meat products issued by the state veterinarian',
+      isRequired: true,
+      estimatedCost: { min: 2000, max: 5000, currency: 'ZAR' },
+      estimatedTimelineInDays: 30,
+      countryCode: 'ZA',
+      regulatoryBody: 'Department of Agriculture',
+      productCategories: ['Food Products - Frozen/Canned Goods']
+    },
+    {
+      id: 'gb-brcgs',
+      name: 'BRCGS Food Safety',
+      description: 'Global Standard for Food Safety expected by UK retailers',
+      isRequired: true,
+      estimatedCost: { min: 3000, max: 6000, currency: 'GBP' },
+      estimatedTimelineInDays: 120,
+      countryCode: 'GB',
+      regulatoryBody: 'BRCGS',
+      productCategories: ['Food Products - Frozen/Canned Goods'],
+      referenceUrl: 'https://www.brcgs.com'
+    },
+    {
+      id: 'gb-approved-establishment',
+      name: 'Approved Third Country Establishment',
+      description: 'Listing as an establishment approved to export products of animal origin to Great Britain',
+      isRequired: true,
+      estimatedCost: { min: 500, max: 1500, currency: 'GBP' },
+      estimatedTimelineInDays: 90,
+      countryCode: 'GB',
+      regulatoryBody: 'Food Standards Agency',
+      productCategories: ['Food Products - Frozen/Canned Goods']
+    },
+    {
+      id: 'gb-haccp',
+      name: 'HACCP',
+      description: 'Hazard analysis and critical control points plan',
+      isRequired: true,
+      estimatedCost: { min: 1000, max: 2500, currency: 'GBP' },
+      estimatedTimelineInDays: 60,
+      countryCode: 'GB',
+      regulatoryBody: 'Food Standards Agency',
+      productCategories: ['Food Products - Frozen/Canned Goods']
+    },
+    {
+      id: 'ae-halal',
+      name: 'Halal Certification',
+      description: 'Halal certification from a certifier recognised by the Emirates Authority for Standardisation',
+      isRequired: true,
+      estimatedCost: { min: 8000, max: 15000, currency: 'AED' },
+      estimatedTimelineInDays: 75,
+      countryCode: 'AE',
+      regulatoryBody: 'MoIAT',
+      productCategories: ['Food Products - Frozen/Canned Goods']
+    },
+    {
+      id: 'ae-product-registration',
+      name: 'ZAD Product Registration',
+      description: 'Food product registration with Dubai Municipality through the ZAD portal',
+      isRequired: true,
+      estimatedCost: { min: 1500, max: 3000, currency: 'AED' },
+      estimatedTimelineInDays: 30,
+      countryCode: 'AE',
+      regulatoryBody: 'Dubai Municipality',
+      productCategories: ['Food Products - Frozen/Canned Goods']
+    },
+    {
+      id: 'ae-iso-22000',
+      name: 'ISO 22000',
+      description: 'Food safety management system certification preferred by UAE importers',
+      isRequired: false,
+      estimatedCost: { min: 20000, max: 40000, currency: 'ZAR' },
+      estimatedTimelineInDays: 150,
+      countryCode: 'AE',
+      regulatoryBody: 'ISO',
+      productCategories: ['Food Products - Frozen/Canned Goods']
+    }
+  ],
+  marketInsights: {
+    GB: {
+      marketSize: { value: 12500000, currency: 'GBP', year: 2024, growthRate: 3.5 },
+      topCompetitors: [
+        { name: 'Birds Eye', marketShare: 18, country: 'GB' },
+        { name: 'Iceland Own Brand', marketShare: 12, country: 'GB' }
+      ],
+      entryBarriers: ['Strict food safety standards', 'Retailer listing fees'],
+      tariffs: { '160250': { rate: 0, type: 'ad valorem', conditions: 'SACUM-UK EPA' } },
+      opportunities: ['Growing demand for convenience foods', 'South African expat community'],
+      risks: ['Currency fluctuation', 'Cold chain costs'],
+      recommendations: ['Target independent retailers before national chains']
+    },
+    AE: {
+      marketSize: { value: 30000000, currency: 'AED', year: 2024, growthRate: 6.2 },
+      topCompetitors: [
+        { name: 'Sadia', marketShare: 22, country: 'BR' },
+        { name: 'Al Islami Foods', marketShare: 15, country: 'AE' }
+      ],
+      entryBarriers: ['Halal certification', 'Arabic labelling'],
+      tariffs: { '160250': { rate: 5, type: 'ad valorem' } },
+      opportunities: ['Food service demand from tourism', 'Re-export to GCC markets'],
+      risks: ['Price competition from Brazil'],
+      recommendations: ['Partner with a Dubai-based distributor']
+    }
+  }
+};
+
+/**
+ * Stellenbosch wine estate exporting to the United States and China
+ */
+export const capeVineyardsFixture: AssessmentFixture = {
+  id: 'cape-vineyards',
+  description: 'Wine estate targeting the United States and China',
+  assessment: {
+    currentStep: 5,
+    isAnalysing: false,
+    businessInfo: { websiteUrl: 'https://capevineyards.co.za', extractedInfo: null },
+    businessProfile: {
+      name: 'Cape Vineyards',
+      description: 'Estate producing red and white wines in Stellenbosch',
+      industry: 'Beverages',
+      location: 'South Africa',
+      websiteUrl: 'https://capevineyards.co.za',
+      contactInfo: { email: 'sales@capevineyards.co.za' }
+    },
+    selectedProducts: [
+      {
+        id: 'cv-pinotage',
+        name: 'Pinotage 750ml',
+        description: 'Barrel-aged Pinotage red wine',
+        category: 'Beverages - Wine',
+        categoryId: 'beverages',
+        subcategoryId: 'wine',
+        specifications: { volume: '750ml', alcohol: '14%' },
+        hsCode: '220421'
+      }
+    ],
+    productionCapacity: {
+      monthlyCapacity: 8000,
+      unit: 'units',
+      leadTime: 14,
+      minimumOrderQuantity: 600
+    },
+    marketInfo: {
+      targetMarkets: [
+        { id: 'us', code: 'US', name: 'United States' },
+        { id: 'cn', code: 'CN', name: 'China' }
+      ],
+      existingMarkets: ['GB'],
+      competitorAnalysis: 'Competes with Chilean and Australian wines in the mid-price segment'
+    },
+    certifications: [],
+    budget: {
+      amount: 20000,
+      currency: 'USD',
+      timeline: 9,
+      allocation: { certifications: 25, marketing: 45, logistics: 20, other: 10 }
+    }
+  },
+  complianceRequirements: [
+    {
+      id: 'za-wine-export-certificate',
+      name: 'Wine Export Certificate',
+      description: 'Export certification of wine quality and origin',
+      isRequired: true,
+      estimatedCost: { min: 1000, max: 3000, currency: 'ZAR' },
+      estimatedTimelineInDays: 21,
+      countryCode: 'ZA',
+      regulatoryBody: 'Wine and Spirit Board',
+      productCategories: ['Beverages - Wine']
+    },
+    {
+      id: 'us-cola',
+      name: 'Certificate of Label Approval',
+      description: 'TTB approval of the wine label before import',
+      isRequired: true,
+      estimatedCost: { min: 0, max: 500, currency: 'USD' },
+      estimatedTimelineInDays: 30,
+      countryCode: 'US',
+      regulatoryBody: 'Alcohol and Tobacco Tax and Trade Bureau',
+      productCategories: ['Beverages - Wine']
+    },
+    {
+      id: 'us-fda-registration',
+      name: 'FDA Food Facility Registration',
+      description: 'Registration of the winery with the US Food and Drug Administration',
+      isRequired: true,
+      estimatedCost: { min: 0, max: 1000, currency: 'USD' },
+      estimatedTimelineInDays: 14,
+      countryCode: 'US',
+      regulatoryBody: 'FDA',
+      productCategories: ['Beverages - Wine']
+    },
+    {
+      id: 'cn-gacc-registration',
+      name: 'GACC Overseas Manufacturer Registration',
+      description: 'Registration with the General Administration of Customs of China',
+      isRequired: true,
+      estimatedCost: { min: 5000, max: 12000, currency: 'CNY' },
+      estimatedTimelineInDays: 120,
+      countryCode: 'CN',
+      regulatoryBody: 'GACC',
+      productCategories: ['Beverages - Wine']
+    }
+  ],
+  marketInsights: {
+    US: {
+      marketSize: { value: 2100000000, currency: 'USD', year: 2024, growthRate: 1.8 },
+      topCompetitors: [
+        { name: 'Concha y Toro', marketShare: 9, country: 'CL' },
+        { name: 'Treasury Wine Estates', marketShare: 7, country: 'AU' }
+      ],
+      entryBarriers: ['Three-tier distribution system'],
+      tariffs: { '220421': { rate: 0, type: 'specific', conditions: 'AGOA' } },
+      opportunities: ['Interest in South African Pinotage'],
+      risks: ['Changes to AGOA eligibility'],
+      recommendations: ['Appoint a national importer of record']
+    },
+    CN: {
+      marketSize: { value: 5400000000, currency: 'CNY', year: 2024, growthRate: -2.5 },
+      topCompetitors: [{ name: 'Castel', marketShare: 11, country: 'FR' }],
+      entryBarriers: ['Chinese back labels', 'Importer relationships'],
+      tariffs: { '220421': { rate: 14, type: 'ad valorem' } },
+      opportunities: ['Cross-border e-commerce'],
+      risks: ['Declining imported wine consumption'],
+      recommendations: ['Start with e-commerce before traditional distribution']
+    }
+  }
+};
+
+export const assessmentFixtures: AssessmentFixture[] = [brownsFoodsFixture, capeVineyardsFixture];
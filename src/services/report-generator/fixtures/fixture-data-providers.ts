@@ -0,0 +1,106 @@
+import {
+  ComplianceMCP,
+  ComplianceMCPResponse,
+  ComplianceRequest,
+  ComplianceRequirement
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import {
+  MarketInsight,
+  MarketIntelligenceMCP,
+  MarketIntelligenceRequest
+} from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.interface';
+import { CurrencyService } from '@/services/currency/currency.service';
+import { ReportDataProviders, ReportVerificationProvider } from '../report-generator.service';
+import { AssessmentFixture, assessmentFixtures } from './assessment-fixtures';
+
+// Country the exporters ship from; its requirements apply to every target market
+const ORIGIN_COUNTRY_CODE = 'ZA';
+
+// Clock used when a fixture report should carry a stable generation date
+export const FIXTURE_GENERATED_AT = '2025-03-03T08:00:00.000Z';
+
+/**
+ * Serves compliance requirements from fixtures instead of the WITS and regulator APIs
+ */
+export class FixtureComplianceProvider implements ComplianceMCP {
+  constructor(
+    private requirements: ComplianceRequirement[],
+    private currencyService: CurrencyService = new CurrencyService()
+  ) {}
+
+  async getRequirements(request: ComplianceRequest): Promise<ComplianceMCPResponse> {
+    const requirements = this.requirements
+      .filter(req =>
+        req.countryCode === ORIGIN_COUNTRY_CODE || request.targetMarkets.includes(req.countryCode)
+      )
+      .map(req => ({ ...req, estimatedCost: req.estimatedCost && { ...req.estimatedCost } }));
+
+    return {
+      requirements,
+      totalEstimatedCost: this.currencyService.sumRanges(
+        requirements.flatMap(req =>
+          req.estimatedCost && this.currencyService.canConvert(req.estimatedCost.currency, request.currency || 'USD')
+            ? [req.estimatedCost]
+            : []
+        ),
+        request.currency || 'USD'
+      ),
+      // Fixture requirements are assumed to run in parallel
+      totalEstimatedTimelineInDays: Math.max(0, ...requirements.map(req => req.estimatedTimelineInDays || 0)),
+      exchangeRateDate: this.currencyService.getRateDate()
+    };
+  }
+}
+
+/**
+ * Serves market insights from fixtures; markets without a fixture are left out
+ */
+export class FixtureMarketIntelligenceProvider implements MarketIntelligenceMCP {
+  constructor(private insights: Record<string, MarketInsight>) {}
+
+  async getMarketInsights(request: MarketIntelligenceRequest): Promise<Record<string, MarketInsight>> {
+    return request.targetMarkets.reduce<Record<string, MarketInsight>>((insights, marketCode) => {
+      if (this.insights[marketCode]) {
+        insights[marketCode] = this.insights[marketCode];
+      }
+      return insights;
+    }, {});
+  }
+}
+
+/**
+ * Returns data unchanged, standing in for Perplexity verification
+ */
+export const passThroughVerificationProvider: ReportVerificationProvider = {
+  verifyProductCategories: async (products) => products,
+  verifyComplianceRequirements: async (requirements) => requirements,
+  verifyMarketInsights: async (insights) => insights
+};
+
+/**
+ * Offline providers backed by the given fixtures (all fixtures by default).
+ * When several fixtures cover the same market, the first one wins.
+ */
+export function createFixtureDataProviders(
+  fixtures: AssessmentFixture[] = assessmentFixtures,
+  now: () => Date = () => new Date()
+): ReportDataProviders {
+  const requirements = new Map<string, ComplianceRequirement>();
+  const insights: Record<string, MarketInsight> = {};
+
+  for (const fixture of fixtures) {
+    fixture.complianceRequirements
+      .filter(req => !requirements.has(req.id))
+      .forEach(req => requirements.set(req.id, req));
+    Object.entries(fixture.marketInsights)
+      .filter(([marketCode]) => !insights[marketCode])
+      .forEach(([marketCode, insight]) => { insights[marketCode] = insight; });
+  }
+
+  return {
+    compliance: new FixtureComplianceProvider(Array.from(requirements.values())),
+    marketIntelligence: new FixtureMarketIntelligenceProvider(insights),
+    verification: passThroughVerificationProvider,
+    now
+  };
+}
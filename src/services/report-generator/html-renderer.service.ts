@@ -0,0 +1,254 @@
+import { ReportData } from '@/types/report.types';
+import { formatLabel, ReportTemplateRegistry, reportTemplateRegistry } from './templates/report-template.service';
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders export readiness reports as standalone HTML documents using the report's template
+ */
+export class HtmlRendererService {
+  private templateRegistry: ReportTemplateRegistry;
+
+  constructor(templateRegistry: ReportTemplateRegistry = reportTemplateRegistry) {
+    this.templateRegistry = templateRegistry;
+  }
+
+  render(report: ReportData): string {
+    const template = this.templateRegistry.resolve(report.template);
+    const { labels, branding, numberLocale } = template;
+    const num = (value: number) => escapeHtml(value.toLocaleString(numberLocale));
+    const range = (cost: { min: number; max: number; currency: string }) =>
+      `${num(cost.min)} - ${num(cost.max)} ${escapeHtml(cost.currency)}`;
+    // Reports loaded from storage arrive with generatedAt serialised as a string
+    const generatedAt = new Date(report.generatedAt);
+    const roadmap = report.certificationRoadmap;
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${template.locale}" dir="${template.direction}">
+      <head>
+        <meta charset="utf-8">
+        <title>${escapeHtml(branding.coverTitle || labels.reportTitle)} - ${escapeHtml(report.businessProfile.name)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 0; color: #333; }
+          .cover { text-align: center; padding: 40px 0; background: #f5f5f5; }
+          .cover .logo { max-height: 80px; margin-bottom: 20px; }
+          h1, h2, h3 { color: ${escapeHtml(branding.primaryColor)}; }
+          .section { margin: 20px 0; padding: 20px; border-bottom: 1px solid #eee; }
+          .score { font-size: 24px; font-weight: bold; color: ${escapeHtml(branding.accentColor)}; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { padding: 8px; text-align: start; border-bottom: 1px solid #ddd; }
+          th { background-color: #f2f2f2; }
+          .disclaimer { font-size: 12px; color: #666; padding: 0 20px; }
+          .footer { text-align: center; padding: 20px; font-size: 12px; color: #999; }
+        </style>
+      </head>
+      <body>
+        <div class="cover">
+          ${branding.logoUrl ? `<img class="logo" src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.brandName)}">` : ''}
+          <h1>${escapeHtml(branding.coverTitle || labels.reportTitle)}</h1>
+          <h2>${escapeHtml(report.businessProfile.name)}</h2>
+          ${branding.coverSubtitle ? `<p>${escapeHtml(branding.coverSubtitle)}</p>` : ''}
+          <p>${escapeHtml(formatLabel(labels.generatedOn, { date: generatedAt.toLocaleDateString(numberLocale) }))}</p>
+          <div class="score">${escapeHtml(formatLabel(labels.exportReadinessScore, { score: report.exportReadinessScore }))}</div>
+          ${report.overallConfidenceScore ?
+            `<div>${escapeHtml(formatLabel(labels.overallConfidenceScore, { score: (report.overallConfidenceScore * 100).toFixed(1) }))}</div>` : ''}
+        </div>
+
+        <div class="section">
+          <h2>${escapeHtml(labels.businessProfile)}</h2>
+          <p><strong>${escapeHtml(labels.business)}:</strong> ${escapeHtml(report.businessProfile.name)}</p>
+          <p><strong>${escapeHtml(labels.industry)}:</strong> ${escapeHtml(report.businessProfile.industry)}</p>
+          <p><strong>${escapeHtml(labels.location)}:</strong> ${escapeHtml(report.businessProfile.location)}</p>
+          <p><strong>${escapeHtml(labels.description)}:</strong> ${escapeHtml(report.businessProfile.description)}</p>
+        </div>
+
+        <div class="section">
+          <h2>${escapeHtml(labels.selectedProducts)}</h2>
+          <table>
+            <tr>
+              <th>${escapeHtml(labels.product)}</th>
+              <th>${escapeHtml(labels.category)}</th>
+              <th>${escapeHtml(labels.description)}</th>
+            </tr>
+            ${report.selectedProducts.map(product => `
+            <tr>
+              <td>${escapeHtml(product.name)}</td>
+              <td>${escapeHtml(product.category)}</td>
+              <td>${escapeHtml(product.description)}</td>
+            </tr>
+            `).join('')}
+          </table>
+        </div>
+
+        <div class="section">
+          <h2>${escapeHtml(labels.targetMarkets)}</h2>
+          <ul>
+            ${report.marketInfo.targetMarkets.map(market => `
+            <li>${escapeHtml(market.name)} (${escapeHtml(market.code)})</li>
+            `).join('')}
+          </ul>
+        </div>
+
+        <div class="section">
+          <h2>${escapeHtml(labels.marketOverview)}</h2>
+          ${report.marketOverview.map(market => `
+          <div class="market-overview">
+            <h3>${escapeHtml(market.marketName)}</h3>
+            <p><strong>${escapeHtml(labels.marketSize)}:</strong> ${num(market.marketSize)} ${escapeHtml(market.marketCurrency)}</p>
+            <p><strong>${escapeHtml(labels.growthRate)}:</strong> ${num(market.growthRate)}%</p>
+            <h4>${escapeHtml(labels.keyCompetitors)}</h4>
+            <ul>
+              ${market.keyCompetitors.map(competitor => `
+              <li>${escapeHtml(competitor.name)} (${escapeHtml(labels.marketShare)}: ${num(competitor.marketShare)}%)</li>
+              `).join('')}
+            </ul>
+            ${this.renderList(labels.entryBarriers, market.entryBarriers)}
+            ${this.renderList(labels.opportunities, market.opportunities)}
+            ${this.renderList(labels.risks, market.risks)}
+          </div>
+          `).join('')}
+        </div>
+
+        <div class="section">
+          <h2>${escapeHtml(labels.certificationRoadmap)}</h2>
+          <p>${formatLabel(escapeHtml(labels.totalEstimatedCost), { cost: range(roadmap.totalEstimatedCost) })}</p>
+          <p>${escapeHtml(formatLabel(labels.totalTimeline, {
+            months: Math.round(roadmap.totalEstimatedTimelineInDays / 30),
+            days: roadmap.totalEstimatedTimelineInDays
+          }))}</p>
+
+          <table>
+            <tr>
+              <th>${escapeHtml(labels.certification)}</th>
+              <th>${escapeHtml(labels.market)}</th>
+              <th>${escapeHtml(labels.estimatedCost)}</th>
+              <th>${escapeHtml(labels.days)}</th>
+            </tr>
+            ${roadmap.requirements.map(cert => `
+            <tr>
+              <td>${escapeHtml(cert.name)}</td>
+              <td>${escapeHtml(cert.marketName)}</td>
+              <td>${range(cert.estimatedCost)}</td>
+              <td>${num(cert.estimatedTimelineInDays)}</td>
+            </tr>
+            `).join('')}
+          </table>
+        </div>
+
+        <div class="section">
+          <h2>${escapeHtml(labels.resourceNeeds)}</h2>
+          ${report.resourceNeeds.resourceNeeds.map(resource => `
+          <div class="resource">
+            <h3>${escapeHtml(resource.name)}</h3>
+            <p><strong>${escapeHtml(labels.type)}:</strong> ${escapeHtml(resource.type)}</p>
+            <p><strong>${escapeHtml(labels.description)}:</strong> ${escapeHtml(resource.description)}</p>
+            <p><strong>${escapeHtml(labels.priority)}:</strong> ${escapeHtml(resource.priority)}</p>
+            <p><strong>${escapeHtml(labels.timeline)}:</strong> ${escapeHtml(resource.timeline)}</p>
+            ${resource.estimatedCost ? `<p><strong>${escapeHtml(labels.estimatedCost)}:</strong> ${range(resource.estimatedCost)}</p>` : ''}
+            ${this.renderList(labels.alternativeOptions, resource.alternativeOptions || [])}
+          </div>
+          `).join('')}
+
+          <h3>${escapeHtml(labels.productionCapacityAnalysis)}</h3>
+          <p><strong>${escapeHtml(labels.currentCapacity)}:</strong> ${num(report.resourceNeeds.productionCapacityAnalysis.currentCapacity)}</p>
+          <p><strong>${escapeHtml(labels.requiredCapacity)}:</strong> ${num(report.resourceNeeds.productionCapacityAnalysis.requiredCapacity)}</p>
+          <p><strong>${escapeHtml(labels.capacityGap)}:</strong> ${num(report.resourceNeeds.productionCapacityAnalysis.capacityGap)}</p>
+        </div>
+
+        <div class="section">
+          <h2>${escapeHtml(labels.actionPlan)}</h2>
+          ${report.actionPlan.actionItems.map(action => `
+          <div class="action-item">
+            <h3>${escapeHtml(action.name)}</h3>
+            <p><strong>${escapeHtml(labels.description)}:</strong> ${escapeHtml(action.description)}</p>
+            <p><strong>${escapeHtml(labels.priority)}:</strong> ${escapeHtml(action.priority)}</p>
+            <p><strong>${escapeHtml(labels.timeline)}:</strong> ${escapeHtml(formatLabel(labels.actionTimelineRange, {
+              start: action.timeline.startDay,
+              end: action.timeline.startDay + action.timeline.durationDays,
+              days: action.timeline.durationDays
+            }))}</p>
+            ${action.dependsOn.length > 0 ? `<p><strong>${escapeHtml(labels.dependsOn)}:</strong> ${escapeHtml(action.dependsOn.join(', '))}</p>` : ''}
+            ${this.renderList(labels.resources, action.resources)}
+          </div>
+          `).join('')}
+
+          <h3>${escapeHtml(labels.riskAssessment)}</h3>
+          <table>
+            <tr>
+              <th>${escapeHtml(labels.riskFactor)}</th>
+              <th>${escapeHtml(labels.probability)}</th>
+              <th>${escapeHtml(labels.impact)}</th>
+              <th>${escapeHtml(labels.mitigation)}</th>
+            </tr>
+            ${report.actionPlan.riskAssessment.map(risk => `
+            <tr>
+              <td>${escapeHtml(risk.name)}</td>
+              <td>${escapeHtml(risk.probability)}</td>
+              <td>${escapeHtml(risk.impact)}</td>
+              <td>${escapeHtml(risk.mitigationStrategy)}</td>
+            </tr>
+            `).join('')}
+          </table>
+        </div>
+
+        <div class="section">
+          <h2>${escapeHtml(labels.budgetAllocation)}</h2>
+          <table>
+            <tr>
+              <th>${escapeHtml(labels.category)}</th>
+              <th>${escapeHtml(labels.allocation)}</th>
+            </tr>
+            <tr>
+              <td>${escapeHtml(labels.certifications)}</td>
+              <td>${num(report.budget.allocation.certifications)}%</td>
+            </tr>
+            <tr>
+              <td>${escapeHtml(labels.marketing)}</td>
+              <td>${num(report.budget.allocation.marketing)}%</td>
+            </tr>
+            <tr>
+              <td>${escapeHtml(labels.logistics)}</td>
+              <td>${num(report.budget.allocation.logistics)}%</td>
+            </tr>
+            <tr>
+              <td>${escapeHtml(labels.other)}</td>
+              <td>${num(report.budget.allocation.other)}%</td>
+            </tr>
+          </table>
+          <p>${escapeHtml(formatLabel(labels.totalBudget, {
+            amount: `${report.budget.amount.toLocaleString(numberLocale)} ${report.budget.currency}`,
+            months: report.budget.timeline
+          }))}</p>
+        </div>
+
+        <p class="disclaimer">${escapeHtml(branding.disclaimer || labels.disclaimer)}</p>
+
+        <div class="footer">
+          <p>${escapeHtml(formatLabel(labels.footer, { brand: branding.brandName }))}</p>
+          <p>© ${generatedAt.getFullYear()} ${escapeHtml(branding.brandName)}</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private renderList(heading: string, items: string[]): string {
+    if (items.length === 0) {
+      return '';
+    }
+
+    return `
+            <h4>${escapeHtml(heading)}</h4>
+            <ul>
+              ${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}
+            </ul>`;
+  }
+}
@@ -0,0 +1,241 @@
+import {
+  CertificationRequirement,
+  CertificationBudgetPlan,
+  CertificationBudgetMilestone,
+  DeferredCertification
+} from '@/types/report.types';
+import { Budget, TargetMarket } from '@/contexts/assessment-context';
+import { normaliseCertificationName } from '@/services/certification-graph/certification-graph.service';
+import { logger } from '@/utils/logger';
+
+/**
+ * A certification that may be required by several markets but only has to be obtained once
+ */
+export interface CertificationGroup {
+  key: string;
+  name: string;
+  requirements: CertificationRequirement[];
+  // Midpoint cost estimate of obtaining the certification once
+  cost: number;
+  durationDays: number;
+  marketCodes: string[];
+  // Markets that cannot be entered without this certification
+  mandatoryMarketCodes: string[];
+}
+
+export interface FundedCertificationGroup extends CertificationGroup {
+  month: number;
+  startDay: number;
+}
+
+export interface CertificationBudgetOptimization {
+  plan: CertificationBudgetPlan;
+  funded: FundedCertificationGroup[];
+}
+
+const DAYS_PER_MONTH = 30;
+
+/**
+ * Chooses which certifications to pursue, and in which order, when the certification
+ * budget cannot cover everything at once.
+ *
+ * Mandatory certifications are funded market by market, starting with the market
+ * that is cheapest to unlock once shared certifications are split between the
+ * markets they serve. Optional certifications are funded afterwards if budget remains.
+ * The certification budget is released evenly over the budget timeline, so each
+ * certification starts in the first month its cumulative cost is covered.
+ */
+export class CertificationBudgetOptimizer {
+  optimize(
+    requirements: CertificationRequirement[],
+    targetMarkets: TargetMarket[],
+    budget: Budget
+  ): CertificationBudgetOptimization {
+    const certificationBudget = budget.amount * (budget.allocation.certifications / 100);
+    const timelineMonths = Math.max(1, Math.round(budget.timeline));
+    const groups = this.groupRequirements(requirements);
+
+    const fundedKeys: string[] = [];
+    const deferred: DeferredCertification[] = [];
+    const deferredMarkets: string[] = [];
+    let plannedSpend = 0;
+
+    const fund = (group: CertificationGroup) => {
+      fundedKeys.push(group.key);
+      plannedSpend += group.cost;
+    };
+    const unfundedMandatoryGroups = (marketCode: string) =>
+      groups.filter(group => group.mandatoryMarketCodes.includes(marketCode) && !fundedKeys.includes(group.key));
+
+    // 1. Unlock markets in order of their effective remaining certification cost
+    let candidates = targetMarkets
+      .map(market => market.code)
+      .filter(code => groups.some(group => group.mandatoryMarketCodes.includes(code)));
+
+    while (candidates.length > 0) {
+      const effectiveCost = (marketCode: string) =>
+        unfundedMandatoryGroups(marketCode).reduce((sum, group) => {
+          const sharedWith = group.mandatoryMarketCodes.filter(code => candidates.includes(code)).length;
+          return sum + group.cost / Math.max(1, sharedWith);
+        }, 0);
+
+      const marketCode = [...candidates].sort((a, b) => effectiveCost(a) - effectiveCost(b))[0];
+      candidates = candidates.filter(code => code !== marketCode);
+
+      const needed = unfundedMandatoryGroups(marketCode)
+        .sort((a, b) => b.mandatoryMarketCodes.length - a.mandatoryMarketCodes.length);
+      const neededCost = needed.reduce((sum, group) => sum + group.cost, 0);
+
+      if (plannedSpend + neededCost > certificationBudget) {
+        deferredMarkets.push(marketCode);
+        continue;
+      }
+      needed.forEach(fund);
+    }
+
+    groups
+      .filter(group => group.mandatoryMarketCodes.length > 0 && !fundedKeys.includes(group.key))
+      .forEach(group => deferred.push({
+        name: group.name,
+        isRequired: true,
+        marketCodes: group.mandatoryMarketCodes,
+        estimatedCost: group.cost,
+        reason: `Certification budget is insufficient to unlock ${group.mandatoryMarketCodes.join(', ')}`
+      }));
+
+    // 2. Optional certifications, most widely useful and cheapest first
+    groups
+      .filter(group => group.mandatoryMarketCodes.length === 0)
+      .sort((a, b) => b.marketCodes.length - a.marketCodes.length || a.cost - b.cost)
+      .forEach(group => {
+        if (plannedSpend + group.cost <= certificationBudget) {
+          fund(group);
+        } else {
+          deferred.push({
+            name: group.name,
+            isRequired: false,
+            marketCodes: group.marketCodes,
+            estimatedCost: group.cost,
+            reason: 'Optional certification deferred to stay within the certification budget'
+          });
+        }
+      });
+
+    // 3. Spread spend over the budget timeline
+    const cumulativeBudget = (month: number) => certificationBudget * (month + 1) / timelineMonths;
+    const funded: FundedCertificationGroup[] = [];
+    let cumulativeSpend = 0;
+    for (const key of fundedKeys) {
+      const group = groups.find(candidate => candidate.key === key)!;
+      cumulativeSpend += group.cost;
+
+      let month = funded.length > 0 ? funded[funded.length - 1].month : 0;
+      // Small tolerance so rounding in the monthly release does not push items back a month
+      while (month < timelineMonths - 1 && cumulativeBudget(month) + 0.005 < cumulativeSpend) {
+        month++;
+      }
+      funded.push({ ...group, month, startDay: month * DAYS_PER_MONTH });
+    }
+
+    const reachableMarkets = targetMarkets
+      .map(market => market.code)
+      .filter(code => !deferredMarkets.includes(code));
+
+    const plan: CertificationBudgetPlan = {
+      certificationBudget,
+      currency: budget.currency,
+      timelineMonths,
+      totalPlannedSpend: cumulativeSpend,
+      milestones: this.buildMilestones(funded, groups, reachableMarkets, cumulativeBudget),
+      deferred,
+      reachableMarkets,
+      deferredMarkets
+    };
+
+    logger.info(
+      `Certification budget plan funds ${funded.length} of ${groups.length} certifications; ` +
+      `${deferredMarkets.length} market(s) deferred`
+    );
+
+    return { plan, funded };
+  }
+
+  /**
+   * Merge requirements for the same certification across markets
+   */
+  groupRequirements(requirements: CertificationRequirement[]): CertificationGroup[] {
+    const groups = new Map<string, CertificationGroup>();
+
+    for (const requirement of requirements) {
+      const key = normaliseCertificationName(requirement.name) || requirement.id;
+      const cost = (requirement.estimatedCost.min + requirement.estimatedCost.max) / 2;
+      const group = groups.get(key);
+
+      if (!group) {
+        groups.set(key, {
+          key,
+          name: requirement.name,
+          requirements: [requirement],
+          cost,
+          durationDays: requirement.estimatedTimelineInDays,
+          marketCodes: [requirement.marketCode],
+          mandatoryMarketCodes: requirement.isRequired ? [requirement.marketCode] : []
+        });
+        continue;
+      }
+
+      group.requirements.push(requirement);
+      // Budget for the most expensive market-specific variant of a shared certification
+      group.cost = Math.max(group.cost, cost);
+      group.durationDays = Math.max(group.durationDays, requirement.estimatedTimelineInDays);
+      if (!group.marketCodes.includes(requirement.marketCode)) {
+        group.marketCodes.push(requirement.marketCode);
+      }
+      if (requirement.isRequired && !group.mandatoryMarketCodes.includes(requirement.marketCode)) {
+        group.mandatoryMarketCodes.push(requirement.marketCode);
+      }
+    }
+
+    return [...groups.values()];
+  }
+
+  private buildMilestones(
+    funded: FundedCertificationGroup[],
+    groups: CertificationGroup[],
+    reachableMarkets: string[],
+    cumulativeBudget: (month: number) => number
+  ): CertificationBudgetMilestone[] {
+    const months = [...new Set([0, ...funded.map(group => group.month)])].sort((a, b) => a - b);
+    const alreadyReachable = new Set<string>();
+    const milestones: CertificationBudgetMilestone[] = [];
+
+    for (const month of months) {
+      const fundedByMonth = funded.filter(group => group.month <= month);
+      const fundedKeys = new Set(fundedByMonth.map(group => group.key));
+
+      const marketsReachable = reachableMarkets.filter(code =>
+        !alreadyReachable.has(code) &&
+        groups
+          .filter(group => group.mandatoryMarketCodes.includes(code))
+          .every(group => fundedKeys.has(group.key))
+      );
+      marketsReachable.forEach(code => alreadyReachable.add(code));
+
+      const certifications = funded.filter(group => group.month === month).map(group => group.name);
+      if (certifications.length === 0 && marketsReachable.length === 0) {
+        continue;
+      }
+
+      milestones.push({
+        month,
+        startDay: month * DAYS_PER_MONTH,
+        cumulativeBudget: Math.round(cumulativeBudget(month) * 100) / 100,
+        cumulativeSpend: fundedByMonth.reduce((sum, group) => sum + group.cost, 0),
+        certifications,
+        marketsReachable
+      });
+    }
+
+    return milestones;
+  }
+}
@@ -1,20 +1,29 @@
 import { ReportData, ReportFormat } from '@/types/report.types';
 import { logger } from '@/utils/logger';
+import { SpreadsheetExportService } from './spreadsheet-export.service';
+import { HtmlRendererService } from './html-renderer.service';
 
-// This is a placeholder implementation for PDF generation
-// In a real implementation, you would use a library like jsPDF, pdfmake, or react-pdf
+// PDFs are rendered server-side by PdfRendererService behind /api/report/pdf,
+// so this service stays safe to use from client components
 export class PdfExportService {
+  private spreadsheetExportService = new SpreadsheetExportService();
+  private htmlRenderer = new HtmlRendererService();
+  
   async generatePdf(report: ReportData): Promise<Blob> {
     try {
       logger.info('Generating PDF export of export readiness report');
       
-      // Generate HTML content for the PDF
-      const htmlContent = this.generateReportHtml(report);
+      const response = await fetch('/api/report/pdf', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(report)
+      });
       
-      // In a real implementation, we would use html2pdf or similar library
-      // For now, we'll create a simple blob with the content
-      const blob = new Blob([htmlContent], { type: 'application/pdf' });
-      return blob;
+      if (!response.ok) {
+        throw new Error(`PDF rendering failed with status ${response.status}`);
+      }
+      
+      return await response.blob();
     } catch (error) {
       logger.error(`Error generating PDF: ${error}`);
       throw new Error(`Failed to generate PDF report: ${error}`);
@@ -25,8 +34,8 @@ export class PdfExportService {
     try {
       logger.info('Generating HTML export of export readiness report');
       
-      // Generate HTML content
-      const htmlContent = this.generateReportHtml(report);
+      // Generate HTML content with the report's template
+      const htmlContent = this.htmlRenderer.render(report);
       
       // Create an HTML blob
       const blob = new Blob([htmlContent], { type: 'text/html' });
@@ -46,227 +55,21 @@ export class PdfExportService {
       case ReportFormat.JSON:
         const jsonString = JSON.stringify(report, null, 2);
         return new Blob([jsonString], { type: 'application/json' });
+      case ReportFormat.XLSX:
+        return this.spreadsheetExportService.generateXlsx(report);
+      case ReportFormat.CSV:
+        // One CSV per worksheet, zipped into a single download
+        return this.spreadsheetExportService.generateCsvBundle(report);
       default:
         return this.generatePdf(report);
     }
   }
   
-  private generateReportHtml(report: ReportData): string {
-    // This would normally generate a comprehensive HTML document
-    // with all the report sections formatted nicely
-    
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>Export Readiness Report - ${report.businessProfile.name}</title>
-        <style>
-          body { font-family: Arial, sans-serif; margin: 0; padding: 0; color: #333; }
-          .cover { text-align: center; padding: 40px 0; background: #f5f5f5; }
-          h1 { color: #2c3e50; }
-          .section { margin: 20px 0; padding: 20px; border-bottom: 1px solid #eee; }
-          .score { font-size: 24px; font-weight: bold; color: #2980b9; }
-          table { width: 100%; border-collapse: collapse; }
-          th, td { padding: 8px; text-align: left; border-bottom: 1px solid #ddd; }
-          th { background-color: #f2f2f2; }
-          .chart { height: 300px; background: #eee; margin: 20px 0; text-align: center; line-height: 300px; }
-          .footer { text-align: center; padding: 20px; font-size: 12px; color: #999; }
-        </style>
-      </head>
-      <body>
-        <div class="cover">
-          <h1>Export Readiness Report</h1>
-          <h2>${report.businessProfile.name}</h2>
-          <p>Generated: ${report.generatedAt.toLocaleDateString()}</p>
-          <div class="score">Export Readiness Score: ${report.exportReadinessScore}/100</div>
-          ${report.overallConfidenceScore ? 
-            `<div>Overall Confidence Score: ${(report.overallConfidenceScore * 100).toFixed(1)}%</div>` : ''}
-        </div>
-        
-        <div class="section">
-          <h2>Business Profile</h2>
-          <p><strong>Business:</strong> ${report.businessProfile.name}</p>
-          <p><strong>Industry:</strong> ${report.businessProfile.industry}</p>
-          <p><strong>Location:</strong> ${report.businessProfile.location}</p>
-          <p><strong>Description:</strong> ${report.businessProfile.description}</p>
-        </div>
-        
-        <div class="section">
-          <h2>Selected Products</h2>
-          <table>
-            <tr>
-              <th>Product</th>
-              <th>Category</th>
-              <th>Description</th>
-            </tr>
-            ${report.selectedProducts.map(product => `
-            <tr>
-              <td>${product.name}</td>
-              <td>${product.category}</td>
-              <td>${product.description}</td>
-            </tr>
-            `).join('')}
-          </table>
-        </div>
-        
-        <div class="section">
-          <h2>Target Markets</h2>
-          <ul>
-            ${report.marketInfo.targetMarkets.map(market => `
-            <li>${market.name} (${market.code})</li>
-            `).join('')}
-          </ul>
-        </div>
-        
-        <div class="section">
-          <h2>Market Overview</h2>
-          ${report.marketOverview.map(market => `
-          <div class="market-overview">
-            <h3>${market.marketName}</h3>
-            <p><strong>Market Size:</strong> ${market.marketSize.toLocaleString()} ${market.marketCurrency}</p>
-            <p><strong>Growth Rate:</strong> ${market.growthRate}%</p>
-            <h4>Key Competitors</h4>
-            <ul>
-              ${market.keyCompetitors.map(competitor => `
-              <li>${competitor.name} (Market Share: ${competitor.marketShare}%)</li>
-              `).join('')}
-            </ul>
-            <h4>Entry Barriers</h4>
-            <ul>
-              ${market.entryBarriers.map(barrier => `<li>${barrier}</li>`).join('')}
-            </ul>
-            <h4>Opportunities</h4>
-            <ul>
-              ${market.opportunities.map(opportunity => `<li>${opportunity}</li>`).join('')}
-            </ul>
-            <h4>Risks</h4>
-            <ul>
-              ${market.risks.map(risk => `<li>${risk}</li>`).join('')}
-            </ul>
-          </div>
-          `).join('')}
-        </div>
-        
-        <div class="section">
-          <h2>Certification Roadmap</h2>
-          <p><strong>Total Estimated Cost:</strong> ${report.certificationRoadmap.totalEstimatedCost.min.toLocaleString()} - ${report.certificationRoadmap.totalEstimatedCost.max.toLocaleString()} ${report.certificationRoadmap.totalEstimatedCost.currency}</p>
-          <p><strong>Total Timeline:</strong> ${Math.round(report.certificationRoadmap.totalEstimatedTimelineInDays / 30)} months</p>
-          
-          <table>
-            <tr>
-              <th>Certification</th>
-              <th>Market</th>
-              <th>Estimated Cost</th>
-              <th>Timeline (Days)</th>
-            </tr>
-            ${report.certificationRoadmap.requirements.map(cert => `
-            <tr>
-              <td>${cert.name}</td>
-              <td>${cert.marketName}</td>
-              <td>${cert.estimatedCost.min.toLocaleString()} - ${cert.estimatedCost.max.toLocaleString()} ${cert.estimatedCost.currency}</td>
-              <td>${cert.estimatedTimelineInDays}</td>
-            </tr>
-            `).join('')}
-          </table>
-        </div>
-        
-        <div class="section">
-          <h2>Resource Needs</h2>
-          ${report.resourceNeeds.resourceNeeds.map(resource => `
-          <div class="resource">
-            <h3>${resource.name}</h3>
-            <p><strong>Type:</strong> ${resource.type}</p>
-            <p><strong>Description:</strong> ${resource.description}</p>
-            <p><strong>Priority:</strong> ${resource.priority}</p>
-            <p><strong>Timeline:</strong> ${resource.timeline}</p>
-            ${resource.estimatedCost ? `<p><strong>Estimated Cost:</strong> ${resource.estimatedCost.min.toLocaleString()} - ${resource.estimatedCost.max.toLocaleString()} ${resource.estimatedCost.currency}</p>` : ''}
-            ${resource.alternativeOptions && resource.alternativeOptions.length > 0 ? `
-            <p><strong>Alternative Options:</strong></p>
-            <ul>
-              ${resource.alternativeOptions.map(alt => `<li>${alt}</li>`).join('')}
-            </ul>
-            ` : ''}
-          </div>
-          `).join('')}
-          
-          <h3>Production Capacity Analysis</h3>
-          <p><strong>Current Capacity:</strong> ${report.resourceNeeds.productionCapacityAnalysis.currentCapacity}</p>
-          <p><strong>Required Capacity:</strong> ${report.resourceNeeds.productionCapacityAnalysis.requiredCapacity}</p>
-          <p><strong>Capacity Gap:</strong> ${report.resourceNeeds.productionCapacityAnalysis.capacityGap}</p>
-        </div>
-        
-        <div class="section">
-          <h2>Action Plan</h2>
-          ${report.actionPlan.actionItems.map(action => `
-          <div class="action-item">
-            <h3>${action.name}</h3>
-            <p><strong>Description:</strong> ${action.description}</p>
-            <p><strong>Priority:</strong> ${action.priority}</p>
-            <p><strong>Timeline:</strong> Day ${action.timeline.startDay} - ${action.timeline.startDay + action.timeline.durationDays} (${action.timeline.durationDays} days)</p>
-            ${action.dependsOn.length > 0 ? `<p><strong>Dependencies:</strong> ${action.dependsOn.join(', ')}</p>` : ''}
-            ${action.resources.length > 0 ? `
-            <p><strong>Resources:</strong></p>
-            <ul>
-              ${action.resources.map(resource => `<li>${resource}</li>`).join('')}
-            </ul>
-            ` : ''}
-          </div>
-          `).join('')}
-          
-          <h3>Risk Assessment</h3>
-          <table>
-            <tr>
-              <th>Risk Factor</th>
-              <th>Probability</th>
-              <th>Impact</th>
-              <th>Mitigation</th>
-            </tr>
-            ${report.actionPlan.riskAssessment.map(risk => `
-            <tr>
-              <td>${risk.name}</td>
-              <td>${risk.probability}</td>
-              <td>${risk.impact}</td>
-              <td>${risk.mitigationStrategy}</td>
-            </tr>
-            `).join('')}
-          </table>
-        </div>
-        
-        <div class="section">
-          <h2>Budget Allocation</h2>
-          <table>
-            <tr>
-              <th>Category</th>
-              <th>Allocation</th>
-            </tr>
-            <tr>
-              <td>Certifications</td>
-              <td>${report.budget.allocation.certifications}%</td>
-            </tr>
-            <tr>
-              <td>Marketing</td>
-              <td>${report.budget.allocation.marketing}%</td>
-            </tr>
-            <tr>
-              <td>Logistics</td>
-              <td>${report.budget.allocation.logistics}%</td>
-            </tr>
-            <tr>
-              <td>Other</td>
-              <td>${report.budget.allocation.other}%</td>
-            </tr>
-          </table>
-          <p><strong>Total Budget:</strong> ${report.budget.amount} ${report.budget.currency}</p>
-          <p><strong>Timeline:</strong> ${report.budget.timeline} months</p>
-        </div>
-        
-        <div class="footer">
-          <p>Generated by TradeWizard 3.0 | Export Readiness Assessment Platform</p>
-          <p>© ${new Date().getFullYear()} TradeWizard | All Rights Reserved</p>
-        </div>
-      </body>
-      </html>
-    `;
+  /**
+   * File extension for a downloaded export; the CSV bundle is delivered as a zip archive
+   */
+  getFileExtension(format: ReportFormat): string {
+    return format === ReportFormat.CSV ? 'zip' : format.toLowerCase();
   }
   
   // Method to download the generated blob as a file
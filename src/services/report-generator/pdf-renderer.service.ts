@@ -0,0 +1,633 @@
+import fs from 'fs';
+import path from 'path';
+import PdfPrinter from 'pdfmake';
+import { Content, TableCell, TDocumentDefinitions, TFontDictionary } from 'pdfmake/interfaces';
+import { ReportData } from '@/types/report.types';
+import { logger } from '@/utils/logger';
+import {
+  formatLabel,
+  ReportTemplateRegistry,
+  reportTemplateRegistry,
+  ReportTemplateError,
+  ResolvedReportTemplate
+} from './templates/report-template.service';
+import {
+  getRightToLeftFonts,
+  PdfRightToLeftService,
+  RIGHT_TO_LEFT_FONT_FILES,
+  TextMeasurer
+} from './pdf-right-to-left.service';
+
+// The standard PDF fonts ship with pdfkit, so rendering needs no network or font files
+const STANDARD_FONTS: TFontDictionary = {
+  Helvetica: {
+    normal: 'Helvetica',
+    bold: 'Helvetica-Bold',
+    italics: 'Helvetica-Oblique',
+    bolditalics: 'Helvetica-BoldOblique'
+  }
+};
+
+const DEFAULT_FONT = 'Helvetica';
+const MUTED_COLOR = '#999999';
+const GANTT_WIDTH = 300;
+const GANTT_BAR_HEIGHT = 10;
+
+export interface GanttRow {
+  label: string;
+  startDay: number;
+  durationDays: number;
+  detail?: string;
+}
+
+/**
+ * Server-side PDF renderer for export readiness reports.
+ * Must only be imported from server code (API routes), as pdfmake reads font metrics from disk.
+ */
+export class PdfRendererService {
+  private printer: PdfPrinter;
+  private templateRegistry: ReportTemplateRegistry;
+  private rightToLeft: PdfRightToLeftService;
+  // Only created for right-to-left reports, to measure text before it is laid out
+  private measuringDocument?: PDFKit.PDFDocument;
+
+  constructor(templateRegistry: ReportTemplateRegistry = reportTemplateRegistry) {
+    this.printer = new PdfPrinter(STANDARD_FONTS);
+    this.templateRegistry = templateRegistry;
+    this.rightToLeft = new PdfRightToLeftService(this.measureText);
+  }
+
+  /**
+   * Render the report to a PDF document
+   */
+  async render(report: ReportData): Promise<Buffer> {
+    try {
+      logger.info(`Rendering PDF report for ${report.businessProfile.name}`);
+
+      const template = this.templateRegistry.resolve(report.template);
+      const fonts = this.getTemplateFonts(template);
+      const printer = fonts ? new PdfPrinter(fonts) : this.printer;
+
+      const docDefinition = this.buildDocumentDefinition(report);
+      const pdfDocument = printer.createPdfKitDocument(docDefinition);
+
+      return await new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        pdfDocument.on('data', (chunk: Buffer) => chunks.push(chunk));
+        pdfDocument.on('end', () => resolve(Buffer.concat(chunks)));
+        pdfDocument.on('error', reject);
+        pdfDocument.end();
+      });
+    } catch (error) {
+      logger.error(`Error rendering PDF: ${error}`);
+      if (error instanceof ReportTemplateError) {
+        throw error;
+      }
+      throw new Error(`Failed to render PDF report: ${error}`);
+    }
+  }
+
+  /**
+   * Build the pdfmake document definition for the report using its template
+   */
+  buildDocumentDefinition(report: ReportData): TDocumentDefinitions {
+    const template = this.templateRegistry.resolve(report.template);
+    const docDefinition = this.buildLeftToRightDefinition(report, template);
+    return template.direction === 'rtl' ? this.rightToLeft.apply(docDefinition) : docDefinition;
+  }
+
+  private buildLeftToRightDefinition(report: ReportData, template: ResolvedReportTemplate): TDocumentDefinitions {
+    const { labels, branding } = template;
+    const businessName = report.businessProfile.name;
+    const reportTitle = branding.coverTitle || labels.reportTitle;
+    // Reports posted to the API arrive with generatedAt serialised as a string
+    const generatedAt = new Date(report.generatedAt);
+
+    return {
+      info: {
+        title: `${reportTitle} - ${businessName}`,
+        author: branding.brandName,
+        subject: reportTitle
+      },
+      pageSize: 'A4',
+      pageMargins: [40, 60, 40, 50],
+      defaultStyle: {
+        font: template.pdfFont?.family || DEFAULT_FONT,
+        fontSize: 10,
+        color: '#333333'
+      },
+      styles: {
+        title: { fontSize: 26, bold: true, color: branding.primaryColor },
+        subtitle: { fontSize: 18, color: branding.primaryColor },
+        sectionHeading: { fontSize: 18, bold: true, color: branding.primaryColor, margin: [0, 0, 0, 10] },
+        subHeading: { fontSize: 13, bold: true, color: branding.primaryColor, margin: [0, 10, 0, 5] },
+        score: { fontSize: 20, bold: true, color: branding.accentColor },
+        tableHeader: { bold: true, fillColor: '#f2f2f2' },
+        muted: { fontSize: 8, color: MUTED_COLOR }
+      },
+      header: (currentPage: number) => currentPage === 1 ? '' : {
+        columns: [
+          { text: reportTitle, style: 'muted' },
+          { text: businessName, style: 'muted', alignment: 'right' }
+        ],
+        margin: [40, 25, 40, 0]
+      },
+      footer: (currentPage: number, pageCount: number) => ({
+        columns: [
+          { text: formatLabel(labels.footer, { brand: branding.brandName }), style: 'muted' },
+          {
+            text: formatLabel(labels.pageNumber, { page: currentPage, pages: pageCount }),
+            style: 'muted',
+            alignment: 'right'
+          }
+        ],
+        margin: [40, 15, 40, 0]
+      }),
+      content: [
+        ...this.buildCoverPage(report, template, generatedAt),
+        ...this.buildMarketOverviewSection(report, template),
+        ...this.buildCertificationRoadmapSection(report, template),
+        ...this.buildResourceNeedsSection(report, template),
+        ...this.buildActionPlanSection(report, template),
+        { text: branding.disclaimer || labels.disclaimer, style: 'muted', margin: [0, 30, 0, 0] }
+      ]
+    };
+  }
+
+  private buildCoverPage(report: ReportData, template: ResolvedReportTemplate, generatedAt: Date): Content[] {
+    const { labels, branding } = template;
+    const profile = report.businessProfile;
+    // pdfmake cannot fetch remote images, so only embedded logos are shown
+    const logo = branding.logoUrl?.startsWith('data:image/') ? branding.logoUrl : undefined;
+    const content: Content[] = [];
+
+    if (logo) {
+      content.push({ image: logo, fit: [180, 60], alignment: 'center', margin: [0, 60, 0, 0] });
+    }
+
+    content.push(
+      {
+        text: branding.coverTitle || labels.reportTitle,
+        style: 'title',
+        alignment: 'center',
+        margin: [0, logo ? 40 : 120, 0, 10]
+      },
+      { text: profile.name, style: 'subtitle', alignment: 'center' }
+    );
+
+    if (branding.coverSubtitle) {
+      content.push({ text: branding.coverSubtitle, alignment: 'center', margin: [0, 5, 0, 0] });
+    }
+
+    content.push(
+      {
+        text: formatLabel(labels.generatedOn, { date: generatedAt.toLocaleDateString(template.numberLocale) }),
+        alignment: 'center',
+        margin: [0, 10, 0, 30]
+      },
+      {
+        text: formatLabel(labels.exportReadinessScore, { score: report.exportReadinessScore }),
+        style: 'score',
+        alignment: 'center'
+      }
+    );
+
+    if (report.overallConfidenceScore) {
+      content.push({
+        text: formatLabel(labels.overallConfidenceScore, { score: (report.overallConfidenceScore * 100).toFixed(1) }),
+        alignment: 'center',
+        margin: [0, 5, 0, 0]
+      });
+    }
+
+    content.push(
+      { text: labels.businessProfile, style: 'subHeading', margin: [0, 60, 0, 5] },
+      this.buildTable(
+        template,
+        [labels.field, labels.value],
+        [
+          [labels.business, profile.name],
+          [labels.industry, profile.industry],
+          [labels.location, profile.location],
+          [labels.description, profile.description]
+        ],
+        [100, '*']
+      ),
+      { text: labels.targetMarkets, style: 'subHeading' },
+      {
+        ul: report.marketInfo.targetMarkets.map(market => `${market.name} (${market.code})`)
+      },
+      { text: labels.selectedProducts, style: 'subHeading' },
+      this.buildTable(
+        template,
+        [labels.product, labels.category, labels.hsCode],
+        report.selectedProducts.map(product => [product.name, product.category, product.hsCode || '-']),
+        ['*', '*', 70]
+      )
+    );
+
+    if (report.exportReadinessBreakdown) {
+      content.push(
+        { text: labels.scoreBreakdown, style: 'subHeading' },
+        this.buildTable(
+          template,
+          [labels.dimension, labels.weight, labels.subScore, labels.rationale],
+          report.exportReadinessBreakdown.dimensions.map(dimension => [
+            dimension.name,
+            `${dimension.weight}%`,
+            `${dimension.subScore}/100`,
+            dimension.rationale.join(' ')
+          ]),
+          [110, 45, 50, '*']
+        )
+      );
+    }
+
+    return content;
+  }
+
+  private buildMarketOverviewSection(report: ReportData, template: ResolvedReportTemplate): Content[] {
+    const { labels } = template;
+    const content: Content[] = [
+      { text: labels.marketOverview, style: 'sectionHeading', pageBreak: 'before' },
+      this.buildTable(
+        template,
+        [labels.market, labels.marketSize, labels.currency, labels.growthRate],
+        report.marketOverview.map(market => [
+          market.marketName,
+          this.formatNumber(template, market.marketSize),
+          market.marketCurrency,
+          `${this.formatNumber(template, market.growthRate)}%`
+        ]),
+        ['*', '*', 60, 70]
+      )
+    ];
+
+    for (const market of report.marketOverview) {
+      content.push({ text: market.marketName, style: 'subHeading' });
+
+      if (market.keyCompetitors.length > 0) {
+        content.push(this.buildTable(
+          template,
+          [labels.keyCompetitor, labels.marketShare],
+          market.keyCompetitors.map(competitor => [competitor.name, `${this.formatNumber(template, competitor.marketShare)}%`]),
+          ['*', 90]
+        ));
+      }
+
+      content.push(
+        ...this.buildBulletList(labels.entryBarriers, market.entryBarriers),
+        ...this.buildBulletList(labels.opportunities, market.opportunities),
+        ...this.buildBulletList(labels.risks, market.risks),
+        ...this.buildBulletList(labels.productInsights, market.productSpecificInsights)
+      );
+    }
+
+    return content;
+  }
+
+  private buildCertificationRoadmapSection(report: ReportData, template: ResolvedReportTemplate): Content[] {
+    const { labels } = template;
+    const roadmap = report.certificationRoadmap;
+    const totalCost = roadmap.totalEstimatedCost;
+
+    const content: Content[] = [
+      { text: labels.certificationRoadmap, style: 'sectionHeading', pageBreak: 'before' },
+      {
+        text: formatLabel(labels.totalEstimatedCost, { cost: this.formatRange(template, totalCost) })
+      },
+      ...this.buildCurrencyEquivalents(report, template, totalCost.min, totalCost.max, totalCost.currency),
+      {
+        text: formatLabel(labels.totalTimeline, {
+          months: Math.round(roadmap.totalEstimatedTimelineInDays / 30),
+          days: roadmap.totalEstimatedTimelineInDays
+        }),
+        margin: [0, 0, 0, 10]
+      },
+      this.buildTable(
+        template,
+        [labels.certification, labels.market, labels.regulatoryBody, labels.estimatedCost, labels.days],
+        roadmap.requirements.map(cert => [
+          cert.name,
+          cert.marketName,
+          cert.regulatoryBody,
+          this.formatRange(template, cert.estimatedCost),
+          String(cert.estimatedTimelineInDays)
+        ]),
+        ['*', 60, '*', 90, 35]
+      ),
+      { text: labels.certificationTimeline, style: 'subHeading' },
+      this.buildGanttChart(roadmap.timelineVisualizationData.map(item => ({
+        label: `${item.certificationName} (${item.marketCode})`,
+        startDay: item.startDay,
+        durationDays: item.durationDays
+      })), template)
+    ];
+
+    const plan = roadmap.budgetPlan;
+    if (plan) {
+      content.push(
+        { text: labels.budgetMilestones, style: 'subHeading' },
+        {
+          text: formatLabel(labels.budgetRelease, {
+            amount: `${this.formatNumber(template, Math.round(plan.certificationBudget))} ${plan.currency}`,
+            months: plan.timelineMonths
+          }),
+          margin: [0, 0, 0, 5]
+        },
+        this.buildTable(
+          template,
+          [labels.month, labels.cumulativeBudget, labels.certificationsStarted, labels.marketsReachable],
+          plan.milestones.map(milestone => [
+            String(milestone.month + 1),
+            `${this.formatNumber(template, Math.round(milestone.cumulativeBudget))} ${plan.currency}`,
+            milestone.certifications.join(', ') || '-',
+            milestone.marketsReachable.join(', ') || '-'
+          ]),
+          [40, 90, '*', 90]
+        ),
+        ...this.buildBulletList(
+          labels.deferredCertifications,
+          plan.deferred.map(item => `${item.name} (${item.marketCodes.join(', ')}): ${item.reason}`)
+        )
+      );
+    }
+
+    return content;
+  }
+
+  private buildResourceNeedsSection(report: ReportData, template: ResolvedReportTemplate): Content[] {
+    const { labels } = template;
+    const resourceNeeds = report.resourceNeeds;
+    const capacity = resourceNeeds.productionCapacityAnalysis;
+    const allocation = resourceNeeds.budgetAllocationRecommendation;
+
+    return [
+      { text: labels.resourceNeeds, style: 'sectionHeading', pageBreak: 'before' },
+      this.buildTable(
+        template,
+        [labels.resource, labels.type, labels.priority, labels.timeline, labels.estimatedCost],
+        resourceNeeds.resourceNeeds.map(resource => [
+          resource.name,
+          resource.type,
+          resource.priority,
+          resource.timeline,
+          resource.estimatedCost ? this.formatRange(template, resource.estimatedCost) : '-'
+        ]),
+        ['*', 60, 45, 60, 100]
+      ),
+      { text: labels.productionCapacityAnalysis, style: 'subHeading' },
+      this.buildTable(
+        template,
+        [labels.currentCapacity, labels.requiredCapacity, labels.capacityGap],
+        [[String(capacity.currentCapacity), String(capacity.requiredCapacity), String(capacity.capacityGap)]],
+        ['*', '*', '*']
+      ),
+      ...this.buildBulletList(labels.capacityRecommendations, capacity.recommendations),
+      { text: labels.recommendedBudgetAllocation, style: 'subHeading' },
+      this.buildTable(
+        template,
+        [labels.category, labels.recommended, labels.current],
+        [
+          [labels.certifications, `${allocation.certifications}%`, `${report.budget.allocation.certifications}%`],
+          [labels.marketing, `${allocation.marketing}%`, `${report.budget.allocation.marketing}%`],
+          [labels.logistics, `${allocation.logistics}%`, `${report.budget.allocation.logistics}%`],
+          [labels.other, `${allocation.other}%`, `${report.budget.allocation.other}%`]
+        ],
+        ['*', 90, 90]
+      ),
+      {
+        text: formatLabel(labels.totalBudget, {
+          amount: `${this.formatNumber(template, report.budget.amount)} ${report.budget.currency}`,
+          months: report.budget.timeline
+        }),
+        margin: [0, 5, 0, 0]
+      },
+      ...this.buildBulletList(labels.supplyChainConsiderations, resourceNeeds.supplyChainConsiderations)
+    ];
+  }
+
+  private buildActionPlanSection(report: ReportData, template: ResolvedReportTemplate): Content[] {
+    const { labels } = template;
+    const actionPlan = report.actionPlan;
+    const actionNames = new Map(actionPlan.actionItems.map(item => [item.id, item.name]));
+
+    return [
+      { text: labels.actionPlan, style: 'sectionHeading', pageBreak: 'before' },
+      this.buildTable(
+        template,
+        [labels.action, labels.priority, labels.startDay, labels.days, labels.dependsOn],
+        actionPlan.actionItems.map(action => [
+          action.name,
+          action.priority,
+          String(action.timeline.startDay),
+          String(action.timeline.durationDays),
+          action.dependsOn.map(id => actionNames.get(id) || id).join(', ') || '-'
+        ]),
+        ['*', 45, 45, 35, '*']
+      ),
+      { text: labels.criticalPath, style: 'subHeading' },
+      {
+        text: actionPlan.criticalPath.length > 0
+          ? formatLabel(labels.criticalPathSummary, {
+            path: actionPlan.criticalPath.map(id => actionNames.get(id) || id).join(' > '),
+            days: actionPlan.totalDurationDays
+          })
+          : labels.noCriticalPath
+      },
+      { text: labels.implementationTimeline, style: 'subHeading' },
+      this.buildGanttChart(actionPlan.implementationTimeline.map(phase => ({
+        label: phase.phase,
+        startDay: phase.startDay,
+        durationDays: phase.durationDays,
+        detail: phase.items.map(id => actionNames.get(id) || id).join(', ')
+      })), template),
+      { text: labels.actionTimeline, style: 'subHeading' },
+      this.buildGanttChart(actionPlan.actionItems.map(action => ({
+        label: action.name,
+        startDay: action.timeline.startDay,
+        durationDays: action.timeline.durationDays
+      })), template),
+      { text: labels.riskAssessment, style: 'subHeading' },
+      this.buildTable(
+        template,
+        [labels.riskFactor, labels.probability, labels.impact, labels.mitigation],
+        actionPlan.riskAssessment.map(risk => [risk.name, risk.probability, risk.impact, risk.mitigationStrategy]),
+        [100, 55, 45, '*']
+      )
+    ];
+  }
+
+  /**
+   * Render a Gantt-style chart as a table with one bar per row, scaled to the longest item
+   */
+  buildGanttChart(rows: GanttRow[], template: ResolvedReportTemplate = this.templateRegistry.resolve()): Content {
+    const { labels, branding } = template;
+    if (rows.length === 0) {
+      return { text: labels.noTimelineData, style: 'muted' };
+    }
+
+    const totalDays = Math.max(...rows.map(row => row.startDay + row.durationDays), 1);
+    const scale = GANTT_WIDTH / totalDays;
+    // Time runs from right to left in right-to-left reports
+    const barX = (row: GanttRow) => template.direction === 'rtl'
+      ? GANTT_WIDTH - (row.startDay + row.durationDays) * scale
+      : row.startDay * scale;
+
+    const body: TableCell[][] = [[
+      { text: labels.item, style: 'tableHeader' },
+      { text: labels.days, style: 'tableHeader' },
+      {
+        columns: [
+          { text: formatLabel(labels.dayNumber, { day: 0 }), style: 'muted', alignment: 'left' },
+          { text: formatLabel(labels.dayNumber, { day: totalDays }), style: 'muted', alignment: 'right' }
+        ],
+        fillColor: '#f2f2f2'
+      }
+    ]];
+
+    for (const row of rows) {
+      const label: Content = row.detail
+        ? { stack: [row.label, { text: row.detail, style: 'muted' }] }
+        : row.label;
+
+      body.push([
+        label,
+        `${row.startDay}-${row.startDay + row.durationDays}`,
+        {
+          canvas: [
+            { type: 'rect', x: 0, y: 2, w: GANTT_WIDTH, h: GANTT_BAR_HEIGHT, color: '#eeeeee' },
+            {
+              type: 'rect',
+              x: barX(row),
+              y: 2,
+              w: Math.max(row.durationDays * scale, 1),
+              h: GANTT_BAR_HEIGHT,
+              color: branding.accentColor
+            }
+          ]
+        }
+      ]);
+    }
+
+    return {
+      table: { headerRows: 1, widths: ['*', 45, GANTT_WIDTH], body },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 10]
+    };
+  }
+
+  private buildTable(
+    template: ResolvedReportTemplate,
+    headers: string[],
+    rows: string[][],
+    widths: Array<number | string>
+  ): Content {
+    if (rows.length === 0) {
+      return { text: template.labels.noData, style: 'muted', margin: [0, 0, 0, 10] };
+    }
+
+    return {
+      table: {
+        headerRows: 1,
+        widths,
+        body: [
+          headers.map(header => ({ text: header, style: 'tableHeader' })),
+          ...rows
+        ]
+      },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 10]
+    };
+  }
+
+  /**
+   * Show a cost range in the other reporting currencies, with the date of the rates used
+   */
+  private buildCurrencyEquivalents(
+    report: ReportData,
+    template: ResolvedReportTemplate,
+    min: number,
+    max: number,
+    currency: string
+  ): Content[] {
+    const conversion = report.currencyConversion;
+    if (!conversion || conversion.reportCurrency !== currency) {
+      return [];
+    }
+
+    const equivalents = Object.entries(conversion.rates)
+      .filter(([code]) => code !== currency)
+      .map(([code, rate]) =>
+        `${code} ${this.formatNumber(template, Math.round(min * rate))} - ${this.formatNumber(template, Math.round(max * rate))}`
+      );
+    if (equivalents.length === 0) {
+      return [];
+    }
+
+    return [{
+      text: formatLabel(template.labels.costEquivalents, {
+        amounts: equivalents.join(' | '),
+        date: conversion.rateDate
+      }),
+      style: 'muted'
+    }];
+  }
+
+  private measureText: TextMeasurer = (text, font, bold, fontSize) => {
+    if (!this.measuringDocument) {
+      this.measuringDocument = this.printer.createPdfKitDocument({ content: [] });
+    }
+    const files = RIGHT_TO_LEFT_FONT_FILES[font];
+    return this.measuringDocument
+      .font(path.resolve(process.cwd(), bold ? files.bold : files.normal))
+      .fontSize(fontSize)
+      .widthOfString(text);
+  };
+
+  private formatNumber(template: ResolvedReportTemplate, value: number): string {
+    return value.toLocaleString(template.numberLocale);
+  }
+
+  private formatRange(template: ResolvedReportTemplate, range: { min: number; max: number; currency: string }): string {
+    return `${this.formatNumber(template, range.min)} - ${this.formatNumber(template, range.max)} ${range.currency}`;
+  }
+
+  /**
+   * Font dictionary including the template's own font, or undefined when the
+   * template uses the standard fonts. Right-to-left reports are set in the bundled
+   * Arabic font instead of the template's font.
+   */
+  private getTemplateFonts(template: ResolvedReportTemplate): TFontDictionary | undefined {
+    if (template.direction === 'rtl') {
+      return { ...STANDARD_FONTS, ...getRightToLeftFonts() };
+    }
+
+    const font = template.pdfFont;
+    if (!font) {
+      return undefined;
+    }
+
+    const normal = path.resolve(process.cwd(), font.normal);
+    const bold = path.resolve(process.cwd(), font.bold);
+    if (!fs.existsSync(normal) || !fs.existsSync(bold)) {
+      throw new ReportTemplateError(`Font files for ${font.family} not found: ${font.normal}, ${font.bold}`, template.id);
+    }
+
+    return {
+      ...STANDARD_FONTS,
+      [font.family]: { normal, bold, italics: normal, bolditalics: bold }
+    };
+  }
+
+  private buildBulletList(heading: string, items: string[]): Content[] {
+    if (items.length === 0) {
+      return [];
+    }
+
+    return [
+      { text: heading, bold: true, margin: [0, 5, 0, 2] },
+      { ul: items, margin: [0, 0, 0, 5] }
+    ];
+  }
+}
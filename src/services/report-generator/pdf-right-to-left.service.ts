@@ -0,0 +1,355 @@
+import path from 'path';
+import {
+  Alignment,
+  Content,
+  ContentColumns,
+  ContentStack,
+  ContentTable,
+  ContentText,
+  DynamicContent,
+  Style,
+  StyleDictionary,
+  TDocumentDefinitions,
+  TFontDictionary
+} from 'pdfmake/interfaces';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Noto Naskh Arabic (SIL Open Font License) from @fontsource/noto-naskh-arabic, split into the
+// Arabic and Latin subsets it is published in; text is assigned to one or the other per run
+const FONT_DIR = 'public/fonts/noto-naskh-arabic';
+export const ARABIC_FONT = 'NotoNaskhArabic';
+export const ARABIC_LATIN_FONT = 'NotoNaskhArabicLatin';
+
+export const RIGHT_TO_LEFT_FONT_FILES: Record<string, { normal: string; bold: string }> = {
+  [ARABIC_FONT]: {
+    normal: `${FONT_DIR}/noto-naskh-arabic-arabic-400-normal.woff`,
+    bold: `${FONT_DIR}/noto-naskh-arabic-arabic-700-normal.woff`
+  },
+  [ARABIC_LATIN_FONT]: {
+    normal: `${FONT_DIR}/noto-naskh-arabic-latin-400-normal.woff`,
+    bold: `${FONT_DIR}/noto-naskh-arabic-latin-700-normal.woff`
+  }
+};
+
+/**
+ * Font dictionary entries for right-to-left reports, with paths resolved from the app root
+ */
+export function getRightToLeftFonts(): TFontDictionary {
+  return Object.fromEntries(Object.entries(RIGHT_TO_LEFT_FONT_FILES).map(([family, files]) => {
+    const normal = path.resolve(process.cwd(), files.normal);
+    const bold = path.resolve(process.cwd(), files.bold);
+    return [family, { normal, bold, italics: normal, bolditalics: bold }];
+  }));
+}
+
+/**
+ * Width in points of a run of text set in one of the right-to-left fonts
+ */
+export type TextMeasurer = (text: string, font: string, bold: boolean, fontSize: number) => number;
+
+export interface TextToken {
+  text: string;
+  arabic: boolean;
+  direction?: TextDirection;   // Resolved direction; undefined for spaces and punctuation until resolved
+}
+
+// Content width of an A4 page with the report's 40pt side margins
+const PAGE_CONTENT_WIDTH = 595.28 - 80;
+// Cell padding of the lightHorizontalLines table layout, between adjacent columns
+const TABLE_COLUMN_GAP = 16;
+const BULLET_WIDTH = 12;
+// Room left at the end of wrapped lines for rounding in pdfmake's own measurements
+const WRAP_TOLERANCE = 2;
+
+const ARABIC_LETTERS = '\\u0600-\\u065F\\u066A-\\u06EF\\u06FA-\\u06FF\\u0750-\\u077F\\u08A0-\\u08FF\\uFB50-\\uFDFF\\uFE70-\\uFEFC';
+const TOKEN_PATTERN = new RegExp(`\\s+|[${ARABIC_LETTERS}]+|[^\\s${ARABIC_LETTERS}]+`, 'g');
+const ARABIC_PATTERN = new RegExp(`[${ARABIC_LETTERS}]`);
+const STRONG_PATTERN = new RegExp(`[${ARABIC_LETTERS}]|[A-Za-z\\u00C0-\\u024F]`);
+// Marks such as the RLM in Arabic dates have no glyph; the layout below replaces them
+const BIDI_CONTROLS = /[\u200E\u200F\u061C\u202A-\u202E\u2066-\u2069]/g;
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<' };
+
+/**
+ * Direction of the first letter in the text, as browsers do for dir="auto"
+ */
+export function firstStrongDirection(text: string): TextDirection | undefined {
+  const match = text.match(STRONG_PATTERN);
+  if (!match) return undefined;
+  return ARABIC_PATTERN.test(match[0]) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Split text into Arabic words, other words and spaces, resolving the direction of each.
+ * Spaces and punctuation take the direction of the words on both sides when those agree,
+ * and the paragraph's direction otherwise. Numbers always read left to right.
+ */
+export function tokenize(text: string, base: TextDirection): TextToken[] {
+  // Arabic-Indic digits are only in the Arabic subset, where they would be reversed with the letters
+  const normalised = text
+    .replace(BIDI_CONTROLS, '')
+    .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0));
+
+  const tokens: TextToken[] = (normalised.match(TOKEN_PATTERN) || []).map(part => {
+    const arabic = ARABIC_PATTERN.test(part);
+    const direction: TextDirection | undefined = arabic ? 'rtl' : /[\p{L}\p{N}]/u.test(part) ? 'ltr' : undefined;
+    return { text: part, arabic, direction };
+  });
+
+  return tokens.map((token, index) => {
+    if (token.direction) return token;
+    const before = tokens.slice(0, index).reverse().find(candidate => candidate.direction)?.direction;
+    const after = tokens.slice(index + 1).find(candidate => candidate.direction)?.direction;
+    return { ...token, direction: before && before === after ? before : base };
+  });
+}
+
+/**
+ * Put one line of tokens in left-to-right display order. Arabic words stay in reading
+ * order, as the font engine shapes and reverses each word itself.
+ */
+export function toVisualOrder(tokens: TextToken[], base: TextDirection): TextToken[] {
+  const segments: TextToken[][] = [];
+  for (const token of tokens) {
+    const current = segments[segments.length - 1];
+    if (current && current[0].direction === token.direction) {
+      current.push(token);
+    } else {
+      segments.push([token]);
+    }
+  }
+
+  const ordered = segments.map(segment => segment[0].direction === 'rtl'
+    ? [...segment].reverse().map(token => token.arabic ? token : {
+      ...token,
+      text: [...token.text].reverse().map(char => MIRRORED[char] || char).join('')
+    })
+    : segment);
+
+  return (base === 'rtl' ? ordered.reverse() : ordered).flat();
+}
+
+export interface LayoutContext {
+  width?: number;   // Width available to the text, when known
+  fontSize: number;
+  bold: boolean;
+}
+
+/**
+ * Lays out a report's pdfmake document right to left: runs of Arabic and Latin text get
+ * their font and display order, paragraphs are wrapped before being reordered, tables and
+ * columns are mirrored and list bullets move to the right. pdfmake itself only lays text
+ * out left to right, and shapes Arabic letters only within one font run.
+ */
+export class PdfRightToLeftService {
+  constructor(private measure: TextMeasurer) {}
+
+  apply(docDefinition: TDocumentDefinitions): TDocumentDefinitions {
+    const styles = docDefinition.styles || {};
+    const context: LayoutContext = {
+      width: PAGE_CONTENT_WIDTH,
+      fontSize: docDefinition.defaultStyle?.fontSize || 10,
+      bold: docDefinition.defaultStyle?.bold || false
+    };
+
+    return {
+      ...docDefinition,
+      defaultStyle: { ...docDefinition.defaultStyle, font: ARABIC_LATIN_FONT },
+      header: this.layoutDynamic(docDefinition.header, styles, context),
+      footer: this.layoutDynamic(docDefinition.footer, styles, context),
+      content: this.layout(docDefinition.content, styles, context)
+    };
+  }
+
+  /**
+   * Lay out one paragraph as right-aligned lines of font runs in display order
+   */
+  layoutParagraph(text: string, context: LayoutContext, props: Omit<ContentText, 'text'> = {}): Content {
+    const base = firstStrongDirection(text) || 'rtl';
+    const tokens = tokenize(text, base);
+    const alignment = this.mirrorAlignment(props.alignment);
+
+    // Left-to-right paragraphs wrap correctly on their own; only their Arabic words need moving
+    if (base === 'ltr') {
+      return tokens.some(token => token.arabic)
+        ? { ...props, alignment, text: this.toInlines(toVisualOrder(tokens, base)) }
+        : { ...props, alignment, text };
+    }
+
+    const lines = this.wrap(tokens, context).map(line => this.toInlines(toVisualOrder(line, base)));
+    return lines.length === 1
+      ? { ...props, alignment, text: lines[0] }
+      : { ...props, alignment, stack: lines.map(line => ({ text: line })) } as ContentStack;
+  }
+
+  private layoutDynamic(
+    content: Content | DynamicContent | undefined,
+    styles: StyleDictionary,
+    context: LayoutContext
+  ): Content | DynamicContent | undefined {
+    if (typeof content !== 'function') {
+      return content === undefined ? undefined : this.layout(content, styles, context);
+    }
+    return (...args: Parameters<DynamicContent>) => {
+      const page = content(...args);
+      return page === null || page === undefined ? page : this.layout(page, styles, context);
+    };
+  }
+
+  private layout(content: Content, styles: StyleDictionary, context: LayoutContext): Content {
+    if (typeof content === 'string') {
+      return content ? this.layoutParagraph(content, context) : content;
+    }
+    if (Array.isArray(content)) {
+      return content.map(item => this.layout(item, styles, context));
+    }
+    if (typeof content !== 'object' || content === null) {
+      return content;
+    }
+
+    const node = content as unknown as Record<string, unknown>;
+    const nodeContext = this.withStyle(context, node as Style & { style?: string | string[] }, styles);
+
+    if ('table' in node) {
+      return this.layoutTable(content as ContentTable, styles, nodeContext);
+    }
+    if ('columns' in node) {
+      const columns = content as ContentColumns;
+      const width = nodeContext.width !== undefined ? nodeContext.width / columns.columns.length : undefined;
+      return {
+        ...columns,
+        columns: [...columns.columns].reverse().map(column => this.layout(column, styles, { ...nodeContext, width }))
+      } as ContentColumns;
+    }
+    if ('stack' in node) {
+      const stack = content as ContentStack;
+      return { ...stack, stack: stack.stack.map(item => this.layout(item, styles, nodeContext)) } as ContentStack;
+    }
+    if ('ul' in node) {
+      const { ul, ...props } = node as { ul: Content[] };
+      const itemWidth = nodeContext.width !== undefined ? nodeContext.width - BULLET_WIDTH : undefined;
+      return {
+        ...props,
+        stack: ul.map(item => ({
+          columns: [
+            { width: '*', stack: [this.layout(item, styles, { ...nodeContext, width: itemWidth })] },
+            { width: BULLET_WIDTH, text: '\u2022', alignment: 'right' }
+          ]
+        }))
+      } as ContentStack;
+    }
+    if ('text' in node && typeof node.text === 'string') {
+      const { text, ...props } = content as ContentText & { text: string };
+      return this.layoutParagraph(text, nodeContext, props);
+    }
+    if ('alignment' in node) {
+      return { ...node, alignment: this.mirrorAlignment(node.alignment as Alignment) } as Content;
+    }
+    return content;
+  }
+
+  private layoutTable(table: ContentTable, styles: StyleDictionary, context: LayoutContext): ContentTable {
+    const widths = table.table.widths;
+    const columnWidths = Array.isArray(widths) && context.width !== undefined
+      ? this.getColumnWidths(widths as Array<number | string>, context.width)
+      : [];
+
+    return {
+      ...table,
+      table: {
+        ...table.table,
+        widths: Array.isArray(widths) ? [...widths].reverse() : widths,
+        body: table.table.body.map(row => row
+          .map((cell, index) => this.layout(cell as Content, styles, { ...context, width: columnWidths[index] }))
+          .reverse())
+      }
+    };
+  }
+
+  /**
+   * Estimate column widths the way pdfmake shares a table's width between fixed and star columns
+   */
+  private getColumnWidths(widths: Array<number | string>, tableWidth: number): Array<number | undefined> {
+    const fixed = widths.filter((width): width is number => typeof width === 'number');
+    const stars = widths.length - fixed.length;
+    const starWidth = stars > 0
+      ? (tableWidth - fixed.reduce((sum, width) => sum + width, 0) - TABLE_COLUMN_GAP * (widths.length - 1)) / stars
+      : 0;
+    return widths.map(width => typeof width === 'number' ? width : width === '*' ? starWidth : undefined);
+  }
+
+  private withStyle(
+    context: LayoutContext,
+    node: Style & { style?: string | string[] },
+    styles: StyleDictionary
+  ): LayoutContext {
+    const named = ([] as string[]).concat(node.style || []).map(name => styles[name] || {});
+    const style = Object.assign({}, ...named, node) as Style;
+    return {
+      width: context.width,
+      fontSize: style.fontSize ?? context.fontSize,
+      bold: style.bold ?? context.bold
+    };
+  }
+
+  /**
+   * Break tokens into lines that fit the width, in reading order. Without a known width
+   * the paragraph is kept on one line.
+   */
+  private wrap(tokens: TextToken[], context: LayoutContext): TextToken[][] {
+    if (context.width === undefined) {
+      return [tokens];
+    }
+
+    const lines: TextToken[][] = [];
+    let line: TextToken[] = [];
+    let lineWidth = 0;
+
+    for (const token of tokens) {
+      const tokenWidth = this.measure(token.text, token.arabic ? ARABIC_FONT : ARABIC_LATIN_FONT, context.bold, context.fontSize);
+      const isSpace = !token.text.trim();
+      if (!isSpace && line.length > 0 && lineWidth + tokenWidth > context.width - WRAP_TOLERANCE) {
+        lines.push(this.trimSpaces(line));
+        line = [];
+        lineWidth = 0;
+      }
+      if (isSpace && line.length === 0) continue;
+      line.push(token);
+      lineWidth += tokenWidth;
+    }
+    if (line.length > 0) {
+      lines.push(this.trimSpaces(line));
+    }
+
+    return lines.length > 0 ? lines : [[]];
+  }
+
+  private trimSpaces(line: TextToken[]): TextToken[] {
+    let end = line.length;
+    while (end > 0 && !line[end - 1].text.trim()) end--;
+    return line.slice(0, end);
+  }
+
+  /**
+   * Merge neighbouring tokens set in the same font into pdfmake inline runs
+   */
+  private toInlines(tokens: TextToken[]): ContentText[] {
+    const inlines: ContentText[] = [];
+    for (const token of tokens) {
+      const font = token.arabic ? ARABIC_FONT : ARABIC_LATIN_FONT;
+      const last = inlines[inlines.length - 1];
+      if (last && last.font === font) {
+        last.text = `${last.text}${token.text}`;
+      } else {
+        inlines.push({ text: token.text, font });
+      }
+    }
+    return inlines;
+  }
+
+  private mirrorAlignment(alignment?: Alignment): Alignment {
+    if (alignment === 'center' || alignment === 'justify') return alignment;
+    return alignment === 'right' ? 'left' : 'right';
+  }
+}
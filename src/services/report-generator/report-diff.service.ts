@@ -0,0 +1,207 @@
+import {
+  ReportData,
+  ReportDiff,
+  ValueDelta,
+  CertificationRequirement,
+  CertificationRequirementChange,
+  ActionItem,
+  ActionItemReprioritisation
+} from '@/types/report.types';
+import { TargetMarket } from '@/contexts/assessment-context';
+import { CurrencyConversionError, CurrencyService, MonetaryRange } from '@/services/currency/currency.service';
+
+/**
+ * Compares two generated reports to explain what changed between runs,
+ * e.g. after a client changes their target markets or budget
+ */
+export class ReportDiffService {
+  constructor(private currencyService: CurrencyService = new CurrencyService()) {}
+
+  compare(previous: ReportData, current: ReportData): ReportDiff {
+    const markets = this.diffMarkets(
+      previous.marketInfo.targetMarkets,
+      current.marketInfo.targetMarkets
+    );
+    const certificationRequirements = this.diffCertificationRequirements(
+      previous.certificationRoadmap.requirements,
+      current.certificationRoadmap.requirements
+    );
+    const actionItems = this.diffActionItems(
+      previous.actionPlan.actionItems,
+      current.actionPlan.actionItems
+    );
+
+    const currentCost = current.certificationRoadmap.totalEstimatedCost;
+    const previousBudget = this.toCurrency(
+      { min: previous.budget.amount, max: previous.budget.amount, currency: previous.budget.currency },
+      current.budget.currency
+    );
+    const previousCost = this.toCurrency(previous.certificationRoadmap.totalEstimatedCost, currentCost.currency);
+
+    const diff: ReportDiff = {
+      previousGeneratedAt: new Date(previous.generatedAt),
+      currentGeneratedAt: new Date(current.generatedAt),
+      hasChanges: false,
+      markets,
+      certificationRequirements,
+      totalEstimatedCost: previousCost
+        ? {
+          min: this.delta(previousCost.min, currentCost.min),
+          max: this.delta(previousCost.max, currentCost.max),
+          currency: currentCost.currency,
+          previousCurrency: previous.certificationRoadmap.totalEstimatedCost.currency,
+          comparable: true
+        }
+        : {
+          min: { previous: previous.certificationRoadmap.totalEstimatedCost.min, current: currentCost.min, delta: 0 },
+          max: { previous: previous.certificationRoadmap.totalEstimatedCost.max, current: currentCost.max, delta: 0 },
+          currency: currentCost.currency,
+          previousCurrency: previous.certificationRoadmap.totalEstimatedCost.currency,
+          comparable: false
+        },
+      totalEstimatedTimelineInDays: this.delta(
+        previous.certificationRoadmap.totalEstimatedTimelineInDays,
+        current.certificationRoadmap.totalEstimatedTimelineInDays
+      ),
+      budgetAmount: {
+        ...(previousBudget
+          ? this.delta(previousBudget.min, current.budget.amount)
+          : { previous: previous.budget.amount, current: current.budget.amount, delta: 0 }),
+        currency: current.budget.currency,
+        previousCurrency: previous.budget.currency,
+        comparable: previousBudget !== undefined
+      },
+      exportReadinessScore: this.delta(previous.exportReadinessScore, current.exportReadinessScore),
+      actionItems
+    };
+
+    diff.hasChanges = this.hasChanges(diff);
+    return diff;
+  }
+
+  private diffMarkets(previous: TargetMarket[], current: TargetMarket[]) {
+    const previousCodes = new Set(previous.map(market => market.code));
+    const currentCodes = new Set(current.map(market => market.code));
+
+    return {
+      added: current.filter(market => !previousCodes.has(market.code)),
+      removed: previous.filter(market => !currentCodes.has(market.code))
+    };
+  }
+
+  private diffCertificationRequirements(
+    previous: CertificationRequirement[],
+    current: CertificationRequirement[]
+  ) {
+    const previousByKey = this.indexBy(previous, req => `${req.marketCode}:${req.id}`);
+    const currentByKey = this.indexBy(current, req => `${req.marketCode}:${req.id}`);
+
+    const changed: CertificationRequirementChange[] = [];
+    for (const [key, currentReq] of currentByKey) {
+      const previousReq = previousByKey.get(key);
+      if (!previousReq) continue;
+
+      const previousCost = this.toCurrency(previousReq.estimatedCost, currentReq.estimatedCost.currency);
+      const change: CertificationRequirementChange = {
+        id: currentReq.id,
+        name: currentReq.name,
+        marketCode: currentReq.marketCode,
+        costMinDelta: previousCost ? currentReq.estimatedCost.min - previousCost.min : 0,
+        costMaxDelta: previousCost ? currentReq.estimatedCost.max - previousCost.max : 0,
+        currency: currentReq.estimatedCost.currency,
+        previousCurrency: previousReq.estimatedCost.currency,
+        costComparable: previousCost !== undefined,
+        timelineDeltaInDays: currentReq.estimatedTimelineInDays - previousReq.estimatedTimelineInDays
+      };
+
+      if (change.costMinDelta !== 0 || change.costMaxDelta !== 0 || !change.costComparable ||
+        change.timelineDeltaInDays !== 0) {
+        changed.push(change);
+      }
+    }
+
+    return {
+      added: [...currentByKey].filter(([key]) => !previousByKey.has(key)).map(([, req]) => req),
+      removed: [...previousByKey].filter(([key]) => !currentByKey.has(key)).map(([, req]) => req),
+      changed
+    };
+  }
+
+  private diffActionItems(previous: ActionItem[], current: ActionItem[]) {
+    const previousById = this.indexBy(previous, item => item.id);
+    const currentById = this.indexBy(current, item => item.id);
+
+    const reprioritised: ActionItemReprioritisation[] = [];
+    for (const [id, currentItem] of currentById) {
+      const previousItem = previousById.get(id);
+      if (previousItem && previousItem.priority !== currentItem.priority) {
+        reprioritised.push({
+          id,
+          name: currentItem.name,
+          previousPriority: previousItem.priority,
+          currentPriority: currentItem.priority
+        });
+      }
+    }
+
+    return {
+      added: current.filter(item => !previousById.has(item.id)),
+      removed: previous.filter(item => !currentById.has(item.id)),
+      reprioritised
+    };
+  }
+
+  private hasChanges(diff: ReportDiff): boolean {
+    return diff.markets.added.length > 0 ||
+      diff.markets.removed.length > 0 ||
+      diff.certificationRequirements.added.length > 0 ||
+      diff.certificationRequirements.removed.length > 0 ||
+      diff.certificationRequirements.changed.length > 0 ||
+      diff.totalEstimatedCost.min.delta !== 0 ||
+      diff.totalEstimatedCost.max.delta !== 0 ||
+      !diff.totalEstimatedCost.comparable ||
+      diff.totalEstimatedTimelineInDays.delta !== 0 ||
+      diff.budgetAmount.delta !== 0 ||
+      !diff.budgetAmount.comparable ||
+      diff.exportReadinessScore.delta !== 0 ||
+      diff.actionItems.added.length > 0 ||
+      diff.actionItems.removed.length > 0 ||
+      diff.actionItems.reprioritised.length > 0;
+  }
+
+  /**
+   * Express a previous amount range in the current report's currency, or undefined if no rate is available
+   */
+  private toCurrency(range: MonetaryRange, currency: string): MonetaryRange | undefined {
+    if (range.currency === currency) {
+      return range;
+    }
+
+    try {
+      return this.currencyService.convertRange(range, currency);
+    } catch (error) {
+      if (error instanceof CurrencyConversionError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private delta(previous: number, current: number): ValueDelta {
+    return { previous, current, delta: current - previous };
+  }
+
+  /**
+   * Index items by key, keeping the first occurrence of duplicate keys
+   */
+  private indexBy<T>(items: T[], getKey: (item: T) => string): Map<string, T> {
+    const index = new Map<string, T>();
+    for (const item of items) {
+      const key = getKey(item);
+      if (!index.has(key)) {
+        index.set(key, item);
+      }
+    }
+    return index;
+  }
+}
@@ -8,19 +8,42 @@ import {
   ResourceNeed, 
   ActionItem,
   RiskFactor,
-  ReportGenerationConfig
+  ReportGenerationConfig,
+  ExportReadinessScoreBreakdown,
+  ReportCurrencyConversion
 } from '@/types/report.types';
 import { ComplianceMCPService } from '@/mcp/compliance-mcp/compliance-mcp.service';
-import { MarketIntelligenceMCPService } from '@/mcp/market-intelligence-mcp/market-intelligence-mcp.service';
-import { ComplianceRequirement, ComplianceRequest } from '@/mcp/compliance-mcp/compliance-mcp.interface';
-import { MarketInsight, MarketIntelligenceRequest } from '@/mcp/market-intelligence-mcp/market-intelligence-mcp.interface';
+import { MarketIntelligenceMCPService } from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.service';
+import {
+  ComplianceMCP,
+  ComplianceProductProfile,
+  ComplianceRequirement,
+  ComplianceRequest
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import {
+  MarketInsight,
+  MarketIntelligenceMCP,
+  MarketIntelligenceRequest
+} from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.interface';
 import { BusinessProfile, Product, ProductionCapacity, MarketInfo, Certification, Budget, TargetMarket } from '@/contexts/assessment-context';
 import { BusinessProfile as MCPBusinessProfile } from '@/types/business-profile.types';
 import { PerplexityVerificationService } from '@/ai-agent/services/perplexity-verification.service';
 import { logger } from '@/utils/logger';
+import { ExportReadinessScoringEngine } from './scoring/export-readiness-scoring.service';
+import { ActionPlanScheduler } from './scheduling/action-plan-scheduler.service';
+import { CertificationBudgetOptimizer } from './optimization/certification-budget-optimizer.service';
+import { CurrencyConversionError, CurrencyService } from '@/services/currency/currency.service';
+import { createFixtureDataProviders } from './fixtures/fixture-data-providers';
+import { reportTemplateRegistry } from './templates/report-template.service';
+import { SanctionsScreeningService } from '@/services/sanctions-screening/sanctions-screening.service';
+import { screeningLists } from '@/data/sanctions';
+import { CertificationGraph } from '@/services/certification-graph/certification-graph.service';
+
+// Action item id of the first (pilot) export shipment
+export const PILOT_SHIPMENT_ACTION_ID = 'act-007';
 
 // Define AssessmentState interface to match the context
-interface AssessmentState {
+export interface AssessmentState {
   currentStep: number;
   isAnalysing: boolean;
   businessInfo: {
@@ -35,18 +58,55 @@ interface AssessmentState {
   budget: Budget;
 }
 
+/**
+ * Checks compliance, market and product data before it goes into a report
+ */
+export type ReportVerificationProvider = Pick<
+  PerplexityVerificationService,
+  'verifyProductCategories' | 'verifyComplianceRequirements' | 'verifyMarketInsights'
+>;
+
+/**
+ * External data sources a report is built from. Any provider left out
+ * falls back to the live service.
+ */
+export interface ReportDataProviders {
+  compliance: ComplianceMCP;
+  marketIntelligence: MarketIntelligenceMCP;
+  verification: ReportVerificationProvider;
+  // Clock used to stamp generated reports
+  now: () => Date;
+}
+
 export class ReportGeneratorService {
-  private complianceService: ComplianceMCPService;
-  private marketIntelligenceService: MarketIntelligenceMCPService;
-  private perplexityService: PerplexityVerificationService;
-  private useMockData: boolean;
+  private complianceService: ComplianceMCP;
+  private marketIntelligenceService: MarketIntelligenceMCP;
+  private perplexityService: ReportVerificationProvider;
+  private now: () => Date;
+  private scoringEngine: ExportReadinessScoringEngine;
+  private certificationBudgetOptimizer: CertificationBudgetOptimizer;
+  private currencyService: CurrencyService;
+  private sanctionsScreeningService: SanctionsScreeningService;
+  private certificationGraph: CertificationGraph;
   
-  constructor(useMockData: boolean = false) {
-    this.complianceService = new ComplianceMCPService();
-    this.marketIntelligenceService = new MarketIntelligenceMCPService();
-    this.perplexityService = new PerplexityVerificationService();
-    this.useMockData = useMockData;
-    logger.info(`ReportGeneratorService initialized ${useMockData ? 'with mock data' : ''}`);
+  /**
+   * @param useMockData build reports from the bundled assessment fixtures instead of the live services
+   * @param providers data sources to use in place of the live (or fixture) services
+   */
+  constructor(useMockData: boolean = false, providers: Partial<ReportDataProviders> = {}) {
+    const defaults: Partial<ReportDataProviders> = useMockData ? createFixtureDataProviders() : {};
+    const resolved = { ...defaults, ...providers };
+    
+    this.currencyService = new CurrencyService();
+    this.complianceService = resolved.compliance || new ComplianceMCPService(this.currencyService);
+    this.marketIntelligenceService = resolved.marketIntelligence || new MarketIntelligenceMCPService();
+    this.perplexityService = resolved.verification || new PerplexityVerificationService();
+    this.now = resolved.now || (() => new Date());
+    this.scoringEngine = new ExportReadinessScoringEngine();
+    this.certificationBudgetOptimizer = new CertificationBudgetOptimizer();
+    this.sanctionsScreeningService = new SanctionsScreeningService(screeningLists, 'ZA', this.now);
+    this.certificationGraph = new CertificationGraph();
+    logger.info(`ReportGeneratorService initialized ${useMockData ? 'with fixture data' : ''}`);
   }
   
   async generateReport(
@@ -63,24 +123,36 @@ export class ReportGeneratorService {
     try {
       logger.info('Generating export readiness report');
       
-      // Use mock data if enabled (for development/testing)
-      if (this.useMockData) {
-        logger.info('Using mock data for report generation');
-        return this.generateMockReportData(assessmentState);
-      }
-      
       // Validate that we have all the necessary data
       this.validateAssessmentData(assessmentState);
       
+      // Fail early on an unknown template rather than when the report is exported
+      if (config.template) {
+        reportTemplateRegistry.resolve(config.template);
+      }
+      
       // Get compliance requirements
-      const complianceRequest: ComplianceRequest = {
-        productCategories: assessmentState.selectedProducts.map((p) => p.category),
-        targetMarkets: assessmentState.marketInfo.targetMarkets.map((m) => m.code),
-        businessProfile: this.convertBusinessProfileForMCP(assessmentState.businessProfile, assessmentState.selectedProducts)
-      };
+      const complianceRequest = this.createComplianceRequest(assessmentState);
       
       logger.info('Fetching compliance requirements');
       const complianceData = await this.complianceService.getRequirements(complianceRequest);
+      const currencyWarnings: string[] = [];
+      complianceData.requirements = this.convertRequirementCosts(
+        complianceData.requirements,
+        assessmentState.budget.currency,
+        currencyWarnings
+      );
+      
+      // Screen the markets before anything is planned for them
+      logger.info('Screening target markets for sanctions and restricted goods');
+      const sanctionsScreening = this.sanctionsScreeningService.screen({
+        targetMarkets: assessmentState.marketInfo.targetMarkets.map((m) => m.code),
+        products: assessmentState.selectedProducts.map((p) => ({
+          name: p.name,
+          description: p.description,
+          hsCode: p.hsCode
+        }))
+      });
       
       // Get market intelligence
       const marketRequest: MarketIntelligenceRequest = {
@@ -126,6 +198,13 @@ export class ReportGeneratorService {
           logger.error(`Error verifying data with Perplexity: ${error}`);
           // Continue with unverified data rather than failing
         }
+        
+        // Verification may return costs in other currencies
+        verifiedComplianceData = this.convertRequirementCosts(
+          verifiedComplianceData,
+          assessmentState.budget.currency,
+          currencyWarnings
+        );
       }
       
       // Generate insights for each section
@@ -140,7 +219,9 @@ export class ReportGeneratorService {
       const certificationRoadmap = this.generateCertificationRoadmap(
         verifiedComplianceData,
         assessmentState.marketInfo.targetMarkets,
-        assessmentState.budget
+        assessmentState.budget,
+        assessmentState.certifications,
+        config
       );
       
       logger.info('Generating resource needs section');
@@ -154,11 +235,13 @@ export class ReportGeneratorService {
       const actionPlan = this.generateActionPlan(
         assessmentState,
         verifiedComplianceData,
-        verifiedMarketData
+        verifiedMarketData,
+        config
       );
+      actionPlan.riskAssessment.unshift(...this.sanctionsScreeningService.toRiskFactors(sanctionsScreening));
       
       // Calculate export readiness score
-      const exportReadinessScore = this.calculateExportReadinessScore(
+      const exportReadinessBreakdown = this.calculateExportReadinessScore(
         assessmentState,
         complianceData,
         marketData
@@ -189,11 +272,18 @@ export class ReportGeneratorService {
           resourceNeeds,
         actionPlan,
         
-        generatedAt: new Date(),
-        exportReadinessScore,
-        overallConfidenceScore
+        generatedAt: this.now(),
+        exportReadinessScore: exportReadinessBreakdown.totalScore,
+        exportReadinessBreakdown,
+        overallConfidenceScore,
+        currencyConversion: this.getCurrencyConversion(assessmentState.budget.currency, currencyWarnings),
+        sanctionsScreening
       };
       
+      if (config.template) {
+        reportData.template = config.template;
+      }
+      
       // Include raw data if requested
       if (config.includeRawData) {
         reportData.rawComplianceData = verifiedComplianceData;
@@ -208,6 +298,65 @@ export class ReportGeneratorService {
     }
   }
   
+  /**
+   * Convert requirement cost estimates into the exporter's budget currency so they can be summed.
+   * A cost without an exchange rate keeps its own currency and adds a warning.
+   */
+  private convertRequirementCosts(
+    requirements: ComplianceRequirement[],
+    currency: string,
+    warnings: string[]
+  ): ComplianceRequirement[] {
+    return requirements.map(req => {
+      if (!req.estimatedCost) {
+        return req;
+      }
+
+      try {
+        return { ...req, estimatedCost: this.currencyService.convertRange(req.estimatedCost, currency) };
+      } catch (error) {
+        if (!(error instanceof CurrencyConversionError)) {
+          throw error;
+        }
+        const warning = `${req.name} (${req.id}) cost left in ${req.estimatedCost.currency}: ${error.message}`;
+        logger.warn(warning);
+        if (!warnings.includes(warning)) {
+          warnings.push(warning);
+        }
+        return req;
+      }
+    });
+  }
+  
+  /**
+   * Exchange rates from the budget currency into each reporting currency;
+   * no rates when the budget currency itself is unsupported
+   */
+  private getCurrencyConversion(currency: string, warnings: string[]): ReportCurrencyConversion {
+    let rates: Record<string, number> = {};
+    const conversionWarnings = [...warnings];
+    try {
+      rates = this.currencyService.getRates(currency);
+    } catch (error) {
+      if (!(error instanceof CurrencyConversionError)) {
+        throw error;
+      }
+      logger.warn(`No reporting currency rates for budget currency ${currency}: ${error.message}`);
+      conversionWarnings.push(`No exchange rates for the budget currency ${currency}`);
+    }
+
+    const conversion: ReportCurrencyConversion = {
+      reportCurrency: currency,
+      rateDate: this.currencyService.getRateDate(),
+      rateSource: this.currencyService.getRateSource(),
+      rates
+    };
+    if (conversionWarnings.length > 0) {
+      conversion.warnings = conversionWarnings;
+    }
+    return conversion;
+  }
+  
   /**
    * Validate that all necessary assessment data is present
    * Throw errors for missing data rather than using mock data
@@ -232,6 +381,47 @@ export class ReportGeneratorService {
     logger.info('Assessment data validation successful');
   }
   
+  /**
+   * The compliance request behind an assessment's report, also used to track the
+   * assessment for regulatory changes
+   */
+  createComplianceRequest(assessmentState: AssessmentState): ComplianceRequest {
+    return {
+      productCategories: assessmentState.selectedProducts.map((p) => p.category),
+      targetMarkets: assessmentState.marketInfo.targetMarkets.map((m) => m.code),
+      businessProfile: this.convertBusinessProfileForMCP(assessmentState.businessProfile, assessmentState.selectedProducts),
+      currency: assessmentState.budget.currency,
+      products: assessmentState.selectedProducts.map((p) => this.convertProductForCompliance(p))
+    };
+  }
+  
+  /**
+   * Describe a product by the attributes compliance rules are keyed on
+   */
+  private convertProductForCompliance(product: Product): ComplianceProductProfile {
+    const specs = product.specifications || {};
+    const storage = String(specs.storageType || specs.storage || '').toLowerCase();
+    const description = `${product.name} ${product.category}`.toLowerCase();
+    const isTrue = (value: unknown) => ['true', 'yes'].includes(String(value).toLowerCase());
+
+    let storageType: ComplianceProductProfile['storageType'] = 'ambient';
+    if (storage.includes('frozen') || storage.includes('-18') || description.includes('frozen')) {
+      storageType = 'frozen';
+    } else if (storage.includes('chill') || storage.includes('refrigerat')) {
+      storageType = 'chilled';
+    }
+
+    return {
+      id: product.id,
+      name: product.name,
+      category: product.category,
+      hsCode: product.hsCode,
+      storageType,
+      organic: isTrue(specs.organic) || /\borganic\b/.test(description),
+      halal: isTrue(specs.halal)
+    };
+  }
+  
   /**
    * Convert the AssessmentBusinessProfile to the format expected by MCP services
    */
@@ -240,27 +430,23 @@ export class ReportGeneratorService {
     selectedProducts: Product[]
   ): MCPBusinessProfile {
     return {
-      name: profile.name,
-      description: profile.description,
-      industry: profile.industry,
-      location: {
-        country: profile.location,
-        city: '',
-        address: profile.contactInfo?.address || ''
-      },
-      contactInfo: {
+      id: profile.websiteUrl || profile.name,
+      companyName: profile.name,
+      companyDescription: profile.description,
+      website: profile.websiteUrl,
+      industry: profile.industry ? [profile.industry] : [],
+      productCategories: [...new Set(selectedProducts.map(p => p.category))],
+      primaryContact: {
+        name: profile.name,
         email: profile.contactInfo?.email || '',
-        phone: profile.contactInfo?.phone || '',
-        socialMedia: {}
+        phone: profile.contactInfo?.phone
       },
-      websiteUrl: profile.websiteUrl,
-      extractedAt: profile.extractedAt || new Date(),
-      products: selectedProducts.map(p => ({
-        name: p.name,
-        description: p.description,
-        category: p.category,
-        specifications: p.specifications
-      }))
+      address: {
+        street: profile.contactInfo?.address || '',
+        city: '',
+        postalCode: '',
+        country: profile.location
+      }
     };
   }
   
@@ -295,6 +481,13 @@ export class ReportGeneratorService {
           marketName: targetMarket.name,
           marketSize: marketInsight.marketSize.value,
           marketCurrency: marketInsight.marketSize.currency,
+          marketSizeInBudgetCurrency: this.currencyService.canConvert(marketInsight.marketSize.currency, assessmentState.budget.currency)
+            ? this.currencyService.convert(
+              marketInsight.marketSize.value,
+              marketInsight.marketSize.currency,
+              assessmentState.budget.currency
+            )
+            : undefined,
           growthRate: marketInsight.marketSize.growthRate || 0,
           keyCompetitors: marketInsight.topCompetitors.map(competitor => ({
             name: competitor.name,
@@ -356,13 +549,18 @@ export class ReportGeneratorService {
   private generateCertificationRoadmap(
     complianceRequirements: ComplianceRequirement[],
     targetMarkets: TargetMarket[],
-    budget: Budget
+    budget: Budget,
+    certifications: Certification[],
+    config: ReportGenerationConfig
   ): CertificationRoadmapSection {
+    // Certifications already obtained may meet requirements directly or through the certification graph
+    const matches = this.certificationGraph.findSatisfiedRequirements(complianceRequirements, certifications);
+    
     // Map requirements to the certification roadmap format
-    const requirements: CertificationRequirement[] = complianceRequirements
-      .filter(req => req.isRequired)
+    const allRequirements: CertificationRequirement[] = complianceRequirements
       .map(req => {
         const market = targetMarkets.find(m => m.code === req.countryCode);
+        const match = matches.find(m => m.requirementId === req.id && m.marketCode === req.countryCode);
         
         return {
           id: req.id,
@@ -379,25 +577,53 @@ export class ReportGeneratorService {
           marketName: market ? market.name : req.countryCode,
           regulatoryBody: req.regulatoryBody || 'Regulatory authority',
           referenceUrl: req.referenceUrl || '',
-          confidenceScore: req.confidenceScore
+          satisfiedBy: match?.certificationName,
+          confidenceScore: req.confidenceScore,
+          applicability: req.applicability
         };
       });
+    const requirements = allRequirements.filter(req => req.isRequired);
+    // Only requirements not already met still need time and budget
+    const outstanding = requirements.filter(req => !req.satisfiedBy);
     
     // Generate timeline visualization based on budget constraints
     const certBudget = budget.amount * (budget.allocation.certifications / 100);
-    const timelineVisualizationData = this.generateTimelineVisualization(
-      requirements,
+    let timelineVisualizationData = this.generateTimelineVisualization(
+      outstanding,
       certBudget,
       budget.timeline
     );
     
-    // Calculate total estimated cost
-    const totalMin = requirements.reduce((sum, req) => sum + req.estimatedCost.min, 0);
-    const totalMax = requirements.reduce((sum, req) => sum + req.estimatedCost.max, 0);
-    const currency = requirements.length > 0 ? requirements[0].estimatedCost.currency : 'USD';
+    // With cost optimisation, choose an affordable order and subset of all certifications
+    let budgetPlan;
+    if (config.costOptimization) {
+      const optimization = this.certificationBudgetOptimizer.optimize(
+        allRequirements.filter(req => !req.satisfiedBy),
+        targetMarkets,
+        budget
+      );
+      budgetPlan = optimization.plan;
+      timelineVisualizationData = optimization.funded.flatMap(group =>
+        group.requirements.map(req => ({
+          certificationName: req.name,
+          startDay: group.startDay,
+          durationDays: req.estimatedTimelineInDays,
+          marketCode: req.marketCode,
+          // A shared certification is only paid for once
+          cost: group.cost / group.requirements.length
+        }))
+      );
+    }
+    
+    // Requirement costs have already been converted to the budget currency where a rate exists;
+    // the rest are left out of the total and reported in the currency conversion warnings
+    const currency = budget.currency;
+    const summable = outstanding.filter(req => req.estimatedCost.currency === currency);
+    const totalMin = summable.reduce((sum, req) => sum + req.estimatedCost.min, 0);
+    const totalMax = summable.reduce((sum, req) => sum + req.estimatedCost.max, 0);
     
     // Calculate total timeline
-    const totalTimeline = this.calculateTotalTimeline(requirements);
+    const totalTimeline = this.calculateTotalTimeline(outstanding);
     
     // Calculate confidence score
     let confidenceScore = undefined;
@@ -417,6 +643,12 @@ export class ReportGeneratorService {
         currency
       },
       totalEstimatedTimelineInDays: totalTimeline,
+      budgetPlan,
+      suggestedCertification: this.certificationGraph.suggestCertification(
+        targetMarkets.map(m => m.code),
+        complianceRequirements,
+        certifications
+      ),
       confidenceScore
     };
   }
@@ -564,19 +796,27 @@ export class ReportGeneratorService {
   private generateActionPlan(
     assessmentState: AssessmentState,
     complianceRequirements: ComplianceRequirement[],
-    marketData: Record<string, MarketInsight>
+    marketData: Record<string, MarketInsight>,
+    config: ReportGenerationConfig
   ): ActionPlanSection {
-    // Generate action items
-    const actionItems = this.generateActionItems(
-      assessmentState,
-      complianceRequirements,
-      marketData
+    // Generate action items and schedule them around their dependencies
+    const scheduler = new ActionPlanScheduler({
+      maxParallelActions: config.maxParallelActions,
+      optimizeTimeline: config.timelineOptimization
+    });
+    const { actionItems, criticalPath, totalDurationDays } = scheduler.schedule(
+      this.generateActionItems(
+        assessmentState,
+        complianceRequirements,
+        marketData
+      )
     );
     
     // Generate implementation timeline
     const implementationTimeline = this.generateImplementationTimeline(
       actionItems,
-      assessmentState.budget.timeline
+      assessmentState.budget.timeline,
+      totalDurationDays
     );
     
     // Generate risk assessment
@@ -597,6 +837,8 @@ export class ReportGeneratorService {
     return {
       actionItems,
       implementationTimeline,
+      criticalPath,
+      totalDurationDays,
       riskAssessment,
       confidenceScore
     };
@@ -645,70 +887,23 @@ export class ReportGeneratorService {
   }
   
   /**
-   * Calculate export readiness score based on assessment data
+   * Calculate the weighted export readiness score and its per-dimension breakdown
    */
   private calculateExportReadinessScore(
     assessmentState: AssessmentState,
     complianceData: any,
     marketData: Record<string, MarketInsight>
-  ): number {
-    let score = 0;
-    const maxScore = 100;
-    
-    // 1. Business profile completeness (max 10 points)
-    if (assessmentState.businessProfile) {
-      const profile = assessmentState.businessProfile;
-      let profileScore = 0;
-      
-      if (profile.name) profileScore += 2;
-      if (profile.description) profileScore += 2;
-      if (profile.industry) profileScore += 2;
-      if (profile.location) profileScore += 2;
-      if (profile.contactInfo && Object.keys(profile.contactInfo).length > 0) profileScore += 2;
-      
-      score += profileScore;
-    }
-    
-    // 2. Product readiness (max 20 points)
-    const productScore = Math.min(20, assessmentState.selectedProducts.length * 5);
-    score += productScore;
-    
-    // 3. Production capacity (max 15 points)
-    let capacityScore = 0;
-    if (assessmentState.productionCapacity.monthlyCapacity > 0) capacityScore += 5;
-    if (assessmentState.productionCapacity.leadTime > 0) capacityScore += 5;
-    if (assessmentState.productionCapacity.minimumOrderQuantity > 0) capacityScore += 5;
-    score += capacityScore;
-    
-    // 4. Market selection (max 15 points)
-    const marketSelectionScore = Math.min(15, assessmentState.marketInfo.targetMarkets.length * 5);
-    score += marketSelectionScore;
-    
-    // 5. Competitor analysis (max 10 points)
-    if (assessmentState.marketInfo.competitorAnalysis && assessmentState.marketInfo.competitorAnalysis.length > 10) {
-      score += 10;
-    } else if (assessmentState.marketInfo.competitorAnalysis && assessmentState.marketInfo.competitorAnalysis.length > 0) {
-      score += 5;
-    }
-    
-    // 6. Certification readiness (max 15 points)
-    const certificationScore = Math.min(15, assessmentState.certifications.length * 5);
-    score += certificationScore;
-    
-    // 7. Budget allocation (max 15 points)
-    if (assessmentState.budget.amount > 0) {
-      const allocationSum = Object.values(assessmentState.budget.allocation).reduce(
-        (sum: number, value: number) => sum + value, 0);
-      
-      if (allocationSum > 0) {
-        score += 15;
-      } else {
-        score += 7;
-      }
-    }
-    
-    // Return the final score rounded to the nearest integer
-    return Math.round(score);
+  ): ExportReadinessScoreBreakdown {
+    return this.scoringEngine.calculate({
+      businessProfile: assessmentState.businessProfile,
+      selectedProducts: assessmentState.selectedProducts,
+      productionCapacity: assessmentState.productionCapacity,
+      marketInfo: assessmentState.marketInfo,
+      certifications: assessmentState.certifications,
+      budget: assessmentState.budget,
+      complianceData,
+      marketData
+    });
   }
   
   /**
@@ -720,10 +915,11 @@ export class ReportGeneratorService {
   ): ResourceNeed[] {
     const needs: ResourceNeed[] = [];
     
-    // Calculate total compliance costs
+    // Costs are in the budget currency unless no exchange rate was available; those are not summed
+    const currency = assessmentState.budget.currency;
     const complianceCosts = complianceRequirements.reduce(
       (total, req) => {
-        if (req.estimatedCost) {
+        if (req.estimatedCost && req.estimatedCost.currency === currency) {
           total.min += req.estimatedCost.min;
           total.max += req.estimatedCost.max;
         }
@@ -732,10 +928,6 @@ export class ReportGeneratorService {
       { min: 0, max: 0 }
     );
     
-    const currency = complianceRequirements.length > 0 && complianceRequirements[0].estimatedCost
-      ? complianceRequirements[0].estimatedCost.currency
-      : assessmentState.budget.currency;
-    
     // Certification costs
     needs.push({
       type: 'financial',
@@ -1388,7 +1580,7 @@ export class ReportGeneratorService {
     
     // 7. Pilot export shipment
     actionItems.push({
-      id: 'act-007',
+      id: PILOT_SHIPMENT_ACTION_ID,
       name: 'Execute Pilot Export Shipment',
       description: 'Send first test shipment to primary target market',
       priority: 'high',
@@ -1419,7 +1611,7 @@ export class ReportGeneratorService {
         startDay: 210,
         durationDays: 60
       },
-      dependsOn: ['act-007'],
+      dependsOn: [PILOT_SHIPMENT_ACTION_ID],
       resources: [
         'Process improvement methodology',
         'Feedback systems',
@@ -1443,7 +1635,7 @@ export class ReportGeneratorService {
           startDay: 270,
           durationDays: 90
         },
-        dependsOn: ['act-007', 'act-008'],
+        dependsOn: [PILOT_SHIPMENT_ACTION_ID, 'act-008'],
         resources: [
           'Market entry templates',
           'Expansion budget',
@@ -1502,7 +1694,8 @@ export class ReportGeneratorService {
    */
   private generateImplementationTimeline(
     actionItems: ActionItem[],
-    timelineMonths: number
+    timelineMonths: number,
+    totalDurationDays: number
   ) {
     // Create phases based on the timeline
     const phases = [
@@ -1527,7 +1720,8 @@ export class ReportGeneratorService {
       {
         phase: 'Expansion Phase',
         startDay: Math.min(270, timelineMonths * 30 * 0.75),
-        durationDays: timelineMonths * 30 - Math.min(270, timelineMonths * 30 * 0.75),
+        // Extend the final phase when the schedule runs past the budget timeline
+        durationDays: Math.max(timelineMonths * 30, totalDurationDays) - Math.min(270, timelineMonths * 30 * 0.75),
         items: [] as string[]
       }
     ];
@@ -1660,163 +1854,4 @@ export class ReportGeneratorService {
     
     return riskFactors;
   }
-
-  // Method to generate mock report data for testing
-  private generateMockReportData(assessmentState: AssessmentState): ReportData {
-    logger.info('Generating mock report data');
-    
-    const targetMarkets = assessmentState.marketInfo?.targetMarkets || [];
-    const products = assessmentState.selectedProducts || [];
-    
-    // Generate a simple mock report
-    return {
-      businessProfile: assessmentState.businessProfile || {
-        name: 'Sample Business',
-        description: 'A sample business profile',
-        industry: 'Manufacturing',
-        location: 'Sample Location',
-        websiteUrl: 'https://example.com',
-        contactInfo: {}
-      },
-      selectedProducts: products,
-      productionCapacity: assessmentState.productionCapacity || {
-        monthlyCapacity: 1000,
-        unit: 'units',
-        leadTime: 30,
-        minimumOrderQuantity: 100
-      },
-      marketInfo: assessmentState.marketInfo || {
-        targetMarkets: [],
-        existingMarkets: [],
-        competitorAnalysis: ''
-      },
-      certifications: assessmentState.certifications || [],
-      budget: assessmentState.budget || {
-        amount: 100000,
-        currency: 'USD',
-        timeline: 12,
-        allocation: {
-          certifications: 30,
-          marketing: 40,
-          logistics: 20,
-          other: 10
-        }
-      },
-      
-      // Mock report sections
-      marketOverview: targetMarkets.map(market => ({
-        marketCode: market.code,
-        marketName: market.name,
-        marketSize: 10000000,
-        marketCurrency: 'USD',
-        growthRate: 5,
-        keyCompetitors: [
-          { name: 'Competitor A', marketShare: 25 },
-          { name: 'Competitor B', marketShare: 20 }
-        ],
-        entryBarriers: ['Regulatory requirements', 'Local competition'],
-        opportunities: ['Growing market', 'Premium segment potential'],
-        risks: ['Currency fluctuation', 'Supply chain risks'],
-        productSpecificInsights: ['Good potential for export growth'],
-        confidenceScore: 0.85
-      })),
-      
-      certificationRoadmap: {
-        requirements: [
-          {
-            id: 'iso9001',
-            name: 'ISO 9001',
-            description: 'Quality management certification',
-            isRequired: true,
-            estimatedCost: { min: 5000, max: 10000, currency: 'USD' },
-            estimatedTimelineInDays: 180,
-            marketCode: 'global',
-            marketName: 'Global Markets',
-            regulatoryBody: 'ISO',
-            referenceUrl: 'https://www.iso.org',
-            confidenceScore: 0.9
-          }
-        ],
-        timelineVisualizationData: [
-          {
-            certificationName: 'ISO 9001',
-            startDay: 0,
-            durationDays: 180,
-            marketCode: 'global',
-            cost: 7500
-          }
-        ],
-        totalEstimatedCost: { min: 5000, max: 10000, currency: 'USD' },
-        totalEstimatedTimelineInDays: 180,
-        confidenceScore: 0.9
-      },
-      
-      resourceNeeds: {
-        resourceNeeds: [
-          {
-            type: 'financial',
-            name: 'Certification Budget',
-            description: 'Budget for certification process',
-            estimatedCost: { min: 5000, max: 10000, currency: 'USD' },
-            priority: 'high',
-            timeline: '6 months',
-            confidenceScore: 0.9
-          }
-        ],
-        budgetAllocationRecommendation: {
-          certifications: 30,
-          marketing: 40,
-          logistics: 20,
-          other: 10
-        },
-        productionCapacityAnalysis: {
-          currentCapacity: 1000,
-          requiredCapacity: 1500,
-          capacityGap: 500,
-          recommendations: ['Increase production capacity']
-        },
-        supplyChainConsiderations: ['Establish reliable logistics partners'],
-        confidenceScore: 0.85
-      },
-      
-      actionPlan: {
-        actionItems: [
-          {
-            id: 'action1',
-            name: 'Begin certification process',
-            description: 'Start ISO 9001 certification',
-            priority: 'high',
-            timeline: { startDay: 0, durationDays: 30 },
-            dependsOn: [],
-            resources: ['Certification Budget'],
-            estimatedCost: { amount: 2000, currency: 'USD' },
-            marketCodes: ['global'],
-            confidenceScore: 0.9
-          }
-        ],
-        implementationTimeline: [
-          {
-            phase: 'Preparation',
-            startDay: 0,
-            durationDays: 90,
-            items: ['Begin certification process']
-          }
-        ],
-        riskAssessment: [
-          {
-            name: 'Certification delays',
-            probability: 'medium',
-            impact: 'high',
-            mitigationStrategy: 'Start early and allocate sufficient resources',
-            confidenceScore: 0.8
-          }
-        ],
-        confidenceScore: 0.85
-      },
-      
-      generatedAt: new Date(),
-      exportReadinessScore: 75,
-      overallConfidenceScore: 0.85
-    };
-  }
-} 
\ No newline at end of file
+}
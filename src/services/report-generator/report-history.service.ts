@@ -0,0 +1,116 @@
+import { ReportData, ReportVersion } from '@/types/report.types';
+import { BusinessProfile } from '@/contexts/assessment-context';
+import { KeyValueStorage, resolveKeyValueStorage } from '@/utils/key-value-storage';
+import { logger } from '@/utils/logger';
+
+const STORAGE_KEY_PREFIX = 'reportHistory:';
+const DEFAULT_MAX_VERSIONS = 20;
+
+/**
+ * Persists generated reports per assessment so reruns can be compared
+ */
+export class ReportHistoryService {
+  private storage: KeyValueStorage;
+  private maxVersions: number;
+
+  constructor(storage?: KeyValueStorage, maxVersions: number = DEFAULT_MAX_VERSIONS) {
+    this.storage = resolveKeyValueStorage(storage);
+    this.maxVersions = maxVersions;
+  }
+
+  /**
+   * Derive a stable assessment identifier from the business profile
+   */
+  static getAssessmentId(businessProfile: BusinessProfile): string {
+    const source = businessProfile.websiteUrl || businessProfile.name;
+    return source
+      .toLowerCase()
+      .replace(/^https?:\/\//, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  /**
+   * Save a newly generated report as the next version for the assessment
+   */
+  saveReport(assessmentId: string, report: ReportData): ReportVersion {
+    const history = this.getHistory(assessmentId);
+    const latest = history[history.length - 1];
+
+    const version: ReportVersion = {
+      assessmentId,
+      version: latest ? latest.version + 1 : 1,
+      savedAt: new Date(),
+      report
+    };
+
+    // Keep only the most recent versions to bound storage use
+    const updatedHistory = [...history, version].slice(-this.maxVersions);
+
+    try {
+      this.storage.setItem(this.getStorageKey(assessmentId), JSON.stringify(updatedHistory));
+      logger.info(`Saved report version ${version.version} for assessment ${assessmentId}`);
+    } catch (error) {
+      logger.error(`Failed to persist report history for ${assessmentId}: ${error}`);
+    }
+
+    return version;
+  }
+
+  /**
+   * Get all stored versions for an assessment, oldest first
+   */
+  getHistory(assessmentId: string): ReportVersion[] {
+    try {
+      const stored = this.storage.getItem(this.getStorageKey(assessmentId));
+      if (!stored) {
+        return [];
+      }
+
+      return (JSON.parse(stored) as ReportVersion[]).map(version => this.reviveVersion(version));
+    } catch (error) {
+      logger.warn(`Failed to read report history for ${assessmentId}: ${error}`);
+      return [];
+    }
+  }
+
+  getVersion(assessmentId: string, version: number): ReportVersion | undefined {
+    return this.getHistory(assessmentId).find(entry => entry.version === version);
+  }
+
+  getLatest(assessmentId: string): ReportVersion | undefined {
+    const history = this.getHistory(assessmentId);
+    return history[history.length - 1];
+  }
+
+  /**
+   * Get the version saved immediately before the given one
+   */
+  getPrevious(assessmentId: string, version: number): ReportVersion | undefined {
+    return this.getHistory(assessmentId)
+      .filter(entry => entry.version < version)
+      .pop();
+  }
+
+  clearHistory(assessmentId: string): void {
+    this.storage.removeItem(this.getStorageKey(assessmentId));
+  }
+
+  private getStorageKey(assessmentId: string): string {
+    return `${STORAGE_KEY_PREFIX}${assessmentId}`;
+  }
+
+  /**
+   * JSON round-tripping turns dates into strings, so restore them
+   */
+  private reviveVersion(version: ReportVersion): ReportVersion {
+    return {
+      ...version,
+      savedAt: new Date(version.savedAt),
+      report: {
+        ...version.report,
+        generatedAt: new Date(version.report.generatedAt)
+      }
+    };
+  }
+}
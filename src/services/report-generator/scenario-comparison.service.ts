@@ -0,0 +1,134 @@
+import {
+  AssessmentScenario,
+  ReportData,
+  ReportGenerationConfig,
+  RiskFactor,
+  ScenarioComparison,
+  ScenarioComparisonRow,
+  ScenarioOverrides
+} from '@/types/report.types';
+import {
+  AssessmentState,
+  PILOT_SHIPMENT_ACTION_ID,
+  ReportGeneratorService
+} from './report-generator.service';
+import { logger } from '@/utils/logger';
+
+export const BASE_SCENARIO_ID = 'base';
+
+const TOP_RISK_COUNT = 3;
+
+const RISK_LEVEL: Record<RiskFactor['probability'], number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+};
+
+/**
+ * Generates reports for "what if" variations of an assessment and compares them side by side
+ */
+export class ScenarioComparisonService {
+  private reportGenerator: ReportGeneratorService;
+
+  constructor(reportGenerator: ReportGeneratorService = new ReportGeneratorService()) {
+    this.reportGenerator = reportGenerator;
+  }
+
+  /**
+   * Generate one report for the base assessment and one per scenario.
+   * A scenario that fails to generate is reported in its comparison row
+   * rather than failing the whole comparison.
+   */
+  async compareScenarios(
+    baseState: AssessmentState,
+    scenarios: AssessmentScenario[],
+    config?: ReportGenerationConfig
+  ): Promise<ScenarioComparison> {
+    const allScenarios: AssessmentScenario[] = [
+      { id: BASE_SCENARIO_ID, name: 'Current plan', overrides: {} },
+      ...scenarios.filter(scenario => scenario.id !== BASE_SCENARIO_ID)
+    ];
+
+    const rows: ScenarioComparisonRow[] = [];
+    const reports: Record<string, ReportData> = {};
+
+    // Generate sequentially to avoid flooding the compliance and market data services
+    for (const scenario of allScenarios) {
+      try {
+        logger.info(`Generating report for scenario "${scenario.name}"`);
+        const report = await this.reportGenerator.generateReport(
+          this.applyOverrides(baseState, scenario.overrides),
+          config
+        );
+        reports[scenario.id] = report;
+        rows.push(this.buildComparisonRow(scenario, report));
+      } catch (error) {
+        logger.error(`Failed to generate report for scenario "${scenario.name}": ${error}`);
+        rows.push({
+          scenarioId: scenario.id,
+          scenarioName: scenario.name,
+          exportReadinessScore: null,
+          totalCertificationCost: null,
+          timeToFirstShipmentDays: null,
+          topRisks: [],
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return {
+      baseScenarioId: BASE_SCENARIO_ID,
+      rows,
+      reports,
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Apply scenario overrides to a copy of the base assessment
+   */
+  applyOverrides(baseState: AssessmentState, overrides: ScenarioOverrides): AssessmentState {
+    return {
+      ...baseState,
+      marketInfo: overrides.targetMarkets
+        ? { ...baseState.marketInfo, targetMarkets: overrides.targetMarkets }
+        : baseState.marketInfo,
+      budget: overrides.budget
+        ? {
+          ...baseState.budget,
+          ...overrides.budget,
+          allocation: { ...baseState.budget.allocation, ...overrides.budget.allocation }
+        }
+        : baseState.budget,
+      productionCapacity: overrides.productionCapacity
+        ? { ...baseState.productionCapacity, ...overrides.productionCapacity }
+        : baseState.productionCapacity,
+      certifications: overrides.certifications || baseState.certifications
+    };
+  }
+
+  buildComparisonRow(scenario: AssessmentScenario, report: ReportData): ScenarioComparisonRow {
+    const pilotShipment = report.actionPlan.actionItems.find(item => item.id === PILOT_SHIPMENT_ACTION_ID);
+
+    return {
+      scenarioId: scenario.id,
+      scenarioName: scenario.name,
+      exportReadinessScore: report.exportReadinessScore,
+      totalCertificationCost: { ...report.certificationRoadmap.totalEstimatedCost },
+      timeToFirstShipmentDays: pilotShipment ? pilotShipment.timeline.startDay : null,
+      topRisks: this.getTopRisks(report.actionPlan.riskAssessment)
+    };
+  }
+
+  /**
+   * Highest probability x impact risks first
+   */
+  private getTopRisks(risks: RiskFactor[]): string[] {
+    return [...risks]
+      .sort((a, b) =>
+        RISK_LEVEL[b.probability] * RISK_LEVEL[b.impact] - RISK_LEVEL[a.probability] * RISK_LEVEL[a.impact]
+      )
+      .slice(0, TOP_RISK_COUNT)
+      .map(risk => risk.name);
+  }
+}
@@ -0,0 +1,320 @@
+import { ActionItem } from '@/types/report.types';
+import { logger } from '@/utils/logger';
+
+const DEFAULT_MAX_PARALLEL_ACTIONS = 3;
+
+const PRIORITY_RANK: Record<ActionItem['priority'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2
+};
+
+export class ActionPlanCycleError extends Error {
+  constructor(public cycle: string[]) {
+    super(`Action plan dependencies contain a cycle: ${cycle.join(' -> ')}`);
+    this.name = 'ActionPlanCycleError';
+  }
+}
+
+export interface ActionPlanSchedulerOptions {
+  // Maximum number of action items worked on at the same time
+  maxParallelActions?: number;
+  // Start items as soon as their dependencies allow instead of at their planned start day
+  optimizeTimeline?: boolean;
+}
+
+export interface ActionPlanSchedule {
+  actionItems: ActionItem[];
+  criticalPath: string[];
+  totalDurationDays: number;
+}
+
+type ScheduledActionItem = ActionItem & { schedule: NonNullable<ActionItem['schedule']> };
+
+interface ScheduledInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Critical-path scheduler for action plan items.
+ *
+ * Items are placed in dependency order, no earlier than their planned start day
+ * (unless the timeline is optimised) and never with more than the configured
+ * number of items in progress at once. Earliest/latest start and slack are then
+ * derived from the resulting schedule.
+ */
+export class ActionPlanScheduler {
+  private maxParallelActions: number;
+  private optimizeTimeline: boolean;
+
+  constructor(options: ActionPlanSchedulerOptions = {}) {
+    this.maxParallelActions = Math.max(1, options.maxParallelActions || DEFAULT_MAX_PARALLEL_ACTIONS);
+    this.optimizeTimeline = options.optimizeTimeline || false;
+  }
+
+  schedule(items: ActionItem[]): ActionPlanSchedule {
+    if (items.length === 0) {
+      return { actionItems: [], criticalPath: [], totalDurationDays: 0 };
+    }
+
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    const dependencies = new Map(items.map(item => [item.id, this.getKnownDependencies(item, itemsById)]));
+    const order = this.topologicalSort(items, dependencies);
+
+    const startDays = this.levelResources(order, itemsById, dependencies);
+    const finishDays = new Map(
+      [...startDays].map(([id, start]) => [id, start + itemsById.get(id)!.timeline.durationDays])
+    );
+    const totalDurationDays = Math.max(...finishDays.values());
+
+    const latestStartDays = this.getLatestStartDays(order, itemsById, dependencies, totalDurationDays);
+
+    const actionItems = items
+      .map(item => {
+        const startDay = startDays.get(item.id)!;
+        const latestStartDay = latestStartDays.get(item.id)!;
+        const slackDays = latestStartDay - startDay;
+
+        return {
+          ...item,
+          dependsOn: dependencies.get(item.id)!,
+          timeline: { ...item.timeline, startDay },
+          schedule: {
+            earliestStartDay: startDay,
+            latestStartDay,
+            slackDays,
+            isCritical: slackDays === 0
+          }
+        };
+      })
+      .sort((a, b) => a.timeline.startDay - b.timeline.startDay || a.id.localeCompare(b.id));
+
+    return {
+      actionItems,
+      criticalPath: this.traceCriticalPath(actionItems),
+      totalDurationDays
+    };
+  }
+
+  /**
+   * Walk back from the last item to finish through the zero-slack dependency that held up
+   * each item's start, giving one ordered chain rather than every zero-slack item
+   */
+  private traceCriticalPath(actionItems: ScheduledActionItem[]): string[] {
+    const finish = (item: ScheduledActionItem) => item.timeline.startDay + item.timeline.durationDays;
+    const byCriticalThenId = (a: ScheduledActionItem, b: ScheduledActionItem) =>
+      Number(b.schedule.isCritical) - Number(a.schedule.isCritical) || a.id.localeCompare(b.id);
+
+    const projectEnd = Math.max(...actionItems.map(finish));
+    let current: ScheduledActionItem | undefined = actionItems
+      .filter(item => finish(item) === projectEnd)
+      .sort(byCriticalThenId)[0];
+
+    const path: string[] = [];
+    while (current) {
+      path.unshift(current.id);
+      const item: ScheduledActionItem = current;
+      current = actionItems
+        .filter(candidate =>
+          item.dependsOn.includes(candidate.id) &&
+          candidate.schedule.isCritical &&
+          finish(candidate) === item.timeline.startDay
+        )
+        .sort(byCriticalThenId)[0];
+    }
+
+    return path;
+  }
+
+  /**
+   * Drop dependencies on items that are not part of the plan
+   */
+  private getKnownDependencies(item: ActionItem, itemsById: Map<string, ActionItem>): string[] {
+    const known = [...new Set(item.dependsOn)].filter(id => id !== '' && itemsById.has(id));
+    if (known.length < item.dependsOn.filter(id => id !== '').length) {
+      logger.warn(`Action item ${item.id} depends on unknown items, ignoring them`);
+    }
+    return known;
+  }
+
+  /**
+   * Order items so every item comes after its dependencies (Kahn's algorithm)
+   */
+  private topologicalSort(items: ActionItem[], dependencies: Map<string, string[]>): string[] {
+    const remaining = new Map(items.map(item => [item.id, dependencies.get(item.id)!.length]));
+    const ready = items.filter(item => remaining.get(item.id) === 0).map(item => item.id);
+    const order: string[] = [];
+
+    while (ready.length > 0) {
+      const id = ready.shift()!;
+      order.push(id);
+
+      for (const item of items) {
+        if (dependencies.get(item.id)!.includes(id)) {
+          const count = remaining.get(item.id)! - 1;
+          remaining.set(item.id, count);
+          if (count === 0) {
+            ready.push(item.id);
+          }
+        }
+      }
+    }
+
+    if (order.length < items.length) {
+      throw new ActionPlanCycleError(this.findCycle(dependencies, new Set(order)));
+    }
+
+    return order;
+  }
+
+  private findCycle(dependencies: Map<string, string[]>, acyclic: Set<string>): string[] {
+    const path: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (id: string): string[] | null => {
+      const index = path.indexOf(id);
+      if (index >= 0) {
+        return [...path.slice(index), id];
+      }
+      if (visited.has(id) || acyclic.has(id)) {
+        return null;
+      }
+
+      visited.add(id);
+      path.push(id);
+      for (const dependency of dependencies.get(id)!) {
+        const cycle = visit(dependency);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      return null;
+    };
+
+    for (const id of dependencies.keys()) {
+      const cycle = visit(id);
+      if (cycle) {
+        // Present the cycle in execution order rather than dependency order
+        return cycle.reverse();
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Serial schedule generation: repeatedly place the most urgent ready item at the
+   * first day its dependencies are finished and a work slot is free
+   */
+  private levelResources(
+    order: string[],
+    itemsById: Map<string, ActionItem>,
+    dependencies: Map<string, string[]>
+  ): Map<string, number> {
+    const unconstrainedLatestStart = this.getUnconstrainedLatestStart(order, itemsById, dependencies);
+    const startDays = new Map<string, number>();
+    const finishDays = new Map<string, number>();
+    const intervals: ScheduledInterval[] = [];
+    const unscheduled = new Set(order);
+
+    while (unscheduled.size > 0) {
+      const ready = [...unscheduled].filter(id =>
+        dependencies.get(id)!.every(dependency => finishDays.has(dependency))
+      );
+
+      ready.sort((a, b) =>
+        unconstrainedLatestStart.get(a)! - unconstrainedLatestStart.get(b)! ||
+        PRIORITY_RANK[itemsById.get(a)!.priority] - PRIORITY_RANK[itemsById.get(b)!.priority] ||
+        order.indexOf(a) - order.indexOf(b)
+      );
+
+      const id = ready[0];
+      const item = itemsById.get(id)!;
+      const start = this.findFirstFreeSlot(
+        this.getReleaseDay(item, finishDays, dependencies),
+        item.timeline.durationDays,
+        intervals
+      );
+
+      startDays.set(id, start);
+      finishDays.set(id, start + item.timeline.durationDays);
+      intervals.push({ start, end: start + item.timeline.durationDays });
+      unscheduled.delete(id);
+    }
+
+    return startDays;
+  }
+
+  /**
+   * First day an item may start: after its dependencies and, unless optimising, its planned start
+   */
+  private getReleaseDay(
+    item: ActionItem,
+    finishDays: Map<string, number>,
+    dependencies: Map<string, string[]>
+  ): number {
+    const plannedStart = this.optimizeTimeline ? 0 : Math.max(0, item.timeline.startDay);
+    return Math.max(plannedStart, ...dependencies.get(item.id)!.map(dependency => finishDays.get(dependency)!));
+  }
+
+  private findFirstFreeSlot(releaseDay: number, duration: number, intervals: ScheduledInterval[]): number {
+    // The only days on which a slot can open up are the release day and the end of scheduled work
+    const candidates = [releaseDay, ...intervals.map(interval => interval.end)]
+      .filter(day => day >= releaseDay)
+      .sort((a, b) => a - b);
+
+    for (const start of candidates) {
+      if (this.fitsCapacity(start, start + duration, intervals)) {
+        return start;
+      }
+    }
+
+    return Math.max(...candidates);
+  }
+
+  private fitsCapacity(start: number, end: number, intervals: ScheduledInterval[]): boolean {
+    // Concurrency only increases where an interval starts, so checking those points is enough
+    const checkpoints = [start, ...intervals.map(interval => interval.start).filter(day => day > start && day < end)];
+
+    return checkpoints.every(day =>
+      intervals.filter(interval => interval.start <= day && interval.end > day).length < this.maxParallelActions
+    );
+  }
+
+  /**
+   * Latest start ignoring capacity, used to prioritise items that have the least room to slip
+   */
+  private getUnconstrainedLatestStart(
+    order: string[],
+    itemsById: Map<string, ActionItem>,
+    dependencies: Map<string, string[]>
+  ): Map<string, number> {
+    const earliestFinish = new Map<string, number>();
+    for (const id of order) {
+      const item = itemsById.get(id)!;
+      earliestFinish.set(id, this.getReleaseDay(item, earliestFinish, dependencies) + item.timeline.durationDays);
+    }
+
+    return this.getLatestStartDays(order, itemsById, dependencies, Math.max(...earliestFinish.values()));
+  }
+
+  /**
+   * Backward pass: latest start that does not delay any successor or the project end
+   */
+  private getLatestStartDays(
+    order: string[],
+    itemsById: Map<string, ActionItem>,
+    dependencies: Map<string, string[]>,
+    projectEnd: number
+  ): Map<string, number> {
+    const latestStart = new Map<string, number>();
+    for (const id of [...order].reverse()) {
+      const successors = order.filter(otherId => dependencies.get(otherId)!.includes(id));
+      const latestFinish = successors.length > 0
+        ? Math.min(...successors.map(successorId => latestStart.get(successorId)!))
+        : projectEnd;
+      latestStart.set(id, latestFinish - itemsById.get(id)!.timeline.durationDays);
+    }
+
+    return latestStart;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Export readiness scoring configuration.
+ * Weights are relative: the engine normalises them, so they need not sum to 100.
+ */
+export interface ExportReadinessScoringConfig {
+  version: string;
+  weights: Record<string, number>;
+  thresholds: {
+    // Number of products at which product readiness is fully scored
+    targetProductCount: number;
+    // Number of target markets beyond which focus starts to dilute
+    maxFocusedMarkets: number;
+    // Competitor analysis length (characters) considered thorough
+    thoroughCompetitorAnalysisLength: number;
+    // Market growth rate (%) considered strong
+    strongGrowthRate: number;
+    // Entry barriers per market considered high
+    highEntryBarrierCount: number;
+  };
+}
+
+export const defaultExportReadinessScoringConfig: ExportReadinessScoringConfig = {
+  version: '2025.1',
+  weights: {
+    businessProfile: 10,
+    productReadiness: 15,
+    productionCapacity: 15,
+    marketAttractiveness: 15,
+    competitorAnalysis: 5,
+    certificationReadiness: 25,
+    budgetAdequacy: 15
+  },
+  thresholds: {
+    targetProductCount: 3,
+    maxFocusedMarkets: 3,
+    thoroughCompetitorAnalysisLength: 200,
+    strongGrowthRate: 5,
+    highEntryBarrierCount: 4
+  }
+};
@@ -0,0 +1,371 @@
+import {
+  BusinessProfile,
+  Product,
+  ProductionCapacity,
+  MarketInfo,
+  Certification,
+  Budget
+} from '@/contexts/assessment-context';
+import { ComplianceMCPResponse } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { MarketInsight } from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.interface';
+import { CertificationGraph } from '@/services/certification-graph/certification-graph.service';
+import { ExportReadinessScoreBreakdown, ReadinessDimensionScore } from '@/types/report.types';
+import {
+  ExportReadinessScoringConfig,
+  defaultExportReadinessScoringConfig
+} from './export-readiness-scoring.config';
+
+export interface ReadinessScoringInput {
+  businessProfile?: BusinessProfile;
+  selectedProducts: Product[];
+  productionCapacity: ProductionCapacity;
+  marketInfo: MarketInfo;
+  certifications: Certification[];
+  budget: Budget;
+  complianceData?: ComplianceMCPResponse;
+  marketData?: Record<string, MarketInsight>;
+}
+
+export interface DimensionResult {
+  // Sub-score between 0 and 100
+  subScore: number;
+  rationale: string[];
+}
+
+/**
+ * A single scoring dimension. Register custom dimensions with the engine
+ * and give them a weight in the scoring config.
+ */
+export interface ReadinessDimensionScorer {
+  id: string;
+  name: string;
+  score(input: ReadinessScoringInput, config: ExportReadinessScoringConfig): DimensionResult;
+}
+
+const clamp = (value: number): number => Math.max(0, Math.min(100, value));
+
+const businessProfileScorer: ReadinessDimensionScorer = {
+  id: 'businessProfile',
+  name: 'Business Profile Completeness',
+  score(input) {
+    const profile = input.businessProfile;
+    if (!profile) {
+      return { subScore: 0, rationale: ['No business profile has been captured.'] };
+    }
+
+    const fields: Array<[string, boolean]> = [
+      ['name', !!profile.name],
+      ['description', !!profile.description],
+      ['industry', !!profile.industry],
+      ['location', !!profile.location],
+      ['contact details', !!profile.contactInfo && Object.values(profile.contactInfo).some(value => !!value)]
+    ];
+    const missing = fields.filter(([, present]) => !present).map(([field]) => field);
+
+    return {
+      subScore: clamp(((fields.length - missing.length) / fields.length) * 100),
+      rationale: missing.length === 0
+        ? ['Business profile is complete.']
+        : [`Business profile is missing: ${missing.join(', ')}.`]
+    };
+  }
+};
+
+const productReadinessScorer: ReadinessDimensionScorer = {
+  id: 'productReadiness',
+  name: 'Product Readiness',
+  score(input, config) {
+    const products = input.selectedProducts;
+    if (products.length === 0) {
+      return { subScore: 0, rationale: ['No products have been selected for export.'] };
+    }
+
+    const classified = products.filter(product => !!product.hsCode).length;
+    const specified = products.filter(product => Object.keys(product.specifications || {}).length > 0).length;
+
+    const countScore = Math.min(1, products.length / config.thresholds.targetProductCount) * 50;
+    const classificationScore = (classified / products.length) * 30;
+    const specificationScore = (specified / products.length) * 20;
+
+    const rationale = [`${products.length} product(s) selected for export.`];
+    rationale.push(classified === products.length
+      ? 'All products have a confirmed HS code.'
+      : `${products.length - classified} product(s) still need an HS code classification.`);
+    if (specified < products.length) {
+      rationale.push(`${products.length - specified} product(s) have no specifications recorded.`);
+    }
+
+    return { subScore: clamp(countScore + classificationScore + specificationScore), rationale };
+  }
+};
+
+const productionCapacityScorer: ReadinessDimensionScorer = {
+  id: 'productionCapacity',
+  name: 'Production Capacity',
+  score(input) {
+    const capacity = input.productionCapacity;
+    const rationale: string[] = [];
+    let subScore = 0;
+
+    if (capacity.monthlyCapacity > 0) {
+      subScore += 40;
+      rationale.push(`Monthly capacity of ${capacity.monthlyCapacity} ${capacity.unit} recorded.`);
+    } else {
+      rationale.push('Monthly production capacity is unknown.');
+    }
+
+    if (capacity.leadTime > 0 && capacity.leadTime <= 30) {
+      subScore += 30;
+      rationale.push(`Lead time of ${capacity.leadTime} days is competitive for export orders.`);
+    } else if (capacity.leadTime > 30) {
+      subScore += 15;
+      rationale.push(`Lead time of ${capacity.leadTime} days may be too long for export buyers.`);
+    } else {
+      rationale.push('Production lead time is unknown.');
+    }
+
+    if (capacity.minimumOrderQuantity > 0) {
+      subScore += 30;
+      if (capacity.monthlyCapacity > 0 && capacity.minimumOrderQuantity > capacity.monthlyCapacity) {
+        subScore -= 15;
+        rationale.push('Minimum order quantity exceeds monthly capacity.');
+      }
+    } else {
+      rationale.push('Minimum order quantity has not been set.');
+    }
+
+    return { subScore: clamp(subScore), rationale };
+  }
+};
+
+const marketAttractivenessScorer: ReadinessDimensionScorer = {
+  id: 'marketAttractiveness',
+  name: 'Market Selection and Attractiveness',
+  score(input, config) {
+    const targetMarkets = input.marketInfo.targetMarkets;
+    if (targetMarkets.length === 0) {
+      return { subScore: 0, rationale: ['No target markets have been selected.'] };
+    }
+
+    const rationale: string[] = [];
+    const focusPenalty = targetMarkets.length > config.thresholds.maxFocusedMarkets ? 15 : 0;
+    if (focusPenalty > 0) {
+      rationale.push(`${targetMarkets.length} target markets may dilute focus; consider phasing entry.`);
+    }
+
+    const insights = targetMarkets
+      .map(market => ({ market, insight: input.marketData?.[market.code] }))
+      .filter((entry): entry is { market: typeof entry.market; insight: MarketInsight } => !!entry.insight);
+
+    if (insights.length === 0) {
+      rationale.push('No market intelligence available; score reflects market selection only.');
+      return { subScore: clamp(60 - focusPenalty), rationale };
+    }
+
+    const marketScores = insights.map(({ market, insight }) => {
+      const growth = insight.marketSize.growthRate || 0;
+      const growthScore = Math.min(1, Math.max(0, growth) / config.thresholds.strongGrowthRate) * 50;
+      const barrierScore = Math.max(0, 1 - insight.entryBarriers.length / config.thresholds.highEntryBarrierCount) * 30;
+
+      const tariffRates = Object.values(insight.tariffs || {}).map(tariff => tariff.rate);
+      const averageTariff = tariffRates.length > 0
+        ? tariffRates.reduce((sum, rate) => sum + rate, 0) / tariffRates.length
+        : 0;
+      const tariffScore = averageTariff <= 5 ? 20 : averageTariff <= 15 ? 10 : 0;
+
+      rationale.push(
+        `${market.name}: ${growth}% growth, ${insight.entryBarriers.length} entry barrier(s), average tariff ${averageTariff.toFixed(1)}%.`
+      );
+
+      return growthScore + barrierScore + tariffScore;
+    });
+
+    const averageScore = marketScores.reduce((sum, score) => sum + score, 0) / marketScores.length;
+    return { subScore: clamp(averageScore - focusPenalty), rationale };
+  }
+};
+
+const competitorAnalysisScorer: ReadinessDimensionScorer = {
+  id: 'competitorAnalysis',
+  name: 'Competitor Analysis',
+  score(input, config) {
+    const analysis = (input.marketInfo.competitorAnalysis || '').trim();
+    if (analysis.length === 0) {
+      return { subScore: 0, rationale: ['No competitor analysis has been provided.'] };
+    }
+
+    const subScore = clamp((analysis.length / config.thresholds.thoroughCompetitorAnalysisLength) * 100);
+    return {
+      subScore,
+      rationale: [subScore >= 100
+        ? 'Competitor analysis is thorough.'
+        : 'Competitor analysis is brief; expand it with competitor pricing and positioning.']
+    };
+  }
+};
+
+/**
+ * Scores mandatory requirements met by the exporter's certifications through the
+ * certification graph; certifications still in progress earn half credit
+ */
+export const createCertificationReadinessScorer = (
+  graph: CertificationGraph = new CertificationGraph()
+): ReadinessDimensionScorer => ({
+  id: 'certificationReadiness',
+  name: 'Certification Readiness',
+  score(input) {
+    const mandatory = (input.complianceData?.requirements || []).filter(req => req.isRequired);
+
+    if (!input.complianceData) {
+      const obtained = input.certifications.filter(cert => cert.status === 'obtained').length;
+      return {
+        subScore: clamp(obtained * 25),
+        rationale: ['No compliance data available; score reflects certifications already obtained.']
+      };
+    }
+
+    if (mandatory.length === 0) {
+      return { subScore: 100, rationale: ['No mandatory certifications apply to the selected markets.'] };
+    }
+
+    const metBy = (certifications: Certification[]) => new Set(graph
+      .findSatisfiedRequirements(mandatory, certifications)
+      .map(match => `${match.marketCode}:${match.requirementId}`));
+    const met = metBy(input.certifications);
+    // Credit what in-progress certifications will meet once they are obtained
+    const pending = metBy(input.certifications
+      .filter(cert => cert.status === 'in-progress')
+      .map(cert => ({ ...cert, status: 'obtained' as const })));
+
+    const unmet: string[] = [];
+    const inProgress: string[] = [];
+    let satisfied = 0;
+    // Requirements met outright; satisfied also holds half credits for in-progress ones
+    let fullyMet = 0;
+
+    for (const requirement of mandatory) {
+      const key = `${requirement.countryCode}:${requirement.id}`;
+      if (met.has(key)) {
+        satisfied += 1;
+        fullyMet += 1;
+      } else if (pending.has(key)) {
+        satisfied += 0.5;
+        inProgress.push(requirement.name);
+      } else {
+        unmet.push(requirement.name);
+      }
+    }
+
+    const rationale = [`${fullyMet} of ${mandatory.length} mandatory requirement(s) already met.`];
+    if (inProgress.length > 0) {
+      rationale.push(`In progress: ${[...new Set(inProgress)].join(', ')}.`);
+    }
+    if (unmet.length > 0) {
+      rationale.push(`Unmet mandatory requirements: ${[...new Set(unmet)].join(', ')}.`);
+    }
+
+    return { subScore: clamp((satisfied / mandatory.length) * 100), rationale };
+  }
+});
+
+const budgetAdequacyScorer: ReadinessDimensionScorer = {
+  id: 'budgetAdequacy',
+  name: 'Budget Adequacy',
+  score(input) {
+    const budget = input.budget;
+    if (!budget || budget.amount <= 0) {
+      return { subScore: 0, rationale: ['No export budget has been set.'] };
+    }
+
+    const rationale: string[] = [];
+    const allocationSum = Object.values(budget.allocation).reduce((sum, value) => sum + value, 0);
+    let subScore = allocationSum > 0 ? 30 : 10;
+    rationale.push(allocationSum > 0
+      ? 'Budget has been allocated across spending categories.'
+      : 'Budget has not been allocated across spending categories.');
+
+    const certificationBudget = budget.amount * (budget.allocation.certifications / 100);
+    const complianceCost = input.complianceData?.totalEstimatedCost;
+
+    if (!complianceCost || complianceCost.max === 0) {
+      subScore += 35;
+      rationale.push('No certification cost estimate available to compare against the budget.');
+    } else if (complianceCost.currency !== budget.currency) {
+      subScore += 35;
+      rationale.push(`Certification costs are estimated in ${complianceCost.currency} and cannot be compared with the ${budget.currency} budget.`);
+    } else if (certificationBudget >= complianceCost.max) {
+      subScore += 70;
+      rationale.push('Certification budget covers the upper estimate of compliance costs.');
+    } else if (certificationBudget >= complianceCost.min) {
+      subScore += 50;
+      rationale.push('Certification budget covers the lower estimate of compliance costs only.');
+    } else {
+      subScore += (certificationBudget / complianceCost.min) * 40;
+      rationale.push(
+        `Certification budget of ${Math.round(certificationBudget).toLocaleString()} ${budget.currency} is below the minimum compliance cost of ${complianceCost.min.toLocaleString()} ${complianceCost.currency}.`
+      );
+    }
+
+    return { subScore: clamp(subScore), rationale };
+  }
+};
+
+export const defaultReadinessDimensionScorers: ReadinessDimensionScorer[] = [
+  businessProfileScorer,
+  productReadinessScorer,
+  productionCapacityScorer,
+  marketAttractivenessScorer,
+  competitorAnalysisScorer,
+  createCertificationReadinessScorer(),
+  budgetAdequacyScorer
+];
+
+/**
+ * Weighted, explainable export readiness scoring engine
+ */
+export class ExportReadinessScoringEngine {
+  private scorers: Map<string, ReadinessDimensionScorer> = new Map();
+  private config: ExportReadinessScoringConfig;
+
+  constructor(
+    config: ExportReadinessScoringConfig = defaultExportReadinessScoringConfig,
+    scorers: ReadinessDimensionScorer[] = defaultReadinessDimensionScorers
+  ) {
+    this.config = config;
+    scorers.forEach(scorer => this.registerScorer(scorer));
+  }
+
+  registerScorer(scorer: ReadinessDimensionScorer): void {
+    this.scorers.set(scorer.id, scorer);
+  }
+
+  calculate(input: ReadinessScoringInput): ExportReadinessScoreBreakdown {
+    // Dimensions without a positive weight in the config are not scored
+    const weightedScorers = [...this.scorers.values()]
+      .filter(scorer => (this.config.weights[scorer.id] || 0) > 0);
+    const totalWeight = weightedScorers.reduce((sum, scorer) => sum + this.config.weights[scorer.id], 0);
+
+    const dimensions: ReadinessDimensionScore[] = weightedScorers.map(scorer => {
+      const result = scorer.score(input, this.config);
+      const weight = totalWeight > 0 ? (this.config.weights[scorer.id] / totalWeight) * 100 : 0;
+      const subScore = Math.round(clamp(result.subScore));
+
+      return {
+        id: scorer.id,
+        name: scorer.name,
+        weight: Math.round(weight * 10) / 10,
+        subScore,
+        weightedScore: Math.round(subScore * weight) / 100,
+        rationale: result.rationale
+      };
+    });
+
+    const totalScore = Math.round(dimensions.reduce((sum, dimension) => sum + dimension.weightedScore, 0));
+
+    return {
+      totalScore,
+      configVersion: this.config.version,
+      dimensions
+    };
+  }
+}
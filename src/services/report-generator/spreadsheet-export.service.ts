@@ -0,0 +1,306 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { ReportData } from '@/types/report.types';
+import { logger } from '@/utils/logger';
+
+export type ReportCellValue = string | number | boolean | null;
+
+export interface ReportTableColumn {
+  header: string;
+  key: string;
+  type: 'string' | 'number' | 'boolean';
+  width?: number;
+  numberFormat?: string;
+}
+
+export interface ReportTable {
+  name: string;
+  fileName: string;
+  columns: ReportTableColumn[];
+  rows: Record<string, ReportCellValue>[];
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const COST_FORMAT = '#,##0.00';
+const INTEGER_FORMAT = '#,##0';
+
+/**
+ * Exports report data as spreadsheets for consultants who rework the numbers.
+ * Costs and timelines are kept as numeric cells so they can be summed and charted.
+ */
+export class SpreadsheetExportService {
+  async generateXlsx(report: ReportData): Promise<Blob> {
+    try {
+      logger.info('Generating XLSX export of export readiness report');
+
+      const workbook = this.buildWorkbook(report);
+      const buffer = await workbook.xlsx.writeBuffer();
+
+      return new Blob([buffer], { type: XLSX_MIME_TYPE });
+    } catch (error) {
+      logger.error(`Error generating XLSX: ${error}`);
+      throw new Error(`Failed to generate XLSX report: ${error}`);
+    }
+  }
+
+  async generateCsvBundle(report: ReportData): Promise<Blob> {
+    try {
+      logger.info('Generating CSV bundle export of export readiness report');
+
+      const zip = new JSZip();
+      for (const table of this.buildTables(report)) {
+        zip.file(`${table.fileName}.csv`, this.toCsv(table));
+      }
+
+      return await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+    } catch (error) {
+      logger.error(`Error generating CSV bundle: ${error}`);
+      throw new Error(`Failed to generate CSV report bundle: ${error}`);
+    }
+  }
+
+  buildWorkbook(report: ReportData): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'TradeWizard 3.0';
+    workbook.created = new Date(report.generatedAt);
+
+    for (const table of this.buildTables(report)) {
+      const worksheet = workbook.addWorksheet(table.name, {
+        views: [{ state: 'frozen', ySplit: 1 }]
+      });
+
+      worksheet.columns = table.columns.map(column => ({
+        header: column.header,
+        key: column.key,
+        width: column.width || 18,
+        style: column.numberFormat ? { numFmt: column.numberFormat } : {}
+      }));
+      worksheet.getRow(1).font = { bold: true };
+
+      for (const row of table.rows) {
+        worksheet.addRow(row);
+      }
+    }
+
+    return workbook;
+  }
+
+  buildTables(report: ReportData): ReportTable[] {
+    return [
+      this.buildMarketOverviewTable(report),
+      this.buildCertificationTable(report),
+      this.buildResourceNeedsTable(report),
+      this.buildActionItemsTable(report),
+      this.buildRiskFactorsTable(report)
+    ];
+  }
+
+  toCsv(table: ReportTable): string {
+    const lines = [
+      table.columns.map(column => this.escapeCsvValue(column.header)).join(','),
+      ...table.rows.map(row => table.columns
+        .map(column => this.formatCsvCell(row[column.key], column))
+        .join(','))
+    ];
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private buildMarketOverviewTable(report: ReportData): ReportTable {
+    return {
+      name: 'Market Overview',
+      fileName: 'market-overview',
+      columns: [
+        { header: 'Market Code', key: 'marketCode', type: 'string', width: 12 },
+        { header: 'Market', key: 'marketName', type: 'string', width: 24 },
+        { header: 'Market Size', key: 'marketSize', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'Currency', key: 'currency', type: 'string', width: 10 },
+        { header: `Market Size (${report.budget.currency})`, key: 'marketSizeInBudgetCurrency', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'Growth Rate (%)', key: 'growthRate', type: 'number', numberFormat: '0.0' },
+        { header: 'Key Competitors', key: 'keyCompetitors', type: 'string', width: 40 },
+        { header: 'Entry Barriers', key: 'entryBarriers', type: 'string', width: 40 },
+        { header: 'Opportunities', key: 'opportunities', type: 'string', width: 40 },
+        { header: 'Risks', key: 'risks', type: 'string', width: 40 },
+        { header: 'Confidence Score', key: 'confidenceScore', type: 'number', numberFormat: '0.00' }
+      ],
+      rows: report.marketOverview.map(market => ({
+        marketCode: market.marketCode,
+        marketName: market.marketName,
+        marketSize: market.marketSize,
+        currency: market.marketCurrency,
+        marketSizeInBudgetCurrency: market.marketSizeInBudgetCurrency ?? null,
+        growthRate: market.growthRate,
+        keyCompetitors: market.keyCompetitors
+          .map(competitor => `${competitor.name} (${competitor.marketShare}%)`)
+          .join('; '),
+        entryBarriers: market.entryBarriers.join('; '),
+        opportunities: market.opportunities.join('; '),
+        risks: market.risks.join('; '),
+        confidenceScore: market.confidenceScore ?? null
+      }))
+    };
+  }
+
+  private buildCertificationTable(report: ReportData): ReportTable {
+    const roadmap = report.certificationRoadmap;
+
+    return {
+      name: 'Certification Requirements',
+      fileName: 'certification-requirements',
+      columns: [
+        { header: 'ID', key: 'id', type: 'string', width: 16 },
+        { header: 'Certification', key: 'name', type: 'string', width: 32 },
+        { header: 'Market Code', key: 'marketCode', type: 'string', width: 12 },
+        { header: 'Market', key: 'marketName', type: 'string', width: 24 },
+        { header: 'Required', key: 'isRequired', type: 'boolean', width: 10 },
+        { header: 'Regulatory Body', key: 'regulatoryBody', type: 'string', width: 32 },
+        { header: 'Cost Min', key: 'costMin', type: 'number', numberFormat: COST_FORMAT },
+        { header: 'Cost Max', key: 'costMax', type: 'number', numberFormat: COST_FORMAT },
+        { header: 'Currency', key: 'currency', type: 'string', width: 10 },
+        { header: 'Timeline (Days)', key: 'timelineDays', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'Start Day', key: 'startDay', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'Reference URL', key: 'referenceUrl', type: 'string', width: 40 }
+      ],
+      rows: roadmap.requirements.map(cert => {
+        const scheduled = roadmap.timelineVisualizationData.find(item =>
+          item.certificationName === cert.name && item.marketCode === cert.marketCode
+        );
+
+        return {
+          id: cert.id,
+          name: cert.name,
+          marketCode: cert.marketCode,
+          marketName: cert.marketName,
+          isRequired: cert.isRequired,
+          regulatoryBody: cert.regulatoryBody,
+          costMin: cert.estimatedCost.min,
+          costMax: cert.estimatedCost.max,
+          currency: cert.estimatedCost.currency,
+          timelineDays: cert.estimatedTimelineInDays,
+          startDay: scheduled ? scheduled.startDay : null,
+          referenceUrl: cert.referenceUrl
+        };
+      })
+    };
+  }
+
+  private buildResourceNeedsTable(report: ReportData): ReportTable {
+    return {
+      name: 'Resource Needs',
+      fileName: 'resource-needs',
+      columns: [
+        { header: 'Resource', key: 'name', type: 'string', width: 36 },
+        { header: 'Type', key: 'type', type: 'string', width: 14 },
+        { header: 'Priority', key: 'priority', type: 'string', width: 10 },
+        { header: 'Timeline', key: 'timeline', type: 'string', width: 14 },
+        { header: 'Timeline (Months)', key: 'timelineMonths', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'Cost Min', key: 'costMin', type: 'number', numberFormat: COST_FORMAT },
+        { header: 'Cost Max', key: 'costMax', type: 'number', numberFormat: COST_FORMAT },
+        { header: 'Currency', key: 'currency', type: 'string', width: 10 },
+        { header: 'Description', key: 'description', type: 'string', width: 60 }
+      ],
+      rows: report.resourceNeeds.resourceNeeds.map(resource => ({
+        name: resource.name,
+        type: resource.type,
+        priority: resource.priority,
+        timeline: resource.timeline,
+        timelineMonths: this.parseTimelineMonths(resource.timeline),
+        costMin: resource.estimatedCost ? resource.estimatedCost.min : null,
+        costMax: resource.estimatedCost ? resource.estimatedCost.max : null,
+        currency: resource.estimatedCost ? resource.estimatedCost.currency : null,
+        description: resource.description
+      }))
+    };
+  }
+
+  private buildActionItemsTable(report: ReportData): ReportTable {
+    return {
+      name: 'Action Items',
+      fileName: 'action-items',
+      columns: [
+        { header: 'ID', key: 'id', type: 'string', width: 10 },
+        { header: 'Action', key: 'name', type: 'string', width: 40 },
+        { header: 'Priority', key: 'priority', type: 'string', width: 10 },
+        { header: 'Start Day', key: 'startDay', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'Duration (Days)', key: 'durationDays', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'End Day', key: 'endDay', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'Slack (Days)', key: 'slackDays', type: 'number', numberFormat: INTEGER_FORMAT },
+        { header: 'Critical Path', key: 'isCritical', type: 'boolean' },
+        { header: 'Depends On', key: 'dependsOn', type: 'string', width: 20 },
+        { header: 'Markets', key: 'marketCodes', type: 'string', width: 14 },
+        { header: 'Estimated Cost', key: 'cost', type: 'number', numberFormat: COST_FORMAT },
+        { header: 'Currency', key: 'currency', type: 'string', width: 10 },
+        { header: 'Description', key: 'description', type: 'string', width: 60 }
+      ],
+      rows: report.actionPlan.actionItems.map(action => ({
+        id: action.id,
+        name: action.name,
+        priority: action.priority,
+        startDay: action.timeline.startDay,
+        durationDays: action.timeline.durationDays,
+        endDay: action.timeline.startDay + action.timeline.durationDays,
+        slackDays: action.schedule ? action.schedule.slackDays : null,
+        isCritical: action.schedule ? action.schedule.isCritical : null,
+        dependsOn: action.dependsOn.join('; '),
+        marketCodes: action.marketCodes.join('; '),
+        cost: action.estimatedCost ? action.estimatedCost.amount : null,
+        currency: action.estimatedCost ? action.estimatedCost.currency : null,
+        description: action.description
+      }))
+    };
+  }
+
+  private buildRiskFactorsTable(report: ReportData): ReportTable {
+    return {
+      name: 'Risk Factors',
+      fileName: 'risk-factors',
+      columns: [
+        { header: 'Risk Factor', key: 'name', type: 'string', width: 36 },
+        { header: 'Probability', key: 'probability', type: 'string', width: 12 },
+        { header: 'Impact', key: 'impact', type: 'string', width: 10 },
+        { header: 'Mitigation Strategy', key: 'mitigationStrategy', type: 'string', width: 70 },
+        { header: 'Confidence Score', key: 'confidenceScore', type: 'number', numberFormat: '0.00' }
+      ],
+      rows: report.actionPlan.riskAssessment.map(risk => ({
+        name: risk.name,
+        probability: risk.probability,
+        impact: risk.impact,
+        mitigationStrategy: risk.mitigationStrategy,
+        confidenceScore: risk.confidenceScore ?? null
+      }))
+    };
+  }
+
+  /**
+   * Resource timelines are free text such as "4 months" or "1-3 months";
+   * use the upper bound so the numeric column is a conservative estimate
+   */
+  private parseTimelineMonths(timeline: string): number | null {
+    const match = timeline.match(/(\d+)(?:\s*-\s*(\d+))?\s*months?/i);
+    if (!match) {
+      return null;
+    }
+
+    return Number(match[2] || match[1]);
+  }
+
+  private formatCsvCell(value: ReportCellValue | undefined, column: ReportTableColumn): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (column.type === 'number' && typeof value === 'number') {
+      return String(value);
+    }
+
+    return this.escapeCsvValue(String(value));
+  }
+
+  private escapeCsvValue(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+
+    return value;
+  }
+}
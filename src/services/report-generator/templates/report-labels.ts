@@ -0,0 +1,422 @@
+import { ReportLocale } from '@/types/report.types';
+
+/**
+ * Section headings and labels used by the report exporters.
+ * Placeholders in braces (e.g. {date}) are filled in with formatLabel.
+ */
+export interface ReportLabels {
+  reportTitle: string;
+  generatedOn: string;
+  exportReadinessScore: string;
+  overallConfidenceScore: string;
+  disclaimer: string;
+  footer: string;
+  pageNumber: string;
+  noData: string;
+  noTimelineData: string;
+
+  businessProfile: string;
+  field: string;
+  value: string;
+  business: string;
+  industry: string;
+  location: string;
+  description: string;
+  targetMarkets: string;
+  selectedProducts: string;
+  product: string;
+  category: string;
+  hsCode: string;
+  scoreBreakdown: string;
+  dimension: string;
+  weight: string;
+  subScore: string;
+  rationale: string;
+
+  marketOverview: string;
+  market: string;
+  marketSize: string;
+  currency: string;
+  growthRate: string;
+  keyCompetitors: string;
+  keyCompetitor: string;
+  marketShare: string;
+  entryBarriers: string;
+  opportunities: string;
+  risks: string;
+  productInsights: string;
+
+  certificationRoadmap: string;
+  totalEstimatedCost: string;
+  totalTimeline: string;
+  costEquivalents: string;
+  certification: string;
+  regulatoryBody: string;
+  estimatedCost: string;
+  days: string;
+  certificationTimeline: string;
+  budgetMilestones: string;
+  budgetRelease: string;
+  month: string;
+  cumulativeBudget: string;
+  certificationsStarted: string;
+  marketsReachable: string;
+  deferredCertifications: string;
+
+  resourceNeeds: string;
+  resource: string;
+  type: string;
+  priority: string;
+  timeline: string;
+  alternativeOptions: string;
+  productionCapacityAnalysis: string;
+  currentCapacity: string;
+  requiredCapacity: string;
+  capacityGap: string;
+  capacityRecommendations: string;
+  budgetAllocation: string;
+  recommendedBudgetAllocation: string;
+  allocation: string;
+  recommended: string;
+  current: string;
+  certifications: string;
+  marketing: string;
+  logistics: string;
+  other: string;
+  totalBudget: string;
+  supplyChainConsiderations: string;
+
+  actionPlan: string;
+  action: string;
+  startDay: string;
+  dependsOn: string;
+  resources: string;
+  actionTimelineRange: string;
+  criticalPath: string;
+  criticalPathSummary: string;
+  noCriticalPath: string;
+  implementationTimeline: string;
+  actionTimeline: string;
+  item: string;
+  dayNumber: string;
+  riskAssessment: string;
+  riskFactor: string;
+  probability: string;
+  impact: string;
+  mitigation: string;
+}
+
+const ENGLISH_LABELS: ReportLabels = {
+  reportTitle: 'Export Readiness Report',
+  generatedOn: 'Generated: {date}',
+  exportReadinessScore: 'Export Readiness Score: {score}/100',
+  overallConfidenceScore: 'Overall Confidence Score: {score}%',
+  disclaimer: 'This report is based on the information provided and publicly available data at the time of generation. '
+    + 'Confirm requirements with the relevant authorities before acting on it.',
+  footer: 'Generated by {brand} | Export Readiness Assessment Platform',
+  pageNumber: 'Page {page} of {pages}',
+  noData: 'No data available',
+  noTimelineData: 'No timeline data available',
+
+  businessProfile: 'Business Profile',
+  field: 'Field',
+  value: 'Value',
+  business: 'Business',
+  industry: 'Industry',
+  location: 'Location',
+  description: 'Description',
+  targetMarkets: 'Target Markets',
+  selectedProducts: 'Selected Products',
+  product: 'Product',
+  category: 'Category',
+  hsCode: 'HS Code',
+  scoreBreakdown: 'Score Breakdown',
+  dimension: 'Dimension',
+  weight: 'Weight',
+  subScore: 'Sub-score',
+  rationale: 'Rationale',
+
+  marketOverview: 'Market Overview',
+  market: 'Market',
+  marketSize: 'Market Size',
+  currency: 'Currency',
+  growthRate: 'Growth Rate',
+  keyCompetitors: 'Key Competitors',
+  keyCompetitor: 'Key Competitor',
+  marketShare: 'Market Share',
+  entryBarriers: 'Entry Barriers',
+  opportunities: 'Opportunities',
+  risks: 'Risks',
+  productInsights: 'Product Insights',
+
+  certificationRoadmap: 'Certification Roadmap',
+  totalEstimatedCost: 'Total Estimated Cost: {cost}',
+  totalTimeline: 'Total Timeline: {months} months ({days} days)',
+  costEquivalents: 'Approximately {amounts} (exchange rates as of {date})',
+  certification: 'Certification',
+  regulatoryBody: 'Regulatory Body',
+  estimatedCost: 'Estimated Cost',
+  days: 'Days',
+  certificationTimeline: 'Certification Timeline',
+  budgetMilestones: 'Budget Milestones',
+  budgetRelease: 'Certification budget of {amount} released over {months} months',
+  month: 'Month',
+  cumulativeBudget: 'Cumulative Budget',
+  certificationsStarted: 'Certifications Started',
+  marketsReachable: 'Markets Reachable',
+  deferredCertifications: 'Deferred Certifications',
+
+  resourceNeeds: 'Resource Needs',
+  resource: 'Resource',
+  type: 'Type',
+  priority: 'Priority',
+  timeline: 'Timeline',
+  alternativeOptions: 'Alternative Options',
+  productionCapacityAnalysis: 'Production Capacity Analysis',
+  currentCapacity: 'Current Capacity',
+  requiredCapacity: 'Required Capacity',
+  capacityGap: 'Capacity Gap',
+  capacityRecommendations: 'Capacity Recommendations',
+  budgetAllocation: 'Budget Allocation',
+  recommendedBudgetAllocation: 'Recommended Budget Allocation',
+  allocation: 'Allocation',
+  recommended: 'Recommended',
+  current: 'Current',
+  certifications: 'Certifications',
+  marketing: 'Marketing',
+  logistics: 'Logistics',
+  other: 'Other',
+  totalBudget: 'Total Budget: {amount} over {months} months',
+  supplyChainConsiderations: 'Supply Chain Considerations',
+
+  actionPlan: 'Action Plan',
+  action: 'Action',
+  startDay: 'Start Day',
+  dependsOn: 'Depends On',
+  resources: 'Resources',
+  actionTimelineRange: 'Day {start} - {end} ({days} days)',
+  criticalPath: 'Critical Path',
+  criticalPathSummary: '{path} ({days} days in total)',
+  noCriticalPath: 'No critical path available',
+  implementationTimeline: 'Implementation Timeline',
+  actionTimeline: 'Action Timeline',
+  item: 'Item',
+  dayNumber: 'Day {day}',
+  riskAssessment: 'Risk Assessment',
+  riskFactor: 'Risk Factor',
+  probability: 'Probability',
+  impact: 'Impact',
+  mitigation: 'Mitigation'
+};
+
+const FRENCH_LABELS: ReportLabels = {
+  reportTitle: 'Rapport de préparation à l\'exportation',
+  generatedOn: 'Généré le : {date}',
+  exportReadinessScore: 'Score de préparation à l\'exportation : {score}/100',
+  overallConfidenceScore: 'Indice de confiance global : {score} %',
+  disclaimer: 'Ce rapport repose sur les informations fournies et les données publiques disponibles au moment de sa génération. '
+    + 'Confirmez les exigences auprès des autorités compétentes avant d\'agir.',
+  footer: 'Généré par {brand} | Plateforme d\'évaluation de la préparation à l\'exportation',
+  pageNumber: 'Page {page} sur {pages}',
+  noData: 'Aucune donnée disponible',
+  noTimelineData: 'Aucun calendrier disponible',
+
+  businessProfile: 'Profil de l\'entreprise',
+  field: 'Champ',
+  value: 'Valeur',
+  business: 'Entreprise',
+  industry: 'Secteur',
+  location: 'Localisation',
+  description: 'Description',
+  targetMarkets: 'Marchés cibles',
+  selectedProducts: 'Produits sélectionnés',
+  product: 'Produit',
+  category: 'Catégorie',
+  hsCode: 'Code SH',
+  scoreBreakdown: 'Détail du score',
+  dimension: 'Dimension',
+  weight: 'Pondération',
+  subScore: 'Sous-score',
+  rationale: 'Justification',
+
+  marketOverview: 'Aperçu des marchés',
+  market: 'Marché',
+  marketSize: 'Taille du marché',
+  currency: 'Devise',
+  growthRate: 'Taux de croissance',
+  keyCompetitors: 'Principaux concurrents',
+  keyCompetitor: 'Concurrent principal',
+  marketShare: 'Part de marché',
+  entryBarriers: 'Barrières à l\'entrée',
+  opportunities: 'Opportunités',
+  risks: 'Risques',
+  productInsights: 'Analyses par produit',
+
+  certificationRoadmap: 'Feuille de route des certifications',
+  totalEstimatedCost: 'Coût total estimé : {cost}',
+  totalTimeline: 'Délai total : {months} mois ({days} jours)',
+  costEquivalents: 'Environ {amounts} (taux de change au {date})',
+  certification: 'Certification',
+  regulatoryBody: 'Organisme de réglementation',
+  estimatedCost: 'Coût estimé',
+  days: 'Jours',
+  certificationTimeline: 'Calendrier des certifications',
+  budgetMilestones: 'Jalons budgétaires',
+  budgetRelease: 'Budget de certification de {amount} libéré sur {months} mois',
+  month: 'Mois',
+  cumulativeBudget: 'Budget cumulé',
+  certificationsStarted: 'Certifications lancées',
+  marketsReachable: 'Marchés accessibles',
+  deferredCertifications: 'Certifications reportées',
+
+  resourceNeeds: 'Besoins en ressources',
+  resource: 'Ressource',
+  type: 'Type',
+  priority: 'Priorité',
+  timeline: 'Délai',
+  alternativeOptions: 'Options alternatives',
+  productionCapacityAnalysis: 'Analyse de la capacité de production',
+  currentCapacity: 'Capacité actuelle',
+  requiredCapacity: 'Capacité requise',
+  capacityGap: 'Écart de capacité',
+  capacityRecommendations: 'Recommandations sur la capacité',
+  budgetAllocation: 'Répartition du budget',
+  recommendedBudgetAllocation: 'Répartition du budget recommandée',
+  allocation: 'Répartition',
+  recommended: 'Recommandée',
+  current: 'Actuelle',
+  certifications: 'Certifications',
+  marketing: 'Marketing',
+  logistics: 'Logistique',
+  other: 'Autre',
+  totalBudget: 'Budget total : {amount} sur {months} mois',
+  supplyChainConsiderations: 'Considérations relatives à la chaîne d\'approvisionnement',
+
+  actionPlan: 'Plan d\'action',
+  action: 'Action',
+  startDay: 'Jour de début',
+  dependsOn: 'Dépend de',
+  resources: 'Ressources',
+  actionTimelineRange: 'Jour {start} - {end} ({days} jours)',
+  criticalPath: 'Chemin critique',
+  criticalPathSummary: '{path} ({days} jours au total)',
+  noCriticalPath: 'Aucun chemin critique disponible',
+  implementationTimeline: 'Calendrier de mise en œuvre',
+  actionTimeline: 'Calendrier des actions',
+  item: 'Élément',
+  dayNumber: 'Jour {day}',
+  riskAssessment: 'Évaluation des risques',
+  riskFactor: 'Facteur de risque',
+  probability: 'Probabilité',
+  impact: 'Impact',
+  mitigation: 'Atténuation'
+};
+
+const ARABIC_LABELS: ReportLabels = {
+  reportTitle: 'تقرير الجاهزية للتصدير',
+  generatedOn: 'تاريخ الإنشاء: {date}',
+  exportReadinessScore: 'درجة الجاهزية للتصدير: {score}/100',
+  overallConfidenceScore: 'درجة الثقة الإجمالية: {score}%',
+  disclaimer: 'يستند هذا التقرير إلى المعلومات المقدمة والبيانات المتاحة للعموم وقت إنشائه. '
+    + 'يرجى تأكيد المتطلبات مع الجهات المختصة قبل اتخاذ أي إجراء.',
+  footer: 'تم الإنشاء بواسطة {brand} | منصة تقييم الجاهزية للتصدير',
+  pageNumber: 'صفحة {page} من {pages}',
+  noData: 'لا توجد بيانات',
+  noTimelineData: 'لا يوجد جدول زمني',
+
+  businessProfile: 'ملف الشركة',
+  field: 'الحقل',
+  value: 'القيمة',
+  business: 'الشركة',
+  industry: 'القطاع',
+  location: 'الموقع',
+  description: 'الوصف',
+  targetMarkets: 'الأسواق المستهدفة',
+  selectedProducts: 'المنتجات المختارة',
+  product: 'المنتج',
+  category: 'الفئة',
+  hsCode: 'رمز النظام المنسق',
+  scoreBreakdown: 'تفصيل الدرجة',
+  dimension: 'المحور',
+  weight: 'الوزن',
+  subScore: 'الدرجة الفرعية',
+  rationale: 'المبررات',
+
+  marketOverview: 'نظرة عامة على الأسواق',
+  market: 'السوق',
+  marketSize: 'حجم السوق',
+  currency: 'العملة',
+  growthRate: 'معدل النمو',
+  keyCompetitors: 'أبرز المنافسين',
+  keyCompetitor: 'المنافس',
+  marketShare: 'الحصة السوقية',
+  entryBarriers: 'عوائق الدخول',
+  opportunities: 'الفرص',
+  risks: 'المخاطر',
+  productInsights: 'رؤى حول المنتجات',
+
+  certificationRoadmap: 'خارطة طريق الشهادات',
+  totalEstimatedCost: 'إجمالي التكلفة التقديرية: {cost}',
+  totalTimeline: 'المدة الإجمالية: {months} أشهر ({days} يومًا)',
+  costEquivalents: 'ما يعادل تقريبًا {amounts} (أسعار الصرف بتاريخ {date})',
+  certification: 'الشهادة',
+  regulatoryBody: 'الجهة التنظيمية',
+  estimatedCost: 'التكلفة التقديرية',
+  days: 'الأيام',
+  certificationTimeline: 'الجدول الزمني للشهادات',
+  budgetMilestones: 'مراحل الميزانية',
+  budgetRelease: 'ميزانية شهادات قدرها {amount} تُصرف على مدى {months} أشهر',
+  month: 'الشهر',
+  cumulativeBudget: 'الميزانية التراكمية',
+  certificationsStarted: 'الشهادات التي بدأت',
+  marketsReachable: 'الأسواق المتاحة',
+  deferredCertifications: 'الشهادات المؤجلة',
+
+  resourceNeeds: 'الاحتياجات من الموارد',
+  resource: 'المورد',
+  type: 'النوع',
+  priority: 'الأولوية',
+  timeline: 'المدة',
+  alternativeOptions: 'خيارات بديلة',
+  productionCapacityAnalysis: 'تحليل الطاقة الإنتاجية',
+  currentCapacity: 'الطاقة الحالية',
+  requiredCapacity: 'الطاقة المطلوبة',
+  capacityGap: 'فجوة الطاقة',
+  capacityRecommendations: 'توصيات بشأن الطاقة الإنتاجية',
+  budgetAllocation: 'توزيع الميزانية',
+  recommendedBudgetAllocation: 'التوزيع الموصى به للميزانية',
+  allocation: 'النسبة',
+  recommended: 'الموصى به',
+  current: 'الحالي',
+  certifications: 'الشهادات',
+  marketing: 'التسويق',
+  logistics: 'الخدمات اللوجستية',
+  other: 'أخرى',
+  totalBudget: 'إجمالي الميزانية: {amount} على مدى {months} أشهر',
+  supplyChainConsiderations: 'اعتبارات سلسلة الإمداد',
+
+  actionPlan: 'خطة العمل',
+  action: 'الإجراء',
+  startDay: 'يوم البدء',
+  dependsOn: 'يعتمد على',
+  resources: 'الموارد',
+  actionTimelineRange: 'اليوم {start} - {end} ({days} يومًا)',
+  criticalPath: 'المسار الحرج',
+  criticalPathSummary: '{path} ({days} يومًا إجمالًا)',
+  noCriticalPath: 'لا يوجد مسار حرج',
+  implementationTimeline: 'الجدول الزمني للتنفيذ',
+  actionTimeline: 'الجدول الزمني للإجراءات',
+  item: 'البند',
+  dayNumber: 'اليوم {day}',
+  riskAssessment: 'تقييم المخاطر',
+  riskFactor: 'عامل الخطر',
+  probability: 'الاحتمالية',
+  impact: 'الأثر',
+  mitigation: 'إجراءات التخفيف'
+};
+
+export const REPORT_LABELS: Record<ReportLocale, ReportLabels> = {
+  en: ENGLISH_LABELS,
+  fr: FRENCH_LABELS,
+  ar: ARABIC_LABELS
+};
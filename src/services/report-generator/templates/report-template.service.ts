@@ -0,0 +1,137 @@
+import { ReportBranding, ReportLocale, ReportTemplateSelection } from '@/types/report.types';
+import { logger } from '@/utils/logger';
+import { REPORT_LABELS, ReportLabels } from './report-labels';
+
+export const DEFAULT_REPORT_TEMPLATE_ID = 'tradewizard';
+
+const RTL_LOCALES: ReportLocale[] = ['ar'];
+
+// Locale used to format numbers and dates in each report language
+const NUMBER_LOCALES: Record<ReportLocale, string> = {
+  en: 'en-US',
+  fr: 'fr-FR',
+  ar: 'ar-AE'
+};
+
+/**
+ * TrueType font for PDF exports, with paths relative to the app root.
+ * The files must exist: the PDF export fails rather than fall back to Helvetica.
+ */
+export interface ReportTemplateFont {
+  family: string;
+  normal: string;
+  bold: string;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  locale: ReportLocale;
+  branding: ReportBranding;
+  pdfFont?: ReportTemplateFont;
+}
+
+/**
+ * Template with the per-report selection applied, ready for rendering
+ */
+export interface ResolvedReportTemplate extends ReportTemplate {
+  direction: 'ltr' | 'rtl';
+  numberLocale: string;
+  labels: ReportLabels;
+}
+
+export class ReportTemplateError extends Error {
+  constructor(message: string, public templateId: string) {
+    super(message);
+    this.name = 'ReportTemplateError';
+  }
+}
+
+const TRADEWIZARD_BRANDING: ReportBranding = {
+  brandName: 'TradeWizard 3.0',
+  primaryColor: '#2c3e50',
+  accentColor: '#2980b9'
+};
+
+export const BUILT_IN_REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: DEFAULT_REPORT_TEMPLATE_ID,
+    name: 'TradeWizard (English)',
+    locale: 'en',
+    branding: TRADEWIZARD_BRANDING
+  },
+  {
+    id: 'tradewizard-fr',
+    name: 'TradeWizard (Français)',
+    locale: 'fr',
+    branding: TRADEWIZARD_BRANDING
+  }
+];
+
+/**
+ * Fill the {placeholders} in a label
+ */
+export function formatLabel(label: string, values: Record<string, string | number>): string {
+  return label.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    values[key] !== undefined ? String(values[key]) : placeholder
+  );
+}
+
+/**
+ * Built-in and partner-branded templates for the HTML and PDF exports
+ */
+export class ReportTemplateRegistry {
+  private templates = new Map<string, ReportTemplate>();
+
+  constructor(templates: ReportTemplate[] = BUILT_IN_REPORT_TEMPLATES) {
+    templates.forEach(template => this.register(template));
+  }
+
+  /**
+   * Add a template, replacing any existing template with the same id
+   */
+  register(template: ReportTemplate): void {
+    if (!REPORT_LABELS[template.locale]) {
+      throw new ReportTemplateError(`Unsupported report locale: ${template.locale}`, template.id);
+    }
+
+    this.templates.set(template.id, template);
+    logger.info(`Registered report template ${template.id}`);
+  }
+
+  list(): ReportTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  get(templateId: string): ReportTemplate {
+    const template = this.templates.get(templateId);
+    if (!template) {
+      throw new ReportTemplateError(`Unknown report template: ${templateId}`, templateId);
+    }
+    return template;
+  }
+
+  /**
+   * Apply a report's template selection; reports without one use the default template
+   */
+  resolve(selection?: ReportTemplateSelection): ResolvedReportTemplate {
+    const template = this.get(selection?.templateId || DEFAULT_REPORT_TEMPLATE_ID);
+    const locale = selection?.locale || template.locale;
+
+    if (!REPORT_LABELS[locale]) {
+      throw new ReportTemplateError(`Unsupported report locale: ${locale}`, template.id);
+    }
+
+    return {
+      ...template,
+      locale,
+      branding: { ...template.branding, ...selection?.branding },
+      direction: RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr',
+      numberLocale: NUMBER_LOCALES[locale],
+      labels: REPORT_LABELS[locale]
+    };
+  }
+}
+
+// Shared so partner templates registered at startup are available to every exporter
+export const reportTemplateRegistry = new ReportTemplateRegistry();
@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+import { SanctionsScreeningService } from '../sanctions-screening.service';
+import { screeningLists } from '@/data/sanctions';
+import { ScreenedProduct } from '@/types/sanctions-screening.types';
+
+const screenedAt = new Date('2025-03-01T00:00:00Z');
+const beefBurgers: ScreenedProduct = { name: 'Beef burgers', hsCode: '1602.50' };
+const wine: ScreenedProduct = { name: 'Pinotage', description: 'Red wine', hsCode: '220421' };
+const hunting: ScreenedProduct = { name: 'Hunting rifle', hsCode: '930320' };
+
+describe('SanctionsScreeningService', () => {
+  const service = new SanctionsScreeningService(screeningLists, 'ZA', () => screenedAt);
+
+  it('should clear markets without embargoes or controlled products', () => {
+    const result = service.screen({ targetMarkets: ['GB', 'UAE'], products: [beefBurgers] });
+
+    expect(result).toMatchObject({
+      exporterCountry: 'ZA',
+      screenedAt,
+      blockedMarkets: [],
+      flaggedMarkets: []
+    });
+    expect(result.markets.map(market => market.status)).toEqual(['clear', 'clear']);
+  });
+
+  it('should block markets under a comprehensive embargo', () => {
+    const result = service.screen({ targetMarkets: ['KP'], products: [beefBurgers] });
+
+    expect(result.blockedMarkets).toEqual(['KP']);
+    expect(result.markets[0].hits).toEqual([expect.objectContaining({
+      list: 'country-embargo',
+      restriction: 'prohibition',
+      authority: 'UN',
+      reason: 'UN embargo on all trade with North Korea'
+    })]);
+  });
+
+  it('should only apply the sanctions that bind the exporter', () => {
+    const fromSouthAfrica = service.screen({ targetMarkets: ['RU', 'CU'], products: [wine] });
+    const fromGermany = service.screen({ exporterCountry: 'DE', targetMarkets: ['RU', 'CU'], products: [wine] });
+    const fromUs = service.screen({ exporterCountry: 'us', targetMarkets: ['CU'], products: [wine] });
+
+    expect(fromSouthAfrica.blockedMarkets).toEqual([]);
+    expect(fromGermany.blockedMarkets).toEqual(['RU']);
+    expect(fromGermany.markets[0].hits[0].reason).toBe('EU sanctions on Russia cover Pinotage');
+    expect(fromUs.blockedMarkets).toEqual(['CU']);
+  });
+
+  it('should block arms embargoed markets for strategic goods only', () => {
+    const arms = service.screen({ targetMarkets: ['LY'], products: [hunting] });
+    const food = service.screen({ targetMarkets: ['LY'], products: [beefBurgers] });
+
+    expect(arms.blockedMarkets).toEqual(['LY']);
+    expect(arms.markets[0].hits.map(hit => [hit.list, hit.restriction])).toEqual([
+      ['country-embargo', 'prohibition'],
+      ['strategic-goods', 'license']
+    ]);
+    expect(food.markets[0].status).toBe('clear');
+  });
+
+  it('should flag controlled goods that need an export permit', () => {
+    const result = service.screen({
+      targetMarkets: ['GB'],
+      products: [{ name: 'Survey drone', hsCode: '880240' }]
+    });
+
+    expect(result.flaggedMarkets).toEqual(['GB']);
+    expect(result.markets[0].hits).toEqual([expect.objectContaining({
+      list: 'dual-use',
+      restriction: 'license',
+      reason: 'Survey drone falls under Wassenaar Arrangement Dual-Use List Category 9 (Large aeroplanes and unmanned aircraft)'
+    })]);
+  });
+
+  it('should match CITES-listed species in product names and descriptions', () => {
+    const result = service.screen({
+      targetMarkets: ['US'],
+      products: [
+        { name: 'Carved bangle', description: 'Hand-carved ivory', hsCode: '960110' },
+        { name: 'Appetite suppressant', description: 'Hoodia gordonii extract', hsCode: '130219' },
+        { name: 'Coral-pink tea towel', hsCode: '630260' }
+      ]
+    });
+
+    const hits = result.markets[0].hits;
+    expect(hits.map(hit => [hit.productName, hit.restriction])).toEqual([
+      ['Carved bangle', 'prohibition'],
+      ['Appetite suppressant', 'license']
+    ]);
+    // Only one of the products is prohibited, so the market stays open for the rest
+    expect(result.markets[0].status).toBe('flagged');
+  });
+
+  it('should flag regions when only some member states are embargoed', () => {
+    const result = service.screen({ targetMarkets: ['sadc'], products: [hunting] });
+
+    expect(result.markets[0]).toMatchObject({ marketCode: 'sadc', status: 'flagged' });
+    expect(result.markets[0].hits.filter(hit => hit.list === 'country-embargo').map(hit => hit.countryCode))
+      .toEqual(['CD']);
+  });
+
+  it('should turn hits into blocking risk factors', () => {
+    const result = service.screen({ targetMarkets: ['GB', 'KP', 'LY'], products: [hunting] });
+
+    expect(service.toRiskFactors(result)).toEqual([
+      {
+        name: 'Sanctions and trade control restrictions for GB',
+        probability: 'high',
+        impact: 'high',
+        mitigationStrategy: 'Obtain export permits before shipping: National Conventional Arms Control Committee (NCACC).',
+        blocking: true
+      },
+      expect.objectContaining({
+        name: 'Export to KP prohibited by sanctions or trade controls',
+        mitigationStrategy: expect.stringContaining('UN embargo on all trade with North Korea; remove this market or product from the plan.'),
+        blocking: true
+      }),
+      expect.objectContaining({ name: 'Export to LY prohibited by sanctions or trade controls', blocking: true })
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+import { ControlledGoodsEntry, CountryEmbargo, ScreeningLists, screeningLists } from '@/data/sanctions';
+import { normaliseText } from '@/services/label-compliance/ingredient-matcher';
+import { RiskFactor } from '@/types/report.types';
+import {
+  MarketScreeningResult,
+  ScreenedProduct,
+  ScreeningHit,
+  ScreeningRequest,
+  ScreeningResult,
+  ScreeningStatus
+} from '@/types/sanctions-screening.types';
+import { logger } from '@/utils/logger';
+
+/**
+ * Screens the exporter, destination and products of an assessment against
+ * country embargoes, controlled goods lists and CITES-listed species
+ */
+export class SanctionsScreeningService {
+  constructor(
+    private lists: ScreeningLists = screeningLists,
+    private exporterCountry = 'ZA',
+    private now: () => Date = () => new Date()
+  ) {}
+
+  screen(request: ScreeningRequest): ScreeningResult {
+    const exporterCountry = (request.exporterCountry || this.exporterCountry).toUpperCase();
+    const authorities = this.getAuthorities(exporterCountry);
+    const markets = request.targetMarkets.map(marketCode =>
+      this.screenMarket(marketCode, exporterCountry, authorities, request.products));
+
+    const result: ScreeningResult = {
+      exporterCountry,
+      screenedAt: this.now(),
+      listVersions: {
+        embargoes: this.lists.embargoes.version,
+        controlledGoods: this.lists.controlledGoods.version,
+        cites: this.lists.cites.version
+      },
+      markets,
+      blockedMarkets: markets.filter(market => market.status === 'blocked').map(market => market.marketCode),
+      flaggedMarkets: markets.filter(market => market.status === 'flagged').map(market => market.marketCode)
+    };
+
+    logger.info(`Screened ${markets.length} markets: ${result.blockedMarkets.length} blocked, ${result.flaggedMarkets.length} flagged`);
+    return result;
+  }
+
+  /**
+   * One blocking risk factor per market with a hit, so the report can't
+   * present a restricted market as ready to go
+   */
+  toRiskFactors(result: ScreeningResult): RiskFactor[] {
+    return result.markets
+      .filter(market => market.hits.length > 0)
+      .map(market => {
+        const prohibitions = market.hits.filter(hit => hit.restriction === 'prohibition');
+        const licenses = market.hits.filter(hit => hit.restriction === 'license');
+        const permits = Array.from(new Set(licenses.map(hit => hit.authority)));
+
+        return {
+          name: market.status === 'blocked'
+            ? `Export to ${market.marketCode} prohibited by sanctions or trade controls`
+            : `Sanctions and trade control restrictions for ${market.marketCode}`,
+          probability: 'high',
+          impact: 'high',
+          mitigationStrategy: [
+            ...prohibitions.map(hit => `${hit.reason}; remove this market or product from the plan.`),
+            ...(permits.length > 0 ? [`Obtain export permits before shipping: ${permits.join(', ')}.`] : [])
+          ].join(' '),
+          blocking: true
+        };
+      });
+  }
+
+  private screenMarket(
+    marketCode: string,
+    exporterCountry: string,
+    authorities: string[],
+    products: ScreenedProduct[]
+  ): MarketScreeningResult {
+    const code = this.resolveMarketCode(marketCode);
+    const region = this.lists.embargoes.regions[code];
+    // Exporters don't need screening against their own country within a region
+    const countries = region ? region.filter(country => country !== exporterCountry) : [code];
+
+    const hits = [
+      ...countries.flatMap(country => this.screenCountry(country, authorities, products)),
+      ...products.flatMap(product => this.screenProduct(code, product))
+    ];
+
+    return { marketCode, status: this.getStatus(code, hits, products), hits };
+  }
+
+  private screenCountry(country: string, authorities: string[], products: ScreenedProduct[]): ScreeningHit[] {
+    return this.lists.embargoes.embargoes
+      .filter(embargo => embargo.country === country && authorities.includes(embargo.authority))
+      .flatMap(embargo => {
+        if (embargo.scope === 'comprehensive') {
+          return [this.createEmbargoHit(embargo, `${embargo.authority} embargo on all trade with ${embargo.name}`)];
+        }
+
+        return products
+          .filter(product => embargo.scope === 'arms'
+            ? !!this.findControlledGoods(product.hsCode)
+            : this.matchesPrefix(product.hsCode, embargo.hsPrefixes || []))
+          .map(product => this.createEmbargoHit(
+            embargo,
+            `${embargo.authority} ${embargo.scope === 'arms' ? 'arms embargo' : 'sanctions'} on ${embargo.name} cover ${product.name}`,
+            product
+          ));
+      });
+  }
+
+  private screenProduct(marketCode: string, product: ScreenedProduct): ScreeningHit[] {
+    const hits: ScreeningHit[] = [];
+    const controlled = this.findControlledGoods(product.hsCode);
+
+    if (controlled) {
+      hits.push({
+        list: controlled.list,
+        restriction: 'license',
+        countryCode: marketCode,
+        productName: product.name,
+        hsCode: product.hsCode,
+        reason: `${product.name} falls under ${controlled.entry.control} (${controlled.entry.description})`,
+        authority: controlled.entry.authority,
+        url: controlled.entry.url
+      });
+    }
+
+    const text = ` ${normaliseText(`${product.name} ${product.description || ''}`)} `;
+    for (const species of this.lists.cites.species) {
+      if (species.keywords.some(keyword => text.includes(` ${normaliseText(keyword)} `))) {
+        hits.push({
+          list: 'cites',
+          // Appendix I species can't be traded commercially at all
+          restriction: species.appendix === 'I' ? 'prohibition' : 'license',
+          countryCode: marketCode,
+          productName: product.name,
+          hsCode: product.hsCode,
+          reason: `${product.name} appears to contain ${species.name} (${species.taxon}), listed in CITES Appendix ${species.appendix}`,
+          authority: 'CITES Management Authority',
+          url: 'https://cites.org/eng/app/appendices.php'
+        });
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * A market is blocked when every product is prohibited there; prohibitions
+   * that only touch some products, or some members of a region, flag it
+   */
+  private getStatus(code: string, hits: ScreeningHit[], products: ScreenedProduct[]): ScreeningStatus {
+    const prohibitions = hits.filter(hit => hit.restriction === 'prohibition' && hit.countryCode === code);
+    const allProhibited = prohibitions.some(hit => !hit.productName)
+      || (products.length > 0 && products.every(product => prohibitions.some(hit => hit.productName === product.name)));
+
+    if (allProhibited) {
+      return 'blocked';
+    }
+    return hits.length > 0 ? 'flagged' : 'clear';
+  }
+
+  private createEmbargoHit(embargo: CountryEmbargo, reason: string, product?: ScreenedProduct): ScreeningHit {
+    return {
+      list: 'country-embargo',
+      restriction: 'prohibition',
+      countryCode: embargo.country,
+      productName: product?.name,
+      hsCode: product?.hsCode,
+      reason,
+      authority: embargo.authority,
+      reference: embargo.reference,
+      url: embargo.url
+    };
+  }
+
+  private findControlledGoods(
+    hsCode?: string
+  ): { list: 'strategic-goods' | 'dual-use'; entry: ControlledGoodsEntry } | undefined {
+    const strategic = this.lists.controlledGoods.strategic.find(entry => this.matchesPrefix(hsCode, [entry.hsPrefix]));
+    if (strategic) {
+      return { list: 'strategic-goods', entry: strategic };
+    }
+
+    const dualUse = this.lists.controlledGoods.dualUse.find(entry => this.matchesPrefix(hsCode, [entry.hsPrefix]));
+    return dualUse ? { list: 'dual-use', entry: dualUse } : undefined;
+  }
+
+  private matchesPrefix(hsCode: string | undefined, prefixes: string[]): boolean {
+    const digits = (hsCode || '').replace(/\D/g, '');
+    return digits.length > 0 && prefixes.some(prefix => digits.startsWith(prefix));
+  }
+
+  private resolveMarketCode(marketCode: string): string {
+    const code = marketCode.toUpperCase();
+    return this.lists.embargoes.marketAliases[code] || code;
+  }
+
+  private getAuthorities(exporterCountry: string): string[] {
+    const { authoritiesByExporter, regions } = this.lists.embargoes;
+    if (authoritiesByExporter[exporterCountry]) {
+      return authoritiesByExporter[exporterCountry];
+    }
+    // EU member states share the EU's measures
+    if (regions.EU?.includes(exporterCountry)) {
+      return ['UN', 'EU'];
+    }
+    return authoritiesByExporter['*'] || ['UN'];
+  }
+}
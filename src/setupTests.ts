@@ -6,35 +6,38 @@ configure({
   testIdAttribute: 'data-testid',
 });
 
-// Mock IntersectionObserver
-const mockIntersectionObserver = jest.fn();
-mockIntersectionObserver.mockImplementation(() => ({
-  observe: () => null,
-  unobserve: () => null,
-  disconnect: () => null,
-}));
-window.IntersectionObserver = mockIntersectionObserver;
+// Browser mocks only apply to jsdom; service tests may opt into the node environment
+if (typeof window !== 'undefined') {
+  // Mock IntersectionObserver
+  const mockIntersectionObserver = jest.fn();
+  mockIntersectionObserver.mockImplementation(() => ({
+    observe: () => null,
+    unobserve: () => null,
+    disconnect: () => null,
+  }));
+  window.IntersectionObserver = mockIntersectionObserver;
 
-// Mock ResizeObserver
-const mockResizeObserver = jest.fn();
-mockResizeObserver.mockImplementation(() => ({
-  observe: () => null,
-  unobserve: () => null,
-  disconnect: () => null,
-}));
-window.ResizeObserver = mockResizeObserver;
+  // Mock ResizeObserver
+  const mockResizeObserver = jest.fn();
+  mockResizeObserver.mockImplementation(() => ({
+    observe: () => null,
+    unobserve: () => null,
+    disconnect: () => null,
+  }));
+  window.ResizeObserver = mockResizeObserver;
 
-// Mock matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(),
-    removeListener: jest.fn(),
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-}); 
\ No newline at end of file
+  // Mock matchMedia
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  });
+}
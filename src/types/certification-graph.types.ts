@@ -0,0 +1,27 @@
+/**
+ * A compliance requirement met by a certification the exporter already holds
+ */
+export interface CertificationMatch {
+  requirementId: string;
+  marketCode: string;
+  // The exporter's certification that meets the requirement
+  certificationId: string;
+  certificationName: string;
+  // direct: the required certification itself; covers/equivalent: met through the graph
+  via: 'direct' | 'covers' | 'equivalent';
+  // Graph node ids from the held certification to the required one
+  path: string[];
+}
+
+/**
+ * The one certification that would meet mandatory requirements in the most target markets
+ */
+export interface CertificationSuggestion {
+  certificationId: string;
+  name: string;
+  marketCodes: string[];
+  // Unmet requirements, mandatory or not, that it would meet
+  requirementIds: string[];
+  // Certifiers each market accepts, for markets that restrict them
+  acceptedCertifiers?: Record<string, string[]>;
+}
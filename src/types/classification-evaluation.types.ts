@@ -0,0 +1,62 @@
+export type EvaluationCategory = 'food' | 'textiles' | 'wine' | 'minerals';
+
+export type ClassifierStrategyName = 'keyword' | 'vector' | 'llm' | 'combined';
+
+// Product description with the 6-digit code it is known to classify under
+export interface EvaluationSample {
+  id: string;
+  description: string;
+  hsCode: string;
+  category: EvaluationCategory;
+}
+
+export interface EvaluationDataset {
+  version: string;
+  samples: EvaluationSample[];
+}
+
+export interface ClassifierPrediction {
+  hsCode: string;
+  confidence: number; // 0-1
+}
+
+// A way of classifying a product description, ranked best first
+export interface ClassifierStrategy {
+  name: ClassifierStrategyName;
+  classify(description: string): Promise<ClassifierPrediction[]>;
+}
+
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;    // Share of top predictions in the bin that were correct
+}
+
+export interface ChapterConfusion {
+  expected: string;
+  predicted: string;   // 'none' when the strategy gave no prediction
+  count: number;
+}
+
+export interface StrategyEvaluation {
+  strategy: ClassifierStrategyName;
+  samples: number;
+  answered: number;    // Samples with at least one prediction
+  topK: Record<number, number>;   // k -> share of samples with the exact 6-digit code in the top k
+  chapterAccuracy: number;        // Share of samples whose top prediction is in the right chapter
+  byCategory: Record<EvaluationCategory, { samples: number; top1Accuracy: number }>;
+  calibration: {
+    bins: CalibrationBin[];
+    expectedCalibrationError: number;
+  };
+  chapterConfusion: ChapterConfusion[];   // Wrong-chapter top predictions, most frequent first
+  errors: { sampleId: string; message: string }[];
+}
+
+export interface EvaluationReport {
+  datasetVersion: string;
+  generatedAt: string;
+  strategies: StrategyEvaluation[];
+}
@@ -59,6 +59,34 @@ export interface ClassificationMetrics {
   userCorrected: boolean;
   originalClassification?: string;
   finalClassification: string;
+  productDescription?: string;
+}
+
+// A user correction, kept with the product description it was made for
+export interface ClassificationCorrection {
+  productDescription: string;
+  originalClassification?: string;
+  finalClassification: string;
+  finalDescription?: string;
+  correctedAt: string;   // ISO date
+}
+
+// Confidence added to a code because similar products were corrected to it
+export interface CorrectionBoost {
+  hsCode: string;
+  description?: string;
+  boost: number;         // 0-1, added to the code's confidence
+  corrections: number;
+}
+
+// A code users keep correcting away from, for reviewing the keyword maps
+export interface FrequentlyCorrectedCode {
+  hsCode: string;
+  chapter: string;
+  corrections: number;
+  correctedTo: { hsCode: string; count: number }[];
+  productDescriptions: string[];
+  chapterKeywords: string[];   // Keywords mapping products to this chapter in HSChapterMappingService
 }
 
 export type ClassificationErrorType = 
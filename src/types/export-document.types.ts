@@ -0,0 +1,190 @@
+export type ExportDocumentType =
+  | 'commercial-invoice'
+  | 'packing-list'
+  | 'certificate-of-origin-request'
+  | 'sad500';
+
+// Checklist stages, in the order an exporter works through them
+export type DocumentStage = 'registration' | 'certification' | 'pre-shipment' | 'customs';
+
+export type TransportMode = 'sea' | 'air' | 'road' | 'rail';
+
+export interface ShipmentParty {
+  name: string;
+  address: string[];
+  // ISO 3166-1 alpha-2 country code
+  country: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  taxNumber?: string;
+}
+
+export interface ShipmentLine {
+  productId?: string;
+  description: string;
+  hsCode?: string;
+  // Defaults to the exporter's country
+  countryOfOrigin?: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  packages?: number;
+  packageType?: string;
+  netWeightKg?: number;
+  grossWeightKg?: number;
+}
+
+/**
+ * One consignment to one market, as entered by the exporter
+ */
+export interface ExportShipment {
+  // Invoice number, also used as the reference on every other document
+  reference: string;
+  // ISO date (YYYY-MM-DD)
+  date: string;
+  destinationCountry: string;
+  consignee: ShipmentParty;
+  currency: string;
+  // Incoterms 2020 rule, e.g. FOB or CIF
+  incoterm: string;
+  transportMode: TransportMode;
+  portOfLoading?: string;
+  portOfDischarge?: string;
+  lines: ShipmentLine[];
+  // SARS customs client number, needed on the SAD500
+  exporterCustomsCode?: string;
+  exporterVatNumber?: string;
+}
+
+export interface DocumentChecklistItem {
+  id: string;
+  title: string;
+  description?: string;
+  stage: DocumentStage;
+  // 1-based position in the checklist
+  order: number;
+  required: boolean;
+  issuingAuthority?: string;
+  // Longest lead time of the requirements that need this document
+  leadTimeInDays?: number;
+  // Compliance requirements that asked for this document
+  requirementIds: string[];
+  // Set when TradeWizard can pre-fill a draft of this document
+  draftType?: ExportDocumentType;
+}
+
+export interface DocumentLineItem {
+  lineNumber: number;
+  description: string;
+  hsCode?: string;
+  countryOfOrigin: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface CommercialInvoiceDraft {
+  type: 'commercial-invoice';
+  invoiceNumber: string;
+  invoiceDate: string;
+  exporter: ShipmentParty;
+  consignee: ShipmentParty;
+  currency: string;
+  incoterm: string;
+  transportMode: TransportMode;
+  portOfLoading?: string;
+  portOfDischarge?: string;
+  destinationCountry: string;
+  lines: Array<DocumentLineItem & { unitPrice: number; total: number }>;
+  totalValue: number;
+}
+
+export interface PackingListDraft {
+  type: 'packing-list';
+  reference: string;
+  date: string;
+  exporter: ShipmentParty;
+  consignee: ShipmentParty;
+  lines: Array<DocumentLineItem & {
+    packages?: number;
+    packageType?: string;
+    netWeightKg?: number;
+    grossWeightKg?: number;
+  }>;
+  totals: {
+    packages: number;
+    netWeightKg: number;
+    grossWeightKg: number;
+  };
+}
+
+export type CertificateOfOriginType = 'EUR.1' | 'certificate-of-origin' | 'non-preferential';
+
+export interface CertificateOfOriginRequestDraft {
+  type: 'certificate-of-origin-request';
+  certificateType: CertificateOfOriginType;
+  // e.g. "SADC certificate of origin"
+  certificateName: string;
+  // Trade agreement the certificate claims preference under
+  agreement?: string;
+  issuingBody: string;
+  invoiceReference: string;
+  exporter: ShipmentParty;
+  consignee: ShipmentParty;
+  destinationCountry: string;
+  transportDetails: string;
+  goods: DocumentLineItem[];
+}
+
+export interface Sad500LineItem {
+  itemNumber: number;
+  // South African tariff code (8 digits)
+  tariffCode?: string;
+  description: string;
+  countryOfOrigin: string;
+  statisticalQuantity: number;
+  unit: string;
+  // Customs value in rand
+  customsValueZar: number;
+  netMassKg?: number;
+  grossMassKg?: number;
+}
+
+export interface Sad500DeclarationDraft {
+  type: 'sad500';
+  // EX1: permanent export of goods in free circulation
+  declarationType: 'EX1';
+  exporterName: string;
+  exporterCustomsCode?: string;
+  exporterVatNumber?: string;
+  consignee: ShipmentParty;
+  countryOfDestination: string;
+  // SARS transport mode code (1 sea, 2 rail, 3 road, 4 air)
+  transportModeCode: number;
+  portOfExit?: string;
+  invoiceReference: string;
+  deliveryTerms: string;
+  invoiceCurrency: string;
+  totalInvoiceValue: number;
+  exchangeRate: number;
+  lines: Sad500LineItem[];
+}
+
+export type ExportDocumentDraft =
+  | CommercialInvoiceDraft
+  | PackingListDraft
+  | CertificateOfOriginRequestDraft
+  | Sad500DeclarationDraft;
+
+/**
+ * Checklist and pre-filled drafts for one shipment
+ */
+export interface ExportDocumentPack {
+  shipmentReference: string;
+  marketCode: string;
+  generatedAt: Date;
+  checklist: DocumentChecklistItem[];
+  drafts: ExportDocumentDraft[];
+  // Fields the exporter still has to complete before the drafts can be lodged
+  missingFields: string[];
+}
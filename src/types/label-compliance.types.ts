@@ -0,0 +1,41 @@
+/**
+ * What is printed on a product's label, as entered by the exporter
+ */
+export interface ProductLabel {
+  productName: string;
+  // One entry per ingredient, as printed (sub-ingredients may stay in brackets)
+  ingredients: string[];
+  // Languages the label is printed in, as names ("English") or ISO 639-1 codes ("en")
+  languages: string[];
+  // Nutrition panel values keyed by field name, e.g. { energy: '1046 kJ', salt: '0.8 g' }
+  nutritionPanel?: Record<string, string | number>;
+  shelfLifeMonths?: number;
+  // Allergens the label declares
+  allergens?: string[];
+  // Certification marks and specialised labels shown, e.g. "Halal"
+  marks?: string[];
+}
+
+// The LabelingRequirements rule a finding checks; allergen declarations apply in every market
+export type LabelRule =
+  | 'requiredLanguages'
+  | 'nutritionLabelMandatory'
+  | 'shelfLifeMonths'
+  | 'ingredientRestrictions'
+  | 'specializedLabels'
+  | 'allergenDeclaration';
+
+export interface LabelFinding {
+  rule: LabelRule;
+  status: 'pass' | 'fail';
+  message: string;
+  // Ingredients, languages or fields behind a failure
+  details?: string[];
+}
+
+export interface LabelCheckResult {
+  productName: string;
+  marketCode: string;
+  passed: boolean;
+  findings: LabelFinding[];
+}
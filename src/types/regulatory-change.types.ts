@@ -0,0 +1,62 @@
+import {
+  ComplianceRequest,
+  PreferentialTariff
+} from '@/mcp/compliance-mcp/compliance-mcp.interface';
+
+export interface SnapshotRequirement {
+  id: string;
+  name: string;
+  countryCode: string;
+  isRequired: boolean;
+}
+
+// Tariff and ban conditions for one market at the time of the snapshot
+export interface SnapshotMarketTerms {
+  countryCode: string;
+  tariffRatePercentage: number;
+  preferentialTariffs: PreferentialTariff[];
+  hasProductBans: boolean;
+  banDetails?: string;
+}
+
+/**
+ * The compliance result a saved assessment relied on
+ */
+export interface ComplianceSnapshot {
+  assessmentId: string;
+  capturedAt: Date;
+  // Request to re-run when checking for changes
+  request: ComplianceRequest;
+  ruleBaseVersions: Record<string, string>;
+  requirements: SnapshotRequirement[];
+  markets: SnapshotMarketTerms[];
+}
+
+export type RegulatoryChangeType =
+  | 'new-mandatory-requirement'
+  | 'requirement-removed'
+  | 'tariff-change'
+  | 'new-ban';
+
+export interface RegulatoryChange {
+  type: RegulatoryChangeType;
+  marketCode: string;
+  summary: string;
+  requirementId?: string;
+  hsCode?: string;
+  previous?: string | number;
+  current?: string | number;
+}
+
+export interface RegulatoryChangeAlert {
+  id: string;
+  assessmentId: string;
+  detectedAt: Date;
+  // Where email notifications go, from the assessment's business profile
+  contactEmail?: string;
+  changes: RegulatoryChange[];
+  ruleBaseVersions: {
+    previous: Record<string, string>;
+    current: Record<string, string>;
+  };
+}
@@ -7,8 +7,10 @@ import {
   Budget,
   TargetMarket
 } from '@/contexts/assessment-context';
-import { MarketInsight } from '@/mcp/market-intelligence-mcp/market-intelligence-mcp.interface';
-import { ComplianceRequirement } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { MarketInsight } from '@/mcp/global/market-intelligence-mcp/market-intelligence-mcp.interface';
+import { ApplicabilityTrace, ComplianceRequirement } from '@/mcp/compliance-mcp/compliance-mcp.interface';
+import { ScreeningResult } from '@/types/sanctions-screening.types';
+import { CertificationSuggestion } from '@/types/certification-graph.types';
 
 // Market Overview Section
 export interface MarketOverviewSection {
@@ -16,6 +18,8 @@ export interface MarketOverviewSection {
   marketName: string;
   marketSize: number;
   marketCurrency: string;
+  // Market size converted to the exporter's budget currency, when the market currency is known
+  marketSizeInBudgetCurrency?: number;
   growthRate: number;
   keyCompetitors: Array<{
     name: string;
@@ -44,7 +48,11 @@ export interface CertificationRequirement {
   marketName: string;
   regulatoryBody: string;
   referenceUrl: string;
+  // Obtained certification that already meets this requirement
+  satisfiedBy?: string;
   confidenceScore?: number;
+  // Which product, market and rule made the requirement apply, and its sources
+  applicability?: ApplicabilityTrace;
 }
 
 export interface CertificationRoadmapSection {
@@ -62,9 +70,43 @@ export interface CertificationRoadmapSection {
     currency: string;
   };
   totalEstimatedTimelineInDays: number;
+  // Budget-constrained ordering of certifications, present when cost optimisation is enabled
+  budgetPlan?: CertificationBudgetPlan;
+  // The single certification that would meet mandatory requirements in the most target markets
+  suggestedCertification?: CertificationSuggestion;
   confidenceScore?: number;
 }
 
+export interface CertificationBudgetMilestone {
+  month: number;
+  startDay: number;
+  // Certification budget released up to and including this month
+  cumulativeBudget: number;
+  cumulativeSpend: number;
+  certifications: string[];
+  // Markets whose mandatory certifications are all funded from this milestone on
+  marketsReachable: string[];
+}
+
+export interface DeferredCertification {
+  name: string;
+  isRequired: boolean;
+  marketCodes: string[];
+  estimatedCost: number;
+  reason: string;
+}
+
+export interface CertificationBudgetPlan {
+  certificationBudget: number;
+  currency: string;
+  timelineMonths: number;
+  totalPlannedSpend: number;
+  milestones: CertificationBudgetMilestone[];
+  deferred: DeferredCertification[];
+  reachableMarkets: string[];
+  deferredMarkets: string[];
+}
+
 // Resource Needs Section
 export interface ResourceNeed {
   type: 'financial' | 'human' | 'infrastructure' | 'knowledge';
@@ -100,6 +142,14 @@ export interface ResourceNeedsSection {
 }
 
 // Action Plan Section
+// Critical-path scheduling results for an action item
+export interface ActionItemSchedule {
+  earliestStartDay: number;
+  latestStartDay: number;
+  slackDays: number;
+  isCritical: boolean;
+}
+
 export interface ActionItem {
   id: string;
   name: string;
@@ -116,6 +166,7 @@ export interface ActionItem {
     currency: string;
   };
   marketCodes: string[];
+  schedule?: ActionItemSchedule;
   confidenceScore?: number;
 }
 
@@ -125,6 +176,8 @@ export interface RiskFactor {
   impact: 'high' | 'medium' | 'low';
   mitigationStrategy: string;
   confidenceScore?: number;
+  // Must be resolved before exporting, e.g. a sanctions or embargo hit
+  blocking?: boolean;
 }
 
 export interface ActionPlanSection {
@@ -135,10 +188,29 @@ export interface ActionPlanSection {
     durationDays: number;
     items: string[];
   }[];
+  // Action item ids on the critical path, in execution order
+  criticalPath: string[];
+  totalDurationDays: number;
   riskAssessment: RiskFactor[];
   confidenceScore?: number;
 }
 
+// Export Readiness Score Breakdown
+export interface ReadinessDimensionScore {
+  id: string;
+  name: string;
+  weight: number;
+  subScore: number;
+  weightedScore: number;
+  rationale: string[];
+}
+
+export interface ExportReadinessScoreBreakdown {
+  totalScore: number;
+  configVersion: string;
+  dimensions: ReadinessDimensionScore[];
+}
+
 // Complete Report Data
 export interface ReportData {
   businessProfile: BusinessProfile;
@@ -157,13 +229,66 @@ export interface ReportData {
   // Metadata
   generatedAt: Date;
   exportReadinessScore: number;
+  exportReadinessBreakdown?: ExportReadinessScoreBreakdown;
   overallConfidenceScore?: number;
+  currencyConversion?: ReportCurrencyConversion;
+  // Sanctions, embargo and restricted-goods screening of the target markets
+  sanctionsScreening?: ScreeningResult;
+  // Template the HTML and PDF exports are rendered with
+  template?: ReportTemplateSelection;
   
   // Raw Data for verification
   rawComplianceData?: ComplianceRequirement[];
   rawMarketData?: Record<string, MarketInsight>;
 }
 
+// Exchange rates used to express report costs in the budget currency
+export interface ReportCurrencyConversion {
+  reportCurrency: string;
+  rateDate: string;
+  rateSource: string;
+  // Units of each reporting currency per unit of the report currency
+  rates: Record<string, number>;
+  // Costs left in their own currency, and other gaps in the rates, e.g. an unsupported budget currency
+  warnings?: string[];
+}
+
+// Scenario Comparison
+export interface ScenarioOverrides {
+  targetMarkets?: TargetMarket[];
+  budget?: Partial<Budget>;
+  productionCapacity?: Partial<ProductionCapacity>;
+  certifications?: Certification[];
+}
+
+export interface AssessmentScenario {
+  id: string;
+  name: string;
+  overrides: ScenarioOverrides;
+}
+
+export interface ScenarioComparisonRow {
+  scenarioId: string;
+  scenarioName: string;
+  exportReadinessScore: number | null;
+  totalCertificationCost: {
+    min: number;
+    max: number;
+    currency: string;
+  } | null;
+  // Days until the pilot export shipment starts
+  timeToFirstShipmentDays: number | null;
+  topRisks: string[];
+  error?: string;
+}
+
+export interface ScenarioComparison {
+  baseScenarioId: string;
+  rows: ScenarioComparisonRow[];
+  reports: Record<string, ReportData>;
+  generatedAt: Date;
+}
+
 // Report Generation Configuration
 export interface ReportGenerationConfig {
   includeConfidenceScores: boolean;
@@ -172,11 +297,107 @@ export interface ReportGenerationConfig {
   costOptimization: boolean;
   timelineOptimization: boolean;
   includeRawData: boolean;
+  // Maximum number of action items worked on at the same time
+  maxParallelActions?: number;
+  // Branding and language of the exported report (defaults to the TradeWizard English template)
+  template?: ReportTemplateSelection;
+}
+
+// Report Templates
+export type ReportLocale = 'en' | 'fr' | 'ar';
+
+export interface ReportBranding {
+  brandName: string;
+  // Image URL for HTML exports; PDF exports only embed data URLs
+  logoUrl?: string;
+  primaryColor: string;
+  accentColor: string;
+  // Replace the default cover title and subtitle
+  coverTitle?: string;
+  coverSubtitle?: string;
+  disclaimer?: string;
+}
+
+export interface ReportTemplateSelection {
+  templateId: string;
+  // Render the template in another language
+  locale?: ReportLocale;
+  // Per-report branding overrides on top of the template's own branding
+  branding?: Partial<ReportBranding>;
 }
 
 // Report Format
 export enum ReportFormat {
   HTML = 'html',
   PDF = 'pdf',
-  JSON = 'json'
-} 
\ No newline at end of file
+  JSON = 'json',
+  XLSX = 'xlsx',
+  CSV = 'csv'
+} 
+// Report History
+export interface ReportVersion {
+  assessmentId: string;
+  version: number;
+  savedAt: Date;
+  report: ReportData;
+}
+
+// Report Diff
+export interface ValueDelta {
+  previous: number;
+  current: number;
+  delta: number;
+}
+
+export interface CertificationRequirementChange {
+  id: string;
+  name: string;
+  marketCode: string;
+  costMinDelta: number;   // Previous cost converted into the current requirement's currency
+  costMaxDelta: number;
+  currency: string;
+  previousCurrency: string;
+  costComparable: boolean;   // False when the previous cost could not be converted; cost deltas are then 0
+  timelineDeltaInDays: number;
+}
+
+export interface ActionItemReprioritisation {
+  id: string;
+  name: string;
+  previousPriority: ActionItem['priority'];
+  currentPriority: ActionItem['priority'];
+}
+
+export interface ReportDiff {
+  previousGeneratedAt: Date;
+  currentGeneratedAt: Date;
+  hasChanges: boolean;
+  markets: {
+    added: TargetMarket[];
+    removed: TargetMarket[];
+  };
+  certificationRequirements: {
+    added: CertificationRequirement[];
+    removed: CertificationRequirement[];
+    changed: CertificationRequirementChange[];
+  };
+  totalEstimatedCost: {
+    min: ValueDelta;   // Previous totals converted into the current currency
+    max: ValueDelta;
+    currency: string;
+    previousCurrency: string;
+    comparable: boolean;   // False when the previous totals could not be converted; deltas are then 0
+  };
+  totalEstimatedTimelineInDays: ValueDelta;
+  budgetAmount: ValueDelta & {   // Previous budget converted into the current currency
+    currency: string;
+    previousCurrency: string;
+    comparable: boolean;   // False when the previous budget could not be converted; the delta is then 0
+  };
+  exportReadinessScore: ValueDelta;
+  actionItems: {
+    added: ActionItem[];
+    removed: ActionItem[];
+    reprioritised: ActionItemReprioritisation[];
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * A product to screen, as selected in the assessment
+ */
+export interface ScreenedProduct {
+  name: string;
+  description?: string;
+  hsCode?: string;
+}
+
+export interface ScreeningRequest {
+  // ISO 3166-1 alpha-2 code of the exporter's country; decides whose sanctions apply
+  exporterCountry?: string;
+  // Market codes as used in the assessment ("GB", "UAE", "SADC")
+  targetMarkets: string[];
+  products: ScreenedProduct[];
+}
+
+export type ScreeningList = 'country-embargo' | 'strategic-goods' | 'dual-use' | 'cites';
+
+export interface ScreeningHit {
+  list: ScreeningList;
+  // prohibition blocks the market; license means it can go ahead with a permit
+  restriction: 'prohibition' | 'license';
+  // Country the hit applies to; a member state when the market is a region
+  countryCode: string;
+  productName?: string;
+  hsCode?: string;
+  reason: string;
+  authority: string;
+  reference?: string;
+  url?: string;
+}
+
+export type ScreeningStatus = 'clear' | 'flagged' | 'blocked';
+
+export interface MarketScreeningResult {
+  marketCode: string;
+  status: ScreeningStatus;
+  hits: ScreeningHit[];
+}
+
+export interface ScreeningResult {
+  exporterCountry: string;
+  screenedAt: Date;
+  // Versions of the lists screened against, by list
+  listVersions: Record<string, string>;
+  markets: MarketScreeningResult[];
+  // Market codes that can't be exported to
+  blockedMarkets: string[];
+  flaggedMarkets: string[];
+}
@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileKeyValueStorage } from '../file-key-value-storage';
+
+describe('FileKeyValueStorage', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tradewizard-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep items across instances', () => {
+    const storage = new FileKeyValueStorage('store.json', dataDir);
+    storage.setItem('a', '1');
+    storage.setItem('b', '2');
+    storage.removeItem('a');
+
+    const reopened = new FileKeyValueStorage('store.json', dataDir);
+    expect(reopened.getItem('a')).toBeNull();
+    expect(reopened.getItem('b')).toBe('2');
+    expect(fs.readdirSync(dataDir)).toEqual(['store.json']);
+  });
+
+  it('should see writes made through another instance', () => {
+    const reader = new FileKeyValueStorage('store.json', dataDir);
+    expect(reader.getItem('a')).toBeNull();
+
+    new FileKeyValueStorage('store.json', dataDir).setItem('a', '1');
+    expect(reader.getItem('a')).toBe('1');
+  });
+
+  it('should start empty when the file does not exist yet', () => {
+    expect(new FileKeyValueStorage('nested/store.json', dataDir).getItem('a')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { KeyValueStorage } from './key-value-storage';
+
+// Server-side data lives here unless TRADEWIZARD_DATA_DIR points elsewhere
+export const DEFAULT_DATA_DIR = process.env.TRADEWIZARD_DATA_DIR || '.data';
+
+/**
+ * Durable key-value storage for server code, kept as one JSON file.
+ * Items are cached but re-read when the file changes, so API routes holding
+ * their own instance of the same file see each other's writes.
+ * Must only be imported from server code (API routes), as it writes to disk.
+ */
+export class FileKeyValueStorage implements KeyValueStorage {
+  private filePath: string;
+  private items?: Record<string, string>;
+  private loadedVersion?: string;
+
+  constructor(fileName: string, dataDir: string = DEFAULT_DATA_DIR) {
+    this.filePath = path.resolve(process.cwd(), dataDir, fileName);
+  }
+
+  getItem(key: string): string | null {
+    return this.load()[key] ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    const items = this.load();
+    items[key] = value;
+    this.flush(items);
+  }
+
+  removeItem(key: string): void {
+    const items = this.load();
+    delete items[key];
+    this.flush(items);
+  }
+
+  private load(): Record<string, string> {
+    const version = this.getFileVersion();
+    if (!this.items || version !== this.loadedVersion) {
+      this.items = version
+        ? JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<string, string>
+        : {};
+      this.loadedVersion = version;
+    }
+    return this.items;
+  }
+
+  /**
+   * Every write renames a new file into place, so the inode and modification
+   * time change whenever any instance writes
+   */
+  private getFileVersion(): string | undefined {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+    const stats = fs.statSync(this.filePath, { bigint: true });
+    return `${stats.ino}:${stats.mtimeNs}`;
+  }
+
+  /**
+   * Write to a temporary file first so a crash never leaves a half-written store
+   */
+  private flush(items: Record<string, string>): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(items));
+    fs.renameSync(tempPath, this.filePath);
+    this.loadedVersion = this.getFileVersion();
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Minimal key-value storage contract, satisfied by window.localStorage
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * In-memory storage used in Node.js environments where localStorage is unavailable
+ */
+export class MemoryKeyValueStorage implements KeyValueStorage {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key) as string : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * The given storage, else localStorage in the browser, else memory storage in Node.js
+ */
+export function resolveKeyValueStorage(storage?: KeyValueStorage): KeyValueStorage {
+  if (storage) {
+    return storage;
+  }
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return window.localStorage;
+  }
+  return new MemoryKeyValueStorage();
+}